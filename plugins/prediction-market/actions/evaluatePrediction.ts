@@ -4,15 +4,53 @@ import {
   Memory,
   State,
   HandlerCallback,
-  ModelClass
+  Content,
+  createUniqueUuid
 } from "@elizaos/core";
 
-interface PredictionEvaluationContent {
+import { getCredentialVault } from "../../../src/credentials/vault";
+import { retrieveEvidence } from "../../../src/evidence/retrieve";
+import { getLLMAdapter } from "../../../src/llm/registry";
+import { resolveMarket } from "../../../src/markets/resolve";
+import { getMarketStore } from "../../../src/markets/store";
+import { ConsensusResult, runConsensus } from "../../../src/oracle/consensus";
+import {
+  MarketSpec,
+  describeOutcomes,
+  optionLabel,
+  parseMarketSpec
+} from "../../../src/oracle/outcomes";
+import { PredictionPromptInput, renderPredictionPrompt } from "../../../src/oracle/prompt";
+import {
+  ConsensusStrategyConfig,
+  ConsensusStrategyName,
+  parseConsensusStrategy
+} from "../../../src/oracle/strategies";
+import { ProviderCall } from "../../../src/oracle/types";
+import { parseMarketCategory, parseResolutionFields, parseTemplateSelector } from "../../../src/prompts/library";
+import { renderTemplate } from "../../../src/prompts/render";
+import { MarketCategory, ResolutionFields, TemplateSelector } from "../../../src/prompts/types";
+import { screenText, screeningInput, screeningRejection } from "../../../src/screening/screen";
+import { getLatestDetectedMarket } from "../evaluators/predictionMarket";
+
+export interface PredictionEvaluationContent extends Content {
   text: string;
   question: string;
-  optionA: string;
-  optionB: string;
+  // Binary markets
+  optionA?: string;
+  optionB?: string;
+  // Categorical or scalar markets
+  market?: MarketSpec;
+  // Resolve a market from the registry instead of an ad-hoc question
+  marketId?: string;
+  // Picks the prompt template for ad-hoc questions; registered markets use their own
+  category?: MarketCategory;
+  template?: TemplateSelector | string;
+  resolutionCriteria?: string;
+  resolution?: ResolutionFields;
   providers?: string[];
+  earlyQuorum?: boolean;
+  strategy?: ConsensusStrategyName | ConsensusStrategyConfig;
 }
 
 interface LLMProvider {
@@ -21,27 +59,6 @@ interface LLMProvider {
   apiKey?: string;
 }
 
-interface ProviderResponse {
-  provider: string;
-  model: string;
-  optionATrue: boolean;
-  optionBTrue: boolean;
-  confidence: number;
-  reasoning: string;
-}
-
-interface ConsensusResult {
-  optionATrue: boolean;
-  optionBTrue: boolean;
-  confidence: number;
-  reasoning: string;
-  providers: string[];
-  votes: {
-    optionA: number;
-    optionB: number;
-  };
-}
-
 const LLM_PROVIDERS: LLMProvider[] = [
   {
     name: "openai",
@@ -57,164 +74,182 @@ const LLM_PROVIDERS: LLMProvider[] = [
   }
 ];
 
+export const PREDICTION_RESULT_ACTION = "prediction_evaluated";
+
+// Usage ledger label for calls the agent makes on its own behalf
+const AGENT_TENANT_ID = "agent";
+
 const CONSENSUS_THRESHOLD = 2;
 const MIN_CONFIDENCE = 0.7;
 
-async function callLLMProvider(
-  runtime: IAgentRuntime,
-  provider: LLMProvider,
-  question: string,
-  optionA: string,
-  optionB: string
-): Promise<ProviderResponse | null> {
-  const prompt = `
-You are an AI oracle tasked with evaluating prediction market outcomes based on available information.
-
-Question: ${question}
-Option A: ${optionA}
-Option B: ${optionB}
-
-Please analyze the question and determine which option is more likely to be true based on:
-1. Current factual information
-2. Historical trends
-3. Logical reasoning
-4. Available evidence
-
-Respond with a JSON object containing:
-{
-  "optionATrue": boolean (true if Option A is more likely),
-  "optionBTrue": boolean (true if Option B is more likely), 
-  "confidence": number (0-1, confidence in your assessment),
-  "reasoning": "string (brief explanation of your reasoning)"
+// Two agreeing providers out of the panel, as before strategies were configurable
+const DEFAULT_STRATEGY: ConsensusStrategyConfig = {
+  name: "supermajority",
+  required: CONSENSUS_THRESHOLD,
+  minConfidence: MIN_CONFIDENCE
+};
+
+/**
+ * Binary requests use optionA/optionB; other market types pass a market spec
+ */
+function resolveMarketSpec(content: PredictionEvaluationContent): MarketSpec | null {
+  if (content.market) {
+    return parseMarketSpec(content.market);
+  }
+  if (content.optionA && content.optionB) {
+    return { type: "binary", options: [content.optionA, content.optionB] };
+  }
+  return null;
 }
 
-Important: 
-- Only one option can be true unless the question allows for both
-- If uncertain or evidence is insufficient, set confidence < 0.7
-- Provide clear, factual reasoning
-`;
-
-  try {
-    // Get API key from environment or runtime
-    const apiKey = process.env[`${provider.name.toUpperCase()}_API_KEY`] || 
-                   runtime.getSetting(`${provider.name}ApiKey`);
-    
-    if (!apiKey) {
-      console.warn(`No API key configured for ${provider.name}`);
-      return null;
-    }
+function describeResult(consensus: ConsensusResult): string {
+  if (consensus.verdict !== "RESOLVED") {
+    return `${consensus.verdict} (${consensus.reasonCode})`;
+  }
+  if (consensus.market.type === "scalar") {
+    return `${consensus.value}${consensus.market.unit ? ` ${consensus.market.unit}` : ''}`;
+  }
+  if (consensus.winningOption === null) {
+    return 'Neither';
+  }
+  return consensus.market.type === "binary"
+    ? (consensus.winningOption === 0 ? 'Option A' : 'Option B')
+    : optionLabel(consensus.market, consensus.winningOption);
+}
 
-    // Create a temporary character configuration for this provider
-    const tempCharacter = {
-      ...runtime.character,
-      modelProvider: provider.name,
-      settings: {
-        model: provider.model,
-        temperature: 0.1,
-        maxTokens: 500
-      }
-    };
-
-    // Use the runtime to generate response with this provider
-    const response = await runtime.generateText({
-      prompt,
-      character: tempCharacter,
-      context: `Evaluating prediction market question with ${provider.name}`
-    });
-
-    // Extract JSON from response
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error(`No JSON found in ${provider.name} response`);
-      return null;
-    }
+function resolveProviderCall(
+  runtime: IAgentRuntime,
+  provider: LLMProvider
+): ProviderCall | null {
+  // Agent-level keys take precedence; otherwise the server credential vault supplies one
+  const apiKey = provider.apiKey || runtime.getSetting(`${provider.name}ApiKey`);
+  
+  if (!apiKey && !getCredentialVault().has(provider.name) &&
+      getLLMAdapter(provider.name)?.requiresApiKey !== false) {
+    console.warn(`No API key configured for ${provider.name}`);
+    return null;
+  }
 
-    const parsed = JSON.parse(jsonMatch[0]);
-    
-    // Validate response structure
-    if (typeof parsed.optionATrue !== 'boolean' || 
-        typeof parsed.optionBTrue !== 'boolean' ||
-        typeof parsed.confidence !== 'number' ||
-        typeof parsed.reasoning !== 'string') {
-      console.error(`Invalid response structure from ${provider.name}`);
-      return null;
-    }
+  return {
+    provider: provider.name,
+    model: provider.model,
+    apiKey: apiKey || undefined
+  };
+}
 
-    return {
-      provider: provider.name,
-      model: provider.model,
-      optionATrue: parsed.optionATrue,
-      optionBTrue: parsed.optionBTrue,
-      confidence: parsed.confidence,
-      reasoning: parsed.reasoning
-    };
-
-  } catch (error) {
-    console.error(`Error calling ${provider.name}:`, error);
-    return null;
+/**
+ * The agent's panel: ORACLE_PANEL ("provider:model,...", e.g. "mock:yes,mock:no" for
+ * offline runs) or the built-in providers
+ */
+function configuredPanel(runtime: IAgentRuntime): LLMProvider[] {
+  const setting = runtime.getSetting("ORACLE_PANEL");
+  if (typeof setting !== "string" || !setting.trim()) {
+    return LLM_PROVIDERS;
   }
+  return setting.split(",").map(entry => {
+    const [name, ...model] = entry.trim().split(":");
+    return { name, model: model.join(":") };
+  });
 }
 
-async function getConsensus(
+function resolveProviderCalls(
   runtime: IAgentRuntime,
-  question: string,
-  optionA: string,
-  optionB: string,
   enabledProviders?: string[]
-): Promise<ConsensusResult> {
-  const responses: ProviderResponse[] = [];
-  
+): ProviderCall[] {
+  const panel = configuredPanel(runtime);
+
   // Filter providers if specific ones are requested
   const providersToUse = enabledProviders 
-    ? LLM_PROVIDERS.filter(p => enabledProviders.includes(p.name))
-    : LLM_PROVIDERS;
-
-  // Collect responses from all providers
-  for (const provider of providersToUse) {
-    const response = await callLLMProvider(runtime, provider, question, optionA, optionB);
-    if (response && response.confidence >= MIN_CONFIDENCE) {
-      responses.push(response);
-    }
+    ? panel.filter(p => enabledProviders.includes(p.name))
+    : panel;
+
+  return providersToUse
+    .map(provider => resolveProviderCall(runtime, provider))
+    .filter((call): call is ProviderCall => call !== null);
+}
+
+type PromptFields = Pick<PredictionPromptInput, 'category' | 'template' | 'resolutionCriteria' | 'resolution'>;
+
+/**
+ * Template choice and resolution fields from the message, validated like the HTTP API's
+ */
+function promptFields(content: PredictionEvaluationContent): PromptFields {
+  return {
+    category: parseMarketCategory(content.category),
+    template: parseTemplateSelector(content.template),
+    resolutionCriteria: content.resolutionCriteria,
+    resolution: parseResolutionFields(content.resolution)
+  };
+}
+
+async function getConsensus(
+  runtime: IAgentRuntime,
+  question: string,
+  market: MarketSpec,
+  fields: PromptFields,
+  enabledProviders?: string[],
+  earlyQuorum?: boolean,
+  strategy: ConsensusStrategyConfig = DEFAULT_STRATEGY
+): Promise<ConsensusResult> {
+  // Ad-hoc questions have no one to review them, so clear injection attempts are refused
+  const screening = screenText(screeningInput({ ...fields, question, market }));
+  const rejection = screeningRejection(screening);
+  if (rejection) {
+    throw new Error(rejection);
   }
 
-  if (responses.length === 0) {
+  const citations = await retrieveEvidence({ question, market, resolutionCriteria: fields.resolutionCriteria });
+  const { prompt, template } = renderPredictionPrompt({ ...fields, question, market, citations });
+
+  // Query all providers in parallel, same fan-out as /oracle/consensus
+  const consensus = await runConsensus({
+    prompt,
+    template,
+    providers: resolveProviderCalls(runtime, enabledProviders),
+    strategy,
+    market,
+    timeoutMs: Number(runtime.getSetting("ORACLE_PROVIDER_TIMEOUT_MS")) || undefined,
+    // runConsensus sizes the quorum: strategy.required, else a strict majority of the panel
+    earlyQuorum: earlyQuorum || undefined,
+    tenantId: AGENT_TENANT_ID,
+    citations,
+    screening
+  });
+
+  if (consensus.providers.length === 0) {
     throw new Error("No valid responses received from AI providers");
   }
 
-  // Calculate consensus
-  let optionAVotes = 0;
-  let optionBVotes = 0;
-  let totalConfidence = 0;
-  const reasonings: string[] = [];
-  const usedProviders: string[] = [];
-
-  for (const response of responses) {
-    if (response.optionATrue && !response.optionBTrue) {
-      optionAVotes++;
-    } else if (response.optionBTrue && !response.optionATrue) {
-      optionBVotes++;
-    }
+  return consensus;
+}
 
-    totalConfidence += response.confidence;
-    reasonings.push(`${response.provider}: ${response.reasoning}`);
-    usedProviders.push(response.provider);
+/**
+ * Resolves a registered market and records the verdict on it
+ */
+async function getMarketConsensus(
+  runtime: IAgentRuntime,
+  marketId: string,
+  enabledProviders?: string[],
+  earlyQuorum?: boolean,
+  strategy: ConsensusStrategyConfig = DEFAULT_STRATEGY
+): Promise<ConsensusResult> {
+  const outcome = await resolveMarket(getMarketStore(), marketId, {
+    providers: resolveProviderCalls(runtime, enabledProviders),
+    strategy,
+    timeoutMs: Number(runtime.getSetting("ORACLE_PROVIDER_TIMEOUT_MS")) || undefined,
+    // runConsensus sizes the quorum: strategy.required, else a strict majority of the panel
+    earlyQuorum: earlyQuorum || undefined,
+    tenantId: AGENT_TENANT_ID
+  });
+
+  if (!outcome) {
+    throw new Error(`Market not found: ${marketId}`);
+  }
+  if (outcome.consensus.providers.length === 0) {
+    throw new Error("No valid responses received from AI providers");
   }
 
-  const avgConfidence = totalConfidence / responses.length;
-  const optionAConsensus = optionAVotes >= CONSENSUS_THRESHOLD;
-  const optionBConsensus = optionBVotes >= CONSENSUS_THRESHOLD;
-
-  return {
-    optionATrue: optionAConsensus,
-    optionBTrue: optionBConsensus,
-    confidence: avgConfidence,
-    reasoning: reasonings.join('; '),
-    providers: usedProviders,
-    votes: {
-      optionA: optionAVotes,
-      optionB: optionBVotes
-    }
-  };
+  return outcome.consensus;
 }
 
 export const evaluatePredictionAction: Action = {
@@ -224,49 +259,85 @@ export const evaluatePredictionAction: Action = {
   
   validate: async (runtime: IAgentRuntime, message: Memory) => {
     const content = message.content as PredictionEvaluationContent;
-    return !!(content.question && content.optionA && content.optionB);
+    if (content.marketId || (content.question && ((content.optionA && content.optionB) || content.market))) {
+      return true;
+    }
+
+    // Fall back to a market the evaluator picked up from conversation
+    return !!(await getLatestDetectedMarket(runtime, message.roomId));
   },
 
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
-    state: State,
-    options: any,
+    state?: State,
+    options?: any,
     callback?: HandlerCallback
   ) => {
     try {
-      const content = message.content as PredictionEvaluationContent;
+      let content = message.content as PredictionEvaluationContent;
+      const strategy = parseConsensusStrategy(content.strategy, DEFAULT_STRATEGY);
+
+      if (content.marketId) {
+        const stored = await getMarketStore().get(content.marketId);
+        if (!stored) {
+          throw new Error(`Market not found: ${content.marketId}`);
+        }
+        content = {
+          ...content,
+          question: stored.question,
+          market: stored.market,
+          optionA: stored.market.type === "binary" ? optionLabel(stored.market, 0) : undefined,
+          optionB: stored.market.type === "binary" ? optionLabel(stored.market, 1) : undefined
+        };
+      } else if (!(content.question && ((content.optionA && content.optionB) || content.market))) {
+        const detected = await getLatestDetectedMarket(runtime, message.roomId);
+        if (!detected) {
+          throw new Error("No prediction market question found to evaluate");
+        }
+        content = {
+          ...detected,
+          providers: content.providers,
+          earlyQuorum: content.earlyQuorum,
+          strategy: content.strategy
+        };
+      }
       
+      const market = resolveMarketSpec(content);
+      if (!market) {
+        throw new Error("Prediction needs optionA/optionB or a market spec");
+      }
+
       console.log(`Evaluating prediction: ${content.question}`);
-      console.log(`Option A: ${content.optionA}`);
-      console.log(`Option B: ${content.optionB}`);
+      console.log(describeOutcomes(market));
 
       // Get consensus from multiple LLMs
-      const consensus = await getConsensus(
-        runtime,
-        content.question,
-        content.optionA,
-        content.optionB,
-        content.providers
-      );
+      const consensus = content.marketId
+        ? await getMarketConsensus(runtime, content.marketId, content.providers, content.earlyQuorum, strategy)
+        : await getConsensus(runtime, content.question, market, promptFields(content), content.providers, content.earlyQuorum, strategy);
 
       // Format response using character template
-      const template = runtime.character.templates?.consensusResult || 
-        "AI Consensus Result:\n\nQuestion: {{question}}\nResult: Option {{result}} more likely\nConfidence: {{confidence}}%\nProviders: {{providers}}\nVotes: A={{votesA}}, B={{votesB}}\n\nReasoning: {{reasoning}}";
-
-      const resultText = template
-        .replace('{{question}}', content.question)
-        .replace('{{result}}', consensus.optionATrue ? 'A' : (consensus.optionBTrue ? 'B' : 'Neither'))
-        .replace('{{confidence}}', Math.round(consensus.confidence * 100).toString())
-        .replace('{{providers}}', consensus.providers.join(', '))
-        .replace('{{votesA}}', consensus.votes.optionA.toString())
-        .replace('{{votesB}}', consensus.votes.optionB.toString())
-        .replace('{{reasoning}}', consensus.reasoning);
+      const characterTemplate = runtime.character.templates?.consensusResult;
+      const template = typeof characterTemplate === 'string' ? characterTemplate :
+        "AI Consensus Result:\n\nQuestion: {{question}}\nResult: {{result}} more likely\nConfidence: {{confidence}}%\nProviders: {{providers}}\nVotes: A={{votesA}}, B={{votesB}}\n\nReasoning: {{reasoning}}";
+
+      // Same placeholder engine as the oracle prompt templates
+      const resultText = renderTemplate(template, {
+        marketId: content.marketId || 'unregistered',
+        question: content.question,
+        result: describeResult(consensus),
+        confidence: Math.round(consensus.confidence * 100).toString(),
+        providers: consensus.providers.join(', '),
+        votesA: consensus.votes.optionA.toString(),
+        votesB: consensus.votes.optionB.toString(),
+        reasoning: consensus.reasoning,
+        template: consensus.template ? `${consensus.template.id}@${consensus.template.version}` : undefined
+      });
 
       // Store evaluation result in memory
-      await runtime.messageManager.createMemory({
-        id: `${message.id}-prediction-result`,
-        userId: message.userId,
+      await runtime.createMemory({
+        id: createUniqueUuid(runtime, `${message.id}-prediction-result`),
+        entityId: message.entityId,
         agentId: runtime.agentId,
         roomId: message.roomId,
         content: {
@@ -274,11 +345,13 @@ export const evaluatePredictionAction: Action = {
           question: content.question,
           optionA: content.optionA,
           optionB: content.optionB,
+          market,
+          marketId: content.marketId,
           consensus: consensus,
-          action: "prediction_evaluated"
+          action: PREDICTION_RESULT_ACTION
         },
         createdAt: Date.now()
-      });
+      }, "messages");
 
       if (callback) {
         callback({
@@ -293,12 +366,13 @@ export const evaluatePredictionAction: Action = {
     } catch (error) {
       console.error("Error in evaluatePredictionAction:", error);
       
-      const errorMessage = `Error evaluating prediction: ${error.message}`;
+      const details = error instanceof Error ? error.message : 'Unknown error';
+      const errorMessage = `Error evaluating prediction: ${details}`;
       
       if (callback) {
         callback({
           text: errorMessage,
-          error: error.message
+          error: details
         });
       }
       
@@ -309,7 +383,7 @@ export const evaluatePredictionAction: Action = {
   examples: [
     [
       {
-        user: "user",
+        name: "user",
         content: {
           text: "Evaluate this prediction: Will Bitcoin reach $100,000 by end of 2025?",
           question: "Will Bitcoin reach $100,000 by end of 2025?",
@@ -318,7 +392,7 @@ export const evaluatePredictionAction: Action = {
         }
       },
       {
-        user: "oracle",
+        name: "oracle",
         content: {
           text: "Analyzing Bitcoin price prediction...\n\nEvaluating multiple market factors and historical data to determine likelihood of Bitcoin reaching $100,000 by end of 2025.",
           action: "EVALUATE_PREDICTION"
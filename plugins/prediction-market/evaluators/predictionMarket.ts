@@ -0,0 +1,219 @@
+import {
+  Evaluator,
+  IAgentRuntime,
+  Memory,
+  State,
+  UUID,
+  ModelType,
+  createUniqueUuid,
+  parseJSONObjectFromText
+} from "@elizaos/core";
+
+import { renderTemplate } from "../../../src/prompts/render";
+import type { PredictionEvaluationContent } from "../actions/evaluatePrediction";
+
+export const MARKET_DETECTED_ACTION = "prediction_market_detected";
+
+interface DetectedMarket {
+  question: string;
+  optionA: string;
+  optionB: string;
+}
+
+// Phrases that mark a message as a question about a future outcome
+const PREDICTION_PATTERNS = [
+  /\bwill\b[\s\S]+\?/i,
+  /\b(predict|prediction|odds|likelihood|chance)\b/i,
+  /\bby (the )?end of \d{4}\b/i,
+  /\bbefore (q[1-4]|\d{4})\b/i
+];
+
+const EXTRACTION_TEMPLATE = `
+Extract the prediction market from the message below.
+
+Message: {{text}}
+
+Respond with a JSON object containing:
+{
+  "question": "string (the yes/no or either/or question being asked)",
+  "optionA": "string (first possible outcome, stated as a full sentence)",
+  "optionB": "string (second possible outcome, stated as a full sentence)"
+}
+
+If the message does not contain a prediction question, respond with {}.
+`;
+
+function looksLikePrediction(text: string): boolean {
+  return PREDICTION_PATTERNS.some(pattern => pattern.test(text));
+}
+
+/**
+ * Picks up explicitly labelled options, e.g. "Option A: ... Option B: ..."
+ */
+function extractExplicitMarket(text: string): DetectedMarket | null {
+  const optionA = text.match(/option\s*a\s*[:\-]\s*(.+?)(?=\s*option\s*b\s*[:\-]|\n|$)/i);
+  const optionB = text.match(/option\s*b\s*[:\-]\s*(.+?)(?=\n|$)/i);
+  if (!optionA || !optionB) {
+    return null;
+  }
+
+  const question = text.match(/[^.\n]*\?/);
+  return {
+    question: (question ? question[0] : text.split(/option\s*a/i)[0]).trim(),
+    optionA: optionA[1].trim(),
+    optionB: optionB[1].trim()
+  };
+}
+
+async function extractMarketWithModel(
+  runtime: IAgentRuntime,
+  text: string
+): Promise<DetectedMarket | null> {
+  try {
+    const response = await runtime.useModel(ModelType.TEXT_SMALL, {
+      prompt: renderTemplate(EXTRACTION_TEMPLATE, { text }),
+      temperature: 0
+    });
+
+    const parsed = parseJSONObjectFromText(response);
+    if (!parsed ||
+        typeof parsed.question !== 'string' ||
+        typeof parsed.optionA !== 'string' ||
+        typeof parsed.optionB !== 'string') {
+      return null;
+    }
+
+    return {
+      question: parsed.question,
+      optionA: parsed.optionA,
+      optionB: parsed.optionB
+    };
+  } catch (error) {
+    console.error("Error extracting prediction market:", error);
+    return null;
+  }
+}
+
+/**
+ * Falls back to a plain yes/no market built from the first question in the text
+ */
+function extractBinaryMarket(text: string): DetectedMarket | null {
+  const question = text.match(/[^.!\n]*\?/);
+  if (!question) {
+    return null;
+  }
+
+  const trimmed = question[0].trim();
+  return {
+    question: trimmed,
+    optionA: `Yes: ${trimmed}`,
+    optionB: `No: ${trimmed}`
+  };
+}
+
+/**
+ * Returns the most recent market recorded by the evaluator in a room
+ */
+export async function getLatestDetectedMarket(
+  runtime: IAgentRuntime,
+  roomId: UUID
+): Promise<PredictionEvaluationContent | null> {
+  const memories = await runtime.getMemories({
+    tableName: "messages",
+    roomId,
+    count: 20
+  });
+
+  const latest = memories
+    .filter(memory => memory.content.action === MARKET_DETECTED_ACTION)
+    .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0))[0];
+
+  return latest ? (latest.content as PredictionEvaluationContent) : null;
+}
+
+export const predictionMarketEvaluator: Evaluator = {
+  name: "PREDICTION_MARKET_DETECTOR",
+  similes: ["DETECT_PREDICTION", "EXTRACT_MARKET"],
+  description: "Detects prediction market questions in conversation and records the question and options for evaluation",
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = message.content as Partial<PredictionEvaluationContent>;
+
+    // Structured requests are handled by EVALUATE_PREDICTION directly
+    if (content.question && content.optionA && content.optionB) {
+      return false;
+    }
+
+    return !!content.text && looksLikePrediction(content.text);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State
+  ) => {
+    const text = message.content.text || "";
+
+    const market = extractExplicitMarket(text) ||
+      await extractMarketWithModel(runtime, text) ||
+      extractBinaryMarket(text);
+
+    if (!market) {
+      return null;
+    }
+
+    console.log(`Detected prediction market: ${market.question}`);
+
+    await runtime.createMemory({
+      id: createUniqueUuid(runtime, `${message.id}-prediction-market`),
+      entityId: message.entityId,
+      agentId: runtime.agentId,
+      roomId: message.roomId,
+      content: {
+        text: `Prediction market detected: ${market.question}`,
+        question: market.question,
+        optionA: market.optionA,
+        optionB: market.optionB,
+        action: MARKET_DETECTED_ACTION
+      },
+      createdAt: Date.now()
+    }, "messages");
+
+    return market;
+  },
+
+  examples: [
+    {
+      prompt: "A user asks about the outcome of a future event",
+      messages: [
+        {
+          name: "user",
+          content: {
+            text: "Will Bitcoin reach $100,000 by end of 2025?"
+          }
+        }
+      ],
+      outcome: `{
+  "question": "Will Bitcoin reach $100,000 by end of 2025?",
+  "optionA": "Bitcoin will reach $100,000 by December 31, 2025",
+  "optionB": "Bitcoin will not reach $100,000 by December 31, 2025"
+}`
+    },
+    {
+      prompt: "A user lists the outcomes explicitly",
+      messages: [
+        {
+          name: "user",
+          content: {
+            text: "Who wins the 2026 World Cup final?\nOption A: Brazil wins\nOption B: Brazil does not win"
+          }
+        }
+      ],
+      outcome: `{
+  "question": "Who wins the 2026 World Cup final?",
+  "optionA": "Brazil wins",
+  "optionB": "Brazil does not win"
+}`
+    }
+  ]
+};
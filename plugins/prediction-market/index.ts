@@ -6,7 +6,6 @@ import {
   Provider,
   State,
   HandlerCallback,
-  ModelClass,
   Character,
   Evaluator
 } from "@elizaos/core";
@@ -24,8 +23,7 @@ export const predictionMarketPlugin: Plugin = {
   description: "AI Oracle plugin for prediction market evaluation and consensus",
   actions: [evaluatePredictionAction],
   providers: [multiLLMConsensusProvider],
-  evaluators: [predictionMarketEvaluator],
-  clients: []
+  evaluators: [predictionMarketEvaluator]
 };
 
 export default predictionMarketPlugin; 
\ No newline at end of file
@@ -0,0 +1,197 @@
+import {
+  IAgentRuntime,
+  Memory,
+  Provider,
+  State,
+  addHeader
+} from "@elizaos/core";
+
+import { getMarketStore } from "../../../src/markets/store";
+import { Market } from "../../../src/markets/types";
+import { MarketSpec, optionLabel } from "../../../src/oracle/outcomes";
+import { PREDICTION_RESULT_ACTION } from "../actions/evaluatePrediction";
+import { MARKET_DETECTED_ACTION } from "../evaluators/predictionMarket";
+
+const MAX_RESULTS = 3;
+
+interface StoredConsensus {
+  verdict?: string;
+  reasonCode?: string | null;
+  optionATrue: boolean;
+  optionBTrue: boolean;
+  winningOption?: number | null;
+  value?: number | null;
+  confidence: number;
+  providers: string[];
+  votes: {
+    optionA: number;
+    optionB: number;
+  };
+  optionVotes?: number[];
+  market?: MarketSpec;
+}
+
+function formatOutcome(consensus: StoredConsensus): string {
+  const market = consensus.market;
+
+  if (consensus.verdict && consensus.verdict !== 'RESOLVED') {
+    return `${consensus.verdict} (${consensus.reasonCode})`;
+  }
+
+  if (market?.type === 'scalar') {
+    return consensus.value !== null && consensus.value !== undefined
+      ? `${consensus.value}${market.unit ? ` ${market.unit}` : ''}`
+      : 'No consensus';
+  }
+
+  if (market?.type === 'categorical') {
+    const votes = (consensus.optionVotes || [])
+      .map((count, index) => `${optionLabel(market, index)}=${count}`)
+      .join(', ');
+    const result = consensus.winningOption !== null && consensus.winningOption !== undefined
+      ? optionLabel(market, consensus.winningOption)
+      : 'Neither';
+    return `${result} (votes ${votes})`;
+  }
+
+  const result = consensus.optionATrue ? 'A' : (consensus.optionBTrue ? 'B' : 'Neither');
+  return `Option ${result} (votes A=${consensus.votes.optionA}, B=${consensus.votes.optionB})`;
+}
+
+function formatResult(content: Memory["content"]): string {
+  const consensus = content.consensus as StoredConsensus;
+
+  return [
+    `Question: ${content.question}`,
+    `Result: ${formatOutcome(consensus)}`,
+    `Confidence: ${Math.round(consensus.confidence * 100)}%`,
+    `Providers: ${consensus.providers.join(', ')}`
+  ].join('\n');
+}
+
+function formatTimeRemaining(closeTime?: string): string {
+  if (!closeTime) {
+    return "no close time";
+  }
+
+  const remainingMs = new Date(closeTime).getTime() - Date.now();
+  if (remainingMs <= 0) {
+    return "closed";
+  }
+
+  const hours = Math.floor(remainingMs / (60 * 60 * 1000));
+  return hours >= 24
+    ? `${Math.floor(hours / 24)}d ${hours % 24}h`
+    : `${hours}h ${Math.floor(remainingMs / (60 * 1000)) % 60}m`;
+}
+
+function formatOdds(market: Market, index: number): string {
+  const odds = market.odds?.[index];
+  return odds !== undefined ? Math.round(odds * 100).toString() : "unknown";
+}
+
+/**
+ * Template values for a market from the registry ({{marketId}}, {{oddsA}}, ...)
+ */
+function registeredMarketValues(market: Market | null): Record<string, string> {
+  if (!market) {
+    return {};
+  }
+
+  return {
+    marketId: market.id,
+    marketStatus: market.status,
+    oddsA: formatOdds(market, 0),
+    oddsB: formatOdds(market, 1),
+    totalVolume: market.totalVolume !== undefined ? market.totalVolume.toString() : "unknown",
+    timeRemaining: formatTimeRemaining(market.closeTime)
+  };
+}
+
+/**
+ * Multi-LLM Consensus Provider
+ * Exposes recent oracle results, the open market under discussion and any registered
+ * market referenced by the message to agent state
+ */
+export const multiLLMConsensusProvider: Provider = {
+  name: "MULTI_LLM_CONSENSUS",
+  description: "Recent multi-LLM consensus results and the prediction market currently under discussion",
+
+  get: async (runtime: IAgentRuntime, message: Memory, state: State) => {
+    const memories = await runtime.getMemories({
+      tableName: "messages",
+      roomId: message.roomId,
+      count: 50
+    });
+
+    const sorted = [...memories].sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
+
+    const results = sorted
+      .filter(memory => memory.content.action === PREDICTION_RESULT_ACTION && memory.content.consensus)
+      .slice(0, MAX_RESULTS);
+
+    // A detected market stays open until a consensus result exists for its question
+    const evaluatedQuestions = new Set(results.map(memory => memory.content.question));
+    const openMarket = sorted.find(memory =>
+      memory.content.action === MARKET_DETECTED_ACTION &&
+      !evaluatedQuestions.has(memory.content.question)
+    );
+
+    const marketId = message.content.marketId as string | undefined;
+    const registeredMarket = marketId ? await getMarketStore().get(marketId) : null;
+
+    const sections: string[] = [];
+
+    if (registeredMarket) {
+      const values = registeredMarketValues(registeredMarket);
+      sections.push(addHeader(
+        "# Registered Prediction Market",
+        [
+          `Market: ${registeredMarket.id} (${registeredMarket.status})`,
+          `Question: ${registeredMarket.question}`,
+          `Odds: Option A ${values.oddsA}%, Option B ${values.oddsB}%`,
+          `Total volume: ${values.totalVolume}`,
+          `Time remaining: ${values.timeRemaining}`
+        ].join('\n')
+      ));
+    }
+
+    if (openMarket) {
+      sections.push(addHeader(
+        "# Open Prediction Market",
+        [
+          `Question: ${openMarket.content.question}`,
+          `Option A: ${openMarket.content.optionA}`,
+          `Option B: ${openMarket.content.optionB}`
+        ].join('\n')
+      ));
+    }
+
+    if (results.length > 0) {
+      sections.push(addHeader(
+        "# Recent Oracle Consensus Results",
+        results.map(memory => formatResult(memory.content)).join('\n\n')
+      ));
+    }
+
+    return {
+      values: {
+        ...registeredMarketValues(registeredMarket),
+        openMarketQuestion: openMarket ? String(openMarket.content.question) : "",
+        lastConsensusResult: results.length > 0 ? formatResult(results[0].content) : ""
+      },
+      data: {
+        registeredMarket,
+        openMarket: openMarket ? openMarket.content : null,
+        consensusResults: results.map(memory => ({
+          question: memory.content.question,
+          optionA: memory.content.optionA,
+          optionB: memory.content.optionB,
+          market: memory.content.market,
+          consensus: memory.content.consensus
+        }))
+      },
+      text: sections.join('\n\n')
+    };
+  }
+};
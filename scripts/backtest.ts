@@ -0,0 +1,135 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { parseBacktestConfig } from '../src/api/backtest';
+import { readBacktestDataset } from '../src/backtest/dataset';
+import { runBacktest } from '../src/backtest/run';
+import { BacktestReport } from '../src/backtest/types';
+
+/**
+ * Backtests oracle settings against a labeled dataset of resolved markets.
+ *
+ *   npm run backtest -- <dataset.json|.jsonl> [--mode replay|live]
+ *     [--providers openai:gpt-4o,anthropic:claude-sonnet-4-5] [--strategy majority]
+ *     [--threshold 0.6] [--min-confidence 0.8] [--required 2]
+ *     [--evidence] [--no-cache] [--record recorded.json] [--json]
+ *
+ * --record writes the dataset back with each case's responses, so a live run can be
+ * replayed under other settings without calling the providers again.
+ */
+
+dotenv.config({ path: '../.env' });
+
+function parseArgs(argv: string[]): { dataset?: string; flags: Record<string, string | true> } {
+  const flags: Record<string, string | true> = {};
+  let dataset: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      dataset = arg;
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      flags[arg.slice(2)] = argv[++i];
+    } else {
+      flags[arg.slice(2)] = true;
+    }
+  }
+  return { dataset, flags };
+}
+
+function numberFlag(value: string | true | undefined): number | undefined {
+  return typeof value === 'string' ? Number(value) : undefined;
+}
+
+function percent(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+function decimal(value: number | null): string {
+  return value === null ? 'n/a' : value.toFixed(4);
+}
+
+function printReport(report: BacktestReport): void {
+  console.log(`\nBacktest (${report.mode}, ${report.strategy.name}, threshold ${report.strategy.threshold}, ` +
+    `minConfidence ${report.strategy.minConfidence})`);
+  console.log(`Cases:             ${report.scored} scored, ${report.errors} failed`);
+  console.log(`Accuracy:          ${percent(report.accuracy)}`);
+  console.log(`Resolved accuracy: ${percent(report.resolvedAccuracy)}`);
+  console.log(`Abstain rate:      ${percent(report.abstainRate)}`);
+  console.log(`Brier score:       ${decimal(report.brierScore)}`);
+  if (report.usage.calls > 0) {
+    console.log(`Cost:              $${report.usage.costUsd.toFixed(4)} over ${report.usage.calls} calls`);
+  }
+
+  console.log('\nProvider                          answered  agreement  accuracy  brier');
+  for (const stats of report.providers) {
+    console.log(
+      `${`${stats.provider}/${stats.model}`.padEnd(34)}` +
+      `${`${stats.answered}/${stats.calls}`.padEnd(10)}` +
+      `${percent(stats.agreement).padEnd(11)}` +
+      `${percent(stats.accuracy).padEnd(10)}` +
+      decimal(stats.brierScore)
+    );
+  }
+
+  for (const result of report.results.filter(result => result.error)) {
+    console.log(`\n${result.id} failed: ${result.error}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const { dataset, flags } = parseArgs(process.argv.slice(2));
+  if (!dataset) {
+    console.error('Usage: npm run backtest -- <dataset.json|.jsonl> [--mode replay|live] [--providers provider:model,...]');
+    process.exit(1);
+  }
+
+  const cases = readBacktestDataset(dataset);
+  const strategy = typeof flags.strategy === 'string' || flags.threshold || flags['min-confidence'] || flags.required
+    ? {
+        name: typeof flags.strategy === 'string' ? flags.strategy : 'majority',
+        threshold: numberFlag(flags.threshold),
+        minConfidence: numberFlag(flags['min-confidence']),
+        required: numberFlag(flags.required)
+      }
+    : undefined;
+  const config = parseBacktestConfig({
+    mode: typeof flags.mode === 'string' ? flags.mode : undefined,
+    providers: typeof flags.providers === 'string'
+      ? flags.providers.split(',').map(entry => {
+          const [provider, ...model] = entry.trim().split(':');
+          return { provider, model: model.join(':') };
+        })
+      : undefined,
+    strategy,
+    evidence: flags.evidence === true,
+    cache: flags['no-cache'] === true ? false : undefined
+  });
+
+  const report = await runBacktest(cases, config, {
+    tenantId: 'backtest',
+    onResult: (result, index) => {
+      if (!flags.json) {
+        const outcome = result.error ? 'error' : (result.correct ? 'correct' : 'wrong');
+        console.log(`[${index + 1}/${cases.length}] ${result.id}: ${result.verdict ?? '-'} (${outcome})`);
+      }
+    }
+  });
+
+  if (typeof flags.record === 'string') {
+    const recorded = cases.map((testCase, index) => ({
+      ...testCase,
+      responses: report.results[index].responses.length > 0 ? report.results[index].responses : testCase.responses
+    }));
+    fs.writeFileSync(flags.record, JSON.stringify({ cases: recorded }, null, 2));
+  }
+
+  if (flags.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
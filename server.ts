@@ -1,5 +1,7 @@
 import express from 'express';
 import { createOracleAPI } from './src/api/oracle';
+import { getJobRunner } from './src/jobs/runner';
+import { getMarketScheduler } from './src/markets/scheduler';
 import dotenv from 'dotenv';
 
 // Load environment variables from parent directory
@@ -24,6 +26,16 @@ app.listen(port, () => {
   console.log(`🚀 ElizaOS Oracle API server running on port ${port}`);
   console.log(`Health check: http://localhost:${port}/`);
   console.log(`Oracle API: http://localhost:${port}/api/oracle/*`);
+
+  // Auto-resolve markets after their close time
+  if (process.env.MARKET_SCHEDULER_ENABLED !== 'false') {
+    getMarketScheduler().start();
+  }
+
+  // Run queued consensus jobs, including ones interrupted by a restart
+  if (process.env.JOB_RUNNER_ENABLED !== 'false') {
+    getJobRunner().start();
+  }
 });
 
 export default app; 
\ No newline at end of file
@@ -0,0 +1,315 @@
+import express from 'express';
+import { ClientStore } from '../clients/store';
+import { CLIENT_SCOPES, ClientScope, TenantBudget, TenantRateLimit, TenantUpdate } from '../clients/types';
+import { CredentialVault } from '../credentials/vault';
+import { ProviderHealthTracker } from '../health/tracker';
+import { getLLMAdapter } from '../llm/registry';
+import { MarketScheduler, SchedulerJobState } from '../markets/scheduler';
+
+const JOB_STATES: SchedulerJobState[] = ['upcoming', 'due', 'retrying', 'resolving', 'stuck'];
+
+function parseRateLimit(input: any): TenantRateLimit | undefined {
+  if (input === undefined) {
+    return undefined;
+  }
+  if (!input || !Number.isInteger(input.windowMs) || input.windowMs <= 0 ||
+      !Number.isInteger(input.max) || input.max <= 0) {
+    throw new Error('rateLimit needs positive integer windowMs and max');
+  }
+  return { windowMs: input.windowMs, max: input.max };
+}
+
+function parseBudget(input: any): TenantBudget | undefined {
+  if (input === undefined) {
+    return undefined;
+  }
+  if (!input || typeof input !== 'object') {
+    throw new Error('budget must be an object');
+  }
+  for (const field of ['dailyTokens', 'dailyCostUsd']) {
+    if (input[field] !== undefined && (typeof input[field] !== 'number' || input[field] < 0)) {
+      throw new Error(`budget.${field} must be a non-negative number`);
+    }
+  }
+  return { dailyTokens: input.dailyTokens, dailyCostUsd: input.dailyCostUsd };
+}
+
+function parseScopes(input: unknown): ClientScope[] {
+  if (!Array.isArray(input) || input.length === 0 ||
+      input.some(scope => !CLIENT_SCOPES.includes(scope))) {
+    throw new Error(`scopes must be a non-empty array of: ${CLIENT_SCOPES.join(', ')}`);
+  }
+  return Array.from(new Set(input));
+}
+
+/**
+ * Operator routes, mounted under /oracle/admin
+ */
+export function createAdminRoutes(
+  scheduler: MarketScheduler,
+  vault: CredentialVault,
+  clients: ClientStore,
+  health: ProviderHealthTracker
+): express.Router {
+  const router = express.Router();
+
+  // Upcoming and stuck auto-resolution jobs
+  router.get('/scheduler/jobs', async (req: express.Request, res: express.Response) => {
+    try {
+      const state = req.query.state as SchedulerJobState | undefined;
+      if (state && !JOB_STATES.includes(state)) {
+        return res.status(400).json({
+          error: `state must be one of: ${JOB_STATES.join(', ')}`
+        });
+      }
+
+      const now = new Date();
+      const withinMs = req.query.withinMs ? Number(req.query.withinMs) : undefined;
+      const jobs = (await scheduler.listJobs(now)).filter(job =>
+        (!state || job.state === state) &&
+        (withinMs === undefined || new Date(job.dueAt).getTime() - now.getTime() <= withinMs)
+      );
+
+      res.json({
+        running: scheduler.isRunning(),
+        upcoming: jobs.filter(job => job.state === 'upcoming').length,
+        stuck: jobs.filter(job => job.state === 'stuck').length,
+        jobs
+      });
+
+    } catch (error) {
+      console.error('Scheduler job list error:', error);
+      res.status(500).json({
+        error: 'Failed to list scheduler jobs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Reset a stuck job so the scheduler retries it on its next pass
+  router.post('/scheduler/jobs/:marketId/retry', async (req: express.Request, res: express.Response) => {
+    try {
+      const market = await scheduler.retry(req.params.marketId);
+      if (!market) {
+        return res.status(404).json({ error: 'Market not found' });
+      }
+      res.json(market);
+
+    } catch (error) {
+      res.status(409).json({
+        error: error instanceof Error ? error.message : 'Cannot retry market'
+      });
+    }
+  });
+
+  // Close a provider's circuit and clear its stats, e.g. after an outage is fixed
+  router.post('/providers/:provider/reset', (req: express.Request, res: express.Response) => {
+    if (!getLLMAdapter(req.params.provider)) {
+      return res.status(404).json({ error: 'Unknown provider' });
+    }
+    health.reset(req.params.provider);
+    res.json(health.health(req.params.provider));
+  });
+
+  // Configured provider credentials, with keys shown as fingerprints only
+  router.get('/credentials', (req: express.Request, res: express.Response) => {
+    res.json({ credentials: vault.list() });
+  });
+
+  // Re-read credentials from env and the credential file
+  router.post('/credentials/reload', (req: express.Request, res: express.Response) => {
+    try {
+      vault.reload();
+      res.json({ credentials: vault.list() });
+
+    } catch (error) {
+      console.error('Credential reload error:', error);
+      res.status(500).json({
+        error: 'Failed to reload credentials',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Replace a credential's keys (creating it if needed) in the encrypted credential file
+  router.put('/credentials/:name', async (req: express.Request, res: express.Response) => {
+    try {
+      const { provider, keys } = req.body;
+
+      if (!provider || !getLLMAdapter(provider)) {
+        return res.status(400).json({ error: `Unsupported provider: ${provider}` });
+      }
+      if (!Array.isArray(keys)) {
+        return res.status(400).json({ error: 'Missing required field: keys array' });
+      }
+
+      res.json(await vault.rotate(req.params.name, provider, keys));
+
+    } catch (error) {
+      res.status(400).json({
+        error: 'Credential rotation failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  router.post('/tenants', async (req: express.Request, res: express.Response) => {
+    try {
+      if (!req.body.name || typeof req.body.name !== 'string') {
+        return res.status(400).json({ error: 'Missing required field: name' });
+      }
+
+      let rateLimit: TenantRateLimit | undefined;
+      let budget: TenantBudget | undefined;
+      try {
+        rateLimit = parseRateLimit(req.body.rateLimit);
+        budget = parseBudget(req.body.budget);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid tenant' });
+      }
+
+      res.status(201).json(await clients.createTenant({ name: req.body.name, rateLimit, budget }));
+
+    } catch (error) {
+      console.error('Tenant creation error:', error);
+      res.status(500).json({
+        error: 'Tenant creation failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  router.get('/tenants', async (req: express.Request, res: express.Response) => {
+    try {
+      res.json({ tenants: await clients.listTenants() });
+    } catch (error) {
+      console.error('Tenant list error:', error);
+      res.status(500).json({
+        error: 'Failed to list tenants',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Change a tenant's name, limits or budget, or disable it
+  router.patch('/tenants/:id', async (req: express.Request, res: express.Response) => {
+    try {
+      const update: TenantUpdate = {};
+      try {
+        if (req.body.name !== undefined) {
+          update.name = String(req.body.name);
+        }
+        if (req.body.rateLimit !== undefined) {
+          update.rateLimit = parseRateLimit(req.body.rateLimit);
+        }
+        if (req.body.budget !== undefined) {
+          update.budget = parseBudget(req.body.budget);
+        }
+        if (req.body.disabled !== undefined) {
+          update.disabled = Boolean(req.body.disabled);
+        }
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid tenant update' });
+      }
+
+      const tenant = await clients.updateTenant(req.params.id, update);
+      if (!tenant) {
+        return res.status(404).json({ error: 'Tenant not found' });
+      }
+      res.json(tenant);
+
+    } catch (error) {
+      console.error('Tenant update error:', error);
+      res.status(500).json({
+        error: 'Tenant update failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Issue a key; the plaintext key is only returned here
+  router.post('/tenants/:id/keys', async (req: express.Request, res: express.Response) => {
+    try {
+      if (!(await clients.getTenant(req.params.id))) {
+        return res.status(404).json({ error: 'Tenant not found' });
+      }
+
+      let scopes: ClientScope[];
+      try {
+        scopes = parseScopes(req.body.scopes);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid scopes' });
+      }
+
+      const { key, secret } = await clients.issueKey(req.params.id, String(req.body.name || 'default'), scopes);
+      const { hash, ...publicKey } = key;
+      res.status(201).json({ ...publicKey, key: secret });
+
+    } catch (error) {
+      console.error('Key issue error:', error);
+      res.status(500).json({
+        error: 'Failed to issue key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  router.get('/keys', async (req: express.Request, res: express.Response) => {
+    try {
+      const keys = await clients.listKeys(req.query.tenantId as string | undefined);
+      res.json({ keys: keys.map(({ hash, ...key }) => key) });
+    } catch (error) {
+      console.error('Key list error:', error);
+      res.status(500).json({
+        error: 'Failed to list keys',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  router.delete('/keys/:id', async (req: express.Request, res: express.Response) => {
+    try {
+      const key = await clients.revokeKey(req.params.id);
+      if (!key) {
+        return res.status(404).json({ error: 'Key not found' });
+      }
+      const { hash, ...publicKey } = key;
+      res.json(publicKey);
+
+    } catch (error) {
+      console.error('Key revoke error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Today's (or ?date=YYYY-MM-DD) usage for every tenant, against its budget
+  router.get('/usage', async (req: express.Request, res: express.Response) => {
+    try {
+      const date = req.query.date ? new Date(String(req.query.date)) : new Date();
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+      }
+
+      const tenants = await clients.listTenants();
+      const usage = await Promise.all(tenants.map(async tenant => ({
+        tenant: { id: tenant.id, name: tenant.name },
+        budget: tenant.budget,
+        usage: await clients.getUsage(tenant.id, date)
+      })));
+
+      res.json({ usage });
+
+    } catch (error) {
+      console.error('Usage report error:', error);
+      res.status(500).json({
+        error: 'Failed to load usage',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,52 @@
+import express from 'express';
+import { OracleAttestation, getAttestationSigner, verifyAttestation } from '../attestation/attestation';
+
+/**
+ * Attestation routes, mounted under /oracle/attestations
+ */
+export function createAttestationRoutes(): express.Router {
+  const router = express.Router();
+
+  // Address and EIP-712 domain that consensus results are signed with
+  router.get('/signer', (req: express.Request, res: express.Response) => {
+    const signer = getAttestationSigner();
+    if (!signer) {
+      return res.status(503).json({ error: 'Attestation signing is not configured' });
+    }
+
+    res.json({
+      address: signer.address,
+      domain: signer.domain
+    });
+  });
+
+  // Checks an attestation against this oracle's signer (or an explicit expectedSigner)
+  router.post('/verify', (req: express.Request, res: express.Response) => {
+    try {
+      const attestation: OracleAttestation = req.body.attestation || req.body;
+
+      if (!attestation || !attestation.domain || !attestation.message || !attestation.signature) {
+        return res.status(400).json({
+          error: 'Missing required fields: domain, message, signature'
+        });
+      }
+
+      const expectedSigner = req.body.expectedSigner || getAttestationSigner()?.address;
+      if (!expectedSigner) {
+        return res.status(400).json({
+          error: 'No expectedSigner given and attestation signing is not configured'
+        });
+      }
+
+      res.json(verifyAttestation(attestation, expectedSigner));
+
+    } catch (error) {
+      res.status(400).json({
+        error: 'Invalid attestation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,55 @@
+import express from 'express';
+import { AuditLog, hashAuditEntry } from '../audit/log';
+import { getClient } from './auth';
+
+/**
+ * Audit trail routes, mounted under /oracle/audit
+ */
+export function createAuditRoutes(auditLog: AuditLog): express.Router {
+  const router = express.Router();
+
+  // Every provider call and decision recorded for one evaluation
+  router.get('/evaluations/:id', async (req: express.Request, res: express.Response) => {
+    try {
+      const client = getClient(res);
+      const entries = await auditLog.getTrail(req.params.id);
+
+      // Other tenants' trails are reported as missing unless the caller is an operator
+      const owned = entries.every(entry => entry.data.tenantId === client.tenant.id);
+      if (entries.length === 0 || (!owned && !client.key.scopes.includes('admin'))) {
+        return res.status(404).json({ error: 'Evaluation not found' });
+      }
+
+      res.json({
+        evaluationId: req.params.id,
+        // Entries whose contents still match their hash; run /verify to check the links
+        intact: entries.every(entry => hashAuditEntry(entry) === entry.hash),
+        entries
+      });
+
+    } catch (error) {
+      console.error('Audit trail lookup error:', error);
+      res.status(500).json({
+        error: 'Failed to load audit trail',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Recomputes the whole hash chain
+  router.get('/verify', async (req: express.Request, res: express.Response) => {
+    try {
+      const verification = await auditLog.verify();
+      res.status(verification.valid ? 200 : 409).json(verification);
+
+    } catch (error) {
+      console.error('Audit verification error:', error);
+      res.status(500).json({
+        error: 'Audit verification failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,132 @@
+import express from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ClientStore, DEFAULT_RATE_LIMIT } from '../clients/store';
+import { CLIENT_SCOPES, ClientIdentity, ClientScope, Tenant } from '../clients/types';
+import { UsageTotals } from '../usage/types';
+
+// ELIZAOS_API_KEY keeps working as an all-scopes key, so the first tenants can be issued
+const BOOTSTRAP_TENANT: Tenant = {
+  id: 'bootstrap',
+  name: 'ELIZAOS_API_KEY',
+  rateLimit: DEFAULT_RATE_LIMIT,
+  budget: {},
+  createdAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString()
+};
+
+function matchesBootstrapKey(secret: string): boolean {
+  const bootstrapKey = process.env.ELIZAOS_API_KEY;
+  if (!bootstrapKey) {
+    return false;
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(secret), digest(bootstrapKey));
+}
+
+/**
+ * The client that made a request; set by authenticateClient
+ */
+export function getClient(res: express.Response): ClientIdentity {
+  return res.locals.client;
+}
+
+/**
+ * Resolves the Bearer key to a tenant and key, or rejects the request
+ */
+export function authenticateClient(store: ClientStore): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const secret = req.headers.authorization?.replace('Bearer ', '');
+      if (!secret) {
+        return res.status(401).json({ error: 'Invalid API key' });
+      }
+
+      const client: ClientIdentity | null = matchesBootstrapKey(secret)
+        ? { tenant: BOOTSTRAP_TENANT, key: { id: 'bootstrap', name: 'bootstrap', scopes: CLIENT_SCOPES } }
+        : await store.authenticate(secret);
+
+      if (!client) {
+        return res.status(401).json({ error: 'Invalid API key' });
+      }
+
+      res.locals.client = client;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export function requireScope(scope: ClientScope): express.RequestHandler {
+  return (req, res, next) => {
+    if (!getClient(res).key.scopes.includes(scope)) {
+      return res.status(403).json({ error: `API key lacks the ${scope} scope` });
+    }
+    next();
+  };
+}
+
+/**
+ * Fixed-window request limit per tenant, using each tenant's own window and maximum
+ */
+export function tenantRateLimit(): express.RequestHandler {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return (req, res, next) => {
+    const { tenant } = getClient(res);
+    const now = Date.now();
+
+    let window = windows.get(tenant.id);
+    if (!window || now - window.startedAt >= tenant.rateLimit.windowMs) {
+      window = { startedAt: now, count: 0 };
+      windows.set(tenant.id, window);
+    }
+
+    window.count++;
+    const resetSeconds = Math.ceil((window.startedAt + tenant.rateLimit.windowMs - now) / 1000);
+    res.setHeader('RateLimit-Limit', tenant.rateLimit.max);
+    res.setHeader('RateLimit-Remaining', Math.max(0, tenant.rateLimit.max - window.count));
+    res.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (window.count > tenant.rateLimit.max) {
+      res.setHeader('Retry-After', resetSeconds);
+      return res.status(429).json({ error: 'Too many oracle requests, please try again later' });
+    }
+    next();
+  };
+}
+
+/**
+ * Rejects requests from tenants over today's budget and counts the request.
+ * Routes put the tokens and cost they spent in res.locals.usage; they are charged
+ * to the tenant once the response is sent.
+ */
+export function meterUsage(store: ClientStore): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const { tenant } = getClient(res);
+      const usage = await store.getUsage(tenant.id);
+
+      if (tenant.budget.dailyTokens !== undefined && usage.tokens >= tenant.budget.dailyTokens) {
+        return res.status(429).json({ error: 'Daily token budget exhausted', usage, budget: tenant.budget });
+      }
+      if (tenant.budget.dailyCostUsd !== undefined && usage.costUsd >= tenant.budget.dailyCostUsd) {
+        return res.status(429).json({ error: 'Daily cost budget exhausted', usage, budget: tenant.budget });
+      }
+
+      await store.recordUsage(tenant.id, { requests: 1 });
+
+      res.on('finish', () => {
+        const spent: UsageTotals | undefined = res.locals.usage;
+        if (spent && (spent.totalTokens > 0 || spent.costUsd > 0)) {
+          store.recordUsage(tenant.id, { tokens: spent.totalTokens, costUsd: spent.costUsd })
+            .catch(error => console.error(`Failed to record usage for tenant ${tenant.id}:`, error));
+        }
+      });
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,107 @@
+import express from 'express';
+import { parseBacktestDataset } from '../backtest/dataset';
+import { runBacktest } from '../backtest/run';
+import { BACKTEST_MODES, BacktestCase, BacktestConfig, BacktestMode } from '../backtest/types';
+import { redactSecrets } from '../credentials/vault';
+import { ConsensusStrategyConfig, parseConsensusStrategy } from '../oracle/strategies';
+import { ProviderCall } from '../oracle/types';
+import { getClient } from './auth';
+import { parseGenerationOptions } from './consensusBody';
+import { parseProviderCalls } from './providerCalls';
+
+const DEFAULT_STRATEGY: ConsensusStrategyConfig = { name: 'majority' };
+
+// Live runs are synchronous, so keep a single request to a bounded amount of work
+const MAX_LIVE_CASES = 100;
+const MAX_REPLAY_CASES = 5000;
+
+/**
+ * Replays only filter recorded responses by provider and model, so no credentials are needed
+ */
+function parseReplayPanel(input: unknown): ProviderCall[] {
+  if (!Array.isArray(input)) {
+    throw new Error('providers must be an array');
+  }
+  return input.map(call => {
+    if (!call || typeof call.provider !== 'string' || typeof call.model !== 'string') {
+      throw new Error('Each provider needs provider and model');
+    }
+    return { provider: call.provider, model: call.model };
+  });
+}
+
+/**
+ * Validates backtest settings from a request body or the CLI's flags.
+ * Throws with a message suitable for a 400 response.
+ */
+export function parseBacktestConfig(body: any): BacktestConfig {
+  const mode: BacktestMode = body.mode ?? 'replay';
+  if (!BACKTEST_MODES.includes(mode)) {
+    throw new Error(`mode must be one of: ${BACKTEST_MODES.join(', ')}`);
+  }
+  if (mode === 'live' && (!Array.isArray(body.providers) || body.providers.length === 0)) {
+    throw new Error('Live backtests need a providers array');
+  }
+
+  return {
+    mode,
+    strategy: parseConsensusStrategy(body.strategy, DEFAULT_STRATEGY),
+    providers: body.providers === undefined
+      ? undefined
+      : (mode === 'live' ? parseProviderCalls(body.providers) : parseReplayPanel(body.providers)),
+    ...parseGenerationOptions(body),
+    evidence: body.evidence === true || undefined,
+    bypassCache: body.cache === false || undefined
+  };
+}
+
+/**
+ * Scores oracle settings against already-resolved markets, mounted under /oracle/backtest
+ */
+export function createBacktestRoutes(meter: express.RequestHandler): express.Router {
+  const router = express.Router();
+
+  // Run a labeled dataset ({ cases }) live or from recorded responses and report the metrics
+  router.post('/', meter, async (req: express.Request, res: express.Response) => {
+    try {
+      let cases: BacktestCase[];
+      let config: BacktestConfig;
+      try {
+        cases = parseBacktestDataset(req.body.cases);
+        config = parseBacktestConfig(req.body);
+      } catch (error) {
+        return res.status(400).json({
+          error: error instanceof Error ? error.message : 'Invalid backtest request'
+        });
+      }
+
+      const limit = config.mode === 'live' ? MAX_LIVE_CASES : MAX_REPLAY_CASES;
+      if (cases.length > limit) {
+        return res.status(400).json({
+          error: `At most ${limit} cases per ${config.mode} backtest; use the backtest script for larger datasets`
+        });
+      }
+
+      console.log(`Backtest (${config.mode}) over ${cases.length} cases`);
+
+      const report = await runBacktest(cases, config, { tenantId: getClient(res).tenant.id });
+      res.locals.usage = report.usage;
+      res.json({
+        ...report,
+        results: report.results.map(result => ({
+          ...result,
+          error: result.error && redactSecrets(result.error)
+        }))
+      });
+
+    } catch (error) {
+      console.error('Backtest error:', error);
+      res.status(500).json({
+        error: 'Backtest failed',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,112 @@
+import express from 'express';
+import { ConsensusJobRequest } from '../jobs/types';
+import { parseMarketSpec } from '../oracle/outcomes';
+import { parseMarketCategory, parseResolutionFields, parseTemplateSelector } from '../prompts/library';
+import { ConsensusStrategyConfig, parseConsensusStrategy } from '../oracle/strategies';
+import { screenText, screeningInput, screeningRejection } from '../screening/screen';
+import { MAX_TIMEOUT_MS, optionalPositiveInteger, parseProviderCalls } from './providerCalls';
+
+const DEFAULT_STRATEGY: ConsensusStrategyConfig = { name: 'majority' };
+
+const MAX_TOKENS_LIMIT = 16384;
+const MAX_TEMPERATURE = 2;
+
+export interface GenerationOptions {
+  maxTokens?: number;
+  temperature?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Validates maxTokens, temperature and timeoutMs from a request body. They reach providers
+ * and are stored on jobs, so bad values are refused rather than passed along.
+ */
+export function parseGenerationOptions(body: any): GenerationOptions {
+  const { temperature } = body;
+  if (temperature !== undefined &&
+      (typeof temperature !== 'number' || !Number.isFinite(temperature) || temperature < 0 || temperature > MAX_TEMPERATURE)) {
+    throw new Error(`temperature must be a number between 0 and ${MAX_TEMPERATURE}`);
+  }
+
+  return {
+    maxTokens: optionalPositiveInteger(body.maxTokens, 'maxTokens', MAX_TOKENS_LIMIT),
+    temperature,
+    timeoutMs: optionalPositiveInteger(body.timeoutMs, 'timeoutMs', MAX_TIMEOUT_MS)
+  };
+}
+
+/**
+ * Validates earlyQuorum: true or false, or the number of agreeing votes to stop at, at most
+ * the panel size. Anything else would end a run after its first vote.
+ */
+export function parseEarlyQuorum(value: unknown, panelSize: number): boolean | number | undefined {
+  if (value === undefined || typeof value === 'boolean') {
+    return value;
+  }
+  return optionalPositiveInteger(value, 'earlyQuorum', Math.max(panelSize, 1));
+}
+
+/**
+ * Callers skip the response cache with `"cache": false` in the body or a
+ * `Cache-Control: no-cache` header
+ */
+export function bypassCacheRequested(req: express.Request): boolean {
+  return req.body?.cache === false || /\bno-cache\b/i.test(req.get('Cache-Control') || '');
+}
+
+/**
+ * Refuses a question or template fields that plainly try to instruct the oracle.
+ * Caller-written prompts are the caller's own instructions and are not screened.
+ */
+export function rejectInjectedText(fields: Parameters<typeof screeningInput>[0]): void {
+  const rejection = screeningRejection(screenText(screeningInput(fields)));
+  if (rejection) {
+    throw new Error(rejection);
+  }
+}
+
+/**
+ * Validates a consensus request body, shared by /oracle/consensus, its streaming
+ * variant and /oracle/jobs. Throws with a message suitable for a 400 response.
+ */
+export function parseConsensusBody(body: any): ConsensusJobRequest {
+  const { prompt, providers, earlyQuorum, evidence, question } = body;
+
+  if ((!prompt && !question) || !providers || !Array.isArray(providers)) {
+    throw new Error('Missing required fields: prompt or question, providers array');
+  }
+  if (question !== undefined && typeof question !== 'string') {
+    throw new Error('question must be a string');
+  }
+  if (body.resolutionCriteria !== undefined && typeof body.resolutionCriteria !== 'string') {
+    throw new Error('resolutionCriteria must be a string');
+  }
+
+  const { maxTokens, temperature, timeoutMs } = parseGenerationOptions(body);
+  const market = parseMarketSpec(body.market);
+  const resolution = parseResolutionFields(body.resolution);
+  if (question) {
+    rejectInjectedText({ question, market, resolutionCriteria: body.resolutionCriteria, resolution });
+  }
+
+  const calls = parseProviderCalls(providers);
+
+  return {
+    prompt: prompt ? String(prompt) : undefined,
+    providers: calls,
+    strategy: parseConsensusStrategy(body.strategy, DEFAULT_STRATEGY),
+    market,
+    maxTokens,
+    temperature,
+    timeoutMs,
+    earlyQuorum: parseEarlyQuorum(earlyQuorum, calls.length),
+    // Evidence is opt-in; `question` gives a cleaner query than a caller-written prompt
+    evidence: evidence === true || undefined,
+    question,
+    // Without a prompt, the question is rendered through the template for its category
+    category: parseMarketCategory(body.category),
+    template: parseTemplateSelector(body.template),
+    resolutionCriteria: body.resolutionCriteria,
+    resolution
+  };
+}
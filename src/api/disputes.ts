@@ -0,0 +1,140 @@
+import express from 'express';
+import { redactSecrets } from '../credentials/vault';
+import { disputeMarket } from '../disputes/appeal';
+import { appealPanel, disputeRejection, parseDisputeEvidence } from '../disputes/policy';
+import { DisputeEvidence } from '../disputes/types';
+import { MarketConflictError } from '../markets/resolve';
+import { parseProviderPanel } from '../markets/scheduler';
+import { MarketStore } from '../markets/store';
+import { ProviderCall } from '../oracle/types';
+import { getClient, requireScope } from './auth';
+import { GenerationOptions, parseGenerationOptions } from './consensusBody';
+import { parseProviderCalls } from './providerCalls';
+
+const MAX_REASON_LENGTH = 2000;
+
+/**
+ * Disputes against a market's verdict, mounted under /oracle/markets/:id/disputes
+ */
+export function createDisputeRoutes(store: MarketStore, meter: express.RequestHandler): express.Router {
+  const router = express.Router({ mergeParams: true });
+
+  // Challenge the verdict in its dispute window; the appeal runs before the response
+  router.post('/', requireScope('disputes'), meter, async (req: express.Request, res: express.Response) => {
+    try {
+      const { reason, providers, evidence } = req.body;
+
+      if (!reason || typeof reason !== 'string') {
+        return res.status(400).json({ error: 'Missing required field: reason' });
+      }
+      if (reason.length > MAX_REASON_LENGTH) {
+        return res.status(400).json({ error: `reason is limited to ${MAX_REASON_LENGTH} characters` });
+      }
+
+      let submitted: DisputeEvidence[];
+      let calls: ProviderCall[] | undefined;
+      let generation: GenerationOptions;
+      try {
+        submitted = parseDisputeEvidence(evidence);
+        calls = providers !== undefined ? parseProviderCalls(providers) : undefined;
+        generation = parseGenerationOptions(req.body);
+      } catch (error) {
+        return res.status(400).json({
+          error: error instanceof Error ? error.message : 'Invalid dispute'
+        });
+      }
+
+      const market = await store.get(req.params.id);
+      if (!market) {
+        return res.status(404).json({ error: 'Market not found' });
+      }
+
+      const rejection = disputeRejection(market);
+      if (rejection) {
+        return res.status(409).json({ error: rejection });
+      }
+
+      let panel: ProviderCall[];
+      try {
+        const contested = market.resolutions[market.provisional!.resolution].consensus;
+        panel = appealPanel(contested, calls, parseProviderPanel(process.env.DISPUTE_APPEAL_PROVIDERS || ''));
+      } catch (error) {
+        return res.status(400).json({
+          error: error instanceof Error ? error.message : 'Invalid appeal panel'
+        });
+      }
+
+      const outcome = await disputeMarket(
+        store,
+        market,
+        { tenantId: getClient(res).tenant.id, reason: reason.trim(), evidence: submitted },
+        {
+          providers: panel,
+          ...generation,
+          skipEvidence: req.body.retrieveEvidence === false
+        }
+      );
+
+      res.locals.usage = outcome.consensus.usage;
+
+      if (outcome.dispute.status === 'failed') {
+        return res.status(502).json({
+          error: 'Appeal failed; the original verdict stands',
+          dispute: outcome.dispute,
+          responses: outcome.consensus.allResponses
+        });
+      }
+
+      res.status(201).json({ dispute: outcome.dispute, market: outcome.market });
+
+    } catch (error) {
+      // Another dispute claimed the market first, or it left its dispute window
+      if (error instanceof MarketConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Dispute error:', error);
+      res.status(500).json({
+        error: 'Dispute failed',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  // Disputes filed against the market, oldest first
+  router.get('/', async (req: express.Request, res: express.Response) => {
+    try {
+      const market = await store.get(req.params.id);
+      if (!market) {
+        return res.status(404).json({ error: 'Market not found' });
+      }
+      res.json({ status: market.status, provisional: market.provisional, disputes: market.disputes || [] });
+
+    } catch (error) {
+      console.error('Dispute list error:', error);
+      res.status(500).json({
+        error: 'Failed to list disputes',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  router.get('/:disputeId', async (req: express.Request, res: express.Response) => {
+    try {
+      const market = await store.get(req.params.id);
+      const dispute = market?.disputes?.find(entry => entry.id === req.params.disputeId);
+      if (!dispute) {
+        return res.status(404).json({ error: 'Dispute not found' });
+      }
+      res.json(dispute);
+
+    } catch (error) {
+      console.error('Dispute lookup error:', error);
+      res.status(500).json({
+        error: 'Failed to get dispute',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,50 @@
+import express from 'express';
+import { redactSecrets } from '../credentials/vault';
+import { ProviderHealthTracker } from '../health/tracker';
+import { ProviderHealth } from '../health/types';
+import { listLLMProviders } from '../llm/registry';
+
+const API_VERSION = '1.0.0';
+
+function publicHealth(health: ProviderHealth): ProviderHealth {
+  return { ...health, lastError: health.lastError && redactSecrets(health.lastError) };
+}
+
+/**
+ * healthy: every circuit closed. degraded: some providers are being skipped.
+ * unhealthy: every provider that has been called is being skipped.
+ */
+function overallStatus(providers: ProviderHealth[]): 'healthy' | 'degraded' | 'unhealthy' {
+  const called = providers.filter(provider => provider.requests > 0 || provider.state !== 'closed');
+  const tripped = called.filter(provider => provider.state !== 'closed');
+  if (tripped.length === 0) {
+    return 'healthy';
+  }
+  return tripped.length === called.length ? 'unhealthy' : 'degraded';
+}
+
+/**
+ * Service and per-provider health, mounted under /oracle/health
+ */
+export function createHealthRoutes(health: ProviderHealthTracker): express.Router {
+  const router = express.Router();
+
+  router.get('/', (req: express.Request, res: express.Response) => {
+    const providers = health.list(listLLMProviders()).map(publicHealth);
+    res.json({
+      status: overallStatus(providers),
+      timestamp: new Date().toISOString(),
+      version: API_VERSION,
+      providers
+    });
+  });
+
+  router.get('/:provider', (req: express.Request, res: express.Response) => {
+    if (!listLLMProviders().includes(req.params.provider)) {
+      return res.status(404).json({ error: 'Unknown provider' });
+    }
+    res.json(publicHealth(health.health(req.params.provider)));
+  });
+
+  return router;
+}
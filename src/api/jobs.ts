@@ -0,0 +1,140 @@
+import express from 'express';
+import { redactSecrets } from '../credentials/vault';
+import { JobRunner, publicJob } from '../jobs/runner';
+import { JobStore } from '../jobs/store';
+import { ConsensusJobRequest, JOB_STATUSES, JobStatus } from '../jobs/types';
+import { checkWebhookTarget, generateWebhookSecret } from '../jobs/webhook';
+import { ProviderCall } from '../oracle/types';
+import { getClient, requireScope } from './auth';
+import { bypassCacheRequested, parseConsensusBody } from './consensusBody';
+
+async function parseWebhookUrl(value: unknown): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    throw new Error('webhook.url must be an absolute URL');
+  }
+  await checkWebhookTarget(url.toString());
+  return url.toString();
+}
+
+function usesRequestApiKey(call: ProviderCall): boolean {
+  return call.apiKey !== undefined || (call.fallbacks || []).some(usesRequestApiKey);
+}
+
+/**
+ * Asynchronous consensus jobs, mounted under /oracle/jobs
+ */
+export function createJobRoutes(runner: JobRunner, store: JobStore, meter: express.RequestHandler): express.Router {
+  const router = express.Router();
+
+  // Queue a consensus run; takes the /oracle/consensus body plus an optional webhook
+  router.post('/', requireScope('consensus'), meter, async (req: express.Request, res: express.Response) => {
+    try {
+      const { webhook } = req.body;
+
+      let request: ConsensusJobRequest;
+      let webhookUrl: string | undefined;
+      try {
+        request = { ...parseConsensusBody(req.body), bypassCache: bypassCacheRequested(req) || undefined };
+        if (request.providers.some(usesRequestApiKey)) {
+          // Jobs are stored until they run, so they only use server credentials
+          throw new Error('Jobs cannot use per-request apiKey; pass the name of a server credential as "credential"');
+        }
+
+        if (webhook !== undefined) {
+          webhookUrl = await parseWebhookUrl(webhook?.url);
+          if (webhook.secret !== undefined && (typeof webhook.secret !== 'string' || webhook.secret.length < 16)) {
+            throw new Error('webhook.secret must be a string of at least 16 characters');
+          }
+        }
+      } catch (error) {
+        return res.status(400).json({
+          error: error instanceof Error ? error.message : 'Invalid job request'
+        });
+      }
+
+      // Without a caller or server secret, one is generated and returned once
+      const generatedSecret = webhookUrl && !webhook.secret && !process.env.ORACLE_WEBHOOK_SECRET
+        ? generateWebhookSecret()
+        : undefined;
+
+      const job = await runner.submit({
+        tenantId: getClient(res).tenant.id,
+        request,
+        webhook: webhookUrl
+          ? { url: webhookUrl, secret: webhook.secret || process.env.ORACLE_WEBHOOK_SECRET || generatedSecret! }
+          : undefined
+      });
+
+      res.status(202)
+        .location(`${req.baseUrl}/${job.id}`)
+        .json({
+          id: job.id,
+          status: job.status,
+          statusUrl: `${req.baseUrl}/${job.id}`,
+          webhookSecret: generatedSecret
+        });
+
+    } catch (error) {
+      console.error('Job submission error:', error);
+      res.status(500).json({
+        error: 'Job submission failed',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  // The caller's jobs, optionally filtered by status
+  router.get('/', async (req: express.Request, res: express.Response) => {
+    try {
+      const status = req.query.status as JobStatus | undefined;
+      if (status && !JOB_STATUSES.includes(status)) {
+        return res.status(400).json({
+          error: `status must be one of: ${JOB_STATUSES.join(', ')}`
+        });
+      }
+
+      const jobs = await store.list({
+        tenantId: getClient(res).tenant.id,
+        status,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        offset: req.query.offset ? Number(req.query.offset) : undefined
+      });
+
+      res.json({ jobs: jobs.map(publicJob) });
+
+    } catch (error) {
+      console.error('Job list error:', error);
+      res.status(500).json({
+        error: 'Failed to list jobs',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  // Status, partial per-provider results and, once finished, the consensus result
+  router.get('/:id', async (req: express.Request, res: express.Response) => {
+    try {
+      const client = getClient(res);
+      const job = await store.get(req.params.id);
+
+      // Other tenants' jobs are reported as missing unless the caller is an operator
+      if (!job || (job.tenantId !== client.tenant.id && !client.key.scopes.includes('admin'))) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      res.json(publicJob(job));
+
+    } catch (error) {
+      console.error('Job lookup error:', error);
+      res.status(500).json({
+        error: 'Failed to load job',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,381 @@
+import express from 'express';
+import { redactSecrets } from '../credentials/vault';
+import {
+  MarketConflictError,
+  heldByScreening,
+  resolveMarket,
+  reviewUpdate,
+  screeningHold,
+  screeningUpdate
+} from '../markets/resolve';
+import { MarketStore } from '../markets/store';
+import { MARKET_STATUSES, MarketInput, MarketStatus, MarketUpdate } from '../markets/types';
+import { MarketSpec, parseMarketSpec } from '../oracle/outcomes';
+import { ConsensusStrategyConfig, parseConsensusStrategy } from '../oracle/strategies';
+import { ProviderCall } from '../oracle/types';
+import { parseMarketCategory, parseResolutionFields, parseTemplateSelector } from '../prompts/library';
+import { screenMarket, screeningInput } from '../screening/screen';
+import { getClient, requireScope } from './auth';
+import { GenerationOptions, bypassCacheRequested, parseEarlyQuorum, parseGenerationOptions } from './consensusBody';
+import { createDisputeRoutes } from './disputes';
+import { parseProviderCalls } from './providerCalls';
+
+const DEFAULT_STRATEGY: ConsensusStrategyConfig = { name: 'majority' };
+
+// Markets still waiting on a verdict: trading, or past their close time
+const RESOLVABLE_STATUSES: MarketStatus[] = ['open', 'pending'];
+
+/**
+ * Reads the market spec from a request body: either `market` or the legacy optionA/optionB pair
+ */
+function marketSpecFromBody(body: any): MarketSpec {
+  if (body.market === undefined && body.optionA && body.optionB) {
+    return { type: 'binary', options: [String(body.optionA), String(body.optionB)] };
+  }
+  return parseMarketSpec(body.market);
+}
+
+function parseCloseTime(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const time = typeof value === 'string' ? new Date(value) : null;
+  if (!time || isNaN(time.getTime())) {
+    throw new Error('closeTime must be an ISO 8601 timestamp');
+  }
+  return time.toISOString();
+}
+
+function parseOdds(value: unknown): number[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some(odd => typeof odd !== 'number' || odd < 0 || odd > 1)) {
+    throw new Error('odds must be an array of numbers between 0 and 1');
+  }
+  return value;
+}
+
+function parseDisputeWindow(value: unknown): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error('disputeWindowMs must be a non-negative integer');
+  }
+  return value;
+}
+
+function parseVolume(value: unknown): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || value < 0) {
+    throw new Error('totalVolume must be a non-negative number');
+  }
+  return value;
+}
+
+/**
+ * Market registry routes, mounted under /oracle/markets
+ */
+export function createMarketRoutes(store: MarketStore, meter: express.RequestHandler): express.Router {
+  const router = express.Router();
+
+  // Create a market
+  router.post('/', requireScope('markets:write'), async (req: express.Request, res: express.Response) => {
+    try {
+      const { question, resolutionCriteria } = req.body;
+
+      if (!question || typeof question !== 'string') {
+        return res.status(400).json({ error: 'Missing required field: question' });
+      }
+
+      let input: MarketInput;
+      try {
+        input = {
+          question,
+          market: marketSpecFromBody(req.body),
+          category: parseMarketCategory(req.body.category),
+          template: parseTemplateSelector(req.body.template),
+          resolutionCriteria: resolutionCriteria ? String(resolutionCriteria) : undefined,
+          resolution: parseResolutionFields(req.body.resolution),
+          closeTime: parseCloseTime(req.body.closeTime),
+          odds: parseOdds(req.body.odds),
+          totalVolume: parseVolume(req.body.totalVolume),
+          disputeWindowMs: parseDisputeWindow(req.body.disputeWindowMs)
+        };
+      } catch (error) {
+        return res.status(400).json({
+          error: error instanceof Error ? error.message : 'Invalid market'
+        });
+      }
+
+      // Screened before it's stored, so the creator sees the findings in the response
+      const screening = await screenMarket(screeningInput(input));
+      const created = await store.create(input);
+      res.status(201).json(await store.update(created.id, screeningUpdate(created, screening)));
+
+    } catch (error) {
+      console.error('Market creation error:', error);
+      res.status(500).json({
+        error: 'Market creation failed',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  // List markets, optionally filtered by status
+  router.get('/', async (req: express.Request, res: express.Response) => {
+    try {
+      const status = req.query.status as MarketStatus | undefined;
+      if (status && !MARKET_STATUSES.includes(status)) {
+        return res.status(400).json({
+          error: `status must be one of: ${MARKET_STATUSES.join(', ')}`
+        });
+      }
+
+      const markets = await store.list({
+        status,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        offset: req.query.offset ? Number(req.query.offset) : undefined
+      });
+
+      res.json({ markets });
+
+    } catch (error) {
+      console.error('Market list error:', error);
+      res.status(500).json({
+        error: 'Failed to list markets',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  router.get('/:id', async (req: express.Request, res: express.Response) => {
+    try {
+      const market = await store.get(req.params.id);
+      if (!market) {
+        return res.status(404).json({ error: 'Market not found' });
+      }
+      res.json(market);
+
+    } catch (error) {
+      console.error('Market lookup error:', error);
+      res.status(500).json({
+        error: 'Failed to load market',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  // Edit a market's question, outcomes, criteria, template, close time or trading data
+  router.patch('/:id', requireScope('markets:write'), async (req: express.Request, res: express.Response) => {
+    try {
+      const existing = await store.get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Market not found' });
+      }
+
+      if (['resolving', 'proposed', 'appealing', 'resolved'].includes(existing.status)) {
+        return res.status(409).json({ error: `Cannot edit a ${existing.status} market` });
+      }
+
+      const update: MarketUpdate = {};
+      try {
+        if (req.body.question !== undefined) {
+          if (!req.body.question || typeof req.body.question !== 'string') {
+            throw new Error('question must be a non-empty string');
+          }
+          update.question = req.body.question;
+        }
+        if (req.body.market !== undefined || req.body.optionA !== undefined) {
+          update.market = marketSpecFromBody(req.body);
+        }
+        if (req.body.resolutionCriteria !== undefined) {
+          update.resolutionCriteria = req.body.resolutionCriteria ? String(req.body.resolutionCriteria) : undefined;
+        }
+        if (req.body.resolution !== undefined) {
+          update.resolution = parseResolutionFields(req.body.resolution);
+        }
+        if (req.body.category !== undefined) {
+          update.category = parseMarketCategory(req.body.category);
+        }
+        if (req.body.template !== undefined) {
+          update.template = parseTemplateSelector(req.body.template);
+        }
+        if (req.body.closeTime !== undefined) {
+          update.closeTime = parseCloseTime(req.body.closeTime);
+        }
+        if (req.body.odds !== undefined) {
+          update.odds = parseOdds(req.body.odds);
+        }
+        if (req.body.totalVolume !== undefined) {
+          update.totalVolume = parseVolume(req.body.totalVolume);
+        }
+        if (req.body.disputeWindowMs !== undefined) {
+          update.disputeWindowMs = parseDisputeWindow(req.body.disputeWindowMs);
+        }
+      } catch (error) {
+        return res.status(400).json({
+          error: error instanceof Error ? error.message : 'Invalid market update'
+        });
+      }
+
+      // Moving the close time into the future reopens a market waiting on resolution
+      if (update.closeTime && existing.status === 'pending' && new Date(update.closeTime) > new Date()) {
+        update.status = 'open';
+        update.job = undefined;
+      }
+
+      // New text is screened again; text that passes releases a market held for the old text
+      if (['question', 'market', 'resolutionCriteria', 'resolution'].some(field => field in update)) {
+        const edited = { ...existing, ...update };
+        Object.assign(update, screeningUpdate(edited, await screenMarket(screeningInput(edited))));
+      }
+
+      res.json(await store.update(req.params.id, update));
+
+    } catch (error) {
+      console.error('Market update error:', error);
+      res.status(500).json({
+        error: 'Market update failed',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  // Resolve a market through multi-provider consensus
+  router.post('/:id/resolve', requireScope('markets:write'), meter, async (req: express.Request, res: express.Response) => {
+    try {
+      const { providers, earlyQuorum, force, evidence } = req.body;
+
+      if (!providers || !Array.isArray(providers)) {
+        return res.status(400).json({ error: 'Missing required field: providers array' });
+      }
+
+      let strategy: ConsensusStrategyConfig;
+      let calls: ProviderCall[];
+      let generation: GenerationOptions;
+      let quorum: boolean | number | undefined;
+      try {
+        strategy = parseConsensusStrategy(req.body.strategy, DEFAULT_STRATEGY);
+        calls = parseProviderCalls(providers);
+        generation = parseGenerationOptions(req.body);
+        quorum = parseEarlyQuorum(earlyQuorum, calls.length);
+      } catch (error) {
+        return res.status(400).json({
+          error: error instanceof Error ? error.message : 'Invalid resolution request'
+        });
+      }
+
+      const existing = await store.get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Market not found' });
+      }
+
+      if (existing.status === 'resolving') {
+        return res.status(409).json({ error: 'Market is already being resolved' });
+      }
+
+      if (existing.status === 'appealing') {
+        return res.status(409).json({ error: 'Market verdict is under appeal' });
+      }
+
+      const hold = screeningHold(existing);
+      if (hold) {
+        return res.status(409).json({ error: hold, screening: existing.screening });
+      }
+
+      if (existing.status === 'proposed' && !force) {
+        return res.status(409).json({ error: 'Market verdict is in its dispute window; pass force: true to re-resolve' });
+      }
+
+      // Markets with a verdict, final or not, are only re-resolved on purpose
+      if (!RESOLVABLE_STATUSES.includes(existing.status) && !force) {
+        return res.status(409).json({ error: `Market is already ${existing.status}; pass force: true to re-resolve` });
+      }
+
+      console.log(`Resolving market ${existing.id} with ${providers.length} providers`);
+
+      const outcome = await resolveMarket(store, existing.id, {
+        providers: calls,
+        strategy,
+        ...generation,
+        earlyQuorum: quorum,
+        tenantId: getClient(res).tenant.id,
+        skipEvidence: evidence === false,
+        bypassCache: bypassCacheRequested(req)
+      });
+
+      if (!outcome) {
+        return res.status(404).json({ error: 'Market not found' });
+      }
+
+      res.locals.usage = outcome.consensus.usage;
+
+      if (outcome.consensus.providers.length === 0) {
+        return res.status(500).json({
+          error: 'No valid responses from providers',
+          market: outcome.market,
+          strategy: outcome.consensus.strategy,
+          responses: outcome.consensus.allResponses
+        });
+      }
+
+      res.json(outcome);
+
+    } catch (error) {
+      // Lost the race with another resolution that started after the checks above
+      if (error instanceof MarketConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Market resolution error:', error);
+      res.status(500).json({
+        error: 'Market resolution failed',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  // Operator decision on a market held by screening: approve lets it trade and resolve,
+  // reject settles it as INVALID
+  router.post('/:id/review', requireScope('admin'), async (req: express.Request, res: express.Response) => {
+    try {
+      const { decision, note } = req.body;
+      if (decision !== 'approve' && decision !== 'reject') {
+        return res.status(400).json({ error: 'decision must be approve or reject' });
+      }
+      if (note !== undefined && typeof note !== 'string') {
+        return res.status(400).json({ error: 'note must be a string' });
+      }
+
+      const existing = await store.get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Market not found' });
+      }
+      if (!heldByScreening(existing)) {
+        return res.status(409).json({ error: 'Market is not held by screening' });
+      }
+
+      res.json(await store.update(existing.id, reviewUpdate(existing, {
+        decision,
+        reviewedBy: getClient(res).key.name,
+        reviewedAt: new Date().toISOString(),
+        note
+      })));
+
+    } catch (error) {
+      console.error('Market review error:', error);
+      res.status(500).json({
+        error: 'Market review failed',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  });
+
+  // Disputes and appeals
+  router.use('/:id/disputes', createDisputeRoutes(store, meter));
+
+  return router;
+}
@@ -1,333 +1,295 @@
 import express from 'express';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
+import { randomUUID } from 'crypto';
+import { getAuditLog } from '../audit/log';
+import { getClientStore } from '../clients/store';
+import { isReusedAnswer } from '../cache/responseCache';
+import { getCredentialVault, redactSecrets } from '../credentials/vault';
+import { classifyCallResult, getProviderHealth } from '../health/tracker';
+import { getJobRunner } from '../jobs/runner';
+import { getJobStore } from '../jobs/store';
+import { ConsensusJobRequest } from '../jobs/types';
+import { getMarketScheduler } from '../markets/scheduler';
+import { getMarketStore } from '../markets/store';
+import { runConsensus } from '../oracle/consensus';
+import {
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  ORACLE_SYSTEM_PROMPT,
+  evaluateWithProvider
+} from '../oracle/evaluate';
+import { MarketSpec, parseMarketSpec } from '../oracle/outcomes';
+import { OracleParseError } from '../oracle/parser';
+import { prepareConsensusPrompt } from '../oracle/prompt';
+import { OracleEvaluation, ProviderCall } from '../oracle/types';
+import { parseMarketCategory, parseResolutionFields, parseTemplateSelector } from '../prompts/library';
+import { MarketCategory, ResolutionFields, TemplateRef, TemplateSelector } from '../prompts/types';
+import { getReputationLedger } from '../reputation/ledger';
+import { detectInfluence } from '../screening/influence';
+import { getUsageLedger } from '../usage/ledger';
+import { addUsage, emptyUsageTotals } from '../usage/pricing';
+import { createAdminRoutes } from './admin';
+import { createAttestationRoutes } from './attestations';
+import { authenticateClient, getClient, meterUsage, requireScope, tenantRateLimit } from './auth';
+import { createAuditRoutes } from './audit';
+import { createBacktestRoutes } from './backtest';
+import { createHealthRoutes } from './health';
+import { bypassCacheRequested, parseConsensusBody, parseGenerationOptions, rejectInjectedText } from './consensusBody';
+import { createJobRoutes } from './jobs';
+import { createMarketRoutes } from './markets';
+import { parseProviderCall } from './providerCalls';
+import { createReputationRoutes } from './reputation';
+import { createConsensusStreamRoutes } from './stream';
+import { createTemplateRoutes } from './templates';
+import { createUsageRoutes } from './usage';
 
 interface OracleRequest {
-  prompt: string;
+  // A caller-written prompt, or a question rendered through a prompt template
+  prompt?: string;
+  question?: string;
+  category?: MarketCategory;
+  template?: TemplateSelector | string;
+  resolutionCriteria?: string;
+  resolution?: ResolutionFields;
   provider: string;
   model: string;
-  apiKey: string;
+  // Name of a server credential; defaults to the provider's own credential
+  credential?: string;
+  // Raw key, only accepted when ORACLE_ALLOW_REQUEST_API_KEYS=true
+  apiKey?: string;
   maxTokens?: number;
   temperature?: number;
+  market?: MarketSpec;
+  // false skips the response cache
+  cache?: boolean;
 }
 
-interface OracleResponse {
-  optionATrue: boolean;
-  optionBTrue: boolean;
-  confidence: number;
-  reasoning: string;
-}
-
-// Rate limiting
-const limiter = rateLimit({
+// Per-IP limit on failed authentication; tenants get their own limits once authenticated
+const authFailureLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
+  max: 100, // limit each IP to 100 rejected keys per windowMs
+  skipSuccessfulRequests: true,
+  requestWasSuccessful: (req, res) => res.statusCode !== 401,
   message: 'Too many oracle requests, please try again later'
 });
 
-// API key validation
-const validateApiKey = (req: express.Request, res: express.Response, next: express.NextFunction) => {
-  const apiKey = req.headers.authorization?.replace('Bearer ', '');
-  const validApiKey = process.env.ELIZAOS_API_KEY;
-  
-  if (!validApiKey || apiKey !== validApiKey) {
-    return res.status(401).json({ error: 'Invalid API key' });
-  }
-  
-  next();
-};
-
-// LLM Provider configurations
-const LLM_CONFIGS = {
-  openai: {
-    endpoint: 'https://api.openai.com/v1/chat/completions',
-    headers: (apiKey: string) => ({
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json'
-    })
-  },
-  deepseek: {
-    endpoint: 'https://api.deepseek.com/v1/chat/completions',
-    headers: (apiKey: string) => ({
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json'
-    })
-  },
-  gemini: {
-    endpoint: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent',
-    headers: (apiKey: string) => ({
-      'Content-Type': 'application/json'
-    })
-  }
-};
-
-async function callLLMProvider(
-  provider: string,
-  model: string,
-  apiKey: string,
-  prompt: string,
-  maxTokens: number = 500,
-  temperature: number = 0.1
-): Promise<string> {
-  const config = LLM_CONFIGS[provider as keyof typeof LLM_CONFIGS];
-  if (!config) {
-    throw new Error(`Unsupported provider: ${provider}`);
-  }
-
-  let requestBody: any;
-  let endpoint = config.endpoint;
-
-  switch (provider) {
-    case 'openai':
-    case 'deepseek':
-      requestBody = {
-        model: model,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an AI oracle for prediction markets. Respond with valid JSON only.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: maxTokens,
-        temperature: temperature
-      };
-      break;
-
-    case 'gemini':
-      endpoint = `${config.endpoint}?key=${apiKey}`;
-      requestBody = {
-        contents: [{
-          parts: [{
-            text: `You are an AI oracle for prediction markets. Respond with valid JSON only.\n\n${prompt}`
-          }]
-        }],
-        generationConfig: {
-          maxOutputTokens: maxTokens,
-          temperature: temperature
-        }
-      };
-      break;
-
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
-  }
-
-  const headers = config.headers(apiKey);
-  
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers: headers,
-    body: JSON.stringify(requestBody)
-  });
-
-  if (!response.ok) {
-    throw new Error(`${provider} API error: ${response.status} ${response.statusText}`);
-  }
-
-  const data: any = await response.json();
-  
-  // Extract text based on provider format
-  let text: string;
-  switch (provider) {
-    case 'openai':
-    case 'deepseek':
-      text = data.choices?.[0]?.message?.content || '';
-      break;
-    case 'gemini':
-      text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-      break;
-    default:
-      throw new Error(`Unknown response format for provider: ${provider}`);
-  }
-
-  return text;
-}
-
-function parseOracleResponse(text: string): OracleResponse {
-  // Extract JSON from response
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No JSON found in response');
-  }
-
-  const parsed = JSON.parse(jsonMatch[0]);
-  
-  // Validate response structure
-  if (typeof parsed.optionATrue !== 'boolean' || 
-      typeof parsed.optionBTrue !== 'boolean' ||
-      typeof parsed.confidence !== 'number' ||
-      typeof parsed.reasoning !== 'string') {
-    throw new Error('Invalid response structure');
-  }
-
-  // Ensure confidence is between 0 and 1
-  parsed.confidence = Math.max(0, Math.min(1, parsed.confidence));
-
-  return {
-    optionATrue: parsed.optionATrue,
-    optionBTrue: parsed.optionBTrue,
-    confidence: parsed.confidence,
-    reasoning: parsed.reasoning
-  };
-}
-
 export function createOracleAPI(): express.Router {
   const router = express.Router();
 
+  const clients = getClientStore();
+  const meter = meterUsage(clients);
+
   // Apply middleware
   router.use(cors());
-  router.use(limiter);
-  router.use(validateApiKey);
+  router.use(authFailureLimiter);
+  router.use(authenticateClient(clients));
+  router.use(tenantRateLimit());
   router.use(express.json({ limit: '10mb' }));
 
   // Oracle evaluation endpoint
-  router.post('/oracle/evaluate', async (req: express.Request, res: express.Response) => {
+  router.post('/oracle/evaluate', requireScope('evaluate'), meter, async (req: express.Request, res: express.Response) => {
     try {
-      const { prompt, provider, model, apiKey, maxTokens, temperature }: OracleRequest = req.body;
+      const { prompt, question, provider, model }: OracleRequest = req.body;
 
-      if (!prompt || !provider || !model || !apiKey) {
+      if ((!prompt && !question) || !provider || !model) {
         return res.status(400).json({ 
-          error: 'Missing required fields: prompt, provider, model, apiKey' 
+          error: 'Missing required fields: prompt or question, provider, model' 
+        });
+      }
+
+      let market: MarketSpec;
+      let call: ProviderCall;
+      let maxTokens: number | undefined;
+      let temperature: number | undefined;
+      let fullPrompt: string;
+      let template: TemplateRef | null;
+      try {
+        market = parseMarketSpec(req.body.market);
+        call = parseProviderCall(req.body);
+        ({ maxTokens, temperature } = parseGenerationOptions(req.body));
+        const resolution = parseResolutionFields(req.body.resolution);
+        if (question) {
+          rejectInjectedText({
+            question: String(question),
+            market,
+            resolutionCriteria: typeof req.body.resolutionCriteria === 'string' ? req.body.resolutionCriteria : undefined,
+            resolution
+          });
+        }
+        ({ prompt: fullPrompt, template } = await prepareConsensusPrompt({
+          prompt,
+          question,
+          market,
+          category: parseMarketCategory(req.body.category),
+          template: parseTemplateSelector(req.body.template),
+          resolutionCriteria: req.body.resolutionCriteria,
+          resolution
+        }));
+      } catch (error) {
+        return res.status(400).json({
+          error: error instanceof Error ? error.message : 'Invalid evaluation request'
         });
       }
 
       console.log(`Oracle request: ${provider}/${model}`);
-      console.log(`Prompt length: ${prompt.length} characters`);
+      console.log(`Prompt length: ${fullPrompt.length} characters`);
+
+      // Don't wait on a provider that is known to be down
+      const health = getProviderHealth();
+      if (!health.allowRequest(provider)) {
+        const { retryAt } = health.health(provider);
+        if (retryAt) {
+          res.set('Retry-After', String(Math.max(1, Math.ceil((new Date(retryAt).getTime() - Date.now()) / 1000))));
+        }
+        return res.status(503).json({ error: `Provider ${provider} is unavailable (circuit open)`, retryAt });
+      }
+
+      const evaluationId = randomUUID();
+      const startedAt = new Date().toISOString();
+
+      // Call the specified LLM provider and parse its verdict
+      let evaluation: OracleEvaluation | undefined;
+      let evaluationError: unknown;
+      try {
+        evaluation = await evaluateWithProvider(provider, model, fullPrompt, {
+          credential: call.credential,
+          apiKey: call.apiKey,
+          maxTokens,
+          temperature,
+          market,
+          bypassCache: bypassCacheRequested(req)
+        });
+      } catch (error) {
+        evaluationError = error;
+      }
+      if (!isReusedAnswer(evaluation?.cache)) {
+        health.record(
+          provider,
+          classifyCallResult(evaluationError),
+          Date.now() - new Date(startedAt).getTime(),
+          evaluationError instanceof Error ? evaluationError.message : undefined
+        );
+      }
+      const parseError = evaluationError instanceof OracleParseError ? evaluationError : undefined;
+      const usage = evaluation?.usage || parseError?.usage;
 
-      // Call the specified LLM provider
-      const rawResponse = await callLLMProvider(
+      // Failed calls are recorded too, so the trail shows every attempt
+      const { tenant } = getClient(res);
+      await getAuditLog().append(evaluationId, 'evaluation', {
+        tenantId: tenant.id,
         provider,
         model,
-        apiKey,
-        prompt,
-        maxTokens,
-        temperature
-      );
+        systemPrompt: ORACLE_SYSTEM_PROMPT,
+        prompt: fullPrompt,
+        template,
+        maxTokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: temperature ?? DEFAULT_TEMPERATURE,
+        market,
+        rawResponse: evaluation?.rawResponse ?? parseError?.rawResponse,
+        response: evaluation?.response,
+        usage,
+        parse: evaluation?.parse ?? parseError?.parse,
+        cache: evaluation?.cache,
+        error: evaluationError
+          ? (evaluationError instanceof Error ? redactSecrets(evaluationError.message) : 'Unknown error')
+          : undefined,
+        startedAt,
+        completedAt: new Date().toISOString()
+      });
+
+      // Unparseable replies still used tokens, so they are billed like any other call
+      if (usage) {
+        res.locals.usage = addUsage(emptyUsageTotals(), usage);
+        await getUsageLedger().record([{
+          ...usage,
+          timestamp: new Date().toISOString(),
+          evaluationId,
+          tenantId: tenant.id,
+          provider,
+          model
+        }]);
+      }
+
+      if (parseError) {
+        return res.status(502).json({
+          error: 'Provider response could not be parsed',
+          evaluationId,
+          parse: parseError.parse,
+          usage
+        });
+      }
+      if (!evaluation) {
+        throw evaluationError;
+      }
 
-      console.log(`Raw response from ${provider}: ${rawResponse.substring(0, 200)}...`);
+      console.log(`Raw response from ${provider}: ${evaluation.rawResponse.substring(0, 200)}...`);
 
-      // Parse and validate the response
-      const oracleResponse = parseOracleResponse(rawResponse);
+      const oracleResponse = evaluation.response;
 
       console.log(`Parsed response:`, oracleResponse);
 
       // Return the structured response
-      res.json(oracleResponse);
+      res.json({
+        ...oracleResponse,
+        // Set when the reasoning suggests the question steered the answer
+        influence: detectInfluence(oracleResponse) || undefined,
+        evaluationId,
+        usage: evaluation.usage,
+        parse: evaluation.parse,
+        cache: evaluation.cache,
+        template
+      });
 
     } catch (error) {
       console.error('Oracle evaluation error:', error);
       
       res.status(500).json({
         error: 'Oracle evaluation failed',
-        details: error instanceof Error ? error.message : 'Unknown error'
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
       });
     }
   });
 
-  // Health check endpoint
-  router.get('/oracle/health', (req: express.Request, res: express.Response) => {
-    res.json({
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      version: '1.0.0'
-    });
-  });
+  // Service and per-provider health
+  router.use('/oracle/health', createHealthRoutes(getProviderHealth()));
 
   // Consensus endpoint (calls multiple providers)
-  router.post('/oracle/consensus', async (req: express.Request, res: express.Response) => {
+  router.post('/oracle/consensus', requireScope('consensus'), meter, async (req: express.Request, res: express.Response) => {
     try {
-      const { prompt, providers, maxTokens, temperature } = req.body;
-
-      if (!prompt || !providers || !Array.isArray(providers)) {
-        return res.status(400).json({ 
-          error: 'Missing required fields: prompt, providers array' 
+      let request: ConsensusJobRequest;
+      try {
+        request = { ...parseConsensusBody(req.body), bypassCache: bypassCacheRequested(req) || undefined };
+      } catch (error) {
+        return res.status(400).json({
+          error: error instanceof Error ? error.message : 'Invalid consensus request'
         });
       }
 
-      console.log(`Consensus request for ${providers.length} providers`);
-
-      const responses: Array<{ provider: string; response: OracleResponse; error?: string }> = [];
-
-      // Call each provider
-      for (const providerConfig of providers) {
-        try {
-          const rawResponse = await callLLMProvider(
-            providerConfig.provider,
-            providerConfig.model,
-            providerConfig.apiKey,
-            prompt,
-            maxTokens,
-            temperature
-          );
-
-          const oracleResponse = parseOracleResponse(rawResponse);
-          
-          responses.push({
-            provider: providerConfig.provider,
-            response: oracleResponse
-          });
+      console.log(`Consensus request for ${request.providers.length} providers`);
 
-        } catch (error) {
-          console.error(`Error with provider ${providerConfig.provider}:`, error);
-          responses.push({
-            provider: providerConfig.provider,
-            response: {
-              optionATrue: false,
-              optionBTrue: false,
-              confidence: 0,
-              reasoning: 'Provider error'
-            },
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-        }
-      }
+      const { prompt, citations, template } = await prepareConsensusPrompt(request);
 
-      // Calculate consensus
-      const validResponses = responses.filter(r => !r.error && r.response.confidence >= 0.7);
+      const consensus = await runConsensus({
+        ...request,
+        prompt,
+        template,
+        tenantId: getClient(res).tenant.id,
+        citations
+      });
+
+      res.locals.usage = consensus.usage;
       
-      if (validResponses.length === 0) {
+      if (consensus.providers.length === 0) {
         return res.status(500).json({
           error: 'No valid responses from providers',
-          responses: responses
+          evaluationId: consensus.evaluationId,
+          strategy: consensus.strategy,
+          responses: consensus.allResponses,
+          usage: consensus.usage
         });
       }
 
-      let optionAVotes = 0;
-      let optionBVotes = 0;
-      let totalConfidence = 0;
-      const reasonings: string[] = [];
-
-      for (const { provider, response } of validResponses) {
-        if (response.optionATrue && !response.optionBTrue) {
-          optionAVotes++;
-        } else if (response.optionBTrue && !response.optionATrue) {
-          optionBVotes++;
-        }
-
-        totalConfidence += response.confidence;
-        reasonings.push(`${provider}: ${response.reasoning}`);
-      }
-
-      const avgConfidence = totalConfidence / validResponses.length;
-      const consensusThreshold = Math.ceil(validResponses.length / 2);
-
-      const consensus = {
-        optionATrue: optionAVotes >= consensusThreshold,
-        optionBTrue: optionBVotes >= consensusThreshold,
-        confidence: avgConfidence,
-        reasoning: reasonings.join('; '),
-        votes: {
-          optionA: optionAVotes,
-          optionB: optionBVotes
-        },
-        providers: validResponses.map(r => r.provider),
-        allResponses: responses
-      };
-
       console.log('Consensus result:', consensus);
 
       res.json(consensus);
@@ -337,10 +299,40 @@ export function createOracleAPI(): express.Router {
       
       res.status(500).json({
         error: 'Consensus evaluation failed',
-        details: error instanceof Error ? error.message : 'Unknown error'
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
       });
     }
   });
 
+  // Consensus progress as Server-Sent Events
+  router.use('/oracle/consensus/stream', requireScope('consensus'), createConsensusStreamRoutes(meter));
+
+  // Background consensus runs with webhooks
+  router.use('/oracle/jobs', createJobRoutes(getJobRunner(), getJobStore(), meter));
+
+  // Accuracy of oracle settings against already-resolved markets
+  router.use('/oracle/backtest', requireScope('consensus'), createBacktestRoutes(meter));
+
+  // Market registry and resolution
+  router.use('/oracle/markets', createMarketRoutes(getMarketStore(), meter));
+
+  // Versioned oracle prompt templates
+  router.use('/oracle/templates', createTemplateRoutes());
+
+  // Token and cost totals
+  router.use('/oracle/usage', createUsageRoutes(getUsageLedger()));
+
+  // Provider accuracy and calibration against finalized markets
+  router.use('/oracle/reputation', createReputationRoutes(getReputationLedger()));
+
+  // Hash-chained audit trail
+  router.use('/oracle/audit', createAuditRoutes(getAuditLog()));
+
+  // Signed results for on-chain submission
+  router.use('/oracle/attestations', createAttestationRoutes());
+
+  // Operator routes
+  router.use('/oracle/admin', requireScope('admin'), createAdminRoutes(getMarketScheduler(), getCredentialVault(), clients, getProviderHealth()));
+
   return router;
 } 
\ No newline at end of file
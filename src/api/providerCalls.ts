@@ -0,0 +1,83 @@
+import { getCredentialVault } from '../credentials/vault';
+import { getLLMAdapter } from '../llm/registry';
+import { ProviderCall } from '../oracle/types';
+
+export const MAX_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function optionalPositiveInteger(value: unknown, name: string, max: number): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new Error(`${name} must be an integer between 1 and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Raw per-request keys are only accepted when the operator opts in
+ */
+export function requestApiKeysAllowed(): boolean {
+  return process.env.ORACLE_ALLOW_REQUEST_API_KEYS === 'true';
+}
+
+/**
+ * Validates a provider entry from a request body. Keys come from the server's credential
+ * vault, by credential name or the provider's default credential.
+ */
+export function parseProviderCall(input: any): ProviderCall {
+  if (!input || typeof input !== 'object' || !input.provider || !input.model) {
+    throw new Error('Each provider needs provider and model');
+  }
+
+  const { provider, model, credential, apiKey, timeoutMs, fallbacks } = input;
+
+  const adapter = getLLMAdapter(provider);
+  if (!adapter) {
+    throw new Error(`Unsupported provider: ${provider}`);
+  }
+
+  if (apiKey !== undefined && !requestApiKeysAllowed()) {
+    throw new Error('Per-request apiKey is disabled; pass the name of a server credential as "credential"');
+  }
+
+  const vault = getCredentialVault();
+  if (credential !== undefined) {
+    if (typeof credential !== 'string' || !vault.has(credential)) {
+      throw new Error(`Unknown credential: ${credential}`);
+    }
+    if (vault.providerFor(credential) !== provider) {
+      throw new Error(`Credential ${credential} is not for provider ${provider}`);
+    }
+  } else if (!apiKey && adapter.requiresApiKey && !vault.has(provider)) {
+    throw new Error(`No credential configured for provider: ${provider}`);
+  }
+
+  if (fallbacks !== undefined && !Array.isArray(fallbacks)) {
+    throw new Error('fallbacks must be an array');
+  }
+
+  return {
+    provider,
+    model,
+    credential,
+    apiKey: apiKey || undefined,
+    // Goes straight into the call's timer, so a bad value would time out at once or never
+    timeoutMs: optionalPositiveInteger(timeoutMs, 'timeoutMs', MAX_TIMEOUT_MS),
+    fallbacks: fallbacks?.length ? fallbacks.map(parseFallback) : undefined
+  };
+}
+
+function parseFallback(input: any): ProviderCall {
+  if (input?.fallbacks !== undefined) {
+    throw new Error('Fallback providers cannot have fallbacks of their own');
+  }
+  return parseProviderCall(input);
+}
+
+export function parseProviderCalls(input: unknown): ProviderCall[] {
+  if (!Array.isArray(input)) {
+    throw new Error('providers must be an array');
+  }
+  return input.map(parseProviderCall);
+}
@@ -0,0 +1,48 @@
+import express from 'express';
+import { ReputationLedger } from '../reputation/ledger';
+import { reputationSettings, summarizeReputation } from '../reputation/score';
+import { ReputationFilter } from '../reputation/types';
+import { parseDate } from './usage';
+
+/**
+ * Provider track records, mounted under /oracle/reputation
+ */
+export function createReputationRoutes(ledger: ReputationLedger): express.Router {
+  const router = express.Router();
+
+  // Providers ranked by reputation weight, with accuracy and calibration curves,
+  // for ?provider=&model=&from=&to=
+  router.get('/', async (req: express.Request, res: express.Response) => {
+    try {
+      let filter: ReputationFilter;
+      try {
+        filter = {
+          provider: req.query.provider as string | undefined,
+          model: req.query.model as string | undefined,
+          from: parseDate(req.query.from, 'from'),
+          to: parseDate(req.query.to, 'to')
+        };
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid reputation query' });
+      }
+
+      const settings = reputationSettings();
+      const board = summarizeReputation(await ledger.samples(filter), settings);
+      res.json({
+        filter,
+        settings,
+        ...board,
+        providers: board.providers.map((reputation, index) => ({ rank: index + 1, ...reputation }))
+      });
+
+    } catch (error) {
+      console.error('Reputation report error:', error);
+      res.status(500).json({
+        error: 'Failed to load provider reputation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
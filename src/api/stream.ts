@@ -0,0 +1,141 @@
+import express from 'express';
+import { redactSecrets } from '../credentials/vault';
+import { ConsensusJobRequest } from '../jobs/types';
+import { ConsensusProviderResponse, runConsensus } from '../oracle/consensus';
+import { prepareConsensusPrompt } from '../oracle/prompt';
+import { DEFAULT_MIN_CONFIDENCE } from '../oracle/strategies';
+import { getClient } from './auth';
+import { bypassCacheRequested, parseConsensusBody } from './consensusBody';
+
+// Comment lines keep proxies from closing a quiet stream
+const HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * Event for a provider's result: skipped with its circuit open, errors (including timeouts
+ * and early-quorum cancellations), answers below the strategy's minConfidence, or counted answers
+ */
+function responseEvent(response: ConsensusProviderResponse, minConfidence: number): string {
+  if (response.skipped) {
+    return 'provider.skipped';
+  }
+  if (response.error) {
+    return 'provider.error';
+  }
+  return response.response.confidence < minConfidence ? 'provider.filtered' : 'provider.completed';
+}
+
+/**
+ * Streaming variant of /oracle/consensus, mounted under /oracle/consensus/stream.
+ * Takes the same body and answers with Server-Sent Events:
+ *   start, provider.started, provider.token (where the provider streams),
+ *   provider.completed | provider.filtered | provider.error | provider.skipped,
+ *   then consensus or error. A fallback standing in for a provider is named in its events.
+ */
+export function createConsensusStreamRoutes(meter: express.RequestHandler): express.Router {
+  const router = express.Router();
+
+  router.post('/', meter, async (req: express.Request, res: express.Response) => {
+    let request: ConsensusJobRequest;
+    try {
+      request = { ...parseConsensusBody(req.body), bypassCache: bypassCacheRequested(req) || undefined };
+    } catch (error) {
+      return res.status(400).json({
+        error: error instanceof Error ? error.message : 'Invalid consensus request'
+      });
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    // The run carries on if the client goes away, so audit and usage are still recorded
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    const send = (event: string, data: unknown) => {
+      if (!closed) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+    const heartbeat = setInterval(() => {
+      if (!closed) {
+        res.write(': ping\n\n');
+      }
+    }, HEARTBEAT_MS);
+
+    const describe = (index: number) => ({
+      index,
+      provider: request.providers[index].provider,
+      model: request.providers[index].model
+    });
+    const minConfidence = request.strategy.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    const reported = new Set<number>();
+
+    try {
+      const { prompt, citations, template } = await prepareConsensusPrompt(request);
+
+      send('start', {
+        providers: request.providers.map((call, index) => describe(index)),
+        strategy: request.strategy,
+        market: request.market,
+        citations
+      });
+
+      const consensus = await runConsensus({
+        ...request,
+        prompt,
+        template,
+        tenantId: getClient(res).tenant.id,
+        citations,
+        onProviderStart: (call, index) => send('provider.started', {
+          ...describe(index),
+          provider: call.provider,
+          model: call.model,
+          substituteFor: call !== request.providers[index] ? request.providers[index].provider : undefined
+        }),
+        onToken: (index, text, attempt) => send('provider.token', { ...describe(index), attempt, text }),
+        onResponse: (response, index) => {
+          reported.add(index);
+          send(responseEvent(response, minConfidence), { ...describe(index), ...response, minConfidence });
+        }
+      });
+
+      // Providers cut off by early quorum only show up in the final result
+      consensus.allResponses.forEach((response, index) => {
+        if (!reported.has(index)) {
+          send(responseEvent(response, minConfidence), { ...describe(index), ...response, minConfidence });
+        }
+      });
+
+      res.locals.usage = consensus.usage;
+
+      if (consensus.providers.length === 0) {
+        send('error', {
+          error: 'No valid responses from providers',
+          evaluationId: consensus.evaluationId,
+          usage: consensus.usage
+        });
+      } else {
+        send('consensus', consensus);
+      }
+
+    } catch (error) {
+      console.error('Consensus stream error:', error);
+      send('error', {
+        error: 'Consensus evaluation failed',
+        details: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    } finally {
+      clearInterval(heartbeat);
+      res.end();
+    }
+  });
+
+  return router;
+}
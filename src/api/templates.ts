@@ -0,0 +1,40 @@
+import express from 'express';
+import { getPromptTemplate, listPromptTemplates } from '../prompts/library';
+import { templatePlaceholders } from '../prompts/render';
+import { PromptTemplate } from '../prompts/types';
+
+function describeTemplate(template: PromptTemplate) {
+  return { ...template, placeholders: templatePlaceholders(template.template) };
+}
+
+/**
+ * Read-only view of the prompt template library, mounted under /oracle/templates
+ */
+export function createTemplateRoutes(): express.Router {
+  const router = express.Router();
+
+  // Every template version; ?category= narrows to one category
+  router.get('/', (req: express.Request, res: express.Response) => {
+    const category = req.query.category as string | undefined;
+    const templates = listPromptTemplates()
+      .filter(template => !category || template.category === category)
+      .map(describeTemplate);
+    res.json({ templates });
+  });
+
+  // The latest version of a template, or the one given by ?version=
+  router.get('/:id', (req: express.Request, res: express.Response) => {
+    const version = req.query.version !== undefined ? Number(req.query.version) : undefined;
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ error: 'version must be an integer' });
+    }
+
+    const template = getPromptTemplate({ id: req.params.id, version });
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+    res.json(describeTemplate(template));
+  });
+
+  return router;
+}
@@ -0,0 +1,58 @@
+import express from 'express';
+import { UsageLedger } from '../usage/ledger';
+import { UsageFilter } from '../usage/types';
+import { getClient } from './auth';
+
+export function parseDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new Error(`${field} must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+/**
+ * Usage reporting, mounted under /oracle/usage.
+ * Admin keys see every tenant; other keys only see their own tenant.
+ */
+export function createUsageRoutes(ledger: UsageLedger): express.Router {
+  const router = express.Router();
+
+  // Totals by tenant, market and provider for ?from=&to=&tenantId=&marketId=&provider=
+  router.get('/', async (req: express.Request, res: express.Response) => {
+    try {
+      const client = getClient(res);
+      const isAdmin = client.key.scopes.includes('admin');
+
+      let filter: UsageFilter;
+      try {
+        filter = {
+          tenantId: isAdmin ? req.query.tenantId as string | undefined : client.tenant.id,
+          marketId: req.query.marketId as string | undefined,
+          provider: req.query.provider as string | undefined,
+          from: parseDate(req.query.from, 'from'),
+          to: parseDate(req.query.to, 'to')
+        };
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid usage query' });
+      }
+
+      res.json({
+        filter,
+        ...(await ledger.report(filter))
+      });
+
+    } catch (error) {
+      console.error('Usage report error:', error);
+      res.status(500).json({
+        error: 'Failed to load usage',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
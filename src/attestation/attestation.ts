@@ -0,0 +1,198 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { concatBytes } from '@noble/hashes/utils';
+import { ConsensusResult } from '../oracle/consensus';
+import { ResolutionStatus } from '../oracle/verdicts';
+import {
+  TypedDataDomain,
+  TypedDataTypes,
+  fromHex,
+  publicKeyToAddress,
+  toHex,
+  typedDataDigest
+} from './eip712';
+
+export const ATTESTATION_PRIMARY_TYPE = 'OracleAttestation';
+
+export const ATTESTATION_TYPES: TypedDataTypes = {
+  OracleAttestation: [
+    { name: 'marketId', type: 'string' },
+    { name: 'evaluationId', type: 'string' },
+    { name: 'verdict', type: 'uint8' },
+    { name: 'outcome', type: 'int256' },
+    { name: 'confidenceBps', type: 'uint16' },
+    { name: 'providers', type: 'string[]' },
+    { name: 'evidenceHash', type: 'bytes32' },
+    { name: 'issuedAt', type: 'uint64' }
+  ]
+};
+
+// Verdict as encoded on-chain (index into this list)
+export const ATTESTATION_VERDICTS: ResolutionStatus[] = ['RESOLVED', 'INVALID', 'AMBIGUOUS', 'NOT_YET_RESOLVABLE'];
+
+// Scalar outcomes are fixed-point with this many decimals
+export const SCALAR_DECIMALS = 6;
+
+export interface AttestationMessage {
+  // Registry market ID, or "" for ad-hoc consensus requests
+  marketId: string;
+  evaluationId: string;
+  verdict: number;
+  // Option index, fixed-point scalar value, or -1 when not RESOLVED (decimal string, int256)
+  outcome: string;
+  confidenceBps: number;
+  // Sorted names of the providers whose votes were counted
+  providers: string[];
+  // Hash of the consensus entry in the audit log, which chains over every provider response
+  evidenceHash: string;
+  issuedAt: number;
+}
+
+export interface OracleAttestation {
+  domain: TypedDataDomain;
+  primaryType: string;
+  types: TypedDataTypes;
+  message: AttestationMessage;
+  digest: string;
+  // 65-byte r || s || v signature, v = 27 or 28
+  signature: string;
+  signer: string;
+}
+
+export interface AttestationVerification {
+  valid: boolean;
+  digest: string;
+  recoveredSigner: string | null;
+  expectedSigner: string;
+  reason?: string;
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export function attestationDomainFromEnv(): TypedDataDomain {
+  return {
+    name: 'ElizaOS Oracle',
+    version: '1',
+    chainId: Number(process.env.ORACLE_CHAIN_ID) || 43114,
+    verifyingContract: process.env.ORACLE_VERIFYING_CONTRACT || ZERO_ADDRESS
+  };
+}
+
+/**
+ * Canonical on-chain payload for a consensus result
+ */
+export function buildAttestationMessage(
+  consensus: ConsensusResult,
+  evidenceHash: string,
+  marketId?: string,
+  issuedAt = new Date()
+): AttestationMessage {
+  let outcome = -1n;
+  if (consensus.verdict === 'RESOLVED') {
+    outcome = consensus.market.type === 'scalar'
+      ? BigInt(Math.round(consensus.value! * 10 ** SCALAR_DECIMALS))
+      : BigInt(consensus.winningOption!);
+  }
+
+  return {
+    marketId: marketId || '',
+    evaluationId: consensus.evaluationId,
+    verdict: ATTESTATION_VERDICTS.indexOf(consensus.verdict),
+    outcome: outcome.toString(),
+    confidenceBps: Math.round(consensus.confidence * 10000),
+    providers: [...consensus.providers].sort(),
+    evidenceHash: evidenceHash.startsWith('0x') ? evidenceHash : `0x${evidenceHash}`,
+    issuedAt: Math.floor(issuedAt.getTime() / 1000)
+  };
+}
+
+function attestationDigest(domain: TypedDataDomain, message: AttestationMessage): Uint8Array {
+  return typedDataDigest(
+    domain,
+    ATTESTATION_PRIMARY_TYPE,
+    ATTESTATION_TYPES,
+    message as unknown as Record<string, unknown>
+  );
+}
+
+/**
+ * Signs attestations with the oracle's secp256k1 key
+ */
+export class AttestationSigner {
+  readonly address: string;
+  private privateKey: Uint8Array;
+
+  constructor(privateKeyHex: string, readonly domain: TypedDataDomain = attestationDomainFromEnv()) {
+    this.privateKey = fromHex(privateKeyHex);
+    if (!secp256k1.utils.isValidPrivateKey(this.privateKey)) {
+      throw new Error('Invalid secp256k1 private key for attestation signing');
+    }
+    this.address = publicKeyToAddress(secp256k1.getPublicKey(this.privateKey, false));
+  }
+
+  sign(message: AttestationMessage): OracleAttestation {
+    const digest = attestationDigest(this.domain, message);
+    const signature = secp256k1.sign(digest, this.privateKey);
+
+    return {
+      domain: this.domain,
+      primaryType: ATTESTATION_PRIMARY_TYPE,
+      types: ATTESTATION_TYPES,
+      message,
+      digest: toHex(digest),
+      signature: toHex(concatBytes(signature.toCompactRawBytes(), new Uint8Array([27 + signature.recovery]))),
+      signer: this.address
+    };
+  }
+}
+
+/**
+ * Recomputes the digest from the domain and message and checks who signed it
+ */
+export function verifyAttestation(
+  attestation: Pick<OracleAttestation, 'domain' | 'message' | 'signature'>,
+  expectedSigner: string
+): AttestationVerification {
+  const digest = attestationDigest(attestation.domain, attestation.message);
+  const result: AttestationVerification = {
+    valid: false,
+    digest: toHex(digest),
+    recoveredSigner: null,
+    expectedSigner
+  };
+
+  const signature = fromHex(attestation.signature);
+  if (signature.length !== 65) {
+    return { ...result, reason: 'Signature must be 65 bytes' };
+  }
+
+  const recovery = signature[64] >= 27 ? signature[64] - 27 : signature[64];
+  try {
+    const publicKey = secp256k1.Signature
+      .fromCompact(signature.slice(0, 64))
+      .addRecoveryBit(recovery)
+      .recoverPublicKey(digest)
+      .toRawBytes(false);
+    result.recoveredSigner = publicKeyToAddress(publicKey);
+  } catch (error) {
+    return { ...result, reason: 'Signature could not be recovered' };
+  }
+
+  result.valid = result.recoveredSigner.toLowerCase() === expectedSigner.toLowerCase();
+  if (!result.valid) {
+    result.reason = 'Recovered signer does not match';
+  }
+  return result;
+}
+
+let defaultSigner: AttestationSigner | null | undefined;
+
+/**
+ * Signer from ORACLE_SIGNER_PRIVATE_KEY, or null when attestations are disabled
+ */
+export function getAttestationSigner(): AttestationSigner | null {
+  if (defaultSigner === undefined) {
+    const privateKey = process.env.ORACLE_SIGNER_PRIVATE_KEY;
+    defaultSigner = privateKey ? new AttestationSigner(privateKey) : null;
+  }
+  return defaultSigner;
+}
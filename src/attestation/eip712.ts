@@ -0,0 +1,140 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+export type TypedDataTypes = Record<string, TypedDataField[]>;
+
+export interface TypedDataDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+export const EIP712_DOMAIN_TYPE: TypedDataField[] = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' }
+];
+
+export function keccak256(data: Uint8Array): Uint8Array {
+  return keccak_256(data);
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return `0x${bytesToHex(bytes)}`;
+}
+
+export function fromHex(hex: string): Uint8Array {
+  return hexToBytes(hex.startsWith('0x') ? hex.slice(2) : hex);
+}
+
+// Struct types referenced (directly or not) by a type, excluding the type itself
+function findDependencies(primaryType: string, types: TypedDataTypes, found = new Set<string>()): Set<string> {
+  for (const field of types[primaryType]) {
+    const baseType = field.type.replace(/\[\]$/, '');
+    if (types[baseType] && baseType !== primaryType && !found.has(baseType)) {
+      found.add(baseType);
+      findDependencies(baseType, types, found);
+    }
+  }
+  return found;
+}
+
+function encodeType(primaryType: string, types: TypedDataTypes): string {
+  return [primaryType, ...Array.from(findDependencies(primaryType, types)).sort()]
+    .map(type => `${type}(${types[type].map(field => `${field.type} ${field.name}`).join(',')})`)
+    .join('');
+}
+
+function typeHash(primaryType: string, types: TypedDataTypes): Uint8Array {
+  return keccak256(utf8ToBytes(encodeType(primaryType, types)));
+}
+
+// Two's complement, left-padded to 32 bytes
+function encodeInteger(value: unknown, signed: boolean): Uint8Array {
+  let number = BigInt(value as number | string | bigint);
+  if (!signed && number < 0n) {
+    throw new Error(`Unsigned value cannot be negative: ${number}`);
+  }
+  if (number < 0n) {
+    number = (1n << 256n) + number;
+  }
+  return fromHex(number.toString(16).padStart(64, '0'));
+}
+
+/**
+ * Encodes one field value as a 32-byte word.
+ * Supports the types attestations use: string, bytes32, address, (u)intN and arrays of those.
+ */
+function encodeValue(type: string, value: unknown, types: TypedDataTypes): Uint8Array {
+  if (type.endsWith('[]')) {
+    const itemType = type.slice(0, -2);
+    return keccak256(concatBytes(...(value as unknown[]).map(item => encodeValue(itemType, item, types))));
+  }
+  if (types[type]) {
+    return hashStruct(type, value as Record<string, unknown>, types);
+  }
+  if (type === 'string') {
+    return keccak256(utf8ToBytes(String(value)));
+  }
+  if (type === 'bytes32') {
+    const bytes = fromHex(String(value));
+    if (bytes.length !== 32) {
+      throw new Error('bytes32 values must be 32 bytes');
+    }
+    return bytes;
+  }
+  if (type === 'address') {
+    const bytes = fromHex(String(value));
+    if (bytes.length !== 20) {
+      throw new Error('address values must be 20 bytes');
+    }
+    return concatBytes(new Uint8Array(12), bytes);
+  }
+  if (/^u?int\d+$/.test(type)) {
+    return encodeInteger(value, type.startsWith('int'));
+  }
+  throw new Error(`Unsupported EIP-712 type: ${type}`);
+}
+
+export function hashStruct(primaryType: string, data: Record<string, unknown>, types: TypedDataTypes): Uint8Array {
+  return keccak256(concatBytes(
+    typeHash(primaryType, types),
+    ...types[primaryType].map(field => encodeValue(field.type, data[field.name], types))
+  ));
+}
+
+/**
+ * keccak256("\x19\x01" || domainSeparator || hashStruct(message)) — the digest wallets sign
+ */
+export function typedDataDigest(
+  domain: TypedDataDomain,
+  primaryType: string,
+  types: TypedDataTypes,
+  message: Record<string, unknown>
+): Uint8Array {
+  const allTypes = { EIP712Domain: EIP712_DOMAIN_TYPE, ...types };
+  return keccak256(concatBytes(
+    new Uint8Array([0x19, 0x01]),
+    hashStruct('EIP712Domain', domain as unknown as Record<string, unknown>, allTypes),
+    hashStruct(primaryType, message, allTypes)
+  ));
+}
+
+/**
+ * Ethereum address (EIP-55 checksummed) for an uncompressed secp256k1 public key
+ */
+export function publicKeyToAddress(publicKey: Uint8Array): string {
+  const address = bytesToHex(keccak256(publicKey.slice(1)).slice(-20));
+  const checksum = bytesToHex(keccak256(utf8ToBytes(address)));
+  return '0x' + address
+    .split('')
+    .map((char, index) => parseInt(checksum[index], 16) >= 8 ? char.toUpperCase() : char)
+    .join('');
+}
@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AuditEntry, AuditEntryType, AuditVerification } from './types';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * JSON with object keys sorted, so hashes don't depend on property order
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const { seq, evaluationId, type, timestamp, data, prevHash } = entry;
+  return createHash('sha256')
+    .update(canonicalJson({ seq, evaluationId, type, timestamp, data, prevHash }))
+    .digest('hex');
+}
+
+/**
+ * Checks that every entry hashes correctly and links to the one before it
+ */
+export function verifyAuditChain(entries: AuditEntry[]): AuditVerification {
+  let prevHash = GENESIS_HASH;
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    let reason: string | undefined;
+
+    if (entry.seq !== index) {
+      reason = `Expected seq ${index}, found ${entry.seq}`;
+    } else if (entry.prevHash !== prevHash) {
+      reason = 'prevHash does not match the previous entry';
+    } else if (hashAuditEntry(entry) !== entry.hash) {
+      reason = 'Entry contents do not match its hash';
+    }
+
+    if (reason) {
+      return { valid: false, entries: entries.length, brokenAt: index, reason, lastHash: prevHash };
+    }
+    prevHash = entry.hash;
+  }
+
+  return { valid: true, entries: entries.length, lastHash: prevHash };
+}
+
+/**
+ * Append-only, hash-chained log of oracle evaluations
+ */
+export interface AuditLog {
+  append(evaluationId: string, type: AuditEntryType, data: AuditEntry['data']): Promise<AuditEntry>;
+  getTrail(evaluationId: string): Promise<AuditEntry[]>;
+  verify(): Promise<AuditVerification>;
+}
+
+export class MemoryAuditLog implements AuditLog {
+  protected entries: AuditEntry[] = [];
+  private appendQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Appends an entry; appends are serialized so the chain never forks
+   */
+  append(evaluationId: string, type: AuditEntryType, data: AuditEntry['data']): Promise<AuditEntry> {
+    const appended = this.appendQueue.then(async () => {
+      await this.load();
+
+      const previous = this.entries[this.entries.length - 1];
+      const unsigned = {
+        seq: this.entries.length,
+        evaluationId,
+        type,
+        timestamp: new Date().toISOString(),
+        data,
+        prevHash: previous ? previous.hash : GENESIS_HASH
+      };
+      const entry: AuditEntry = { ...unsigned, hash: hashAuditEntry(unsigned) };
+
+      await this.write(entry);
+      this.entries.push(entry);
+      return entry;
+    });
+
+    this.appendQueue = appended.catch(() => undefined);
+    return appended;
+  }
+
+  async getTrail(evaluationId: string): Promise<AuditEntry[]> {
+    await this.load();
+    return this.entries.filter(entry => entry.evaluationId === evaluationId);
+  }
+
+  async verify(): Promise<AuditVerification> {
+    await this.load();
+    return verifyAuditChain(this.entries);
+  }
+
+  protected async load(): Promise<void> {}
+
+  protected async write(entry: AuditEntry): Promise<void> {}
+}
+
+/**
+ * Keeps the chain as JSON lines; entries are only ever appended
+ */
+export class FileAuditLog extends MemoryAuditLog {
+  private loaded = false;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      const contents = await fs.promises.readFile(this.filePath, 'utf8');
+      this.entries = contents
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  protected async write(entry: AuditEntry): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, JSON.stringify(entry) + '\n');
+  }
+}
+
+export function createAuditLog(): AuditLog {
+  const backend = process.env.AUDIT_LOG || 'file';
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryAuditLog();
+    case 'file':
+      return new FileAuditLog(process.env.AUDIT_LOG_PATH || path.join('data', 'audit.jsonl'));
+    default:
+      throw new Error(`Unsupported audit log: ${backend}`);
+  }
+}
+
+let defaultLog: AuditLog | null = null;
+
+/**
+ * Process-wide audit log shared by the HTTP API, the scheduler and the Eliza plugin
+ */
+export function getAuditLog(): AuditLog {
+  if (!defaultLog) {
+    defaultLog = createAuditLog();
+  }
+  return defaultLog;
+}
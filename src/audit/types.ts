@@ -0,0 +1,92 @@
+import { CacheStatus } from '../cache/responseCache';
+import { Citation } from '../evidence/types';
+import { TemplateRef } from '../prompts/types';
+import { MarketSpec } from '../oracle/outcomes';
+import { AppliedStrategy } from '../oracle/strategies';
+import { OracleResponse, ParseReport } from '../oracle/types';
+import { ResolutionStatus } from '../oracle/verdicts';
+import { TokenUsage } from '../usage/types';
+
+export type AuditEntryType = 'evaluation' | 'consensus';
+
+/**
+ * One provider call, exactly as sent and received
+ */
+export interface AuditEvaluationRecord {
+  // Tenant the call was made for; only it and operators can read the trail
+  tenantId?: string;
+  provider: string;
+  model: string;
+  systemPrompt: string;
+  prompt: string;
+  maxTokens?: number;
+  temperature?: number;
+  market?: MarketSpec;
+  rawResponse?: string;
+  response?: OracleResponse;
+  usage?: TokenUsage;
+  // Schema enforcement and any parse failures or repair
+  parse?: ParseReport;
+  // Prompt template and version, null for caller-written prompts
+  template?: TemplateRef | null;
+  // Set when the answer was reused rather than freshly generated
+  cache?: CacheStatus;
+  error?: string;
+  timedOut?: boolean;
+  // Not called because its circuit was open
+  skipped?: boolean;
+  // The panel provider this fallback stood in for
+  substituteFor?: string;
+  startedAt: string;
+  completedAt: string;
+}
+
+/**
+ * The decision reached from a set of evaluations
+ */
+export interface AuditConsensusRecord {
+  // Tenant the decision was made for; only it and operators can read the trail
+  tenantId?: string;
+  marketId?: string;
+  strategy: AppliedStrategy;
+  market: MarketSpec;
+  verdict: ResolutionStatus;
+  reasonCode: string | null;
+  winningOption: number | null;
+  value: number | null;
+  confidence: number;
+  providers: string[];
+  // Providers ("provider/model") whose answers looked steered by injected text
+  influenced?: string[];
+  optionVotes: number[];
+  statusVotes: Record<string, number>;
+  // Evidence included in the prompt
+  citations?: Citation[];
+  // Prompt template and version, null for caller-written prompts
+  template?: TemplateRef | null;
+  startedAt: string;
+  completedAt: string;
+}
+
+export interface AuditEntry {
+  // Position in the chain, starting at 0
+  seq: number;
+  // Groups the provider calls and decision of one request
+  evaluationId: string;
+  type: AuditEntryType;
+  timestamp: string;
+  data: AuditEvaluationRecord | AuditConsensusRecord;
+  // Hash of the previous entry (all zeros for the first)
+  prevHash: string;
+  // sha256 over the canonical JSON of every other field
+  hash: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  // First entry that failed verification
+  brokenAt?: number;
+  reason?: string;
+  lastHash: string;
+}
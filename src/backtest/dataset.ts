@@ -0,0 +1,132 @@
+import fs from 'fs';
+import { MarketSpec, optionCount, optionLabel, parseMarketSpec } from '../oracle/outcomes';
+import { isResolutionStatus } from '../oracle/verdicts';
+import { parseMarketCategory, parseResolutionFields, parseTemplateSelector } from '../prompts/library';
+import { BacktestCase, ExpectedOutcome, RecordedResponse } from './types';
+
+/**
+ * Reads the known outcome of a case: { verdict?, winningOption?, value? }, or shorthand
+ * for a resolved market (an option index or label, or a scalar value) or an unresolved
+ * status such as "INVALID"
+ */
+function parseExpected(input: unknown, market: MarketSpec): ExpectedOutcome {
+  let expected: Partial<ExpectedOutcome>;
+  if (isResolutionStatus(input)) {
+    expected = { verdict: input };
+  } else if (typeof input === 'number' || typeof input === 'string') {
+    expected = market.type === 'scalar' ? { value: Number(input) } : { winningOption: input as any };
+  } else if (input && typeof input === 'object') {
+    expected = { ...(input as ExpectedOutcome) };
+  } else {
+    throw new Error('expected must be an outcome or { verdict, winningOption, value }');
+  }
+
+  const verdict = expected.verdict ?? 'RESOLVED';
+  if (!isResolutionStatus(verdict)) {
+    throw new Error(`Unknown verdict: ${verdict}`);
+  }
+  if (verdict !== 'RESOLVED') {
+    return { verdict };
+  }
+
+  if (market.type === 'scalar') {
+    if (typeof expected.value !== 'number' || !Number.isFinite(expected.value)) {
+      throw new Error('Resolved scalar cases need a numeric expected value');
+    }
+    return { verdict, value: expected.value };
+  }
+
+  // Options may be given by label instead of index
+  let option: unknown = expected.winningOption;
+  if (typeof option === 'string') {
+    const label = option.trim().toLowerCase();
+    const labels = Array.from({ length: optionCount(market) }, (_, index) => optionLabel(market, index).toLowerCase());
+    option = labels.indexOf(label) >= 0 ? labels.indexOf(label) : Number(option);
+  }
+  if (!Number.isInteger(option) || (option as number) < 0 || (option as number) >= optionCount(market)) {
+    throw new Error(`expected.winningOption must be an option index or label (${optionCount(market)} options)`);
+  }
+  return { verdict, winningOption: option as number };
+}
+
+function parseRecordedResponse(input: any): RecordedResponse {
+  if (!input || typeof input !== 'object' ||
+      typeof input.provider !== 'string' || typeof input.model !== 'string') {
+    throw new Error('Each recorded response needs provider and model');
+  }
+  if (input.rawResponse !== undefined && typeof input.rawResponse !== 'string') {
+    throw new Error('rawResponse must be a string');
+  }
+  if (input.rawResponse === undefined && input.response === undefined && input.error === undefined) {
+    throw new Error('Each recorded response needs rawResponse, response or error');
+  }
+
+  return {
+    provider: input.provider,
+    model: input.model,
+    rawResponse: input.rawResponse,
+    response: input.response,
+    error: input.error !== undefined ? String(input.error) : undefined
+  };
+}
+
+/**
+ * Validates a labeled dataset: an array of cases or { cases: [...] }
+ */
+export function parseBacktestDataset(input: unknown): BacktestCase[] {
+  const cases = Array.isArray(input) ? input : (input as { cases?: unknown })?.cases;
+  if (!Array.isArray(cases) || cases.length === 0) {
+    throw new Error('A backtest dataset needs a non-empty cases array');
+  }
+
+  const ids = new Set<string>();
+  return cases.map((item: any, index) => {
+    const label = `Case ${item?.id ?? index + 1}`;
+    try {
+      if (!item || typeof item.question !== 'string' || !item.question) {
+        throw new Error('question is required');
+      }
+      if (item.expected === undefined) {
+        throw new Error('expected is required');
+      }
+      if (item.responses !== undefined && !Array.isArray(item.responses)) {
+        throw new Error('responses must be an array');
+      }
+
+      const id = item.id !== undefined ? String(item.id) : `case-${index + 1}`;
+      if (ids.has(id)) {
+        throw new Error('duplicate id');
+      }
+      ids.add(id);
+
+      const market = parseMarketSpec(item.market);
+      return {
+        id,
+        question: item.question,
+        market,
+        category: parseMarketCategory(item.category),
+        template: parseTemplateSelector(item.template),
+        resolutionCriteria: item.resolutionCriteria ? String(item.resolutionCriteria) : undefined,
+        resolution: parseResolutionFields(item.resolution),
+        expected: parseExpected(item.expected, market),
+        responses: item.responses?.map(parseRecordedResponse)
+      };
+    } catch (error) {
+      throw new Error(`${label}: ${error instanceof Error ? error.message : 'invalid case'}`);
+    }
+  });
+}
+
+/**
+ * Loads a dataset file: JSON (an array or { cases }) or JSON Lines with one case per line
+ */
+export function readBacktestDataset(filePath: string): BacktestCase[] {
+  const text = fs.readFileSync(filePath, 'utf8');
+  if (filePath.endsWith('.jsonl')) {
+    return parseBacktestDataset(text
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line)));
+  }
+  return parseBacktestDataset(JSON.parse(text));
+}
@@ -0,0 +1,182 @@
+import { retrieveEvidence } from '../evidence/retrieve';
+import { runConsensus } from '../oracle/consensus';
+import { tryParseOracleResponse } from '../oracle/parser';
+import { renderPredictionPrompt } from '../oracle/prompt';
+import { applyConsensusStrategy } from '../oracle/strategies';
+import { applyReputation } from '../reputation/consensus';
+import { addUsage, emptyUsageTotals } from '../usage/pricing';
+import { UsageTotals } from '../usage/types';
+import { matchesExpected, summarizeBacktest } from './score';
+import { BacktestCase, BacktestCaseResult, BacktestConfig, BacktestReport, RecordedResponse } from './types';
+
+export interface BacktestRunOptions {
+  // Who live provider calls are billed to
+  tenantId?: string;
+  // Called as each case finishes
+  onResult?: (result: BacktestCaseResult, index: number) => void;
+}
+
+type CaseVerdict = Omit<BacktestCaseResult, 'id' | 'expected' | 'correct' | 'abstained'>;
+
+/**
+ * A case no provider gave a usable answer to; its calls still count towards provider stats
+ */
+function failedCase(error: string, responses: RecordedResponse[] = []): CaseVerdict {
+  return { verdict: null, reasonCode: null, winningOption: null, value: null, confidence: 0, responses, error };
+}
+
+/**
+ * Re-parses and re-tallies a case's recorded responses under the configured strategy,
+ * without calling any provider. Reputation weights and calibration come from the
+ * current reputation ledger.
+ */
+async function replayCase(testCase: BacktestCase, config: BacktestConfig): Promise<CaseVerdict> {
+  const panel = config.providers;
+  const recorded = (testCase.responses || []).filter(response =>
+    !panel || panel.some(call => call.provider === response.provider && call.model === response.model)
+  );
+  if (recorded.length === 0) {
+    throw new Error('No recorded responses to replay');
+  }
+
+  const responses: RecordedResponse[] = recorded.map(response => {
+    if (response.error || response.rawResponse === undefined) {
+      return response;
+    }
+    const parsed = tryParseOracleResponse(response.rawResponse, testCase.market);
+    return parsed.ok
+      ? { ...response, response: parsed.response }
+      : { ...response, response: undefined, error: parsed.failure.message };
+  });
+
+  const answered = responses.filter(response => !response.error && response.response);
+  if (answered.length === 0) {
+    return failedCase('No recorded response could be parsed', responses);
+  }
+
+  const adjustment = await applyReputation(config.strategy, answered);
+  const votes = answered.map(({ provider, model, response }) => ({
+    provider,
+    model,
+    response: { ...response!, confidence: adjustment.confidence(provider, model, response!.confidence) }
+  }));
+  const tally = applyConsensusStrategy(votes, adjustment.strategy, testCase.market);
+  return {
+    verdict: tally.verdict,
+    reasonCode: tally.reasonCode,
+    winningOption: tally.winningOption,
+    value: tally.value,
+    confidence: tally.confidence,
+    responses
+  };
+}
+
+/**
+ * Runs a case through the full consensus pipeline, recording each provider's answer
+ * so the run can be replayed later
+ */
+async function runLiveCase(
+  testCase: BacktestCase,
+  config: BacktestConfig,
+  tenantId: string | undefined,
+  usage: { totals: UsageTotals }
+): Promise<CaseVerdict> {
+  if (!config.providers || config.providers.length === 0) {
+    throw new Error('Live backtests need providers');
+  }
+
+  const citations = config.evidence
+    ? await retrieveEvidence({
+        question: testCase.question,
+        market: testCase.market,
+        resolutionCriteria: testCase.resolutionCriteria
+      })
+    : [];
+  const { prompt, template } = renderPredictionPrompt({ ...testCase, citations });
+
+  const consensus = await runConsensus({
+    prompt,
+    template,
+    providers: config.providers,
+    strategy: config.strategy,
+    market: testCase.market,
+    maxTokens: config.maxTokens,
+    temperature: config.temperature,
+    timeoutMs: config.timeoutMs,
+    bypassCache: config.bypassCache,
+    tenantId,
+    citations
+  });
+  for (const response of consensus.allResponses) {
+    usage.totals = addUsage(usage.totals, response.usage);
+  }
+
+  const responses: RecordedResponse[] = consensus.allResponses.map(response => ({
+    provider: response.provider,
+    model: response.model,
+    response: response.error
+      ? undefined
+      : { ...response.response, confidence: response.reportedConfidence ?? response.response.confidence },
+    error: response.error
+  }));
+  if (consensus.providers.length === 0) {
+    return { ...failedCase('No valid responses from providers', responses), evaluationId: consensus.evaluationId };
+  }
+
+  return {
+    verdict: consensus.verdict,
+    reasonCode: consensus.reasonCode,
+    winningOption: consensus.winningOption,
+    value: consensus.value,
+    confidence: consensus.confidence,
+    responses,
+    evaluationId: consensus.evaluationId,
+    template: consensus.template
+  };
+}
+
+/**
+ * Runs labeled, already-resolved markets through the oracle one at a time and scores
+ * the verdicts against their known outcomes. A case that fails is reported with its
+ * error and left out of the metrics.
+ */
+export async function runBacktest(
+  cases: BacktestCase[],
+  config: BacktestConfig,
+  options: BacktestRunOptions = {}
+): Promise<BacktestReport> {
+  const startedAt = new Date();
+  const usage = { totals: emptyUsageTotals() };
+  const results: BacktestCaseResult[] = [];
+
+  for (const [index, testCase] of cases.entries()) {
+    let result: BacktestCaseResult;
+    try {
+      const verdict = config.mode === 'live'
+        ? await runLiveCase(testCase, config, options.tenantId, usage)
+        : await replayCase(testCase, config);
+      result = {
+        id: testCase.id,
+        expected: testCase.expected,
+        ...verdict,
+        correct: !verdict.error && matchesExpected(verdict, testCase.expected, testCase.market),
+        abstained: !verdict.error && verdict.verdict !== 'RESOLVED'
+      };
+    } catch (error) {
+      result = {
+        id: testCase.id,
+        expected: testCase.expected,
+        ...failedCase(error instanceof Error ? error.message : 'Unknown error'),
+        correct: false,
+        abstained: false
+      };
+    }
+
+    results.push(result);
+    options.onResult?.(result, index);
+  }
+
+  // Echo the strategy with its defaults filled in, as consensus results do
+  const strategy = applyConsensusStrategy([], (await applyReputation(config.strategy, [])).strategy).strategy;
+  return summarizeBacktest(config.mode, strategy, cases, results, usage.totals, startedAt);
+}
@@ -0,0 +1,116 @@
+import { MarketSpec, responseAnswer, sameAnswer } from '../oracle/outcomes';
+import { AppliedStrategy } from '../oracle/strategies';
+import { UsageTotals } from '../usage/types';
+import {
+  BacktestCase,
+  BacktestCaseResult,
+  BacktestMode,
+  BacktestReport,
+  ExpectedOutcome,
+  ProviderBacktestStats
+} from './types';
+
+export function matchesExpected(
+  result: Pick<BacktestCaseResult, 'verdict' | 'winningOption' | 'value'>,
+  expected: ExpectedOutcome,
+  market: MarketSpec
+): boolean {
+  return sameAnswer(result, expected, market);
+}
+
+function share(count: number, total: number): number | null {
+  return total === 0 ? null : count / total;
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Brier score of confidence as the probability of being right: 0 is perfectly
+ * calibrated certainty, 0.25 is a coin flip stated at 50%
+ */
+function brier(points: Array<{ confidence: number; correct: boolean }>): number | null {
+  return mean(points.map(point => (point.confidence - (point.correct ? 1 : 0)) ** 2));
+}
+
+interface ProviderTally {
+  provider: string;
+  model: string;
+  calls: number;
+  answers: Array<{ confidence: number; correct: boolean }>;
+  agreements: boolean[];
+}
+
+function providerStats(cases: BacktestCase[], results: BacktestCaseResult[]): ProviderBacktestStats[] {
+  const tallies = new Map<string, ProviderTally>();
+
+  // Failed cases still count their calls, so providers that never answer show up
+  results.forEach((result, index) => {
+    const { market, expected } = cases[index];
+
+    for (const recorded of result.responses) {
+      const key = `${recorded.provider}/${recorded.model}`;
+      let tally = tallies.get(key);
+      if (!tally) {
+        tally = { provider: recorded.provider, model: recorded.model, calls: 0, answers: [], agreements: [] };
+        tallies.set(key, tally);
+      }
+      tally.calls++;
+      if (recorded.error || !recorded.response) {
+        continue;
+      }
+
+      const answer = responseAnswer(recorded.response);
+      tally.answers.push({
+        confidence: recorded.response.confidence,
+        correct: sameAnswer(answer, expected, market)
+      });
+      if (!result.error && !result.abstained) {
+        tally.agreements.push(sameAnswer(answer, result, market));
+      }
+    }
+  });
+
+  return Array.from(tallies.values()).map(tally => ({
+    provider: tally.provider,
+    model: tally.model,
+    calls: tally.calls,
+    answered: tally.answers.length,
+    agreement: share(tally.agreements.filter(Boolean).length, tally.agreements.length),
+    accuracy: share(tally.answers.filter(answer => answer.correct).length, tally.answers.length),
+    brierScore: brier(tally.answers)
+  }));
+}
+
+/**
+ * Aggregates case results into accuracy, calibration, abstain rate and per-provider agreement
+ */
+export function summarizeBacktest(
+  mode: BacktestMode,
+  strategy: AppliedStrategy,
+  cases: BacktestCase[],
+  results: BacktestCaseResult[],
+  usage: UsageTotals,
+  startedAt: Date
+): BacktestReport {
+  const scored = results.filter(result => !result.error);
+  const resolved = scored.filter(result => !result.abstained);
+
+  return {
+    mode,
+    strategy,
+    cases: results.length,
+    scored: scored.length,
+    errors: results.length - scored.length,
+    accuracy: share(scored.filter(result => result.correct).length, scored.length),
+    resolvedAccuracy: share(resolved.filter(result => result.correct).length, resolved.length),
+    abstainRate: share(scored.length - resolved.length, scored.length),
+    brierScore: brier(resolved),
+    providers: providerStats(cases, results),
+    results,
+    usage,
+    startedAt: startedAt.toISOString(),
+    completedAt: new Date().toISOString()
+  };
+}
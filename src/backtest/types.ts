@@ -0,0 +1,127 @@
+import { MarketSpec } from '../oracle/outcomes';
+import { AppliedStrategy, ConsensusStrategyConfig } from '../oracle/strategies';
+import { OracleResponse, ProviderCall } from '../oracle/types';
+import { ResolutionStatus } from '../oracle/verdicts';
+import { MarketCategory, ResolutionFields, TemplateRef, TemplateSelector } from '../prompts/types';
+import { UsageTotals } from '../usage/types';
+
+/**
+ * "live" asks the providers; "replay" re-tallies each case's recorded responses
+ */
+export type BacktestMode = 'live' | 'replay';
+
+export const BACKTEST_MODES: BacktestMode[] = ['live', 'replay'];
+
+/**
+ * How a labeled market actually resolved
+ */
+export interface ExpectedOutcome {
+  verdict: ResolutionStatus;
+  // Binary and categorical markets
+  winningOption?: number;
+  // Scalar markets
+  value?: number;
+}
+
+/**
+ * One provider's answer to a case, as recorded by a live run or supplied with the dataset.
+ * Raw replies are parsed again on replay, so parser changes are backtested too.
+ */
+export interface RecordedResponse {
+  provider: string;
+  model: string;
+  rawResponse?: string;
+  response?: OracleResponse;
+  error?: string;
+}
+
+/**
+ * An already-resolved market with its known outcome
+ */
+export interface BacktestCase {
+  id: string;
+  question: string;
+  market: MarketSpec;
+  category?: MarketCategory;
+  template?: TemplateSelector;
+  resolutionCriteria?: string;
+  resolution?: ResolutionFields;
+  expected: ExpectedOutcome;
+  // Needed for replay; filled in by live runs
+  responses?: RecordedResponse[];
+}
+
+export interface BacktestConfig {
+  mode: BacktestMode;
+  strategy: ConsensusStrategyConfig;
+  // Live: the panel to ask. Replay: only recorded responses from these providers count;
+  // all of them when absent
+  providers?: ProviderCall[];
+  maxTokens?: number;
+  temperature?: number;
+  timeoutMs?: number;
+  // Live only: retrieve evidence for each question
+  evidence?: boolean;
+  // Live only: ask every provider afresh instead of reusing cached answers
+  bypassCache?: boolean;
+}
+
+export interface BacktestCaseResult {
+  id: string;
+  expected: ExpectedOutcome;
+  // Null when the case could not be run
+  verdict: ResolutionStatus | null;
+  reasonCode: string | null;
+  winningOption: number | null;
+  value: number | null;
+  confidence: number;
+  // Verdict and outcome both match the expected ones
+  correct: boolean;
+  // The oracle didn't pick an outcome (any verdict other than RESOLVED)
+  abstained: boolean;
+  responses: RecordedResponse[];
+  // Live only
+  evaluationId?: string;
+  template?: TemplateRef | null;
+  // Set when the case could not be run or no provider answered; such cases are left
+  // out of every metric except provider call counts
+  error?: string;
+}
+
+/**
+ * How one provider/model did across the cases it was asked
+ */
+export interface ProviderBacktestStats {
+  provider: string;
+  model: string;
+  calls: number;
+  // Calls that produced a parseable answer
+  answered: number;
+  // Share of answers matching the consensus outcome, over cases the consensus resolved
+  agreement: number | null;
+  // Share of answers matching the expected outcome
+  accuracy: number | null;
+  brierScore: number | null;
+}
+
+export interface BacktestReport {
+  mode: BacktestMode;
+  strategy: AppliedStrategy;
+  cases: number;
+  // Cases that ran; the rates below are over these
+  scored: number;
+  errors: number;
+  // Correct verdicts, including correctly declining to resolve
+  accuracy: number | null;
+  // Correct outcomes among cases the oracle resolved
+  resolvedAccuracy: number | null;
+  abstainRate: number | null;
+  // Mean squared gap between confidence and being right, over resolved cases; lower is better
+  brierScore: number | null;
+  providers: ProviderBacktestStats[];
+  results: BacktestCaseResult[];
+  // Live only: what the provider calls cost
+  usage: UsageTotals;
+  startedAt: string;
+  completedAt: string;
+}
@@ -0,0 +1,117 @@
+interface SharedCall<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+  tokenListeners: Set<(text: string, attempt: number) => void>;
+}
+
+export interface SharedCallOptions {
+  signal?: AbortSignal;
+  onToken?: (text: string, attempt: number) => void;
+}
+
+function abortError(): Error {
+  const error = new Error('This operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Lets identical requests share one upstream call while it is in flight.
+ * Each caller keeps its own abort signal; the upstream call is only cancelled once
+ * every caller waiting on it has given up. When the first caller streams, its tokens
+ * go to every caller that asked for them.
+ */
+export class InFlightRequests<T> {
+  private calls = new Map<string, SharedCall<T>>();
+
+  has(key: string): boolean {
+    return this.calls.has(key);
+  }
+
+  run(
+    key: string,
+    start: (signal: AbortSignal, onToken?: (text: string, attempt: number) => void) => Promise<T>,
+    options: SharedCallOptions = {}
+  ): Promise<T> {
+    let call = this.calls.get(key);
+
+    if (!call) {
+      const controller = new AbortController();
+      const tokenListeners = new Set<(text: string, attempt: number) => void>();
+      // Only a streaming first caller makes the upstream call stream
+      const promise = start(controller.signal, options.onToken && ((text, attempt) => {
+        tokenListeners.forEach(listener => listener(text, attempt));
+      }));
+
+      call = { promise, controller, waiters: 0, tokenListeners };
+      this.calls.set(key, call);
+
+      const created = call;
+      promise
+        .catch(() => undefined)
+        .finally(() => {
+          if (this.calls.get(key) === created) {
+            this.calls.delete(key);
+          }
+        });
+    }
+
+    return this.wait(key, call, options);
+  }
+
+  private wait(key: string, call: SharedCall<T>, { signal, onToken }: SharedCallOptions): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+
+    call.waiters++;
+    if (onToken) {
+      call.tokenListeners.add(onToken);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let done = false;
+
+      const leave = () => {
+        done = true;
+        call.waiters--;
+        if (onToken) {
+          call.tokenListeners.delete(onToken);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onAbort = () => {
+        if (done) {
+          return;
+        }
+        leave();
+        // Nobody wants the result any more; later callers start afresh
+        if (call.waiters === 0) {
+          call.controller.abort();
+          if (this.calls.get(key) === call) {
+            this.calls.delete(key);
+          }
+        }
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      call.promise.then(
+        value => {
+          if (!done) {
+            leave();
+            resolve(value);
+          }
+        },
+        error => {
+          if (!done) {
+            leave();
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+}
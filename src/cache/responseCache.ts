@@ -0,0 +1,209 @@
+import { createHash } from 'crypto';
+import { createClient } from 'redis';
+import { canonicalJson } from '../audit/log';
+import { OracleEvaluation } from '../oracle/types';
+
+export const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Where an evaluation came from: the cache, a call shared with an identical request
+ * already in flight, or a fresh call (bypass when the caller asked to skip the cache)
+ */
+export interface CacheStatus {
+  status: 'hit' | 'shared' | 'miss' | 'bypass';
+  key: string;
+  cachedAt?: string;
+}
+
+/**
+ * True when the answer came from the cache or another caller's request rather than a call of its own
+ */
+export function isReusedAnswer(cache?: CacheStatus): boolean {
+  return cache?.status === 'hit' || cache?.status === 'shared';
+}
+
+/**
+ * A parsed evaluation as stored in the cache
+ */
+export interface CachedEvaluation {
+  evaluation: OracleEvaluation;
+  cachedAt: string;
+}
+
+/**
+ * Everything that changes what a provider answers; keys are a hash of these
+ */
+export interface CacheKeyParts {
+  provider: string;
+  model: string;
+  systemPrompt: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  market: unknown;
+}
+
+export function responseCacheKey(parts: CacheKeyParts): string {
+  return createHash('sha256').update(canonicalJson(parts)).digest('hex');
+}
+
+/**
+ * Storage for evaluation responses. Errors are the caller's to swallow: a failing
+ * cache must never fail an evaluation.
+ */
+export interface ResponseCache {
+  get(key: string): Promise<CachedEvaluation | null>;
+  set(key: string, value: CachedEvaluation, ttlMs: number): Promise<void>;
+}
+
+/**
+ * Per-process cache; the oldest entries are evicted past maxEntries
+ */
+export class MemoryResponseCache implements ResponseCache {
+  private entries = new Map<string, { value: CachedEvaluation; expiresAt: number }>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<CachedEvaluation | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: CachedEvaluation, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+/**
+ * The subset of a Redis client the cache needs (node-redis v4 signatures)
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { PX: number }): Promise<unknown>;
+}
+
+/**
+ * Cache shared between processes through Redis, or anything speaking its GET/SET
+ */
+export class RedisResponseCache implements ResponseCache {
+  constructor(private client: RedisLikeClient, private prefix = 'oracle:response:') {}
+
+  async get(key: string): Promise<CachedEvaluation | null> {
+    const value = await this.client.get(this.prefix + key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async set(key: string, value: CachedEvaluation, ttlMs: number): Promise<void> {
+    await this.client.set(this.prefix + key, JSON.stringify(value), { PX: ttlMs });
+  }
+}
+
+// A cache that answers slower than this counts as a miss
+const REDIS_COMMAND_TIMEOUT_MS = 1000;
+const REDIS_MAX_RECONNECT_DELAY_MS = 5000;
+
+/**
+ * A Redis connection for the cache that can also be closed
+ */
+export interface RedisCacheClient extends RedisLikeClient {
+  disconnect(): Promise<void>;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Redis command timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Connects in the background and keeps retrying while Redis is down. Until the client
+ * is ready, reads are misses and writes are skipped, so evaluations never wait on Redis.
+ */
+export function connectRedis(url: string): RedisCacheClient {
+  const client = createClient({
+    url,
+    // Commands fail at once instead of queueing for a connection that may never come
+    disableOfflineQueue: true,
+    socket: {
+      connectTimeout: REDIS_COMMAND_TIMEOUT_MS,
+      reconnectStrategy: retries => Math.min(2 ** retries * 100, REDIS_MAX_RECONNECT_DELAY_MS)
+    }
+  });
+
+  // One log line per outage rather than one per reconnect attempt
+  let reported = false;
+  client.on('error', error => {
+    if (!reported) {
+      reported = true;
+      console.error('Response cache Redis error:', error);
+    }
+  });
+  client.on('ready', () => {
+    reported = false;
+  });
+  client.connect().catch(error => console.error('Response cache Redis connection failed:', error));
+
+  return {
+    get: async key => client.isReady ? withTimeout(client.get(key), REDIS_COMMAND_TIMEOUT_MS) : null,
+    set: async (key, value, options) => {
+      if (client.isReady) {
+        await withTimeout(client.set(key, value, options), REDIS_COMMAND_TIMEOUT_MS);
+      }
+    },
+    disconnect: async () => {
+      if (client.isOpen) {
+        await client.disconnect();
+      }
+    }
+  };
+}
+
+export function createResponseCache(): ResponseCache | null {
+  const backend = process.env.RESPONSE_CACHE || 'memory';
+
+  switch (backend) {
+    case 'off':
+      return null;
+    case 'memory':
+      return new MemoryResponseCache(Number(process.env.RESPONSE_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES);
+    case 'redis':
+      return new RedisResponseCache(
+        connectRedis(process.env.REDIS_URL || 'redis://localhost:6379'),
+        process.env.RESPONSE_CACHE_PREFIX || undefined
+      );
+    default:
+      throw new Error(`Unsupported response cache: ${backend}`);
+  }
+}
+
+let defaultCache: ResponseCache | null | undefined;
+
+/**
+ * Process-wide response cache, or null when RESPONSE_CACHE=off
+ */
+export function getResponseCache(): ResponseCache | null {
+  if (defaultCache === undefined) {
+    defaultCache = createResponseCache();
+  }
+  return defaultCache;
+}
+
+export function responseCacheTtlMs(): number {
+  const value = Number(process.env.RESPONSE_CACHE_TTL_MS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_CACHE_TTL_MS;
+}
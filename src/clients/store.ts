@@ -0,0 +1,321 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {
+  ClientIdentity,
+  ClientKey,
+  ClientScope,
+  Tenant,
+  TenantInput,
+  TenantUpdate,
+  TenantUsage,
+  UsageDelta
+} from './types';
+
+export const DEFAULT_RATE_LIMIT = {
+  windowMs: 15 * 60 * 1000,
+  max: 100
+};
+
+/**
+ * Registry of tenants, their API keys and daily usage
+ */
+export interface ClientStore {
+  createTenant(input: TenantInput): Promise<Tenant>;
+  getTenant(id: string): Promise<Tenant | null>;
+  listTenants(): Promise<Tenant[]>;
+  updateTenant(id: string, update: TenantUpdate): Promise<Tenant | null>;
+  // Returns the stored key and the plaintext, which is never stored or shown again
+  issueKey(tenantId: string, name: string, scopes: ClientScope[]): Promise<{ key: ClientKey; secret: string }>;
+  revokeKey(id: string): Promise<ClientKey | null>;
+  listKeys(tenantId?: string): Promise<ClientKey[]>;
+  authenticate(secret: string): Promise<ClientIdentity | null>;
+  recordUsage(tenantId: string, delta: UsageDelta, date?: Date): Promise<TenantUsage>;
+  getUsage(tenantId: string, date?: Date): Promise<TenantUsage>;
+}
+
+export function hashClientKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export function usageDate(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+interface ClientStoreSnapshot {
+  tenants: Tenant[];
+  keys: ClientKey[];
+  usage: TenantUsage[];
+}
+
+/**
+ * Keeps clients in memory only; used for tests and as the base for the file store
+ */
+export class MemoryClientStore implements ClientStore {
+  protected tenants = new Map<string, Tenant>();
+  protected keys = new Map<string, ClientKey>();
+  protected usage = new Map<string, TenantUsage>();
+
+  async createTenant(input: TenantInput): Promise<Tenant> {
+    await this.load();
+
+    const now = new Date().toISOString();
+    const tenant: Tenant = {
+      id: randomUUID(),
+      name: input.name,
+      rateLimit: input.rateLimit || DEFAULT_RATE_LIMIT,
+      budget: input.budget || {},
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.tenants.set(tenant.id, tenant);
+    await this.persist();
+    return tenant;
+  }
+
+  async getTenant(id: string): Promise<Tenant | null> {
+    await this.load();
+    return this.tenants.get(id) || null;
+  }
+
+  async listTenants(): Promise<Tenant[]> {
+    await this.load();
+    return Array.from(this.tenants.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async updateTenant(id: string, update: TenantUpdate): Promise<Tenant | null> {
+    await this.load();
+
+    const existing = this.tenants.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const tenant: Tenant = {
+      ...existing,
+      ...update,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.tenants.set(id, tenant);
+    await this.persist();
+    return tenant;
+  }
+
+  async issueKey(tenantId: string, name: string, scopes: ClientScope[]): Promise<{ key: ClientKey; secret: string }> {
+    await this.load();
+
+    if (!this.tenants.has(tenantId)) {
+      throw new Error(`Unknown tenant: ${tenantId}`);
+    }
+
+    const secret = `eo_${randomBytes(24).toString('base64url')}`;
+    const key: ClientKey = {
+      id: randomUUID(),
+      tenantId,
+      name,
+      prefix: secret.slice(0, 10),
+      hash: hashClientKey(secret),
+      scopes,
+      createdAt: new Date().toISOString()
+    };
+
+    this.keys.set(key.id, key);
+    await this.persist();
+    return { key, secret };
+  }
+
+  async revokeKey(id: string): Promise<ClientKey | null> {
+    await this.load();
+
+    const existing = this.keys.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const key = { ...existing, revokedAt: existing.revokedAt || new Date().toISOString() };
+    this.keys.set(id, key);
+    await this.persist();
+    return key;
+  }
+
+  async listKeys(tenantId?: string): Promise<ClientKey[]> {
+    await this.load();
+    return Array.from(this.keys.values())
+      .filter(key => !tenantId || key.tenantId === tenantId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async authenticate(secret: string): Promise<ClientIdentity | null> {
+    await this.load();
+
+    const hash = hashClientKey(secret);
+    const key = Array.from(this.keys.values()).find(candidate => candidate.hash === hash);
+    if (!key || key.revokedAt) {
+      return null;
+    }
+
+    const tenant = this.tenants.get(key.tenantId);
+    if (!tenant || tenant.disabled) {
+      return null;
+    }
+
+    return { tenant, key: { id: key.id, name: key.name, scopes: key.scopes } };
+  }
+
+  /**
+   * Adds to a tenant's usage for the day. The read and the write happen without an await
+   * in between, so concurrent requests can't overwrite each other's counts.
+   */
+  async recordUsage(tenantId: string, delta: UsageDelta, date = new Date()): Promise<TenantUsage> {
+    await this.load();
+
+    const current = this.currentUsage(tenantId, date);
+    const usage: TenantUsage = {
+      ...current,
+      requests: current.requests + (delta.requests || 0),
+      tokens: current.tokens + (delta.tokens || 0),
+      costUsd: current.costUsd + (delta.costUsd || 0)
+    };
+
+    this.usage.set(`${tenantId}:${usage.date}`, usage);
+    await this.persistUsage();
+    return usage;
+  }
+
+  async getUsage(tenantId: string, date = new Date()): Promise<TenantUsage> {
+    await this.load();
+    return this.currentUsage(tenantId, date);
+  }
+
+  private currentUsage(tenantId: string, date: Date): TenantUsage {
+    const day = usageDate(date);
+    return this.usage.get(`${tenantId}:${day}`) ||
+      { tenantId, date: day, requests: 0, tokens: 0, costUsd: 0 };
+  }
+
+  protected snapshot(): ClientStoreSnapshot {
+    return {
+      tenants: Array.from(this.tenants.values()),
+      keys: Array.from(this.keys.values()),
+      usage: Array.from(this.usage.values())
+    };
+  }
+
+  protected restore(snapshot: ClientStoreSnapshot): void {
+    this.tenants = new Map(snapshot.tenants.map(tenant => [tenant.id, tenant]));
+    this.keys = new Map(snapshot.keys.map(key => [key.id, key]));
+    this.usage = new Map(snapshot.usage.map(usage => [`${usage.tenantId}:${usage.date}`, usage]));
+  }
+
+  protected async load(): Promise<void> {}
+
+  protected async persist(): Promise<void> {}
+
+  // Usage changes on every metered request; stores may save it less often than other changes
+  protected async persistUsage(): Promise<void> {
+    return this.persist();
+  }
+}
+
+export interface FileClientStoreOptions {
+  // Usage is saved at most this often instead of on every metered request
+  usageFlushMs?: number;
+}
+
+const DEFAULT_USAGE_FLUSH_MS = 1000;
+
+/**
+ * Stores clients as a single JSON file, rewritten atomically on every change to tenants
+ * and keys. Usage is written in batches, so a crash can lose up to usageFlushMs of it.
+ */
+export class FileClientStore extends MemoryClientStore {
+  private loaded = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private usageTimer: NodeJS.Timeout | null = null;
+
+  constructor(private filePath: string, private options: FileClientStoreOptions = {}) {
+    super();
+  }
+
+  /**
+   * Writes usage recorded since the last save now instead of waiting for the batch
+   */
+  async flush(): Promise<void> {
+    if (this.usageTimer) {
+      await this.persist();
+    }
+    return this.writeQueue;
+  }
+
+  protected async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      this.restore(JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  protected async persist(): Promise<void> {
+    // Every write includes usage, so a pending batch is covered by this one
+    if (this.usageTimer) {
+      clearTimeout(this.usageTimer);
+      this.usageTimer = null;
+    }
+    const snapshot = JSON.stringify(this.snapshot(), null, 2);
+
+    // Serialize writes so a slow write never lands after a newer one
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, snapshot, { mode: 0o600 });
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+
+    return this.writeQueue;
+  }
+
+  protected async persistUsage(): Promise<void> {
+    if (this.usageTimer) {
+      return;
+    }
+    this.usageTimer = setTimeout(() => {
+      this.persist().catch(error => console.error('Failed to save client usage:', error));
+    }, this.options.usageFlushMs ?? DEFAULT_USAGE_FLUSH_MS);
+    this.usageTimer.unref();
+  }
+}
+
+export function createClientStore(): ClientStore {
+  const backend = process.env.CLIENT_STORE || 'file';
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryClientStore();
+    case 'file':
+      return new FileClientStore(process.env.CLIENT_STORE_PATH || path.join('data', 'clients.json'), {
+        usageFlushMs: Number(process.env.CLIENT_USAGE_FLUSH_MS) || undefined
+      });
+    default:
+      throw new Error(`Unsupported client store: ${backend}`);
+  }
+}
+
+let defaultStore: ClientStore | null = null;
+
+export function getClientStore(): ClientStore {
+  if (!defaultStore) {
+    defaultStore = createClientStore();
+  }
+  return defaultStore;
+}
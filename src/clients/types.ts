@@ -0,0 +1,72 @@
+export type ClientScope = 'evaluate' | 'consensus' | 'markets:write' | 'disputes' | 'admin';
+
+export const CLIENT_SCOPES: ClientScope[] = ['evaluate', 'consensus', 'markets:write', 'disputes', 'admin'];
+
+export interface TenantRateLimit {
+  windowMs: number;
+  max: number;
+}
+
+/**
+ * Daily spending caps; unset fields are unlimited
+ */
+export interface TenantBudget {
+  dailyTokens?: number;
+  dailyCostUsd?: number;
+}
+
+export interface Tenant {
+  id: string;
+  name: string;
+  rateLimit: TenantRateLimit;
+  budget: TenantBudget;
+  disabled?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TenantInput {
+  name: string;
+  rateLimit?: TenantRateLimit;
+  budget?: TenantBudget;
+}
+
+export type TenantUpdate = Partial<TenantInput> & {
+  disabled?: boolean;
+};
+
+/**
+ * A client API key. Only the sha256 hash of the key is stored.
+ */
+export interface ClientKey {
+  id: string;
+  tenantId: string;
+  name: string;
+  // First characters of the key, so operators can tell keys apart
+  prefix: string;
+  hash: string;
+  scopes: ClientScope[];
+  createdAt: string;
+  revokedAt?: string;
+}
+
+/**
+ * Usage by one tenant on one UTC day
+ */
+export interface TenantUsage {
+  tenantId: string;
+  date: string;
+  requests: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export type UsageDelta = Partial<Pick<TenantUsage, 'requests' | 'tokens' | 'costUsd'>>;
+
+/**
+ * The authenticated caller of a request
+ */
+export interface ClientIdentity {
+  tenant: Tenant;
+  key: Pick<ClientKey, 'id' | 'name' | 'scopes'>;
+}
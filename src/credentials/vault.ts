@@ -0,0 +1,256 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { listLLMProviders } from '../llm/registry';
+
+/**
+ * A named set of API keys for one provider. Requests refer to credentials by name;
+ * the default credential for a provider is named after the provider.
+ */
+export interface ProviderCredential {
+  name: string;
+  provider: string;
+  keys: string[];
+}
+
+/**
+ * What the admin API shows about a credential; keys are reduced to fingerprints
+ */
+export interface CredentialSummary {
+  name: string;
+  provider: string;
+  source: 'env' | 'file';
+  keys: string[];
+}
+
+interface CredentialFile {
+  credentials: ProviderCredential[];
+}
+
+interface SealedCredentialFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const REDACTED = '[REDACTED]';
+
+// Common key shapes, for secrets the vault doesn't know about (e.g. caller-supplied keys)
+const SECRET_PATTERNS = [
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\bAIza[0-9A-Za-z_-]{30,}/g,
+  /([?&](?:key|api_key|apiKey)=)[^&\s"']+/g,
+  /(Bearer\s+)[A-Za-z0-9._~+/-]{8,}=*/g
+];
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+/**
+ * Encrypts a credential file with AES-256-GCM under a scrypt-derived key
+ */
+export function sealCredentials(contents: CredentialFile, passphrase: string): SealedCredentialFile {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(contents), 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+export function openCredentials(sealed: SealedCredentialFile, passphrase: string): CredentialFile {
+  if (sealed.version !== 1) {
+    throw new Error(`Unsupported credential file version: ${sealed.version}`);
+  }
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(passphrase, Buffer.from(sealed.salt, 'base64')),
+    Buffer.from(sealed.iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+
+  try {
+    const data = Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf8'));
+  } catch (error) {
+    throw new Error('Could not decrypt credential file (wrong passphrase or corrupted file)');
+  }
+}
+
+function fingerprint(key: string): string {
+  return key.length > 8 ? `${key.slice(0, 3)}…${key.slice(-4)}` : '…';
+}
+
+export interface CredentialVaultOptions {
+  // Encrypted credential file and its passphrase
+  filePath?: string;
+  passphrase?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Server-side provider credentials, loaded from <PROVIDER>_API_KEY(S) env vars and an
+ * optional encrypted file. Credentials with several keys hand them out round-robin.
+ */
+export class CredentialVault {
+  private credentials = new Map<string, ProviderCredential & { source: 'env' | 'file' }>();
+  private cursors = new Map<string, number>();
+  private retired = new Set<string>();
+
+  constructor(private options: CredentialVaultOptions = {}) {
+    this.reload();
+  }
+
+  /**
+   * Re-reads env and the credential file; keys from the file override env keys of the same name
+   */
+  reload(): void {
+    const env = this.options.env || process.env;
+    const credentials = new Map<string, ProviderCredential & { source: 'env' | 'file' }>();
+
+    for (const provider of listLLMProviders()) {
+      const prefix = provider.toUpperCase();
+      const keys = [env[`${prefix}_API_KEY`], ...(env[`${prefix}_API_KEYS`] || '').split(',')]
+        .map(key => key?.trim())
+        .filter((key): key is string => !!key);
+
+      if (keys.length > 0) {
+        credentials.set(provider, { name: provider, provider, keys: Array.from(new Set(keys)), source: 'env' });
+      }
+    }
+
+    for (const credential of this.readFile()) {
+      credentials.set(credential.name, { ...credential, source: 'file' });
+    }
+
+    // Keep every key ever loaded redactable, even after it is rotated out
+    for (const credential of this.credentials.values()) {
+      credential.keys.forEach(key => this.retired.add(key));
+    }
+
+    this.credentials = credentials;
+  }
+
+  has(name: string): boolean {
+    return this.credentials.has(name);
+  }
+
+  providerFor(name: string): string | undefined {
+    return this.credentials.get(name)?.provider;
+  }
+
+  /**
+   * Next key for a credential; the credential must belong to the provider being called
+   */
+  resolveKey(name: string, provider: string): string {
+    const credential = this.credentials.get(name);
+    if (!credential) {
+      throw new Error(`Unknown credential: ${name}`);
+    }
+    if (credential.provider !== provider) {
+      throw new Error(`Credential ${name} is for provider ${credential.provider}, not ${provider}`);
+    }
+
+    const cursor = this.cursors.get(name) || 0;
+    this.cursors.set(name, (cursor + 1) % credential.keys.length);
+    return credential.keys[cursor % credential.keys.length];
+  }
+
+  list(): CredentialSummary[] {
+    return Array.from(this.credentials.values()).map(credential => ({
+      name: credential.name,
+      provider: credential.provider,
+      source: credential.source,
+      keys: credential.keys.map(fingerprint)
+    }));
+  }
+
+  /**
+   * Replaces a credential's keys and writes the credential file.
+   * Old keys stop being handed out immediately but stay redacted.
+   */
+  async rotate(name: string, provider: string, keys: string[]): Promise<CredentialSummary> {
+    if (!this.options.filePath || !this.options.passphrase) {
+      throw new Error('Key rotation needs ORACLE_CREDENTIALS_FILE and ORACLE_CREDENTIALS_PASSPHRASE');
+    }
+    if (keys.length === 0 || keys.some(key => typeof key !== 'string' || !key.trim())) {
+      throw new Error('keys must be a non-empty array of strings');
+    }
+
+    const stored = this.readFile().filter(credential => credential.name !== name);
+    stored.push({ name, provider, keys: keys.map(key => key.trim()) });
+
+    const sealed = sealCredentials({ credentials: stored }, this.options.passphrase);
+    await fs.promises.mkdir(path.dirname(this.options.filePath), { recursive: true });
+    const tempPath = `${this.options.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(sealed, null, 2), { mode: 0o600 });
+    await fs.promises.rename(tempPath, this.options.filePath);
+
+    this.reload();
+    this.cursors.delete(name);
+    return this.list().find(credential => credential.name === name)!;
+  }
+
+  /**
+   * Replaces every known key, and anything shaped like a key, in text
+   */
+  redact(text: string): string {
+    const known = [
+      ...Array.from(this.credentials.values()).flatMap(credential => credential.keys),
+      ...Array.from(this.retired)
+    ].sort((a, b) => b.length - a.length);
+
+    let redacted = text;
+    for (const key of known) {
+      redacted = redacted.split(key).join(REDACTED);
+    }
+    for (const pattern of SECRET_PATTERNS) {
+      redacted = redacted.replace(pattern, (match, prefix) =>
+        typeof prefix === 'string' ? `${prefix}${REDACTED}` : REDACTED
+      );
+    }
+    return redacted;
+  }
+
+  private readFile(): ProviderCredential[] {
+    const { filePath, passphrase } = this.options;
+    if (!filePath || !fs.existsSync(filePath)) {
+      return [];
+    }
+    if (!passphrase) {
+      throw new Error('ORACLE_CREDENTIALS_PASSPHRASE is required to read the credential file');
+    }
+
+    const sealed: SealedCredentialFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return openCredentials(sealed, passphrase).credentials;
+  }
+}
+
+let defaultVault: CredentialVault | null = null;
+
+export function getCredentialVault(): CredentialVault {
+  if (!defaultVault) {
+    defaultVault = new CredentialVault({
+      filePath: process.env.ORACLE_CREDENTIALS_FILE,
+      passphrase: process.env.ORACLE_CREDENTIALS_PASSPHRASE
+    });
+  }
+  return defaultVault;
+}
+
+/**
+ * Redacts provider keys from error messages, logs and responses
+ */
+export function redactSecrets(text: string): string {
+  return getCredentialVault().redact(text);
+}
@@ -0,0 +1,228 @@
+import { randomUUID } from 'crypto';
+import { retrieveEvidence } from '../evidence/retrieve';
+import { MarketConflictError, statusForVerdict } from '../markets/resolve';
+import { MarketStore } from '../markets/store';
+import { Market, MarketUpdate } from '../markets/types';
+import { ConsensusResult, runConsensus } from '../oracle/consensus';
+import { marketPrompt } from '../oracle/prompt';
+import { ProviderCall } from '../oracle/types';
+import { recordMarketOutcome } from '../reputation/record';
+import {
+  appealStrategy,
+  disputeCitations,
+  disputeRejection,
+  isDisputableVerdict,
+  sameOutcome,
+  summarizeVerdict
+} from './policy';
+import { DisputeInput, MarketDispute } from './types';
+
+export interface AppealOptions {
+  // The appeal panel, as chosen by appealPanel
+  providers: ProviderCall[];
+  maxTokens?: number;
+  temperature?: number;
+  timeoutMs?: number;
+  // Skip evidence retrieval; evidence submitted with the dispute is always included
+  skipEvidence?: boolean;
+}
+
+export interface DisputeOutcome {
+  market: Market;
+  dispute: MarketDispute;
+  consensus: ConsensusResult;
+}
+
+/**
+ * Where the market goes once an appeal has reached a verdict. The appeal verdict stands
+ * for the rest of the original dispute window; NOT_YET_RESOLVABLE reopens resolution.
+ */
+function appealUpdate(market: Market, consensus: ConsensusResult, resolution: number, now: Date): MarketUpdate {
+  const status = statusForVerdict(consensus.verdict, market, now);
+  if (!isDisputableVerdict(consensus.verdict)) {
+    return { status, provisional: undefined, job: { attempts: 0, nextAttemptAt: now.toISOString() } };
+  }
+
+  const provisional = market.provisional!;
+  if (new Date(provisional.disputeWindowEndsAt) <= now) {
+    return { status, provisional: undefined, finalizedAt: now.toISOString() };
+  }
+  return { status: 'proposed', provisional: { ...provisional, status, resolution } };
+}
+
+/**
+ * Files a dispute against a market's provisional verdict and re-evaluates the market with
+ * the appeal panel under a stricter strategy. Both verdicts stay on the market.
+ * The market is claimed by moving it to appealing, so concurrent disputes can't both run an
+ * appeal; the loser, or a dispute disputeRejection refuses, throws MarketConflictError.
+ * A failed appeal leaves the original verdict standing.
+ */
+export async function disputeMarket(
+  store: MarketStore,
+  snapshot: Market,
+  input: DisputeInput,
+  options: AppealOptions
+): Promise<DisputeOutcome> {
+  // Re-checked on the stored market as part of the claim, not on the caller's copy
+  const market = await store.transition(snapshot.id, 'proposed', 'appealing', existing =>
+    disputeRejection(existing) ? null : {}
+  );
+  if (!market) {
+    const current = await store.get(snapshot.id);
+    throw new MarketConflictError(
+      (current && disputeRejection(current)) || 'The market changed while the dispute was filed; try again'
+    );
+  }
+
+  const contested = market.provisional!.resolution;
+  const original = market.resolutions[contested].consensus;
+  const panel = options.providers;
+  const strategy = appealStrategy(original.strategy, panel.length);
+
+  const now = new Date().toISOString();
+  const dispute: MarketDispute = {
+    id: randomUUID(),
+    tenantId: input.tenantId,
+    reason: input.reason,
+    evidence: input.evidence || [],
+    status: 'appealing',
+    contestedResolution: contested,
+    original: summarizeVerdict(original),
+    panel: panel.map(call => `${call.provider}/${call.model}`),
+    createdAt: now,
+    updatedAt: now
+  };
+  await store.addDispute(market.id, dispute);
+
+  const fail = async (error: string): Promise<Market | null> => {
+    const completedAt = new Date().toISOString();
+    return store.updateDispute(market.id, dispute.id, { status: 'failed', error, completedAt }, { status: 'proposed' });
+  };
+
+  let consensus: ConsensusResult;
+  try {
+    const retrieved = options.skipEvidence ? [] : await retrieveEvidence({
+      question: market.question,
+      market: market.market,
+      resolutionCriteria: market.resolutionCriteria
+    });
+    const citations = [...retrieved, ...disputeCitations(dispute.evidence, retrieved)];
+
+    const { prompt, template } = marketPrompt(market, citations);
+    consensus = await runConsensus({
+      prompt,
+      template,
+      screening: market.screening,
+      providers: panel,
+      strategy,
+      market: market.market,
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+      timeoutMs: options.timeoutMs,
+      // An appeal is a second look, so cached answers from the first one don't count
+      bypassCache: true,
+      marketId: market.id,
+      tenantId: input.tenantId,
+      citations
+    });
+  } catch (error) {
+    await fail(error instanceof Error ? error.message : 'Unknown error');
+    throw error;
+  }
+
+  if (consensus.providers.length === 0) {
+    const updated = await fail('No valid responses from the appeal panel');
+    return {
+      market: updated!,
+      dispute: updated!.disputes!.find(entry => entry.id === dispute.id)!,
+      consensus
+    };
+  }
+
+  const completedAt = new Date();
+  const withAppeal = await store.addResolution(market.id, {
+    resolvedAt: completedAt.toISOString(),
+    consensus,
+    disputeId: dispute.id
+  });
+  const appealResolution = withAppeal!.resolutions.length - 1;
+  const appeal = summarizeVerdict(consensus);
+  const update = appealUpdate(market, consensus, appealResolution, completedAt);
+
+  const updated = await store.updateDispute(
+    market.id,
+    dispute.id,
+    {
+      status: sameOutcome(dispute.original, appeal) ? 'upheld' : 'overturned',
+      appeal,
+      appealResolution,
+      completedAt: completedAt.toISOString()
+    },
+    update
+  );
+  if (update.finalizedAt) {
+    await recordMarketOutcome(store, updated!, appealResolution);
+  }
+
+  return {
+    market: updated!,
+    dispute: updated!.disputes!.find(entry => entry.id === dispute.id)!,
+    consensus
+  };
+}
+
+/**
+ * Gives markets whose dispute window has closed their final status.
+ * Markets with an appeal still running wait for it to finish.
+ */
+export async function finalizeDueMarkets(store: MarketStore, now = new Date()): Promise<Market[]> {
+  const proposed = await store.list({ status: 'proposed' });
+  const finalized: Market[] = [];
+
+  for (const market of proposed) {
+    const provisional = market.provisional;
+    if (provisional && new Date(provisional.disputeWindowEndsAt) <= now) {
+      // Skipped if an appeal claimed the market, or replaced the verdict, since it was listed
+      const updated = await store.transition(market.id, 'proposed', provisional.status, existing =>
+        existing.provisional?.resolution === provisional.resolution
+          ? { provisional: undefined, finalizedAt: now.toISOString() }
+          : null
+      );
+      if (updated) {
+        finalized.push(updated);
+        await recordMarketOutcome(store, updated, provisional.resolution);
+      }
+    }
+  }
+
+  return finalized;
+}
+
+/**
+ * A crash mid-appeal leaves markets in "appealing"; fail the appeal so the
+ * original verdict stands and the window can close
+ */
+export async function recoverInterruptedAppeals(
+  store: MarketStore,
+  stuckAfterMs: number,
+  now = new Date()
+): Promise<void> {
+  const appealing = await store.list({ status: 'appealing' });
+
+  for (const market of appealing) {
+    if (now.getTime() - new Date(market.updatedAt).getTime() < stuckAfterMs) {
+      continue;
+    }
+    const dispute = (market.disputes || []).find(entry => entry.status === 'appealing');
+    if (dispute) {
+      await store.updateDispute(
+        market.id,
+        dispute.id,
+        { status: 'failed', error: 'Appeal interrupted', completedAt: now.toISOString() },
+        { status: 'proposed' }
+      );
+    } else {
+      await store.update(market.id, { status: 'proposed' });
+    }
+  }
+}
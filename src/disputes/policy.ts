@@ -0,0 +1,187 @@
+import { Citation } from '../evidence/types';
+import { ConsensusResult } from '../oracle/consensus';
+import { AppliedStrategy, ConsensusStrategyConfig } from '../oracle/strategies';
+import { ProviderCall } from '../oracle/types';
+import { ResolutionStatus } from '../oracle/verdicts';
+import { Market } from '../markets/types';
+import { DisputeEvidence, VerdictSummary } from './types';
+
+export const DEFAULT_DISPUTE_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_MAX_APPEALS = 1;
+
+// Appeals need a clearly stronger agreement than the verdict they review
+const APPEAL_MIN_THRESHOLD = 2 / 3;
+const APPEAL_THRESHOLD_STEP = 0.15;
+const APPEAL_CONFIDENCE_STEP = 0.1;
+const APPEAL_MAX_CONFIDENCE = 0.95;
+
+const MAX_EVIDENCE_ITEMS = 10;
+const MAX_EVIDENCE_LENGTH = 4000;
+
+/**
+ * How long a verdict can be disputed before the market takes its final status
+ */
+export function disputeWindowMs(market?: Pick<Market, 'disputeWindowMs'>): number {
+  if (market?.disputeWindowMs !== undefined) {
+    return market.disputeWindowMs;
+  }
+  const value = Number(process.env.DISPUTE_WINDOW_MS);
+  return process.env.DISPUTE_WINDOW_MS !== undefined && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_DISPUTE_WINDOW_MS;
+}
+
+export function maxAppeals(): number {
+  const value = Number(process.env.DISPUTE_MAX_APPEALS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_APPEALS;
+}
+
+/**
+ * NOT_YET_RESOLVABLE sends the market back to waiting; every other verdict can be disputed
+ */
+export function isDisputableVerdict(verdict: ResolutionStatus): boolean {
+  return verdict !== 'NOT_YET_RESOLVABLE';
+}
+
+export function summarizeVerdict(consensus: ConsensusResult): VerdictSummary {
+  return {
+    evaluationId: consensus.evaluationId,
+    verdict: consensus.verdict,
+    reasonCode: consensus.reasonCode,
+    winningOption: consensus.winningOption,
+    value: consensus.value,
+    confidence: consensus.confidence,
+    providers: consensus.providers
+  };
+}
+
+/**
+ * Whether an appeal reached the same outcome as the verdict it reviewed
+ */
+export function sameOutcome(original: VerdictSummary, appeal: VerdictSummary): boolean {
+  return original.verdict === appeal.verdict &&
+    original.winningOption === appeal.winningOption &&
+    original.value === appeal.value;
+}
+
+/**
+ * Why a dispute can't be filed against the market right now, or null if it can
+ */
+export function disputeRejection(market: Market, now = new Date()): string | null {
+  if (market.status === 'appealing') {
+    return 'An appeal is already running for this market';
+  }
+  if (market.status !== 'proposed' || !market.provisional) {
+    return `Only verdicts inside their dispute window can be disputed (market is ${market.status})`;
+  }
+  if (new Date(market.provisional.disputeWindowEndsAt) <= now) {
+    return `The dispute window closed at ${market.provisional.disputeWindowEndsAt}`;
+  }
+
+  const appeals = (market.disputes || []).filter(dispute => dispute.status !== 'failed').length;
+  if (appeals >= maxAppeals()) {
+    return `This market has already been appealed ${appeals} time${appeals === 1 ? '' : 's'}`;
+  }
+  return null;
+}
+
+/**
+ * Validates dispute evidence from a request body: strings or { text, title?, url? } objects
+ */
+export function parseDisputeEvidence(input: unknown): DisputeEvidence[] {
+  if (input === undefined || input === null) {
+    return [];
+  }
+  if (!Array.isArray(input)) {
+    throw new Error('evidence must be an array');
+  }
+  if (input.length > MAX_EVIDENCE_ITEMS) {
+    throw new Error(`At most ${MAX_EVIDENCE_ITEMS} evidence items are accepted`);
+  }
+
+  return input.map(item => {
+    const evidence: DisputeEvidence = typeof item === 'string' ? { text: item } : item;
+    if (!evidence || typeof evidence.text !== 'string' || !evidence.text.trim()) {
+      throw new Error('Each evidence item needs text');
+    }
+    if (evidence.text.length > MAX_EVIDENCE_LENGTH) {
+      throw new Error(`Evidence text is limited to ${MAX_EVIDENCE_LENGTH} characters`);
+    }
+    if ((evidence.title !== undefined && typeof evidence.title !== 'string') ||
+        (evidence.url !== undefined && typeof evidence.url !== 'string')) {
+      throw new Error('Evidence title and url must be strings');
+    }
+    return { text: evidence.text.trim(), title: evidence.title, url: evidence.url };
+  });
+}
+
+/**
+ * Dispute evidence as citations, numbered after the retrieved ones
+ */
+export function disputeCitations(evidence: DisputeEvidence[], retrieved: Citation[]): Citation[] {
+  return evidence.map((item, index) => ({
+    ref: `E${retrieved.length + index + 1}`,
+    sourceName: 'dispute',
+    sourceType: 'dispute',
+    title: item.title || 'Submitted with the dispute',
+    url: item.url,
+    text: item.text
+  }));
+}
+
+function panelKey(call: { provider: string; model: string }): string {
+  return `${call.provider}/${call.model}`;
+}
+
+/**
+ * Providers for an appeal: the requested panel, or the original panel plus the
+ * configured appeal providers. The panel must be larger than the original or include
+ * someone who wasn't on it, so an appeal is never the same panel asked twice.
+ */
+export function appealPanel(
+  original: ConsensusResult,
+  requested: ProviderCall[] | undefined,
+  configured: ProviderCall[]
+): ProviderCall[] {
+  const originalPanel = original.allResponses.map(response => ({
+    provider: response.provider,
+    model: response.model
+  }));
+  const originalKeys = new Set(originalPanel.map(panelKey));
+
+  let panel: ProviderCall[];
+  if (requested && requested.length > 0) {
+    panel = requested;
+  } else {
+    const seen = new Set<string>();
+    panel = [...originalPanel, ...configured].filter(call => {
+      const key = panelKey(call);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  if (panel.length <= originalPanel.length && panel.every(call => originalKeys.has(panelKey(call)))) {
+    throw new Error(
+      'The appeal panel must be larger than or differ from the original panel; ' +
+      'pass providers or set DISPUTE_APPEAL_PROVIDERS'
+    );
+  }
+  return panel;
+}
+
+/**
+ * A supermajority stricter than the strategy that produced the contested verdict
+ */
+export function appealStrategy(original: AppliedStrategy, panelSize: number): ConsensusStrategyConfig {
+  const threshold = Math.min(1, Math.max(APPEAL_MIN_THRESHOLD, original.threshold + APPEAL_THRESHOLD_STEP));
+  return {
+    name: 'supermajority',
+    threshold,
+    required: Math.max(1, Math.ceil(threshold * panelSize - 1e-9)),
+    minConfidence: Math.min(APPEAL_MAX_CONFIDENCE, Math.round((original.minConfidence + APPEAL_CONFIDENCE_STEP) * 100) / 100)
+  };
+}
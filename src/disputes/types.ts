@@ -0,0 +1,58 @@
+import { ResolutionStatus } from '../oracle/verdicts';
+
+/**
+ * appealing: the re-evaluation is running. upheld / overturned: the appeal panel agreed
+ * with / departed from the contested verdict. failed: the appeal produced no verdict.
+ */
+export type DisputeStatus = 'appealing' | 'upheld' | 'overturned' | 'failed';
+
+export const DISPUTE_STATUSES: DisputeStatus[] = ['appealing', 'upheld', 'overturned', 'failed'];
+
+/**
+ * Supporting material submitted with a dispute; shown to the appeal panel as evidence
+ */
+export interface DisputeEvidence {
+  text: string;
+  title?: string;
+  url?: string;
+}
+
+/**
+ * The parts of a consensus result a dispute compares
+ */
+export interface VerdictSummary {
+  evaluationId: string;
+  verdict: ResolutionStatus;
+  reasonCode: string | null;
+  winningOption: number | null;
+  value: number | null;
+  confidence: number;
+  // Providers whose answers were counted
+  providers: string[];
+}
+
+export interface MarketDispute {
+  id: string;
+  // Who filed it
+  tenantId: string;
+  reason: string;
+  evidence: DisputeEvidence[];
+  status: DisputeStatus;
+  // Index into market.resolutions of the contested verdict and of the appeal verdict
+  contestedResolution: number;
+  appealResolution?: number;
+  original: VerdictSummary;
+  appeal?: VerdictSummary;
+  // Providers asked to re-evaluate, as "provider/model"
+  panel: string[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface DisputeInput {
+  tenantId: string;
+  reason: string;
+  evidence?: DisputeEvidence[];
+}
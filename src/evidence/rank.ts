@@ -0,0 +1,62 @@
+import { EvidenceQuery, EvidenceSnippet } from './types';
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will',
+  'with', 'what', 'when', 'which', 'who', 'would', 'before', 'after', 'end', 'than', 'more', 'less'
+]);
+
+// Half-life for the recency boost on dated snippets
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9$%.]+/g) || [])
+    .map(token => token.replace(/\.+$/, ''))
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function queryTerms(query: EvidenceQuery): Set<string> {
+  const options = query.market?.options?.join(' ') || '';
+  return new Set(tokenize(`${query.question} ${options} ${query.resolutionCriteria || ''}`));
+}
+
+/**
+ * Scores snippets by query-term overlap, weighting rare terms higher, with a boost for recent ones.
+ * Price snippets always rank: they are only produced for assets the question mentions.
+ */
+export function rankEvidence(query: EvidenceQuery, snippets: EvidenceSnippet[], now = new Date()): EvidenceSnippet[] {
+  const terms = queryTerms(query);
+  const snippetTokens = snippets.map(snippet => new Set(tokenize(`${snippet.title || ''} ${snippet.text}`)));
+
+  // Inverse document frequency over the candidate set
+  const idf = new Map<string, number>();
+  for (const term of terms) {
+    const containing = snippetTokens.filter(tokens => tokens.has(term)).length;
+    idf.set(term, Math.log(1 + snippets.length / (1 + containing)));
+  }
+
+  return snippets
+    .map((snippet, index) => {
+      let score = 0;
+      for (const term of terms) {
+        if (snippetTokens[index].has(term)) {
+          score += idf.get(term)!;
+        }
+      }
+
+      if (snippet.publishedAt && score > 0) {
+        const ageDays = (now.getTime() - new Date(snippet.publishedAt).getTime()) / (24 * 60 * 60 * 1000);
+        if (ageDays >= 0) {
+          score *= 1 + Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+        }
+      }
+
+      if (snippet.sourceType === 'price') {
+        score = Math.max(score, 1) + 1;
+      }
+
+      return { ...snippet, score };
+    })
+    .filter(snippet => snippet.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,120 @@
+import { rankEvidence } from './rank';
+import { createDocumentSource } from './sources/documents';
+import { createJsonFeedSource, createRssSource } from './sources/feeds';
+import { PriceFeed, createCoinGeckoPriceFeed, createPriceSource, createStaticPriceFeed } from './sources/price';
+import { Citation, EvidenceQuery, EvidenceSource } from './types';
+
+export const DEFAULT_MAX_SNIPPETS = 5;
+
+function listFromEnv(name: string): string[] {
+  return (process.env[name] || '').split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Price feed selected by EVIDENCE_PRICE_FEED: "coingecko", or "static" with
+ * prices from EVIDENCE_PRICE_STUB (JSON map of asset ID to price)
+ */
+function priceFeedFromEnv(): PriceFeed | null {
+  switch (process.env.EVIDENCE_PRICE_FEED) {
+    case 'coingecko':
+      return createCoinGeckoPriceFeed();
+    case 'static':
+      return createStaticPriceFeed(JSON.parse(process.env.EVIDENCE_PRICE_STUB || '{}'));
+    case undefined:
+    case '':
+      return null;
+    default:
+      throw new Error(`Unknown EVIDENCE_PRICE_FEED: ${process.env.EVIDENCE_PRICE_FEED}`);
+  }
+}
+
+let defaultSources: EvidenceSource[] | null = null;
+
+/**
+ * Evidence sources configured through EVIDENCE_DOCS_DIR, EVIDENCE_RSS_FEEDS,
+ * EVIDENCE_JSON_FEEDS (comma-separated URLs) and EVIDENCE_PRICE_FEED
+ */
+export function getEvidenceSources(): EvidenceSource[] {
+  if (!defaultSources) {
+    const sources: EvidenceSource[] = [];
+
+    if (process.env.EVIDENCE_DOCS_DIR) {
+      sources.push(createDocumentSource(process.env.EVIDENCE_DOCS_DIR));
+    }
+    sources.push(...listFromEnv('EVIDENCE_RSS_FEEDS').map(url => createRssSource(url)));
+    sources.push(...listFromEnv('EVIDENCE_JSON_FEEDS').map(url => createJsonFeedSource(url)));
+
+    const priceFeed = priceFeedFromEnv();
+    if (priceFeed) {
+      sources.push(createPriceSource(priceFeed));
+    }
+
+    defaultSources = sources;
+  }
+  return defaultSources;
+}
+
+/**
+ * Fetches candidates from every source and keeps the most relevant as numbered citations.
+ * A failing source is logged and skipped so one bad feed does not block resolution.
+ */
+export async function retrieveEvidence(
+  query: EvidenceQuery,
+  sources: EvidenceSource[] = getEvidenceSources(),
+  maxSnippets = Number(process.env.EVIDENCE_MAX_SNIPPETS) || DEFAULT_MAX_SNIPPETS
+): Promise<Citation[]> {
+  if (sources.length === 0) {
+    return [];
+  }
+
+  const retrievedAt = new Date().toISOString();
+  const results = await Promise.allSettled(sources.map(source => source.fetch(query)));
+  const snippets = results.flatMap((result, index) => {
+    if (result.status === 'rejected') {
+      console.warn(`Evidence source ${sources[index].name} failed:`, result.reason);
+      return [];
+    }
+    return result.value;
+  });
+
+  return rankEvidence(query, snippets)
+    .slice(0, maxSnippets)
+    .map((snippet, index) => ({
+      ref: `E${index + 1}`,
+      sourceName: snippet.sourceName,
+      sourceType: snippet.sourceType,
+      title: snippet.title,
+      url: snippet.url,
+      publishedAt: snippet.publishedAt,
+      retrievedAt,
+      text: snippet.text
+    }));
+}
+
+// Documents are titled by their path, so only show the URL when it adds something
+function linkOf(citation: Citation): string | undefined {
+  return citation.url && citation.url !== citation.title ? `(${citation.url})` : undefined;
+}
+
+/**
+ * Evidence section of an oracle prompt
+ */
+export function formatEvidenceBlock(citations: Citation[]): string {
+  return citations
+    .map(citation => {
+      const heading = [citation.title, linkOf(citation), citation.publishedAt && `published ${citation.publishedAt}`]
+        .filter(Boolean)
+        .join(' ');
+      return `[${citation.ref}] ${heading || citation.sourceName}\n${citation.text}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Source list appended to consensus reasoning so results can be checked
+ */
+export function formatCitationList(citations: Citation[]): string {
+  return citations
+    .map(citation => [`[${citation.ref}]`, citation.title || citation.sourceName, linkOf(citation)].filter(Boolean).join(' '))
+    .join('; ');
+}
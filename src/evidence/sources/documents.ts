@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import { EvidenceSnippet, EvidenceSource } from '../types';
+
+const DOCUMENT_EXTENSIONS = ['.md', '.txt', '.json'];
+const MAX_CHUNK_LENGTH = 800;
+
+/**
+ * Splits a document into paragraph-sized chunks
+ */
+function chunkDocument(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n\s*\n/).map(part => part.trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length > MAX_CHUNK_LENGTH) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks.map(chunk => chunk.length > MAX_CHUNK_LENGTH ? chunk.slice(0, MAX_CHUNK_LENGTH) : chunk);
+}
+
+async function listDocuments(directory: string): Promise<string[]> {
+  const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+  const files = await Promise.all(entries.map(async entry => {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return listDocuments(fullPath);
+    }
+    return DOCUMENT_EXTENSIONS.includes(path.extname(entry.name)) ? [fullPath] : [];
+  }));
+  return files.flat();
+}
+
+/**
+ * Local documents (markdown, text or JSON) under a directory, e.g. resolution sources
+ * an operator has saved for a market
+ */
+export function createDocumentSource(directory: string): EvidenceSource {
+  return {
+    name: `documents:${path.basename(directory)}`,
+    type: 'document',
+
+    async fetch() {
+      const files = await listDocuments(directory);
+      const snippets: EvidenceSnippet[] = [];
+
+      for (const file of files) {
+        const [contents, stats] = await Promise.all([
+          fs.promises.readFile(file, 'utf8'),
+          fs.promises.stat(file)
+        ]);
+        const relativePath = path.relative(directory, file);
+
+        chunkDocument(contents).forEach((text, index) => {
+          snippets.push({
+            sourceName: this.name,
+            sourceType: 'document',
+            title: index === 0 ? relativePath : `${relativePath} (part ${index + 1})`,
+            url: relativePath,
+            text,
+            publishedAt: stats.mtime.toISOString()
+          });
+        });
+      }
+
+      return snippets;
+    }
+  };
+}
@@ -0,0 +1,117 @@
+import { EvidenceSnippet, EvidenceSource } from '../types';
+
+export const DEFAULT_FEED_TIMEOUT_MS = 10000;
+
+const MAX_ITEM_LENGTH = 800;
+
+export async function fetchWithTimeout(url: string, timeoutMs = DEFAULT_FEED_TIMEOUT_MS): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Feed ${url} returned ${response.status}`);
+    }
+    return response;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (match, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function plainText(markup: string): string {
+  const unwrapped = markup.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+  return decodeEntities(decodeEntities(unwrapped).replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_ITEM_LENGTH);
+}
+
+function readTag(item: string, tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const match = item.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+function readDate(value?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(plainText(value));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Items from an RSS 2.0 or Atom feed
+ */
+export function parseRssFeed(xml: string, sourceName: string): EvidenceSnippet[] {
+  const items = xml.match(/<(item|entry)(?:\s[^>]*)?>[\s\S]*?<\/\1>/gi) || [];
+
+  return items.map(item => {
+    const atomLink = item.match(/<link[^>]*href="([^"]+)"/i);
+    const link = readTag(item, ['link']);
+
+    return {
+      sourceName,
+      sourceType: 'rss' as const,
+      title: plainText(readTag(item, ['title']) || ''),
+      url: atomLink ? atomLink[1] : (link ? plainText(link) : undefined),
+      text: plainText(readTag(item, ['description', 'summary', 'content', 'content:encoded']) || ''),
+      publishedAt: readDate(readTag(item, ['pubDate', 'published', 'updated', 'dc:date']))
+    };
+  }).filter(snippet => snippet.title || snippet.text);
+}
+
+/**
+ * Items from a JSON Feed (https://jsonfeed.org), or any JSON array of similarly shaped items
+ */
+export function parseJsonFeed(data: any, sourceName: string): EvidenceSnippet[] {
+  const items: any[] = Array.isArray(data) ? data : (data?.items || []);
+
+  return items.map(item => ({
+    sourceName,
+    sourceType: 'json-feed' as const,
+    title: item.title ? String(item.title) : undefined,
+    url: item.url || item.link,
+    text: plainText(String(item.content_text || item.summary || item.content_html || item.description || '')),
+    publishedAt: readDate(item.date_published || item.published || item.date)
+  })).filter(snippet => snippet.title || snippet.text);
+}
+
+export function createRssSource(url: string, timeoutMs?: number): EvidenceSource {
+  return {
+    name: `rss:${new URL(url).hostname}`,
+    type: 'rss',
+
+    async fetch() {
+      const response = await fetchWithTimeout(url, timeoutMs);
+      return parseRssFeed(await response.text(), this.name);
+    }
+  };
+}
+
+export function createJsonFeedSource(url: string, timeoutMs?: number): EvidenceSource {
+  return {
+    name: `json:${new URL(url).hostname}`,
+    type: 'json-feed',
+
+    async fetch() {
+      const response = await fetchWithTimeout(url, timeoutMs);
+      return parseJsonFeed(await response.json(), this.name);
+    }
+  };
+}
@@ -0,0 +1,97 @@
+import { EvidenceQuery, EvidenceSnippet, EvidenceSource } from '../types';
+import { fetchWithTimeout } from './feeds';
+
+export interface PriceQuote {
+  asset: string;
+  price: number;
+  currency: string;
+  asOf: string;
+}
+
+/**
+ * Spot prices by asset ID (CoinGecko IDs, e.g. "bitcoin")
+ */
+export interface PriceFeed {
+  name: string;
+  getPrices(assets: string[]): Promise<PriceQuote[]>;
+}
+
+// Words in a question that name an asset the price feed knows
+const ASSET_ALIASES: Record<string, string> = {
+  bitcoin: 'bitcoin',
+  btc: 'bitcoin',
+  ethereum: 'ethereum',
+  eth: 'ethereum',
+  ether: 'ethereum',
+  avalanche: 'avalanche-2',
+  avax: 'avalanche-2',
+  solana: 'solana',
+  sol: 'solana'
+};
+
+export function detectAssets(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  return Array.from(new Set(words.map(word => ASSET_ALIASES[word]).filter(Boolean)));
+}
+
+export function createCoinGeckoPriceFeed(currency = 'usd'): PriceFeed {
+  const baseUrl = process.env.COINGECKO_BASE_URL || 'https://api.coingecko.com/api/v3';
+
+  return {
+    name: 'coingecko',
+
+    async getPrices(assets: string[]) {
+      const response = await fetchWithTimeout(
+        `${baseUrl}/simple/price?ids=${assets.map(encodeURIComponent).join(',')}&vs_currencies=${currency}`
+      );
+      const data: any = await response.json();
+      const asOf = new Date().toISOString();
+
+      return assets
+        .filter(asset => typeof data[asset]?.[currency] === 'number')
+        .map(asset => ({ asset, price: data[asset][currency], currency: currency.toUpperCase(), asOf }));
+    }
+  };
+}
+
+/**
+ * Fixed prices, for tests and offline runs
+ */
+export function createStaticPriceFeed(prices: Record<string, number>, currency = 'USD'): PriceFeed {
+  return {
+    name: 'static',
+
+    async getPrices(assets: string[]) {
+      const asOf = new Date().toISOString();
+      return assets
+        .filter(asset => prices[asset] !== undefined)
+        .map(asset => ({ asset, price: prices[asset], currency, asOf }));
+    }
+  };
+}
+
+/**
+ * Current prices for any assets the question mentions
+ */
+export function createPriceSource(feed: PriceFeed): EvidenceSource {
+  return {
+    name: `price:${feed.name}`,
+    type: 'price',
+
+    async fetch(query: EvidenceQuery): Promise<EvidenceSnippet[]> {
+      const assets = detectAssets(`${query.question} ${query.market?.options?.join(' ') || ''}`);
+      if (assets.length === 0) {
+        return [];
+      }
+
+      const quotes = await feed.getPrices(assets);
+      return quotes.map(quote => ({
+        sourceName: this.name,
+        sourceType: 'price' as const,
+        title: `${quote.asset} spot price`,
+        text: `${quote.asset} traded at ${quote.price} ${quote.currency} as of ${quote.asOf}.`,
+        publishedAt: quote.asOf
+      }));
+    }
+  };
+}
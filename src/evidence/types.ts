@@ -0,0 +1,49 @@
+import { MarketSpec } from '../oracle/outcomes';
+
+// 'dispute' marks material submitted with a dispute rather than retrieved
+export type EvidenceSourceType = 'document' | 'rss' | 'json-feed' | 'price' | 'dispute';
+
+/**
+ * A piece of text that may help resolve a market
+ */
+export interface EvidenceSnippet {
+  sourceName: string;
+  sourceType: EvidenceSourceType;
+  title?: string;
+  url?: string;
+  text: string;
+  publishedAt?: string;
+  // Relevance to the query, set by ranking
+  score?: number;
+}
+
+export interface EvidenceQuery {
+  question: string;
+  market?: MarketSpec;
+  resolutionCriteria?: string;
+}
+
+/**
+ * Somewhere evidence can be fetched from. Sources return candidates; ranking picks the best.
+ */
+export interface EvidenceSource {
+  name: string;
+  type: EvidenceSourceType;
+  fetch(query: EvidenceQuery): Promise<EvidenceSnippet[]>;
+}
+
+/**
+ * A snippet as cited in a prompt and a consensus result
+ */
+export interface Citation {
+  // Reference used in the prompt and in model reasoning, e.g. "E1"
+  ref: string;
+  sourceName: string;
+  sourceType: EvidenceSourceType;
+  title?: string;
+  url?: string;
+  publishedAt?: string;
+  // When the snippet was fetched; kept out of the prompt so identical evidence gives an identical prompt
+  retrievedAt?: string;
+  text: string;
+}
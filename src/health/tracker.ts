@@ -0,0 +1,241 @@
+import { OracleParseError } from '../oracle/parser';
+import {
+  CircuitBreakerOptions,
+  CircuitState,
+  HealthSample,
+  LatencyPercentiles,
+  ProviderCallResult,
+  ProviderHealth
+} from './types';
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  enabled: true,
+  windowSize: 100,
+  windowMs: 15 * 60 * 1000,
+  minRequests: 5,
+  failureRateThreshold: 0.5,
+  consecutiveFailures: 5,
+  cooldownMs: 60 * 1000
+};
+
+interface ProviderState {
+  samples: HealthSample[];
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  retryAt?: number;
+  // A half-open circuit lets one probe through at a time
+  probeStartedAt?: number;
+  lastError?: string;
+  lastFailureAt?: number;
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const index = Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+function rate(count: number, total: number): number {
+  return total === 0 ? 0 : count / total;
+}
+
+/**
+ * Classifies a finished provider call
+ */
+export function classifyCallResult(error: unknown, timedOut = false): ProviderCallResult {
+  if (!error) {
+    return 'success';
+  }
+  if (timedOut) {
+    return 'timeout';
+  }
+  return error instanceof OracleParseError ? 'parse_failure' : 'error';
+}
+
+export function circuitBreakerOptionsFromEnv(): CircuitBreakerOptions {
+  const defaults = DEFAULT_CIRCUIT_BREAKER_OPTIONS;
+  return {
+    enabled: process.env.CIRCUIT_BREAKER_ENABLED !== 'false',
+    windowSize: Number(process.env.PROVIDER_HEALTH_WINDOW_SIZE) || defaults.windowSize,
+    windowMs: Number(process.env.PROVIDER_HEALTH_WINDOW_MS) || defaults.windowMs,
+    minRequests: Number(process.env.CIRCUIT_MIN_REQUESTS) || defaults.minRequests,
+    failureRateThreshold: Number(process.env.CIRCUIT_FAILURE_RATE) || defaults.failureRateThreshold,
+    consecutiveFailures: Number(process.env.CIRCUIT_CONSECUTIVE_FAILURES) || defaults.consecutiveFailures,
+    cooldownMs: Number(process.env.CIRCUIT_COOLDOWN_MS) || defaults.cooldownMs
+  };
+}
+
+/**
+ * Rolling per-provider call stats with a circuit breaker on top.
+ * A provider's circuit opens when too many recent calls failed, skips it for a
+ * cooldown, then lets a single probe call decide whether it has recovered.
+ */
+export class ProviderHealthTracker {
+  private providers = new Map<string, ProviderState>();
+
+  constructor(private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS) {}
+
+  /**
+   * Whether a call to the provider should go ahead. Claims the probe slot when a
+   * cooled-down circuit moves to half-open, so only call this right before calling.
+   */
+  allowRequest(provider: string, now = Date.now()): boolean {
+    if (!this.options.enabled) {
+      return true;
+    }
+
+    const state = this.providers.get(provider);
+    if (!state || state.state === 'closed') {
+      return true;
+    }
+
+    if (state.state === 'open') {
+      if (now < (state.retryAt ?? 0)) {
+        return false;
+      }
+      state.state = 'half_open';
+    }
+
+    // A probe that never reported back (e.g. cancelled) stops blocking after a cooldown
+    if (state.probeStartedAt !== undefined && now - state.probeStartedAt < this.options.cooldownMs) {
+      return false;
+    }
+    state.probeStartedAt = now;
+    return true;
+  }
+
+  record(provider: string, result: ProviderCallResult, latencyMs: number, error?: string, now = Date.now()): void {
+    const state = this.stateFor(provider);
+    state.samples.push({ at: now, result, latencyMs });
+    this.prune(state, now);
+
+    if (result === 'success') {
+      state.consecutiveFailures = 0;
+      if (state.state !== 'closed') {
+        // Recovered: start the window afresh so old failures don't reopen it
+        state.state = 'closed';
+        state.samples = [state.samples[state.samples.length - 1]];
+        state.openedAt = undefined;
+        state.retryAt = undefined;
+        state.probeStartedAt = undefined;
+      }
+      return;
+    }
+
+    state.consecutiveFailures++;
+    state.lastError = error;
+    state.lastFailureAt = now;
+
+    if (state.state === 'half_open') {
+      this.open(provider, state, now);
+      return;
+    }
+
+    if (state.state === 'closed' && this.options.enabled) {
+      const failures = state.samples.filter(sample => sample.result !== 'success').length;
+      if (state.consecutiveFailures >= this.options.consecutiveFailures ||
+          (state.samples.length >= this.options.minRequests &&
+           rate(failures, state.samples.length) >= this.options.failureRateThreshold)) {
+        this.open(provider, state, now);
+      }
+    }
+  }
+
+  /**
+   * Closes the provider's circuit and forgets its history
+   */
+  reset(provider: string): void {
+    this.providers.delete(provider);
+  }
+
+  health(provider: string, now = Date.now()): ProviderHealth {
+    const state = this.providers.get(provider);
+    if (!state) {
+      return {
+        provider,
+        state: 'closed',
+        requests: 0,
+        errorRate: 0,
+        timeoutRate: 0,
+        parseFailureRate: 0,
+        failureRate: 0,
+        latencyMs: { p50: null, p90: null, p99: null },
+        consecutiveFailures: 0
+      };
+    }
+
+    this.prune(state, now);
+    const total = state.samples.length;
+    const count = (result: ProviderCallResult) => state.samples.filter(sample => sample.result === result).length;
+    const latencies = state.samples
+      .filter(sample => sample.result === 'success' || sample.result === 'parse_failure')
+      .map(sample => sample.latencyMs)
+      .sort((a, b) => a - b);
+    const latencyMs: LatencyPercentiles = {
+      p50: percentile(latencies, 0.5),
+      p90: percentile(latencies, 0.9),
+      p99: percentile(latencies, 0.99)
+    };
+
+    return {
+      provider,
+      // Report a cooled-down circuit as half-open even before the probe is claimed
+      state: state.state === 'open' && now >= (state.retryAt ?? 0) ? 'half_open' : state.state,
+      requests: total,
+      errorRate: rate(count('error'), total),
+      timeoutRate: rate(count('timeout'), total),
+      parseFailureRate: rate(count('parse_failure'), total),
+      failureRate: rate(total - count('success'), total),
+      latencyMs,
+      consecutiveFailures: state.consecutiveFailures,
+      openedAt: state.openedAt !== undefined ? new Date(state.openedAt).toISOString() : undefined,
+      retryAt: state.retryAt !== undefined ? new Date(state.retryAt).toISOString() : undefined,
+      lastError: state.lastError,
+      lastFailureAt: state.lastFailureAt !== undefined ? new Date(state.lastFailureAt).toISOString() : undefined
+    };
+  }
+
+  /**
+   * Health of the given providers plus any others that have been called
+   */
+  list(providers: string[] = [], now = Date.now()): ProviderHealth[] {
+    const names = Array.from(new Set([...providers, ...this.providers.keys()])).sort();
+    return names.map(name => this.health(name, now));
+  }
+
+  private stateFor(provider: string): ProviderState {
+    let state = this.providers.get(provider);
+    if (!state) {
+      state = { samples: [], state: 'closed', consecutiveFailures: 0 };
+      this.providers.set(provider, state);
+    }
+    return state;
+  }
+
+  private open(provider: string, state: ProviderState, now: number): void {
+    state.state = 'open';
+    state.openedAt = now;
+    state.retryAt = now + this.options.cooldownMs;
+    state.probeStartedAt = undefined;
+    console.warn(`Circuit opened for ${provider} until ${new Date(state.retryAt).toISOString()}`);
+  }
+
+  private prune(state: ProviderState, now: number): void {
+    const cutoff = now - this.options.windowMs;
+    state.samples = state.samples
+      .filter(sample => sample.at >= cutoff)
+      .slice(-this.options.windowSize);
+  }
+}
+
+let defaultTracker: ProviderHealthTracker | null = null;
+
+export function getProviderHealth(): ProviderHealthTracker {
+  if (!defaultTracker) {
+    defaultTracker = new ProviderHealthTracker(circuitBreakerOptionsFromEnv());
+  }
+  return defaultTracker;
+}
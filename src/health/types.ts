@@ -0,0 +1,61 @@
+/**
+ * How a provider call ended, as far as its health is concerned
+ */
+export type ProviderCallResult = 'success' | 'error' | 'timeout' | 'parse_failure';
+
+/**
+ * closed: calls flow normally. open: calls are skipped until the cooldown ends.
+ * half_open: one probe call decides whether to close or reopen.
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export const CIRCUIT_STATES: CircuitState[] = ['closed', 'open', 'half_open'];
+
+export interface HealthSample {
+  at: number;
+  result: ProviderCallResult;
+  latencyMs: number;
+}
+
+export interface LatencyPercentiles {
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+}
+
+export interface CircuitBreakerOptions {
+  enabled: boolean;
+  // Rolling window: the most recent samples, no older than windowMs
+  windowSize: number;
+  windowMs: number;
+  // The failure rate only trips the breaker once the window holds this many calls
+  minRequests: number;
+  // Errors, timeouts and parse failures as a share of calls in the window
+  failureRateThreshold: number;
+  // Trips the breaker regardless of the window
+  consecutiveFailures: number;
+  // How long an open circuit skips the provider before a probe call
+  cooldownMs: number;
+}
+
+/**
+ * Rolling stats and breaker state for one provider
+ */
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  // Calls in the window
+  requests: number;
+  errorRate: number;
+  timeoutRate: number;
+  parseFailureRate: number;
+  failureRate: number;
+  // Over calls that got a reply
+  latencyMs: LatencyPercentiles;
+  consecutiveFailures: number;
+  openedAt?: string;
+  // When an open circuit lets a probe call through
+  retryAt?: string;
+  lastError?: string;
+  lastFailureAt?: string;
+}
@@ -0,0 +1,293 @@
+import { ClientStore, getClientStore } from '../clients/store';
+import { redactSecrets } from '../credentials/vault';
+import { runConsensus } from '../oracle/consensus';
+import { prepareConsensusPrompt } from '../oracle/prompt';
+import { JobStore, getJobStore } from './store';
+import { ConsensusJob, JobInput, JobUpdate, WebhookDelivery } from './types';
+import { sendWebhook } from './webhook';
+
+export interface JobRunnerOptions {
+  // How often queued jobs and pending webhooks are checked
+  pollIntervalMs: number;
+  // Jobs run at the same time
+  concurrency: number;
+  webhookMaxAttempts: number;
+  // Webhook retry delay doubles from backoffMs up to backoffMaxMs
+  webhookBackoffMs: number;
+  webhookBackoffMaxMs: number;
+  webhookTimeoutMs: number;
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && process.env[name] !== '' ? value : fallback;
+}
+
+export function jobRunnerOptionsFromEnv(): JobRunnerOptions {
+  return {
+    pollIntervalMs: numberFromEnv('JOB_POLL_INTERVAL_MS', 5 * 1000),
+    concurrency: numberFromEnv('JOB_CONCURRENCY', 2),
+    webhookMaxAttempts: numberFromEnv('JOB_WEBHOOK_MAX_ATTEMPTS', 5),
+    webhookBackoffMs: numberFromEnv('JOB_WEBHOOK_BACKOFF_MS', 5 * 1000),
+    webhookBackoffMaxMs: numberFromEnv('JOB_WEBHOOK_BACKOFF_MAX_MS', 10 * 60 * 1000),
+    webhookTimeoutMs: numberFromEnv('JOB_WEBHOOK_TIMEOUT_MS', 10 * 1000)
+  };
+}
+
+/**
+ * A job as returned by the API and in webhook payloads, without the webhook secret
+ */
+export function publicJob(job: ConsensusJob) {
+  const { webhook, ...rest } = job;
+  return {
+    ...rest,
+    webhook: webhook && { url: webhook.url, delivery: webhook.delivery }
+  };
+}
+
+/**
+ * Runs consensus jobs in the background and delivers their webhooks.
+ * Jobs left running by a restart are queued again and re-run from the start;
+ * undelivered webhooks are retried with exponential backoff until webhookMaxAttempts.
+ */
+export class JobRunner {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private inFlight = new Set<string>();
+  private delivering = new Set<string>();
+
+  constructor(
+    private store: JobStore,
+    private clients: ClientStore,
+    private options: JobRunnerOptions
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.kick(), this.options.pollIntervalMs);
+    this.timer.unref();
+    this.kick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Queues a job and, when the runner is started, runs it right away if there is capacity
+   */
+  async submit(input: JobInput): Promise<ConsensusJob> {
+    const job = await this.store.create(input);
+    this.kick();
+    return job;
+  }
+
+  /**
+   * One pass: starts queued jobs up to the concurrency limit and sends due webhooks.
+   * Overlapping calls are skipped.
+   */
+  async tick(now = new Date()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      await this.requeueInterrupted();
+
+      const queued = await this.store.list({ status: 'queued' });
+      for (const job of queued) {
+        if (this.inFlight.size >= this.options.concurrency) {
+          break;
+        }
+        if (!this.inFlight.has(job.id)) {
+          this.inFlight.add(job.id);
+          this.run(job)
+            .catch(error => console.error(`Job ${job.id} failed to run:`, error))
+            .finally(() => {
+              this.inFlight.delete(job.id);
+              this.kick();
+            });
+        }
+      }
+
+      const finished = [
+        ...await this.store.list({ status: 'completed' }),
+        ...await this.store.list({ status: 'failed' })
+      ];
+      for (const job of finished) {
+        if (this.webhookDue(job, now)) {
+          this.delivering.add(job.id);
+          this.deliver(job)
+            .catch(error => console.error(`Webhook for job ${job.id} failed:`, error))
+            .finally(() => this.delivering.delete(job.id));
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Does nothing while stopped, so JOB_RUNNER_ENABLED=false leaves submitted jobs queued
+  private kick(): void {
+    if (!this.isRunning()) {
+      return;
+    }
+    this.tick().catch(error => console.error('Job runner tick failed:', error));
+  }
+
+  // Only this process runs jobs, so a running job it isn't tracking was cut off by a restart
+  private async requeueInterrupted(): Promise<void> {
+    const running = await this.store.list({ status: 'running' });
+
+    for (const job of running) {
+      if (!this.inFlight.has(job.id)) {
+        console.log(`Re-queuing interrupted job ${job.id}`);
+        await this.store.update(job.id, { status: 'queued', responses: [] });
+      }
+    }
+  }
+
+  private async run(job: ConsensusJob): Promise<void> {
+    const { request } = job;
+
+    await this.store.update(job.id, {
+      status: 'running',
+      attempts: job.attempts + 1,
+      startedAt: new Date().toISOString(),
+      responses: [],
+      error: undefined
+    });
+
+    // Partial results are written as providers answer; the final update waits for them
+    const partialWrites: Promise<unknown>[] = [];
+
+    try {
+      const { prompt, citations, template } = await prepareConsensusPrompt(request);
+
+      const result = await runConsensus({
+        prompt,
+        template,
+        providers: request.providers,
+        strategy: request.strategy,
+        market: request.market,
+        maxTokens: request.maxTokens,
+        temperature: request.temperature,
+        timeoutMs: request.timeoutMs,
+        bypassCache: request.bypassCache,
+        earlyQuorum: request.earlyQuorum,
+        tenantId: job.tenantId,
+        citations,
+        onResponse: response => {
+          partialWrites.push(this.store.addResponse(job.id, response));
+        }
+      });
+
+      await Promise.allSettled(partialWrites);
+
+      // The request was metered on submission; its tokens are charged now
+      if (result.usage.totalTokens > 0 || result.usage.costUsd > 0) {
+        await this.clients.recordUsage(job.tenantId, {
+          tokens: result.usage.totalTokens,
+          costUsd: result.usage.costUsd
+        });
+      }
+
+      const succeeded = result.providers.length > 0;
+      await this.finish(job, {
+        status: succeeded ? 'completed' : 'failed',
+        responses: result.allResponses,
+        result,
+        error: succeeded ? undefined : 'No valid responses from providers'
+      });
+      console.log(`Job ${job.id} ${succeeded ? 'completed' : 'failed'}: ${result.verdict}`);
+
+    } catch (error) {
+      await Promise.allSettled(partialWrites);
+      console.error(`Job ${job.id} failed:`, error);
+      await this.finish(job, {
+        status: 'failed',
+        error: error instanceof Error ? redactSecrets(error.message) : 'Unknown error'
+      });
+    }
+  }
+
+  private async finish(job: ConsensusJob, update: JobUpdate): Promise<void> {
+    const now = new Date().toISOString();
+    await this.store.update(job.id, {
+      ...update,
+      completedAt: now,
+      webhook: job.webhook && { ...job.webhook, delivery: { attempts: 0, nextAttemptAt: now } }
+    });
+  }
+
+  private webhookDue(job: ConsensusJob, now: Date): boolean {
+    const delivery = job.webhook?.delivery;
+    if (!delivery || delivery.deliveredAt || delivery.exhausted || this.delivering.has(job.id)) {
+      return false;
+    }
+    return !!delivery.nextAttemptAt && new Date(delivery.nextAttemptAt) <= now;
+  }
+
+  private async deliver(job: ConsensusJob): Promise<void> {
+    const webhook = job.webhook!;
+    const attemptedAt = new Date();
+    const event = `job.${job.status}`;
+
+    const attempt = await sendWebhook(
+      webhook.url,
+      webhook.secret,
+      event,
+      { event, job: publicJob(job) },
+      this.options.webhookTimeoutMs
+    );
+
+    const attempts = webhook.delivery.attempts + 1;
+    let delivery: WebhookDelivery;
+
+    if (attempt.ok) {
+      delivery = {
+        attempts,
+        lastAttemptAt: attemptedAt.toISOString(),
+        lastStatus: attempt.status,
+        deliveredAt: new Date().toISOString()
+      };
+    } else {
+      const exhausted = attempts >= this.options.webhookMaxAttempts;
+      const delay = Math.min(this.options.webhookBackoffMs * 2 ** (attempts - 1), this.options.webhookBackoffMaxMs);
+      delivery = {
+        attempts,
+        lastAttemptAt: attemptedAt.toISOString(),
+        lastStatus: attempt.status,
+        lastError: attempt.error,
+        nextAttemptAt: exhausted ? undefined : new Date(attemptedAt.getTime() + delay).toISOString(),
+        exhausted: exhausted || undefined
+      };
+      console.warn(`Webhook for job ${job.id} failed (attempt ${attempts}): ${attempt.error}`);
+    }
+
+    await this.store.update(job.id, { webhook: { ...webhook, delivery } });
+  }
+}
+
+let defaultRunner: JobRunner | null = null;
+
+/**
+ * Process-wide runner over the shared job store
+ */
+export function getJobRunner(): JobRunner {
+  if (!defaultRunner) {
+    defaultRunner = new JobRunner(getJobStore(), getClientStore(), jobRunnerOptionsFromEnv());
+  }
+  return defaultRunner;
+}
@@ -0,0 +1,164 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ConsensusProviderResponse } from '../oracle/consensus';
+import { ConsensusJob, JobFilter, JobInput, JobUpdate } from './types';
+
+/**
+ * Persistence for consensus jobs. Implementations must be safe to call concurrently.
+ */
+export interface JobStore {
+  create(input: JobInput): Promise<ConsensusJob>;
+  get(id: string): Promise<ConsensusJob | null>;
+  list(filter?: JobFilter): Promise<ConsensusJob[]>;
+  update(id: string, update: JobUpdate): Promise<ConsensusJob | null>;
+  addResponse(id: string, response: ConsensusProviderResponse): Promise<ConsensusJob | null>;
+}
+
+/**
+ * Keeps jobs in memory only; used for tests and as the base for the file store
+ */
+export class MemoryJobStore implements JobStore {
+  protected jobs = new Map<string, ConsensusJob>();
+
+  async create(input: JobInput): Promise<ConsensusJob> {
+    await this.load();
+
+    const now = new Date().toISOString();
+    const job: ConsensusJob = {
+      id: randomUUID(),
+      tenantId: input.tenantId,
+      status: 'queued',
+      request: input.request,
+      webhook: input.webhook && { ...input.webhook, delivery: { attempts: 0 } },
+      attempts: 0,
+      responses: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.jobs.set(job.id, job);
+    await this.persist();
+    return job;
+  }
+
+  async get(id: string): Promise<ConsensusJob | null> {
+    await this.load();
+    return this.jobs.get(id) || null;
+  }
+
+  async list(filter: JobFilter = {}): Promise<ConsensusJob[]> {
+    await this.load();
+
+    const jobs = Array.from(this.jobs.values())
+      .filter(job => !filter.tenantId || job.tenantId === filter.tenantId)
+      .filter(job => !filter.status || job.status === filter.status)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const offset = filter.offset || 0;
+    return filter.limit !== undefined
+      ? jobs.slice(offset, offset + filter.limit)
+      : jobs.slice(offset);
+  }
+
+  async update(id: string, update: JobUpdate): Promise<ConsensusJob | null> {
+    return this.patch(id, () => update);
+  }
+
+  async addResponse(id: string, response: ConsensusProviderResponse): Promise<ConsensusJob | null> {
+    return this.patch(id, existing => ({ responses: [...existing.responses, response] }));
+  }
+
+  protected async patch(id: string, changes: (existing: ConsensusJob) => JobUpdate): Promise<ConsensusJob | null> {
+    await this.load();
+
+    const existing = this.jobs.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const job: ConsensusJob = {
+      ...existing,
+      ...changes(existing),
+      id,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.jobs.set(id, job);
+    await this.persist();
+    return job;
+  }
+
+  protected async load(): Promise<void> {}
+
+  protected async persist(): Promise<void> {}
+}
+
+/**
+ * Stores jobs as a single JSON file, rewritten atomically on every change
+ */
+export class FileJobStore extends MemoryJobStore {
+  private loaded = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      const contents = await fs.promises.readFile(this.filePath, 'utf8');
+      const jobs: ConsensusJob[] = JSON.parse(contents);
+      this.jobs = new Map(jobs.map(job => [job.id, job]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  protected async persist(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.jobs.values()), null, 2);
+
+    // Serialize writes so a slow write never lands after a newer one
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, snapshot, { mode: 0o600 });
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+
+    return this.writeQueue;
+  }
+}
+
+export function createJobStore(): JobStore {
+  const backend = process.env.JOB_STORE || 'file';
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryJobStore();
+    case 'file':
+      return new FileJobStore(process.env.JOB_STORE_PATH || path.join('data', 'jobs.json'));
+    default:
+      throw new Error(`Unsupported job store: ${backend}`);
+  }
+}
+
+let defaultStore: JobStore | null = null;
+
+/**
+ * Process-wide job store
+ */
+export function getJobStore(): JobStore {
+  if (!defaultStore) {
+    defaultStore = createJobStore();
+  }
+  return defaultStore;
+}
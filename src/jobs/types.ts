@@ -0,0 +1,87 @@
+import { ConsensusProviderResponse, ConsensusResult } from '../oracle/consensus';
+import { MarketSpec } from '../oracle/outcomes';
+import { ConsensusStrategyConfig } from '../oracle/strategies';
+import { ProviderCall } from '../oracle/types';
+import { MarketCategory, ResolutionFields, TemplateSelector } from '../prompts/types';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed'];
+
+/**
+ * A /oracle/consensus request body, validated and stored so the job can run later
+ */
+export interface ConsensusJobRequest {
+  // Either a caller-written prompt or a question rendered through a template
+  prompt?: string;
+  providers: ProviderCall[];
+  strategy: ConsensusStrategyConfig;
+  market: MarketSpec;
+  maxTokens?: number;
+  temperature?: number;
+  timeoutMs?: number;
+  earlyQuorum?: boolean | number;
+  // Ask every provider afresh instead of reusing cached answers
+  bypassCache?: boolean;
+  // Retrieve evidence before running, queried by question (or the prompt)
+  evidence?: boolean;
+  question?: string;
+  category?: MarketCategory;
+  template?: TemplateSelector;
+  resolutionCriteria?: string;
+  resolution?: ResolutionFields;
+}
+
+export interface WebhookDelivery {
+  attempts: number;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  lastStatus?: number;
+  lastError?: string;
+  deliveredAt?: string;
+  // Set once maxAttempts deliveries have failed
+  exhausted?: boolean;
+}
+
+export interface JobWebhook {
+  url: string;
+  // HMAC key for the X-Oracle-Signature header; never returned by the API
+  secret: string;
+  delivery: WebhookDelivery;
+}
+
+export interface ConsensusJob {
+  id: string;
+  tenantId: string;
+  status: JobStatus;
+  request: ConsensusJobRequest;
+  webhook?: JobWebhook;
+  // Times the job has been started; more than 1 after a restart interrupted it
+  attempts: number;
+  // Per-provider results as they arrive, then the full set once done
+  responses: ConsensusProviderResponse[];
+  result?: ConsensusResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface JobInput {
+  tenantId: string;
+  request: ConsensusJobRequest;
+  webhook?: {
+    url: string;
+    secret: string;
+  };
+}
+
+export type JobUpdate = Partial<Omit<ConsensusJob, 'id' | 'tenantId' | 'createdAt'>>;
+
+export interface JobFilter {
+  tenantId?: string;
+  status?: JobStatus;
+  limit?: number;
+  offset?: number;
+}
@@ -0,0 +1,168 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Oracle-Signature';
+
+// Receivers should reject signatures older than this to stop replays
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Loopback, private, link-local (incl. cloud metadata), shared, reserved and multicast ranges.
+// BlockList also applies the IPv4 ranges to IPv4-mapped IPv6 addresses.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * WEBHOOK_ALLOWED_HOSTS: comma-separated hostnames; when set, webhooks only go to these
+ */
+function allowedWebhookHosts(): string[] | null {
+  const hosts = (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  return hosts.length > 0 ? hosts : null;
+}
+
+/**
+ * Rejects webhook URLs the server shouldn't call: hosts outside WEBHOOK_ALLOWED_HOSTS
+ * when it is set, and otherwise any host that resolves to a non-public address.
+ * Checked on submission and again before each delivery, in case DNS has changed.
+ */
+export async function checkWebhookTarget(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    throw new Error('webhook.url must use http or https');
+  }
+
+  // Listed hosts are trusted as configured, including internal ones
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const allowed = allowedWebhookHosts();
+  if (allowed) {
+    if (!allowed.includes(host)) {
+      throw new Error(`webhook.url host ${host} is not in WEBHOOK_ALLOWED_HOSTS`);
+    }
+    return;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await dns.lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    throw new Error(`webhook.url host ${host} could not be resolved`);
+  }
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new Error(`webhook.url host ${host} resolves to a private or reserved address`);
+  }
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Value for the signature header: "t=<unix seconds>,v1=<signature>"
+ */
+export function buildSignatureHeader(secret: string, body: string, now = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`;
+}
+
+/**
+ * Checks a signature header against the raw request body, for webhook receivers
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  now = new Date()
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || typeof parts.v1 !== 'string') {
+    return false;
+  }
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body), 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export interface WebhookAttempt {
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * POSTs a signed JSON payload; any 2xx counts as delivered
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  event: string,
+  payload: unknown,
+  timeoutMs: number
+): Promise<WebhookAttempt> {
+  try {
+    await checkWebhookTarget(url);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Webhook target not allowed' };
+  }
+
+  const body = JSON.stringify(payload);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Oracle-Event': event,
+        [WEBHOOK_SIGNATURE_HEADER]: buildSignatureHeader(secret, body)
+      },
+      body,
+      signal: controller.signal
+    });
+
+    return response.ok
+      ? { ok: true, status: response.status }
+      : { ok: false, status: response.status, error: `Webhook returned ${response.status}` };
+  } catch (error) {
+    return {
+      ok: false,
+      error: controller.signal.aborted
+        ? `Timed out after ${timeoutMs}ms`
+        : (error instanceof Error ? error.message : 'Unknown error')
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
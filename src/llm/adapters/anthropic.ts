@@ -0,0 +1,59 @@
+import { LLMProviderAdapter, LLMRequest } from '../types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export const anthropicAdapter: LLMProviderAdapter = {
+  name: 'anthropic',
+  requiresApiKey: true,
+
+  buildRequest(request: LLMRequest) {
+    return {
+      endpoint: 'https://api.anthropic.com/v1/messages',
+      headers: {
+        'x-api-key': request.apiKey || '',
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json'
+      },
+      body: {
+        model: request.model,
+        system: request.systemPrompt,
+        messages: [
+          { role: 'user', content: request.prompt }
+        ],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.stream ? { stream: true } : {})
+      }
+    };
+  },
+
+  parseResponse(data: any) {
+    const textBlock = Array.isArray(data.content)
+      ? data.content.find((block: any) => block.type === 'text')
+      : undefined;
+
+    return {
+      text: textBlock?.text || '',
+      usage: data.usage ? {
+        promptTokens: data.usage.input_tokens || 0,
+        completionTokens: data.usage.output_tokens || 0
+      } : undefined
+    };
+  },
+
+  // Input tokens come with message_start, output tokens with message_delta
+  parseStreamChunk(data: any) {
+    switch (data.type) {
+      case 'content_block_delta':
+        return { text: data.delta?.text };
+      case 'message_start':
+        return { usage: { promptTokens: data.message?.usage?.input_tokens || 0 } };
+      case 'message_delta':
+        return { usage: { completionTokens: data.usage?.output_tokens || 0 } };
+      case 'error':
+        throw new Error(`anthropic stream error: ${data.error?.message || 'unknown'}`);
+      default:
+        return {};
+    }
+  }
+};
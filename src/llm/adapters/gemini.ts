@@ -0,0 +1,83 @@
+import { JsonSchema, LLMProviderAdapter, LLMRequest } from '../types';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+/**
+ * Converts a schema to Gemini's responseSchema dialect: a single type plus `nullable`,
+ * and no additionalProperties
+ */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const type = types.find(candidate => candidate !== 'null') || 'string';
+
+  const converted: Record<string, unknown> = { type: type.toUpperCase() };
+  if (types.includes('null')) {
+    converted.nullable = true;
+  }
+  if (schema.description) {
+    converted.description = schema.description;
+  }
+  if (schema.enum) {
+    converted.enum = schema.enum.filter(value => value !== null);
+  }
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+    converted.required = schema.required;
+  }
+  return converted;
+}
+
+export const geminiAdapter: LLMProviderAdapter = {
+  name: 'gemini',
+  requiresApiKey: true,
+  structuredOutput: () => 'schema',
+
+  buildRequest(request: LLMRequest) {
+    // Gemini has no system role in generateContent, so the system prompt is prepended
+    const text = request.systemPrompt
+      ? `${request.systemPrompt}\n\n${request.prompt}`
+      : request.prompt;
+
+    return {
+      endpoint: request.stream
+        ? `${GEMINI_BASE_URL}/${request.model}:streamGenerateContent?alt=sse`
+        : `${GEMINI_BASE_URL}/${request.model}:generateContent`,
+      // Sent as a header so the key never ends up in URLs, proxies or access logs
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': request.apiKey || ''
+      },
+      body: {
+        contents: [{
+          parts: [{ text }]
+        }],
+        generationConfig: {
+          maxOutputTokens: request.maxTokens,
+          temperature: request.temperature,
+          ...(request.responseSchema ? {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(request.responseSchema.schema)
+          } : {})
+        }
+      }
+    };
+  },
+
+  parseResponse(data: any) {
+    return {
+      text: data.candidates?.[0]?.content?.parts?.[0]?.text || '',
+      usage: data.usageMetadata ? {
+        promptTokens: data.usageMetadata.promptTokenCount || 0,
+        completionTokens: data.usageMetadata.candidatesTokenCount || 0
+      } : undefined
+    };
+  },
+
+  // Each streamed chunk is a partial response; usageMetadata is cumulative
+  parseStreamChunk(data: any) {
+    const { text, usage } = this.parseResponse(data);
+    return { text: text || undefined, usage };
+  }
+};
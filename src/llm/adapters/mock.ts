@@ -0,0 +1,239 @@
+import fs from 'fs';
+import { LLMProviderAdapter, LLMRequest, LLMResponse } from '../types';
+
+/**
+ * One scripted reply: raw text, or a scenario name (see parseScenario), after an optional delay
+ */
+export interface MockStep {
+  text?: string;
+  scenario?: string;
+  delayMs?: number;
+}
+
+// How long a "timeout" reply waits when the caller never aborts
+const DEFAULT_HANG_MS = 60000;
+const STREAM_CHUNK_SIZE = 16;
+
+// Start of the repair re-prompt in oracle/evaluate.ts; "repairable" answers it properly
+const REPAIR_PROMPT_MARKER = 'Your previous reply could not be used';
+
+const UNRESOLVED_REPLIES: Record<string, { status: string; reasonCode: string }> = {
+  invalid: { status: 'INVALID', reasonCode: 'UNVERIFIABLE' },
+  ambiguous: { status: 'AMBIGUOUS', reasonCode: 'CONFLICTING_EVIDENCE' },
+  'not-yet': { status: 'NOT_YET_RESOLVABLE', reasonCode: 'EVENT_NOT_OCCURRED' }
+};
+
+const scripts = new Map<string, MockStep[]>();
+const scriptCalls = new Map<string, number>();
+let scriptFileLoaded = false;
+
+/**
+ * Sets the replies for model "script-<name>": the nth call gets the nth step and the
+ * last step repeats. Replaces any earlier script of that name and restarts it.
+ */
+export function setMockScript(name: string, steps: MockStep[]): void {
+  if (steps.length === 0) {
+    throw new Error('A mock script needs at least one step');
+  }
+  scripts.set(name, steps);
+  scriptCalls.delete(name);
+}
+
+/**
+ * Scripts from the JSON file at MOCK_LLM_SCRIPT: { "<name>": [step, ...] }
+ */
+function loadScriptFile(): void {
+  if (scriptFileLoaded) {
+    return;
+  }
+  scriptFileLoaded = true;
+
+  const filePath = process.env.MOCK_LLM_SCRIPT;
+  if (filePath) {
+    const file: Record<string, MockStep[]> = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    for (const [name, steps] of Object.entries(file)) {
+      if (!scripts.has(name)) {
+        setMockScript(name, steps);
+      }
+    }
+  }
+}
+
+function nextScriptStep(name: string): MockStep {
+  loadScriptFile();
+  const steps = scripts.get(name);
+  if (!steps) {
+    throw new Error(`Unknown mock script: ${name}`);
+  }
+  const call = scriptCalls.get(name) || 0;
+  scriptCalls.set(name, call + 1);
+  return steps[Math.min(call, steps.length - 1)];
+}
+
+function answer(fields: Record<string, unknown>, confidence: number, scenario: string): string {
+  return JSON.stringify({
+    status: 'RESOLVED',
+    reasonCode: null,
+    ...fields,
+    confidence,
+    reasoning: `Mock ${scenario} answer`
+  });
+}
+
+function option(index: number, confidence: number, scenario: string): string {
+  return answer({ optionATrue: index === 0, optionBTrue: index === 1, selectedOption: index }, confidence, scenario);
+}
+
+interface Scenario {
+  name: string;
+  confidence: number;
+  delayMs: number;
+}
+
+/**
+ * Reads a mock model name: "<scenario>[:<confidence>][@<delayMs>]", e.g. "no:0.6@200"
+ */
+function parseScenario(model: string): Scenario {
+  const match = model.match(/^([^:@]+)(?::([\d.]+))?(?:@(\d+))?$/);
+  if (!match) {
+    throw new Error(`Invalid mock model: ${model}`);
+  }
+  return {
+    name: match[1],
+    confidence: match[2] !== undefined ? Number(match[2]) : 0.9,
+    delayMs: match[3] !== undefined ? Number(match[3]) : 0
+  };
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
+}
+
+/**
+ * Reply text for a scenario. Throws for HTTP errors and waits out timeouts.
+ */
+async function reply(scenario: Scenario, request: LLMRequest): Promise<string> {
+  const { name, confidence } = scenario;
+
+  if (name.startsWith('script-')) {
+    const step = nextScriptStep(name.slice('script-'.length));
+    if (step.delayMs) {
+      await wait(step.delayMs, request.signal);
+    }
+    return step.text !== undefined
+      ? step.text
+      : reply(parseScenario(step.scenario || 'yes'), request);
+  }
+
+  if (name === 'yes' || name === 'no') {
+    return option(name === 'yes' ? 0 : 1, confidence, name);
+  }
+  const optionMatch = name.match(/^option-(\d+)$/);
+  if (optionMatch) {
+    return option(Number(optionMatch[1]), confidence, name);
+  }
+  const valueMatch = name.match(/^value-(-?[\d.]+)$/);
+  if (valueMatch) {
+    return answer({ optionATrue: false, optionBTrue: false, value: Number(valueMatch[1]) }, confidence, name);
+  }
+  if (UNRESOLVED_REPLIES[name]) {
+    return answer({ ...UNRESOLVED_REPLIES[name], optionATrue: false, optionBTrue: false }, confidence, name);
+  }
+
+  const httpMatch = name.match(/^http-(\d{3})$/);
+  if (httpMatch) {
+    throw new Error(`mock API error: ${httpMatch[1]} Mock Error`);
+  }
+
+  switch (name) {
+    case 'malformed':
+      return 'I believe the first option is more likely to be true.';
+    case 'truncated':
+      return option(0, confidence, name).slice(0, 40);
+    case 'empty':
+      return '';
+    case 'repairable':
+      return request.prompt.includes(REPAIR_PROMPT_MARKER)
+        ? option(0, confidence, name)
+        : `Sure! Here is my answer: optionATrue is true (confidence ${confidence})`;
+    case 'timeout':
+      await wait(Number(process.env.MOCK_LLM_HANG_MS) || DEFAULT_HANG_MS, request.signal);
+      throw new Error('mock API error: 504 Gateway Timeout');
+    default:
+      throw new Error(`Unknown mock scenario: ${name}`);
+  }
+}
+
+/**
+ * Deterministic, offline provider for tests and demos, chosen by model name:
+ *
+ * - yes, no, option-<n>, value-<x>: a resolved answer
+ * - invalid, ambiguous, not-yet: a declined answer with a reason code
+ * - malformed, truncated, empty: unparseable replies, every time
+ * - repairable: unparseable at first, then a valid answer to the repair re-prompt
+ * - timeout: no reply until the call is aborted
+ * - http-<status>: the call fails like an HTTP error
+ * - script-<name>: replies set with setMockScript or MOCK_LLM_SCRIPT, in order
+ *
+ * Confidence and latency are set with ":<confidence>" and "@<ms>", e.g. "yes:0.6@200".
+ * Only available when ORACLE_MOCK_PROVIDER=true or NODE_ENV=test.
+ */
+export const mockAdapter: LLMProviderAdapter = {
+  name: 'mock',
+  requiresApiKey: false,
+
+  // Never sent: complete() answers in-process
+  buildRequest(request: LLMRequest) {
+    return {
+      endpoint: `mock://${request.model}`,
+      headers: {},
+      body: { prompt: request.prompt }
+    };
+  },
+
+  parseResponse(data: any) {
+    return { text: String(data.text ?? '') };
+  },
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const scenario = parseScenario(request.model);
+    if (scenario.delayMs > 0) {
+      await wait(scenario.delayMs, request.signal);
+    }
+
+    const text = await reply(scenario, request);
+    if (request.onToken) {
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        request.onToken(text.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+    }
+
+    // Rough token counts, so usage and billing paths see numbers
+    return {
+      text,
+      usage: {
+        promptTokens: Math.ceil(((request.systemPrompt || '').length + request.prompt.length) / 4),
+        completionTokens: Math.ceil(text.length / 4)
+      }
+    };
+  }
+};
+
+export function mockProviderEnabled(): boolean {
+  return process.env.ORACLE_MOCK_PROVIDER === 'true' || process.env.NODE_ENV === 'test';
+}
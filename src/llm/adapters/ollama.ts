@@ -0,0 +1,56 @@
+import { LLMProviderAdapter, LLMRequest } from '../types';
+
+/**
+ * Adapter for Ollama or any local server exposing the /api/chat endpoint
+ */
+export const ollamaAdapter: LLMProviderAdapter = {
+  name: 'ollama',
+  requiresApiKey: false,
+  structuredOutput: () => 'schema',
+
+  buildRequest(request: LLMRequest) {
+    const baseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+
+    const messages = [];
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+
+    return {
+      endpoint: `${baseUrl.replace(/\/$/, '')}/api/chat`,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: {
+        model: request.model,
+        messages,
+        stream: !!request.stream,
+        // Ollama takes a JSON schema directly as the output format
+        format: request.responseSchema?.schema,
+        options: {
+          num_predict: request.maxTokens,
+          temperature: request.temperature
+        }
+      }
+    };
+  },
+
+  parseResponse(data: any) {
+    return {
+      text: data.message?.content || '',
+      usage: data.prompt_eval_count !== undefined || data.eval_count !== undefined ? {
+        promptTokens: data.prompt_eval_count || 0,
+        completionTokens: data.eval_count || 0
+      } : undefined
+    };
+  },
+
+  // NDJSON lines; the last one (done: true) carries the counts
+  parseStreamChunk(data: any) {
+    return {
+      text: data.message?.content || undefined,
+      usage: data.done ? this.parseResponse(data).usage : undefined
+    };
+  }
+};
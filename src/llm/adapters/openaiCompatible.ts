@@ -0,0 +1,94 @@
+import { LLMProviderAdapter, LLMRequest, StructuredOutputMode } from '../types';
+
+interface OpenAICompatibleOptions {
+  name: string;
+  endpoint: string;
+  requiresApiKey?: boolean;
+  // "schema" for APIs with json_schema response formats, "json" for JSON mode only
+  structuredOutput?: StructuredOutputMode;
+  // Models that support the response format; all models when omitted
+  structuredOutputModels?: RegExp;
+}
+
+function responseFormat(request: LLMRequest, mode?: StructuredOutputMode) {
+  if (!request.responseSchema || !mode) {
+    return undefined;
+  }
+  if (mode === 'json') {
+    return { type: 'json_object' };
+  }
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: request.responseSchema.name,
+      schema: request.responseSchema.schema,
+      strict: true
+    }
+  };
+}
+
+/**
+ * Adapter for any chat-completions API that follows the OpenAI schema
+ * (OpenAI, DeepSeek and most hosted gateways)
+ */
+export function createOpenAICompatibleAdapter(options: OpenAICompatibleOptions): LLMProviderAdapter {
+  const structuredOutput = (model: string) =>
+    options.structuredOutputModels && !options.structuredOutputModels.test(model)
+      ? undefined
+      : options.structuredOutput;
+
+  return {
+    name: options.name,
+    requiresApiKey: options.requiresApiKey ?? true,
+    structuredOutput,
+
+    buildRequest(request: LLMRequest) {
+      const messages = [];
+      if (request.systemPrompt) {
+        messages.push({ role: 'system', content: request.systemPrompt });
+      }
+      messages.push({ role: 'user', content: request.prompt });
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json'
+      };
+      if (request.apiKey) {
+        headers['Authorization'] = `Bearer ${request.apiKey}`;
+      }
+
+      return {
+        endpoint: options.endpoint,
+        headers,
+        body: {
+          model: request.model,
+          messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          response_format: responseFormat(request, structuredOutput(request.model)),
+          ...(request.stream ? { stream: true, stream_options: { include_usage: true } } : {})
+        }
+      };
+    },
+
+    parseResponse(data: any) {
+      return {
+        text: data.choices?.[0]?.message?.content || '',
+        usage: data.usage ? {
+          promptTokens: data.usage.prompt_tokens || 0,
+          completionTokens: data.usage.completion_tokens || 0
+        } : undefined
+      };
+    },
+
+    // Usage arrives in a final chunk with no choices
+    parseStreamChunk(data: any) {
+      return {
+        text: data.choices?.[0]?.delta?.content || undefined,
+        usage: data.usage ? {
+          promptTokens: data.usage.prompt_tokens || 0,
+          completionTokens: data.usage.completion_tokens || 0
+        } : undefined
+      };
+    }
+  };
+}
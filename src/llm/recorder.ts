@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { LLMRequest, LLMResponse } from './types';
+
+/**
+ * "record" saves every provider reply; "playback" answers from the saved replies and
+ * never calls a provider, so recorded runs repeat offline
+ */
+export type LLMRecordMode = 'off' | 'record' | 'playback';
+
+export interface LLMRecording {
+  provider: string;
+  model: string;
+  // Replies that failed are replayed as the same failure
+  response?: LLMResponse;
+  error?: string;
+  recordedAt: string;
+}
+
+/**
+ * Recordings are matched on what the model was shown, not on keys or sampling settings
+ */
+export function recordingKey(provider: string, request: LLMRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([provider, request.model, request.systemPrompt || '', request.prompt]))
+    .digest('hex');
+}
+
+/**
+ * Records provider replies to a JSON file keyed by recordingKey, or plays them back
+ */
+export class LLMRecorder {
+  private recordings: Record<string, LLMRecording> = {};
+  private loaded = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(public readonly mode: Exclude<LLMRecordMode, 'off'>, private filePath: string) {}
+
+  async call(provider: string, request: LLMRequest, live: () => Promise<LLMResponse>): Promise<LLMResponse> {
+    await this.load();
+    const key = recordingKey(provider, request);
+
+    if (this.mode === 'playback') {
+      const recording = this.recordings[key];
+      if (!recording) {
+        throw new Error(`No recorded reply for ${provider}/${request.model} (LLM_RECORD_MODE=playback)`);
+      }
+      if (recording.error !== undefined) {
+        throw new Error(recording.error);
+      }
+      request.onToken?.(recording.response!.text);
+      return recording.response!;
+    }
+
+    try {
+      const response = await live();
+      await this.save(key, { provider, model: request.model, response, recordedAt: new Date().toISOString() });
+      return response;
+    } catch (error) {
+      // Calls cut short by the caller say nothing about the provider
+      if (!request.signal?.aborted) {
+        await this.save(key, {
+          provider,
+          model: request.model,
+          error: error instanceof Error ? error.message : String(error),
+          recordedAt: new Date().toISOString()
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      this.recordings = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  private async save(key: string, recording: LLMRecording): Promise<void> {
+    this.recordings[key] = recording;
+    const snapshot = JSON.stringify(this.recordings, null, 2);
+
+    // Serialize writes so a slow write never lands after a newer one
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, snapshot, { mode: 0o600 });
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+
+    return this.writeQueue;
+  }
+}
+
+export function createLLMRecorder(): LLMRecorder | null {
+  const mode = (process.env.LLM_RECORD_MODE || 'off') as LLMRecordMode;
+  const filePath = process.env.LLM_RECORDINGS_PATH || path.join('data', 'llm-recordings.json');
+
+  switch (mode) {
+    case 'off':
+      return null;
+    case 'record':
+    case 'playback':
+      return new LLMRecorder(mode, filePath);
+    default:
+      throw new Error(`Unsupported LLM_RECORD_MODE: ${mode}`);
+  }
+}
+
+let defaultRecorder: LLMRecorder | null | undefined;
+
+/**
+ * Process-wide recorder, or null when LLM_RECORD_MODE is off
+ */
+export function getLLMRecorder(): LLMRecorder | null {
+  if (defaultRecorder === undefined) {
+    defaultRecorder = createLLMRecorder();
+  }
+  return defaultRecorder;
+}
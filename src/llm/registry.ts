@@ -0,0 +1,157 @@
+import { redactSecrets } from '../credentials/vault';
+import { LLMProviderAdapter, LLMRequest, LLMResponse, LLMUsage } from './types';
+import { createOpenAICompatibleAdapter } from './adapters/openaiCompatible';
+import { geminiAdapter } from './adapters/gemini';
+import { anthropicAdapter } from './adapters/anthropic';
+import { ollamaAdapter } from './adapters/ollama';
+import { mockAdapter, mockProviderEnabled } from './adapters/mock';
+import { getLLMRecorder } from './recorder';
+
+// LLM provider adapters, keyed by provider name
+const LLM_ADAPTERS: Record<string, LLMProviderAdapter> = {
+  openai: createOpenAICompatibleAdapter({
+    name: 'openai',
+    endpoint: 'https://api.openai.com/v1/chat/completions',
+    structuredOutput: 'schema',
+    // Older chat models reject json_schema response formats
+    structuredOutputModels: /^(gpt-4o|gpt-4\.1|gpt-5|o\d|chatgpt-4o)/
+  }),
+  deepseek: createOpenAICompatibleAdapter({
+    name: 'deepseek',
+    endpoint: 'https://api.deepseek.com/v1/chat/completions',
+    structuredOutput: 'json'
+  }),
+  gemini: geminiAdapter,
+  anthropic: anthropicAdapter,
+  ollama: ollamaAdapter,
+  // Scripted replies for offline tests; hidden unless mockProviderEnabled()
+  mock: mockAdapter
+};
+
+function isAvailable(adapter: LLMProviderAdapter | undefined): adapter is LLMProviderAdapter {
+  return !!adapter && (adapter !== mockAdapter || mockProviderEnabled());
+}
+
+/**
+ * Registers (or replaces) the adapter used for a provider name
+ */
+export function registerLLMAdapter(adapter: LLMProviderAdapter): void {
+  LLM_ADAPTERS[adapter.name] = adapter;
+}
+
+export function getLLMAdapter(provider: string): LLMProviderAdapter | undefined {
+  const adapter = LLM_ADAPTERS[provider];
+  return isAvailable(adapter) ? adapter : undefined;
+}
+
+export function listLLMProviders(): string[] {
+  return Object.keys(LLM_ADAPTERS).filter(name => isAvailable(LLM_ADAPTERS[name]));
+}
+
+/**
+ * Reads a streamed reply (SSE "data:" lines or NDJSON), passing text to onToken as it arrives
+ */
+async function readStream(
+  adapter: LLMProviderAdapter,
+  body: ReadableStream<Uint8Array>,
+  onToken: (text: string) => void
+): Promise<LLMResponse> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: Partial<LLMUsage> | undefined;
+
+  const handleLine = (line: string) => {
+    const payload = line.startsWith('data:') ? line.slice(5).trim() : line.trim();
+    // Skip blank lines, SSE comments and event names, and OpenAI's terminator
+    if (!payload || payload.startsWith(':') || payload.startsWith('event:') || payload === '[DONE]') {
+      return;
+    }
+
+    const chunk = adapter.parseStreamChunk!(JSON.parse(payload));
+    if (chunk.text) {
+      text += chunk.text;
+      onToken(chunk.text);
+    }
+    if (chunk.usage) {
+      usage = { ...usage, ...chunk.usage };
+    }
+  };
+
+  for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+
+  return {
+    text,
+    usage: usage ? {
+      promptTokens: usage.promptTokens || 0,
+      completionTokens: usage.completionTokens || 0
+    } : undefined
+  };
+}
+
+/**
+ * Calls a provider through its adapter. With request.onToken set, adapters that can
+ * stream are asked to, and the full text is still returned at the end.
+ * LLM_RECORD_MODE=record saves each reply and =playback answers from the saved ones.
+ */
+export async function callLLMProvider(
+  provider: string,
+  request: LLMRequest
+): Promise<LLMResponse> {
+  const recorder = getLLMRecorder();
+  if (recorder) {
+    return recorder.call(provider, request, () => callAdapter(provider, request));
+  }
+  return callAdapter(provider, request);
+}
+
+async function callAdapter(provider: string, request: LLMRequest): Promise<LLMResponse> {
+  const adapter = getLLMAdapter(provider);
+  if (!adapter) {
+    throw new Error(`Unsupported provider: ${provider}`);
+  }
+
+  if (adapter.requiresApiKey && !request.apiKey) {
+    throw new Error(`Missing API key for provider: ${provider}`);
+  }
+
+  if (adapter.complete) {
+    return adapter.complete(request);
+  }
+
+  const stream = !!request.onToken && !!adapter.parseStreamChunk;
+  const { endpoint, headers, body } = adapter.buildRequest({ ...request, stream });
+
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`${provider} API error: ${response.status} ${response.statusText}`);
+    }
+
+    if (stream && response.body) {
+      return await readStream(adapter, response.body, request.onToken!);
+    }
+
+    const data: any = await response.json();
+
+    return adapter.parseResponse(data);
+  } catch (error) {
+    // Network errors can echo the request; never let a key escape in an error message
+    const message = error instanceof Error ? error.message : String(error);
+    const redacted = new Error(redactSecrets(message));
+    redacted.name = error instanceof Error ? error.name : 'Error';
+    throw redacted;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Provider-agnostic request passed to an LLM adapter
+ */
+export interface LLMRequest {
+  model: string;
+  apiKey?: string;
+  prompt: string;
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+  // Shape the reply must take; adapters enforce it as far as their API allows
+  responseSchema?: ResponseSchema;
+  // Receives the reply text as it is generated; only honoured by adapters that stream
+  onToken?: (text: string) => void;
+  // Set by the registry when the adapter should ask for a streamed reply
+  stream?: boolean;
+}
+
+/**
+ * JSON Schema subset used for structured output: what OpenAI's strict mode accepts,
+ * which adapters translate into their own dialect. Ranges go in descriptions
+ * since strict mode does not enforce numeric bounds.
+ */
+export interface JsonSchema {
+  type: string | string[];
+  description?: string;
+  enum?: Array<string | null>;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface ResponseSchema {
+  // Identifier sent to providers that require one (letters, digits, _ and -)
+  name: string;
+  schema: JsonSchema;
+}
+
+/**
+ * How an adapter constrains replies to a response schema:
+ * "schema" enforces it natively, "json" only guarantees well-formed JSON
+ */
+export type StructuredOutputMode = 'schema' | 'json';
+
+/**
+ * Normalized response returned by every LLM adapter
+ */
+export interface LLMResponse {
+  text: string;
+  // Token counts reported by the provider, when it reports them
+  usage?: LLMUsage;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * What one event of a streamed reply contributes: more text and/or token counts
+ */
+export interface LLMStreamChunk {
+  text?: string;
+  usage?: Partial<LLMUsage>;
+}
+
+/**
+ * HTTP call an adapter wants made for a request
+ */
+export interface LLMHttpRequest {
+  endpoint: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Maps the shared request/response shapes onto a vendor's HTTP API
+ */
+export interface LLMProviderAdapter {
+  name: string;
+  requiresApiKey: boolean;
+  // Structured output available for a model; absent or undefined means replies are parsed leniently
+  structuredOutput?(model: string): StructuredOutputMode | undefined;
+  buildRequest(request: LLMRequest): LLMHttpRequest;
+  parseResponse(data: any): LLMResponse;
+  // Present when the API can stream; parses one SSE data payload or NDJSON line
+  parseStreamChunk?(data: any): LLMStreamChunk;
+  // Present on in-process providers (the mock), which answer without any HTTP call
+  complete?(request: LLMRequest): Promise<LLMResponse>;
+}
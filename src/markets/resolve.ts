@@ -0,0 +1,216 @@
+import { disputeWindowMs, isDisputableVerdict } from '../disputes/policy';
+import { retrieveEvidence } from '../evidence/retrieve';
+import { ConsensusResult, runConsensus } from '../oracle/consensus';
+import { marketPrompt } from '../oracle/prompt';
+import { ConsensusStrategyConfig } from '../oracle/strategies';
+import { ProviderCall } from '../oracle/types';
+import { ResolutionStatus } from '../oracle/verdicts';
+import { recordMarketOutcome } from '../reputation/record';
+import { ScreeningResult, ScreeningReview } from '../screening/types';
+import { MarketStore } from './store';
+import { Market, MarketStatus, MarketUpdate } from './types';
+
+export interface ResolveMarketOptions {
+  providers: ProviderCall[];
+  strategy: ConsensusStrategyConfig;
+  maxTokens?: number;
+  temperature?: number;
+  timeoutMs?: number;
+  earlyQuorum?: boolean | number;
+  tenantId?: string;
+  // Ask every provider afresh instead of reusing cached answers
+  bypassCache?: boolean;
+  // Skip evidence retrieval and rely on the models alone
+  skipEvidence?: boolean;
+}
+
+/**
+ * Thrown when another resolution got to the market first
+ */
+export class MarketConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MarketConflictError';
+  }
+}
+
+export interface MarketResolutionOutcome {
+  market: Market;
+  consensus: ConsensusResult;
+}
+
+/**
+ * Status of a market still waiting on its outcome
+ */
+function tradingStatus(market: Market, now: Date): MarketStatus {
+  return market.closeTime && new Date(market.closeTime) <= now ? 'pending' : 'open';
+}
+
+/**
+ * Status a market moves to after a consensus verdict
+ */
+export function statusForVerdict(verdict: ResolutionStatus, market: Market, now = new Date()): MarketStatus {
+  switch (verdict) {
+    case 'RESOLVED':
+      return 'resolved';
+    case 'INVALID':
+      return 'invalid';
+    case 'AMBIGUOUS':
+      return 'disputed';
+    case 'NOT_YET_RESOLVABLE':
+      return tradingStatus(market, now);
+  }
+}
+
+/**
+ * Where a market goes after a verdict: into its dispute window when the verdict can be
+ * disputed, or straight to its final status
+ */
+export function verdictUpdate(
+  verdict: ResolutionStatus,
+  market: Market,
+  resolution: number,
+  now = new Date()
+): MarketUpdate {
+  const status = statusForVerdict(verdict, market, now);
+  if (!isDisputableVerdict(verdict)) {
+    return { status, provisional: undefined };
+  }
+
+  const windowMs = disputeWindowMs(market);
+  if (windowMs <= 0) {
+    return { status, provisional: undefined, finalizedAt: now.toISOString() };
+  }
+
+  return {
+    status: 'proposed',
+    provisional: {
+      status,
+      resolution,
+      proposedAt: now.toISOString(),
+      disputeWindowEndsAt: new Date(now.getTime() + windowMs).toISOString()
+    },
+    finalizedAt: undefined
+  };
+}
+
+/**
+ * Whether a market is in review or invalid because of its screening rather than a verdict
+ */
+export function heldByScreening(market: Market): boolean {
+  return !!market.screening && market.screening.action !== 'allow' && market.resolutions.length === 0 &&
+    (market.status === 'review' || market.status === 'invalid');
+}
+
+/**
+ * Where a market goes after its text is screened: held for review, settled as INVALID
+ * without a verdict, or back to trading when only its earlier text was held
+ */
+export function screeningUpdate(market: Market, screening: ScreeningResult, now = new Date()): MarketUpdate {
+  switch (screening.action) {
+    case 'invalid':
+      return { screening, status: 'invalid', finalizedAt: now.toISOString() };
+    case 'review':
+      return { screening, status: 'review', finalizedAt: undefined };
+    case 'allow':
+      return heldByScreening(market)
+        ? { screening, status: tradingStatus(market, now), finalizedAt: undefined }
+        : { screening };
+  }
+}
+
+/**
+ * An operator's call on a market held by screening: approve lets it trade and resolve
+ * despite the findings, reject settles it as INVALID
+ */
+export function reviewUpdate(market: Market, review: ScreeningReview, now = new Date()): MarketUpdate {
+  const screening = { ...market.screening!, review };
+  return review.decision === 'approve'
+    ? { screening, status: tradingStatus(market, now), finalizedAt: undefined }
+    : { screening, status: 'invalid', finalizedAt: now.toISOString() };
+}
+
+/**
+ * Why screening keeps a market from being resolved, or null
+ */
+export function screeningHold(market: Market): string | null {
+  const { screening } = market;
+  if (!screening || screening.action === 'allow' || screening.review?.decision === 'approve') {
+    return null;
+  }
+  return screening.action === 'review' && !screening.review
+    ? 'Market is held for review of its screening findings'
+    : 'Market text was rejected by screening; edit it or have an admin review it';
+}
+
+/**
+ * Runs consensus for a stored market and records the result on it.
+ * Markets whose providers all fail go back to their previous status; markets held by
+ * screening are refused, and markets already being resolved throw MarketConflictError.
+ */
+export async function resolveMarket(
+  store: MarketStore,
+  id: string,
+  options: ResolveMarketOptions
+): Promise<MarketResolutionOutcome | null> {
+  const market = await store.get(id);
+  if (!market) {
+    return null;
+  }
+
+  const hold = screeningHold(market);
+  if (hold) {
+    throw new Error(hold);
+  }
+
+  // The status check and the claim are one store call, so a manual resolve and a
+  // scheduler tick can't both run consensus on the market
+  const claimed = market.status !== 'resolving' && await store.transition(id, market.status, 'resolving');
+  if (!claimed) {
+    throw new MarketConflictError('Market is already being resolved');
+  }
+
+  let consensus: ConsensusResult;
+  try {
+    const citations = options.skipEvidence ? [] : await retrieveEvidence({
+      question: market.question,
+      market: market.market,
+      resolutionCriteria: market.resolutionCriteria
+    });
+
+    const { prompt, template } = marketPrompt(market, citations);
+    consensus = await runConsensus({
+      prompt,
+      template,
+      screening: market.screening,
+      providers: options.providers,
+      strategy: options.strategy,
+      market: market.market,
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+      timeoutMs: options.timeoutMs,
+      bypassCache: options.bypassCache,
+      earlyQuorum: options.earlyQuorum,
+      marketId: id,
+      tenantId: options.tenantId,
+      citations
+    });
+  } catch (error) {
+    await store.update(id, { status: market.status });
+    throw error;
+  }
+
+  if (consensus.providers.length === 0) {
+    await store.update(id, { status: market.status });
+    return { market, consensus };
+  }
+
+  const resolution = market.resolutions.length;
+  const update = verdictUpdate(consensus.verdict, market, resolution);
+  const updated = await store.addResolution(id, { resolvedAt: new Date().toISOString(), consensus }, update);
+  if (updated && update.finalizedAt) {
+    await recordMarketOutcome(store, updated, resolution);
+  }
+
+  return { market: updated!, consensus };
+}
@@ -0,0 +1,330 @@
+import { finalizeDueMarkets, recoverInterruptedAppeals } from '../disputes/appeal';
+import { getLLMAdapter } from '../llm/registry';
+import { ConsensusStrategyConfig, parseConsensusStrategy } from '../oracle/strategies';
+import { ProviderCall } from '../oracle/types';
+import { MarketConflictError, resolveMarket } from './resolve';
+import { MarketStore, getMarketStore } from './store';
+import { Market, MarketJobState } from './types';
+
+export interface SchedulerOptions {
+  // How often due markets are checked
+  pollIntervalMs: number;
+  // Wait this long after close before the first resolution attempt
+  resolveDelayMs: number;
+  maxAttempts: number;
+  // Retry delay doubles from backoffMs up to backoffMaxMs
+  backoffMs: number;
+  backoffMaxMs: number;
+  // A market left in "resolving" this long is treated as an interrupted attempt
+  stuckAfterMs: number;
+  providers: ProviderCall[];
+  strategy: ConsensusStrategyConfig;
+}
+
+export type SchedulerJobState = 'upcoming' | 'due' | 'retrying' | 'resolving' | 'stuck';
+
+export interface SchedulerJob {
+  marketId: string;
+  question: string;
+  status: Market['status'];
+  state: SchedulerJobState;
+  closeTime?: string;
+  dueAt: string;
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+const DEFAULT_STRATEGY: ConsensusStrategyConfig = { name: 'majority' };
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && process.env[name] !== '' ? value : fallback;
+}
+
+/**
+ * Parses a provider panel such as "openai:gpt-4,deepseek:deepseek-chat".
+ * Keys come from each provider's default credential in the vault.
+ */
+export function parseProviderPanel(panel: string): ProviderCall[] {
+  return panel
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [provider, ...modelParts] = entry.split(':');
+      const model = modelParts.join(':');
+      if (!provider || !model) {
+        throw new Error(`Invalid provider entry "${entry}", expected provider:model`);
+      }
+      if (!getLLMAdapter(provider)) {
+        throw new Error(`Unsupported provider: ${provider}`);
+      }
+      return { provider, model };
+    });
+}
+
+export function schedulerOptionsFromEnv(): SchedulerOptions {
+  return {
+    pollIntervalMs: numberFromEnv('MARKET_SCHEDULER_INTERVAL_MS', 30 * 1000),
+    resolveDelayMs: numberFromEnv('MARKET_RESOLVE_DELAY_MS', 0),
+    maxAttempts: numberFromEnv('MARKET_RESOLVE_MAX_ATTEMPTS', 5),
+    backoffMs: numberFromEnv('MARKET_RESOLVE_BACKOFF_MS', 60 * 1000),
+    backoffMaxMs: numberFromEnv('MARKET_RESOLVE_BACKOFF_MAX_MS', 60 * 60 * 1000),
+    stuckAfterMs: numberFromEnv('MARKET_RESOLVE_STUCK_MS', 10 * 60 * 1000),
+    providers: parseProviderPanel(process.env.MARKET_SCHEDULER_PROVIDERS || ''),
+    strategy: parseConsensusStrategy(process.env.MARKET_SCHEDULER_STRATEGY || undefined, DEFAULT_STRATEGY)
+  };
+}
+
+/**
+ * Resolves markets automatically once they pass their close time.
+ * Markets move open -> pending at close, then pending -> resolving -> proposed, and take
+ * their final status (resolved, invalid or disputed) when the dispute window closes.
+ * Failed or NOT_YET_RESOLVABLE attempts are retried with exponential backoff
+ * until maxAttempts, after which the job is reported as stuck.
+ */
+export class MarketScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private inFlight = new Set<string>();
+
+  constructor(private store: MarketStore, private options: SchedulerOptions) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    if (this.options.providers.length === 0) {
+      // Dispute windows still need closing
+      console.warn('Market auto-resolution disabled: MARKET_SCHEDULER_PROVIDERS is empty');
+    }
+
+    console.log(`Market scheduler polling every ${this.options.pollIntervalMs}ms`);
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Market scheduler tick failed:', error));
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * One scheduling pass; overlapping calls are skipped
+   */
+  async tick(now = new Date()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      await finalizeDueMarkets(this.store, now);
+      await recoverInterruptedAppeals(this.store, this.options.stuckAfterMs, now);
+
+      if (this.options.providers.length === 0) {
+        return;
+      }
+
+      await this.closeDueMarkets(now);
+      await this.recoverInterruptedMarkets(now);
+
+      const pending = await this.store.list({ status: 'pending' });
+      for (const market of pending) {
+        if (this.isDue(market, now)) {
+          await this.attempt(market);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Clears a stuck job so the next tick retries it from the first attempt
+   */
+  async retry(marketId: string): Promise<Market | null> {
+    const market = await this.store.get(marketId);
+    if (!market) {
+      return null;
+    }
+    if (market.status !== 'pending' && market.status !== 'resolving') {
+      throw new Error(`Only pending or stuck markets can be retried (market is ${market.status})`);
+    }
+
+    return this.store.update(marketId, {
+      status: 'pending',
+      job: { attempts: 0, nextAttemptAt: new Date().toISOString() }
+    });
+  }
+
+  /**
+   * Upcoming and outstanding resolution jobs, soonest first
+   */
+  async listJobs(now = new Date()): Promise<SchedulerJob[]> {
+    const markets = await this.store.list();
+
+    return markets
+      .filter(market => market.closeTime && ['open', 'pending', 'resolving'].includes(market.status))
+      .map(market => this.describeJob(market, now))
+      .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+  }
+
+  private describeJob(market: Market, now: Date): SchedulerJob {
+    const job = market.job;
+    let state: SchedulerJobState;
+
+    if (market.status === 'open') {
+      state = 'upcoming';
+    } else if (market.status === 'resolving') {
+      state = this.isInterrupted(market, now) ? 'stuck' : 'resolving';
+    } else if (job?.exhausted) {
+      state = 'stuck';
+    } else {
+      state = job && job.attempts > 0 ? 'retrying' : 'due';
+    }
+
+    return {
+      marketId: market.id,
+      question: market.question,
+      status: market.status,
+      state,
+      closeTime: market.closeTime,
+      dueAt: job?.nextAttemptAt || this.firstAttemptAt(market),
+      attempts: job?.attempts || 0,
+      lastAttemptAt: job?.lastAttemptAt,
+      lastError: job?.lastError
+    };
+  }
+
+  private firstAttemptAt(market: Market): string {
+    return new Date(new Date(market.closeTime!).getTime() + this.options.resolveDelayMs).toISOString();
+  }
+
+  private isDue(market: Market, now: Date): boolean {
+    if (this.inFlight.has(market.id) || market.job?.exhausted) {
+      return false;
+    }
+    const dueAt = market.job?.nextAttemptAt || (market.closeTime && this.firstAttemptAt(market));
+    return !!dueAt && new Date(dueAt) <= now;
+  }
+
+  private isInterrupted(market: Market, now: Date): boolean {
+    return !this.inFlight.has(market.id) &&
+      now.getTime() - new Date(market.updatedAt).getTime() >= this.options.stuckAfterMs;
+  }
+
+  private async closeDueMarkets(now: Date): Promise<void> {
+    const open = await this.store.list({ status: 'open' });
+
+    for (const market of open) {
+      if (market.closeTime && new Date(market.closeTime) <= now) {
+        await this.store.update(market.id, {
+          status: 'pending',
+          job: { attempts: 0, nextAttemptAt: this.firstAttemptAt(market) }
+        });
+      }
+    }
+  }
+
+  // A crash mid-resolution leaves markets in "resolving"; count it as a failed attempt
+  private async recoverInterruptedMarkets(now: Date): Promise<void> {
+    const resolving = await this.store.list({ status: 'resolving' });
+
+    for (const market of resolving) {
+      if (this.isInterrupted(market, now)) {
+        await this.store.update(market.id, {
+          status: 'pending',
+          job: this.failedJob(market, 'Resolution interrupted', now)
+        });
+      }
+    }
+  }
+
+  private failedJob(market: Market, error: string, now: Date): MarketJobState {
+    const attempts = (market.job?.attempts || 0) + 1;
+    const delay = Math.min(this.options.backoffMs * 2 ** (attempts - 1), this.options.backoffMaxMs);
+    const exhausted = attempts >= this.options.maxAttempts;
+
+    return {
+      attempts,
+      nextAttemptAt: exhausted ? undefined : new Date(now.getTime() + delay).toISOString(),
+      lastAttemptAt: now.toISOString(),
+      lastError: error,
+      exhausted: exhausted || undefined
+    };
+  }
+
+  private async attempt(market: Market): Promise<void> {
+    this.inFlight.add(market.id);
+    const startedAt = new Date();
+
+    try {
+      console.log(`Auto-resolving market ${market.id} (attempt ${(market.job?.attempts || 0) + 1})`);
+
+      const outcome = await resolveMarket(this.store, market.id, {
+        providers: this.options.providers,
+        strategy: this.options.strategy,
+        earlyQuorum: true,
+        tenantId: 'scheduler',
+        // Retries after NOT_YET_RESOLVABLE need a fresh look, not the earlier answer
+        bypassCache: true
+      });
+
+      if (!outcome) {
+        return;
+      }
+
+      const { consensus } = outcome;
+      if (consensus.providers.length === 0) {
+        const errors = consensus.allResponses
+          .map(response => `${response.provider}: ${response.error || 'no valid response'}`)
+          .join('; ');
+        await this.store.update(market.id, { job: this.failedJob(market, `No valid responses (${errors})`, startedAt) });
+      } else if (consensus.verdict === 'NOT_YET_RESOLVABLE') {
+        await this.store.update(market.id, {
+          job: this.failedJob(market, `NOT_YET_RESOLVABLE (${consensus.reasonCode})`, startedAt)
+        });
+      } else {
+        await this.store.update(market.id, {
+          job: { attempts: (market.job?.attempts || 0) + 1, lastAttemptAt: startedAt.toISOString() }
+        });
+        console.log(`Market ${market.id} auto-resolved: ${consensus.verdict}`);
+      }
+    } catch (error) {
+      // Someone else is resolving it; their run decides the status
+      if (error instanceof MarketConflictError) {
+        console.log(`Market ${market.id} is already being resolved; skipping`);
+        return;
+      }
+      console.error(`Auto-resolution of market ${market.id} failed:`, error);
+      await this.store.update(market.id, {
+        status: 'pending',
+        job: this.failedJob(market, error instanceof Error ? error.message : 'Unknown error', startedAt)
+      });
+    } finally {
+      this.inFlight.delete(market.id);
+    }
+  }
+}
+
+let defaultScheduler: MarketScheduler | null = null;
+
+/**
+ * Process-wide scheduler over the shared market store
+ */
+export function getMarketScheduler(): MarketScheduler {
+  if (!defaultScheduler) {
+    defaultScheduler = new MarketScheduler(getMarketStore(), schedulerOptionsFromEnv());
+  }
+  return defaultScheduler;
+}
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { MarketDispute } from '../disputes/types';
+import { Market, MarketFilter, MarketInput, MarketResolution, MarketStatus, MarketUpdate } from './types';
+
+/**
+ * Persistence for markets. Implementations must be safe to call concurrently.
+ */
+export interface MarketStore {
+  create(input: MarketInput): Promise<Market>;
+  get(id: string): Promise<Market | null>;
+  list(filter?: MarketFilter): Promise<Market[]>;
+  update(id: string, update: MarketUpdate): Promise<Market | null>;
+  // Moves a market from one status to another in a single step, so concurrent callers
+  // can't both claim it. `update` may be computed from the current market, returning null
+  // to leave it alone. Null when the market is missing, no longer in `from` or left alone.
+  transition(
+    id: string,
+    from: MarketStatus,
+    to: MarketStatus,
+    update?: MarketUpdate | ((existing: Market) => MarketUpdate | null)
+  ): Promise<Market | null>;
+  addResolution(id: string, resolution: MarketResolution, update?: MarketUpdate): Promise<Market | null>;
+  addDispute(id: string, dispute: MarketDispute, update?: MarketUpdate): Promise<Market | null>;
+  updateDispute(
+    id: string,
+    disputeId: string,
+    changes: Partial<MarketDispute>,
+    update?: MarketUpdate
+  ): Promise<Market | null>;
+}
+
+/**
+ * Keeps markets in memory only; used for tests and as the base for the file store
+ */
+export class MemoryMarketStore implements MarketStore {
+  protected markets = new Map<string, Market>();
+
+  async create(input: MarketInput): Promise<Market> {
+    await this.load();
+
+    const now = new Date().toISOString();
+    const market: Market = {
+      id: randomUUID(),
+      ...input,
+      status: 'open',
+      createdAt: now,
+      updatedAt: now,
+      resolutions: []
+    };
+
+    this.markets.set(market.id, market);
+    await this.persist();
+    return market;
+  }
+
+  async get(id: string): Promise<Market | null> {
+    await this.load();
+    return this.markets.get(id) || null;
+  }
+
+  async list(filter: MarketFilter = {}): Promise<Market[]> {
+    await this.load();
+
+    const markets = Array.from(this.markets.values())
+      .filter(market => !filter.status || market.status === filter.status)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const offset = filter.offset || 0;
+    return filter.limit !== undefined
+      ? markets.slice(offset, offset + filter.limit)
+      : markets.slice(offset);
+  }
+
+  async update(id: string, update: MarketUpdate): Promise<Market | null> {
+    return this.patch(id, () => update);
+  }
+
+  async transition(
+    id: string,
+    from: MarketStatus,
+    to: MarketStatus,
+    update: MarketUpdate | ((existing: Market) => MarketUpdate | null) = {}
+  ): Promise<Market | null> {
+    return this.patch(id, existing => {
+      if (existing.status !== from) {
+        return null;
+      }
+      const applied = typeof update === 'function' ? update(existing) : update;
+      return applied && { ...applied, status: to };
+    });
+  }
+
+  async addResolution(id: string, resolution: MarketResolution, update: MarketUpdate = {}): Promise<Market | null> {
+    return this.patch(id, existing => ({
+      ...update,
+      resolutions: [...existing.resolutions, resolution]
+    }));
+  }
+
+  async addDispute(id: string, dispute: MarketDispute, update: MarketUpdate = {}): Promise<Market | null> {
+    return this.patch(id, existing => ({
+      ...update,
+      disputes: [...(existing.disputes || []), dispute]
+    }));
+  }
+
+  async updateDispute(
+    id: string,
+    disputeId: string,
+    changes: Partial<MarketDispute>,
+    update: MarketUpdate = {}
+  ): Promise<Market | null> {
+    return this.patch(id, existing => ({
+      ...update,
+      disputes: (existing.disputes || []).map(dispute =>
+        dispute.id === disputeId
+          ? { ...dispute, ...changes, id: disputeId, updatedAt: new Date().toISOString() }
+          : dispute
+      )
+    }));
+  }
+
+  /**
+   * Applies changes computed from the current market; `changes` returning null leaves it
+   * untouched. Reading and writing happen without an await in between.
+   */
+  protected async patch(id: string, changes: (existing: Market) => Partial<Market> | null): Promise<Market | null> {
+    await this.load();
+
+    const existing = this.markets.get(id);
+    const applied = existing && changes(existing);
+    if (!existing || !applied) {
+      return null;
+    }
+
+    const market: Market = {
+      ...existing,
+      ...applied,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.markets.set(id, market);
+    await this.persist();
+    return market;
+  }
+
+  protected async load(): Promise<void> {}
+
+  protected async persist(): Promise<void> {}
+}
+
+/**
+ * Stores markets as a single JSON file, rewritten atomically on every change
+ */
+export class FileMarketStore extends MemoryMarketStore {
+  private loaded = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      const contents = await fs.promises.readFile(this.filePath, 'utf8');
+      const markets: Market[] = JSON.parse(contents);
+      this.markets = new Map(markets.map(market => [market.id, market]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  protected async persist(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.markets.values()), null, 2);
+
+    // Serialize writes so a slow write never lands after a newer one
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, snapshot);
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+
+    return this.writeQueue;
+  }
+}
+
+export function createMarketStore(): MarketStore {
+  const backend = process.env.MARKET_STORE || 'file';
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryMarketStore();
+    case 'file':
+      return new FileMarketStore(process.env.MARKET_STORE_PATH || path.join('data', 'markets.json'));
+    default:
+      throw new Error(`Unsupported market store: ${backend}`);
+  }
+}
+
+let defaultStore: MarketStore | null = null;
+
+/**
+ * Process-wide market store shared by the HTTP API and the Eliza plugin
+ */
+export function getMarketStore(): MarketStore {
+  if (!defaultStore) {
+    defaultStore = createMarketStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,131 @@
+import { MarketDispute } from '../disputes/types';
+import { ConsensusResult } from '../oracle/consensus';
+import { MarketSpec } from '../oracle/outcomes';
+import { MarketCategory, ResolutionFields, TemplateSelector } from '../prompts/types';
+import { ScreeningResult } from '../screening/types';
+
+/**
+ * Lifecycle of a market:
+ * open -> pending (past close time) -> resolving -> proposed (dispute window open,
+ * appealing while a dispute is re-evaluated) -> resolved | invalid | disputed.
+ * Markets whose text fails screening go to review (held for a person) or straight to invalid.
+ */
+export type MarketStatus =
+  | 'open'
+  | 'pending'
+  | 'resolving'
+  | 'proposed'
+  | 'appealing'
+  | 'resolved'
+  | 'invalid'
+  | 'disputed'
+  | 'review';
+
+export const MARKET_STATUSES: MarketStatus[] = [
+  'open',
+  'pending',
+  'resolving',
+  'proposed',
+  'appealing',
+  'resolved',
+  'invalid',
+  'disputed',
+  'review'
+];
+
+/**
+ * One consensus run against a market
+ */
+export interface MarketResolution {
+  resolvedAt: string;
+  consensus: ConsensusResult;
+  // Set on appeal runs
+  disputeId?: string;
+}
+
+/**
+ * A verdict waiting out its dispute window
+ */
+export interface ProvisionalVerdict {
+  // Status the market takes once the window closes
+  status: MarketStatus;
+  // Index into market.resolutions of the verdict that currently stands
+  resolution: number;
+  proposedAt: string;
+  disputeWindowEndsAt: string;
+}
+
+/**
+ * Auto-resolution bookkeeping kept by the scheduler
+ */
+export interface MarketJobState {
+  // Failed or inconclusive resolution attempts so far
+  attempts: number;
+  // When the scheduler should next try to resolve the market
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+  // Set once attempts reach the configured maximum; cleared by a manual retry
+  exhausted?: boolean;
+}
+
+export interface Market {
+  id: string;
+  question: string;
+  market: MarketSpec;
+  // Chooses the prompt template unless one is pinned
+  category?: MarketCategory;
+  template?: TemplateSelector;
+  resolutionCriteria?: string;
+  resolution?: ResolutionFields;
+  // ISO timestamp after which the market stops trading and can be resolved
+  closeTime?: string;
+  // Trading data reported by the market contract: implied probability per option (0-1) and volume
+  odds?: number[];
+  totalVolume?: number;
+  // Overrides DISPUTE_WINDOW_MS for this market; 0 makes verdicts final immediately
+  disputeWindowMs?: number;
+  status: MarketStatus;
+  job?: MarketJobState;
+  provisional?: ProvisionalVerdict;
+  // When the market took its final status
+  finalizedAt?: string;
+  // When its outcome was added to provider reputation; kept through re-resolution so a
+  // market is only ever scored once
+  scoredAt?: string;
+  // Pre-screen of the market text for prompt injection and ill-posed questions
+  screening?: ScreeningResult;
+  createdAt: string;
+  updatedAt: string;
+  // Every resolution attempt, oldest first, including appeals
+  resolutions: MarketResolution[];
+  disputes?: MarketDispute[];
+}
+
+export interface MarketInput {
+  question: string;
+  market: MarketSpec;
+  category?: MarketCategory;
+  template?: TemplateSelector;
+  resolutionCriteria?: string;
+  resolution?: ResolutionFields;
+  closeTime?: string;
+  odds?: number[];
+  totalVolume?: number;
+  disputeWindowMs?: number;
+}
+
+export type MarketUpdate = Partial<MarketInput> & {
+  status?: MarketStatus;
+  job?: MarketJobState;
+  provisional?: ProvisionalVerdict;
+  finalizedAt?: string;
+  scoredAt?: string;
+  screening?: ScreeningResult;
+};
+
+export interface MarketFilter {
+  status?: MarketStatus;
+  limit?: number;
+  offset?: number;
+}
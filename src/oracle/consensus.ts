@@ -0,0 +1,311 @@
+import { randomUUID } from 'crypto';
+import { OracleAttestation, buildAttestationMessage, getAttestationSigner } from '../attestation/attestation';
+import { getAuditLog } from '../audit/log';
+import { CacheStatus } from '../cache/responseCache';
+import { redactSecrets } from '../credentials/vault';
+import { formatCitationList } from '../evidence/retrieve';
+import { Citation } from '../evidence/types';
+import { TemplateRef } from '../prompts/types';
+import { applyReputation } from '../reputation/consensus';
+import { detectInfluence } from '../screening/influence';
+import { ScreeningResult } from '../screening/types';
+import { getUsageLedger } from '../usage/ledger';
+import { addUsage, emptyUsageTotals } from '../usage/pricing';
+import { TokenUsage, UsageTotals } from '../usage/types';
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, ORACLE_SYSTEM_PROMPT } from './evaluate';
+import { fanOutEvaluations } from './fanout';
+import { BINARY_MARKET, MarketSpec } from './outcomes';
+import {
+  AppliedStrategy,
+  ConsensusStrategyConfig,
+  DEFAULT_MIN_CONFIDENCE,
+  applyConsensusStrategy
+} from './strategies';
+import { OracleResponse, ParseReport, ProviderCall, ProviderOutcome } from './types';
+import { ResolutionStatus, UnresolvedStatus } from './verdicts';
+
+export interface ConsensusRequest {
+  prompt: string;
+  providers: ProviderCall[];
+  strategy: ConsensusStrategyConfig;
+  market?: MarketSpec;
+  maxTokens?: number;
+  temperature?: number;
+  timeoutMs?: number;
+  // Ask every provider afresh instead of reusing cached answers
+  bypassCache?: boolean;
+  // true waits for a strict majority of the panel (or the supermajority's
+  // required count); a number sets the vote count
+  earlyQuorum?: boolean | number;
+  // Registered market being resolved, recorded in the audit log
+  marketId?: string;
+  // Who the calls are billed to in the usage ledger
+  tenantId?: string;
+  // Evidence included in the prompt, returned with the result
+  citations?: Citation[];
+  // Template the prompt was rendered from; null or absent for caller-written prompts
+  template?: TemplateRef | null;
+  // Screening of the market text; answers that echo its flagged text are discounted
+  screening?: ScreeningResult;
+  // Progress, by index into `providers`: a call starting, its streamed text, and its
+  // result as soon as it answers or fails
+  onProviderStart?: (call: ProviderCall, index: number) => void;
+  onToken?: (index: number, text: string, attempt: number) => void;
+  onResponse?: (response: ConsensusProviderResponse, index: number) => void;
+}
+
+export interface ConsensusProviderResponse {
+  provider: string;
+  model: string;
+  response: OracleResponse;
+  usage?: TokenUsage;
+  parse?: ParseReport;
+  cache?: CacheStatus;
+  // What the provider said its confidence was, when the strategy counted a calibrated
+  // confidence in response.confidence instead
+  reportedConfidence?: number;
+  // Why the answer looks steered by text injected into the market; counted as an
+  // INVALID / MANIPULATION_ATTEMPT vote instead of the answer given
+  influence?: string;
+  error?: string;
+  timedOut?: boolean;
+  skipped?: boolean;
+  substituteFor?: string;
+  latencyMs?: number;
+}
+
+export interface ConsensusResult {
+  // Audit trail ID for this run
+  evaluationId: string;
+  verdict: ResolutionStatus;
+  reasonCode: string | null;
+  optionATrue: boolean;
+  optionBTrue: boolean;
+  winningOption: number | null;
+  value: number | null;
+  market: MarketSpec;
+  confidence: number;
+  reasoning: string;
+  votes: {
+    optionA: number;
+    optionB: number;
+  };
+  weightedVotes: {
+    optionA: number;
+    optionB: number;
+  };
+  optionVotes: number[];
+  statusVotes: Record<UnresolvedStatus, number>;
+  strategy: AppliedStrategy;
+  // Providers whose responses were counted; empty when none were valid
+  providers: string[];
+  allResponses: ConsensusProviderResponse[];
+  // Evidence the prompt cited; also listed at the end of reasoning
+  citations: Citation[];
+  // Template that produced the prompt, or null for a caller-written prompt
+  template: TemplateRef | null;
+  // Tokens and cost across every provider call, including ones that were not counted
+  usage: UsageTotals;
+  // Signed payload for on-chain submission, when a signer key is configured
+  attestation?: OracleAttestation;
+}
+
+function toProviderResponse(outcome: ProviderOutcome): ConsensusProviderResponse {
+  return {
+    provider: outcome.provider,
+    model: outcome.model,
+    response: outcome.response || {
+      optionATrue: false,
+      optionBTrue: false,
+      confidence: 0,
+      reasoning: outcome.skipped ? 'Provider skipped' : (outcome.timedOut ? 'Provider timed out' : 'Provider error')
+    },
+    usage: outcome.usage,
+    parse: outcome.parse,
+    cache: outcome.cache,
+    error: outcome.error && redactSecrets(outcome.error),
+    timedOut: outcome.timedOut,
+    skipped: outcome.skipped,
+    substituteFor: outcome.substituteFor,
+    latencyMs: outcome.latencyMs
+  };
+}
+
+/**
+ * What an answer that looks steered by injected text counts as
+ */
+function manipulationVote(response: OracleResponse): OracleResponse {
+  return {
+    ...response,
+    status: 'INVALID',
+    reasonCode: 'MANIPULATION_ATTEMPT',
+    optionATrue: false,
+    optionBTrue: false,
+    selectedOption: null,
+    value: null
+  };
+}
+
+/**
+ * Fans a prompt out to a provider panel and tallies the answers under a strategy.
+ * Every provider call and the final decision are appended to the audit log, and the
+ * decision is signed when an attestation key is configured.
+ */
+export async function runConsensus(request: ConsensusRequest): Promise<ConsensusResult> {
+  const { prompt, providers, strategy, earlyQuorum } = request;
+  const market = request.market || BINARY_MARKET;
+  const citations = request.citations || [];
+
+  // Only supermajority tallies use `required`, so only it sets the quorum
+  const required = strategy.name === 'supermajority' ? strategy.required : undefined;
+  const quorum = earlyQuorum === true
+    ? (required ?? Math.floor(providers.length / 2) + 1)
+    : (typeof earlyQuorum === 'number' ? earlyQuorum : undefined);
+
+  const evaluationId = randomUUID();
+  const startedAt = new Date();
+
+  // Call all providers in parallel
+  const outcomes = await fanOutEvaluations(providers, prompt, {
+    maxTokens: request.maxTokens,
+    temperature: request.temperature,
+    timeoutMs: request.timeoutMs,
+    bypassCache: request.bypassCache,
+    earlyQuorum: quorum,
+    minConfidence: strategy.minConfidence ?? DEFAULT_MIN_CONFIDENCE,
+    market,
+    onStart: request.onProviderStart,
+    onToken: request.onToken,
+    onOutcome: request.onResponse && ((outcome, index) => request.onResponse!(toProviderResponse(outcome), index))
+  });
+
+  const adjustment = await applyReputation(strategy, outcomes);
+  const responses = outcomes.map(outcome => {
+    const response = toProviderResponse(outcome);
+    if (response.error) {
+      return response;
+    }
+    const influence = detectInfluence(response.response, request.screening) || undefined;
+    if (!adjustment.strategy.calibrate) {
+      return { ...response, influence };
+    }
+    const confidence = adjustment.confidence(response.provider, response.model, response.response.confidence);
+    return {
+      ...response,
+      response: { ...response.response, confidence },
+      reportedConfidence: response.response.confidence,
+      influence
+    };
+  });
+
+  // Calculate consensus
+  const tally = applyConsensusStrategy(
+    responses
+      .filter(r => !r.error)
+      .map(r => ({
+        provider: r.provider,
+        model: r.model,
+        response: r.influence ? manipulationVote(r.response) : r.response
+      })),
+    adjustment.strategy,
+    market
+  );
+
+  const influenced = responses
+    .filter(response => response.influence)
+    .map(response => `${response.provider}/${response.model}`);
+
+  const auditLog = getAuditLog();
+  for (const outcome of outcomes) {
+    await auditLog.append(evaluationId, 'evaluation', {
+      tenantId: request.tenantId,
+      provider: outcome.provider,
+      model: outcome.model,
+      systemPrompt: ORACLE_SYSTEM_PROMPT,
+      prompt,
+      maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      market,
+      rawResponse: outcome.rawResponse,
+      response: outcome.response,
+      usage: outcome.usage,
+      parse: outcome.parse,
+      cache: outcome.cache,
+      error: outcome.error && redactSecrets(outcome.error),
+      timedOut: outcome.timedOut,
+      skipped: outcome.skipped,
+      substituteFor: outcome.substituteFor,
+      startedAt: startedAt.toISOString(),
+      completedAt: new Date(startedAt.getTime() + outcome.latencyMs).toISOString()
+    });
+  }
+
+  const decision = await auditLog.append(evaluationId, 'consensus', {
+    tenantId: request.tenantId,
+    marketId: request.marketId,
+    strategy: tally.strategy,
+    market,
+    verdict: tally.verdict,
+    reasonCode: tally.reasonCode,
+    winningOption: tally.winningOption,
+    value: tally.value,
+    confidence: tally.confidence,
+    providers: tally.validVotes.map(vote => vote.provider),
+    influenced: influenced.length > 0 ? influenced : undefined,
+    optionVotes: tally.optionVotes,
+    statusVotes: tally.statusVotes,
+    citations: citations.length > 0 ? citations : undefined,
+    template: request.template || null,
+    startedAt: startedAt.toISOString(),
+    completedAt: new Date().toISOString()
+  });
+
+  let reasoning = tally.validVotes
+    .map(vote => `${vote.provider}: ${vote.response.reasoning}`)
+    .join('; ');
+  if (citations.length > 0) {
+    reasoning += `${reasoning ? '\n\n' : ''}Sources: ${formatCitationList(citations)}`;
+  }
+
+  const result: ConsensusResult = {
+    evaluationId,
+    verdict: tally.verdict,
+    reasonCode: tally.reasonCode,
+    optionATrue: tally.optionATrue,
+    optionBTrue: tally.optionBTrue,
+    winningOption: tally.winningOption,
+    value: tally.value,
+    market,
+    confidence: tally.confidence,
+    reasoning,
+    votes: tally.votes,
+    weightedVotes: tally.weightedVotes,
+    optionVotes: tally.optionVotes,
+    statusVotes: tally.statusVotes,
+    strategy: tally.strategy,
+    providers: tally.validVotes.map(vote => vote.provider),
+    allResponses: responses,
+    citations,
+    template: request.template || null,
+    usage: responses.reduce((totals, response) => addUsage(totals, response.usage), emptyUsageTotals())
+  };
+
+  await getUsageLedger().record(responses
+    .filter(response => response.usage)
+    .map(response => ({
+      ...response.usage!,
+      timestamp: new Date().toISOString(),
+      evaluationId,
+      tenantId: request.tenantId || 'unattributed',
+      marketId: request.marketId,
+      provider: response.provider,
+      model: response.model
+    })));
+
+  const signer = getAttestationSigner();
+  if (signer && result.providers.length > 0) {
+    result.attestation = signer.sign(buildAttestationMessage(result, decision.hash, request.marketId));
+  }
+
+  return result;
+}
@@ -0,0 +1,213 @@
+import { InFlightRequests } from '../cache/inflight';
+import {
+  CacheStatus,
+  getResponseCache,
+  responseCacheKey,
+  responseCacheTtlMs
+} from '../cache/responseCache';
+import { getCredentialVault } from '../credentials/vault';
+import { callLLMProvider, getLLMAdapter } from '../llm/registry';
+import { LLMUsage } from '../llm/types';
+import { priceUsage } from '../usage/pricing';
+import { BINARY_MARKET } from './outcomes';
+import { OracleParseError, ParseFailure, tryParseOracleResponse } from './parser';
+import { oracleResponseSchema } from './schema';
+import { EvaluationOptions, OracleEvaluation, ParseReport } from './types';
+
+export const ORACLE_SYSTEM_PROMPT = 'You are an AI oracle for prediction markets. Respond with valid JSON only.';
+
+export const DEFAULT_MAX_TOKENS = 500;
+export const DEFAULT_TEMPERATURE = 0.1;
+
+/**
+ * Picks the key for a call: an explicit key, else the named (or provider's default) vault credential
+ */
+function resolveApiKey(provider: string, options: EvaluationOptions): string | undefined {
+  if (options.apiKey) {
+    return options.apiKey;
+  }
+
+  const vault = getCredentialVault();
+  const credential = options.credential || provider;
+  if (options.credential || vault.has(credential)) {
+    return vault.resolveKey(credential, provider);
+  }
+
+  // Keyless providers (e.g. a local Ollama) need no credential
+  if (getLLMAdapter(provider)?.requiresApiKey === false) {
+    return undefined;
+  }
+  throw new Error(`No credential configured for provider: ${provider}`);
+}
+
+// Set ORACLE_STRUCTURED_OUTPUT=false to stop sending response schemas to providers
+function structuredOutputEnabled(): boolean {
+  return process.env.ORACLE_STRUCTURED_OUTPUT !== 'false';
+}
+
+/**
+ * Follow-up prompt asking a model to restate an unusable reply in the required format
+ */
+function buildRepairPrompt(prompt: string, reply: string, failure: ParseFailure): string {
+  return `${prompt}
+
+Your previous reply could not be used (${failure.kind}: ${failure.message}).
+Previous reply:
+${reply.slice(0, 2000)}
+
+Reply again with only the JSON object in the required format: no markdown, comments or other text.`;
+}
+
+function sumUsage(first?: LLMUsage, second?: LLMUsage): LLMUsage | undefined {
+  if (!first || !second) {
+    return first || second;
+  }
+  return {
+    promptTokens: first.promptTokens + second.promptTokens,
+    completionTokens: first.completionTokens + second.completionTokens
+  };
+}
+
+/**
+ * Calls the provider and parses its verdict.
+ * Providers with structured output are given the answer schema; any reply that still
+ * can't be parsed gets one repair re-prompt before the call fails with OracleParseError.
+ */
+async function callAndParse(
+  provider: string,
+  model: string,
+  prompt: string,
+  apiKey: string | undefined,
+  options: EvaluationOptions
+): Promise<OracleEvaluation> {
+  const market = options.market || BINARY_MARKET;
+  const structuredOutput = structuredOutputEnabled()
+    ? getLLMAdapter(provider)?.structuredOutput?.(model)
+    : undefined;
+
+  const request = {
+    model,
+    apiKey,
+    systemPrompt: ORACLE_SYSTEM_PROMPT,
+    maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+    signal: options.signal,
+    responseSchema: structuredOutput ? oracleResponseSchema(market) : undefined
+  };
+
+  const failures: ParseFailure[] = [];
+  const streamAttempt = (attempt: number) => options.onToken && ((token: string) => options.onToken!(token, attempt));
+
+  let { text, usage } = await callLLMProvider(provider, { ...request, prompt, onToken: streamAttempt(1) });
+  let result = tryParseOracleResponse(text, market);
+
+  if (!result.ok) {
+    failures.push(result.failure);
+    console.warn(`Unparseable response from ${provider}/${model} (${result.failure.kind}), asking for a repair`);
+
+    const repair = await callLLMProvider(provider, {
+      ...request,
+      prompt: buildRepairPrompt(prompt, text, result.failure),
+      onToken: streamAttempt(2)
+    });
+    text = repair.text;
+    usage = sumUsage(usage, repair.usage);
+    result = tryParseOracleResponse(text, market);
+  }
+
+  const parse: ParseReport = {
+    structuredOutput: structuredOutput || 'none',
+    repaired: failures.length > 0,
+    failures
+  };
+
+  if (!result.ok) {
+    failures.push(result.failure);
+    throw new OracleParseError({ ...parse, repaired: false }, text, priceUsage(provider, model, usage));
+  }
+
+  return {
+    provider,
+    model,
+    rawResponse: text,
+    response: result.response,
+    usage: priceUsage(provider, model, usage),
+    parse
+  };
+}
+
+// Identical evaluations currently waiting on a provider
+const inFlight = new InFlightRequests<OracleEvaluation>();
+
+async function readCache(key: string) {
+  try {
+    return await getResponseCache()?.get(key) || null;
+  } catch (error) {
+    console.error('Response cache read failed:', error);
+    return null;
+  }
+}
+
+async function writeCache(key: string, evaluation: OracleEvaluation): Promise<void> {
+  try {
+    await getResponseCache()?.set(key, { evaluation, cachedAt: new Date().toISOString() }, responseCacheTtlMs());
+  } catch (error) {
+    console.error('Response cache write failed:', error);
+  }
+}
+
+/**
+ * Asks a single provider to evaluate an oracle prompt and parses its verdict.
+ * Answers are cached by prompt, provider, model and sampling settings, and identical
+ * requests in flight share one upstream call; `cache` on the result says which happened.
+ * Shared by the HTTP API and the EVALUATE_PREDICTION action.
+ */
+export async function evaluateWithProvider(
+  provider: string,
+  model: string,
+  prompt: string,
+  options: EvaluationOptions = {}
+): Promise<OracleEvaluation> {
+  // Resolve the credential first so the cache never answers for a caller without one
+  const apiKey = resolveApiKey(provider, options);
+
+  const key = responseCacheKey({
+    provider,
+    model,
+    systemPrompt: ORACLE_SYSTEM_PROMPT,
+    prompt,
+    temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+    maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+    market: options.market || BINARY_MARKET
+  });
+  const withCache = (evaluation: OracleEvaluation, cache: CacheStatus): OracleEvaluation => ({
+    ...evaluation,
+    // Only the caller that made the upstream call is billed for it
+    usage: cache.status === 'miss' || cache.status === 'bypass' ? evaluation.usage : undefined,
+    cache
+  });
+
+  if (options.bypassCache) {
+    const evaluation = await callAndParse(provider, model, prompt, apiKey, options);
+    await writeCache(key, evaluation);
+    return withCache(evaluation, { status: 'bypass', key });
+  }
+
+  const cached = await readCache(key);
+  if (cached) {
+    return withCache(cached.evaluation, { status: 'hit', key, cachedAt: cached.cachedAt });
+  }
+
+  const shared = inFlight.has(key);
+  const evaluation = await inFlight.run(
+    key,
+    async (signal, onToken) => {
+      const fresh = await callAndParse(provider, model, prompt, apiKey, { ...options, signal, onToken });
+      await writeCache(key, fresh);
+      return fresh;
+    },
+    { signal: options.signal, onToken: options.onToken }
+  );
+
+  return withCache(evaluation, { status: shared ? 'shared' : 'miss', key });
+}
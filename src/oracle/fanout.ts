@@ -0,0 +1,217 @@
+import { isReusedAnswer } from '../cache/responseCache';
+import { ProviderHealthTracker, classifyCallResult, getProviderHealth } from '../health/tracker';
+import { evaluateWithProvider } from './evaluate';
+import { MarketSpec, voteKey } from './outcomes';
+import { OracleParseError } from './parser';
+import { ProviderCall, ProviderOutcome } from './types';
+
+export const DEFAULT_PROVIDER_TIMEOUT_MS = Number(process.env.ORACLE_PROVIDER_TIMEOUT_MS) || 30000;
+
+export interface FanOutOptions {
+  maxTokens?: number;
+  temperature?: number;
+  // Default timeout for providers that don't set their own
+  timeoutMs?: number;
+  // Stop waiting once this many qualifying responses agree on an outcome
+  earlyQuorum?: number;
+  // Responses below this confidence don't count towards early quorum
+  minConfidence?: number;
+  market?: MarketSpec;
+  // Skip the response cache for every provider
+  bypassCache?: boolean;
+  // Progress callbacks, by index into `calls`: a provider starting, streaming
+  // reply text, and finishing before the whole panel is done
+  onStart?: (call: ProviderCall, index: number) => void;
+  onToken?: (index: number, text: string, attempt: number) => void;
+  onOutcome?: (outcome: ProviderOutcome, index: number) => void;
+}
+
+/**
+ * Picks who fills a panel slot: the provider itself, or failing that its first fallback
+ * whose circuit is closed and that isn't already on the panel. Null when nobody can.
+ */
+function choosePanelMember(
+  call: ProviderCall,
+  seated: Set<string>,
+  health: ProviderHealthTracker
+): ProviderCall | null {
+  if (health.allowRequest(call.provider)) {
+    return call;
+  }
+
+  for (const fallback of call.fallbacks || []) {
+    const key = `${fallback.provider}/${fallback.model}`;
+    if (!seated.has(key) && health.allowRequest(fallback.provider)) {
+      seated.add(key);
+      return { ...fallback, timeoutMs: fallback.timeoutMs ?? call.timeoutMs };
+    }
+  }
+  return null;
+}
+
+/**
+ * Calls every provider in parallel, each with its own timeout. Providers whose circuit
+ * is open are replaced by a fallback or skipped, and every call feeds provider health.
+ * Outcomes are returned in the same order as `calls`.
+ */
+export function fanOutEvaluations(
+  calls: ProviderCall[],
+  prompt: string,
+  options: FanOutOptions = {}
+): Promise<ProviderOutcome[]> {
+  if (calls.length === 0) {
+    return Promise.resolve([]);
+  }
+
+  const health = getProviderHealth();
+  const seated = new Set(calls.map(call => `${call.provider}/${call.model}`));
+  const panel = calls.map(call => choosePanelMember(call, seated, health));
+
+  const outcomes: Array<ProviderOutcome | undefined> = new Array(calls.length);
+  const controllers = calls.map(() => new AbortController());
+  const timers: NodeJS.Timeout[] = [];
+  const timedOut = new Set<number>();
+  const votes: Record<number, number> = {};
+  const startedAt = Date.now();
+
+  return new Promise(resolve => {
+    let pending = panel.filter(member => member !== null).length;
+    let settled = false;
+
+    const finish = (reason?: string) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      timers.forEach(timer => clearTimeout(timer));
+
+      // Stragglers cut off by early quorum are recorded as timed out
+      panel.forEach((member, index) => {
+        if (!outcomes[index]) {
+          controllers[index].abort();
+          outcomes[index] = {
+            provider: member!.provider,
+            model: member!.model,
+            substituteFor: member === calls[index] ? undefined : calls[index].provider,
+            error: reason || 'Cancelled',
+            timedOut: true,
+            latencyMs: Date.now() - startedAt
+          };
+        }
+      });
+
+      resolve(outcomes as ProviderOutcome[]);
+    };
+
+    calls.forEach((slot, index) => {
+      const call = panel[index];
+      if (!call) {
+        outcomes[index] = {
+          provider: slot.provider,
+          model: slot.model,
+          error: `Skipped: circuit open for ${slot.provider}`,
+          skipped: true,
+          latencyMs: 0
+        };
+        options.onOutcome?.(outcomes[index]!, index);
+        return;
+      }
+      const substituteFor = call === slot ? undefined : slot.provider;
+
+      const timeoutMs = call.timeoutMs ?? options.timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS;
+      timers.push(setTimeout(() => {
+        timedOut.add(index);
+        controllers[index].abort();
+      }, timeoutMs));
+
+      options.onStart?.(call, index);
+
+      evaluateWithProvider(call.provider, call.model, prompt, {
+        credential: call.credential,
+        apiKey: call.apiKey,
+        maxTokens: options.maxTokens,
+        temperature: options.temperature,
+        signal: controllers[index].signal,
+        market: options.market,
+        bypassCache: options.bypassCache,
+        onToken: options.onToken && ((text, attempt) => {
+          if (!settled) {
+            options.onToken!(index, text, attempt);
+          }
+        })
+      })
+        .then(evaluation => {
+          if (!isReusedAnswer(evaluation.cache)) {
+            health.record(call.provider, 'success', Date.now() - startedAt);
+          }
+          if (settled) {
+            return;
+          }
+
+          outcomes[index] = {
+            provider: call.provider,
+            model: call.model,
+            substituteFor,
+            response: evaluation.response,
+            rawResponse: evaluation.rawResponse,
+            usage: evaluation.usage,
+            parse: evaluation.parse,
+            cache: evaluation.cache,
+            latencyMs: Date.now() - startedAt
+          };
+
+          const vote = voteKey(evaluation.response);
+          if (vote !== null && evaluation.response.confidence >= (options.minConfidence ?? 0)) {
+            votes[vote] = (votes[vote] || 0) + 1;
+          }
+        })
+        .catch(error => {
+          if (settled) {
+            return;
+          }
+
+          console.error(`Error with provider ${call.provider}:`, error);
+          health.record(
+            call.provider,
+            classifyCallResult(error, timedOut.has(index)),
+            Date.now() - startedAt,
+            error instanceof Error ? error.message : undefined
+          );
+
+          // Unparseable replies still cost tokens and show which models misbehave
+          const parseError = error instanceof OracleParseError ? error : undefined;
+          outcomes[index] = {
+            provider: call.provider,
+            model: call.model,
+            substituteFor,
+            rawResponse: parseError?.rawResponse,
+            usage: parseError?.usage,
+            parse: parseError?.parse,
+            error: timedOut.has(index)
+              ? `Timed out after ${timeoutMs}ms`
+              : (error instanceof Error ? error.message : 'Unknown error'),
+            timedOut: timedOut.has(index) || undefined,
+            latencyMs: Date.now() - startedAt
+          };
+        })
+        .finally(() => {
+          pending--;
+          if (!settled && outcomes[index]) {
+            options.onOutcome?.(outcomes[index]!, index);
+          }
+
+          if (pending === 0) {
+            finish();
+          } else if (options.earlyQuorum &&
+                     Object.values(votes).some(count => count >= options.earlyQuorum!)) {
+            finish('Cancelled after early quorum was reached');
+          }
+        });
+    });
+
+    // Every provider was skipped
+    if (pending === 0) {
+      finish();
+    }
+  });
+}
@@ -0,0 +1,212 @@
+import { OracleResponse } from './types';
+import { RESOLUTION_STATUS_FIELDS, RESOLUTION_STATUS_GUIDANCE, ResolutionStatus } from './verdicts';
+
+export type MarketType = 'binary' | 'categorical' | 'scalar';
+
+/**
+ * Describes what kind of answer a market expects.
+ * Binary markets are a two-option categorical market answered with optionATrue/optionBTrue.
+ */
+export interface MarketSpec {
+  type: MarketType;
+  // Outcome labels (binary: [optionA, optionB]; categorical: two or more)
+  options?: string[];
+  // Scalar bounds and unit
+  min?: number;
+  max?: number;
+  unit?: string;
+  // Scalar only: how far from the median a value may be and still agree
+  tolerance?: number;
+}
+
+export const BINARY_MARKET: MarketSpec = { type: 'binary' };
+
+// Default scalar agreement band, as a fraction of the range (or of the median when unbounded)
+const DEFAULT_SCALAR_TOLERANCE = 0.05;
+
+/**
+ * Validates a market spec from a request body; missing specs mean a binary market
+ */
+export function parseMarketSpec(input: unknown): MarketSpec {
+  if (input === undefined || input === null) {
+    return BINARY_MARKET;
+  }
+
+  const spec = input as MarketSpec;
+  if (typeof spec !== 'object' || !['binary', 'categorical', 'scalar'].includes(spec.type)) {
+    throw new Error('Market type must be one of: binary, categorical, scalar');
+  }
+
+  if (spec.options !== undefined &&
+      (!Array.isArray(spec.options) || spec.options.some(option => typeof option !== 'string'))) {
+    throw new Error('Market options must be an array of strings');
+  }
+
+  if (spec.type === 'binary' && spec.options && spec.options.length !== 2) {
+    throw new Error('Binary markets must have exactly 2 options');
+  }
+
+  if (spec.type === 'categorical' && (!spec.options || spec.options.length < 2)) {
+    throw new Error('Categorical markets need at least 2 options');
+  }
+
+  if (spec.type === 'scalar') {
+    for (const field of ['min', 'max', 'tolerance'] as const) {
+      if (spec[field] !== undefined && typeof spec[field] !== 'number') {
+        throw new Error(`Scalar market ${field} must be a number`);
+      }
+    }
+    if (spec.min !== undefined && spec.max !== undefined && spec.min >= spec.max) {
+      throw new Error('Scalar market min must be less than max');
+    }
+  }
+
+  return spec;
+}
+
+/**
+ * Number of selectable options (0 for scalar markets)
+ */
+export function optionCount(spec: MarketSpec): number {
+  if (spec.type === 'scalar') {
+    return 0;
+  }
+  return spec.options ? spec.options.length : 2;
+}
+
+export function optionLabel(spec: MarketSpec, index: number): string {
+  return spec.options?.[index] ?? `Option ${String.fromCharCode(65 + index)}`;
+}
+
+/**
+ * Agreement band for scalar answers around a median value
+ */
+export function scalarTolerance(spec: MarketSpec, median: number): number {
+  if (spec.tolerance !== undefined) {
+    return spec.tolerance;
+  }
+  if (spec.min !== undefined && spec.max !== undefined) {
+    return (spec.max - spec.min) * DEFAULT_SCALAR_TOLERANCE;
+  }
+  return Math.abs(median) * DEFAULT_SCALAR_TOLERANCE;
+}
+
+/**
+ * Returns the option a response votes for, or null when it picks none
+ */
+export function voteKey(response: OracleResponse): number | null {
+  if (typeof response.selectedOption === 'number') {
+    return response.selectedOption;
+  }
+
+  // Responses built before selectedOption existed only carry the binary flags
+  if (response.selectedOption === undefined) {
+    if (response.optionATrue && !response.optionBTrue) {
+      return 0;
+    }
+    if (response.optionBTrue && !response.optionATrue) {
+      return 1;
+    }
+  }
+  return null;
+}
+
+/**
+ * What a response or verdict says happened: an option or value when RESOLVED,
+ * otherwise just the status
+ */
+export interface OutcomeAnswer {
+  verdict: ResolutionStatus | null;
+  winningOption?: number | null;
+  value?: number | null;
+}
+
+export function responseAnswer(response: OracleResponse): OutcomeAnswer {
+  const verdict = response.status ?? 'RESOLVED';
+  return verdict === 'RESOLVED'
+    ? { verdict, winningOption: voteKey(response), value: response.value ?? null }
+    : { verdict };
+}
+
+/**
+ * Whether an answer matches a reference outcome; scalar values agree within the
+ * market's tolerance around the reference
+ */
+export function sameAnswer(answer: OutcomeAnswer, reference: OutcomeAnswer, spec: MarketSpec): boolean {
+  if (answer.verdict !== reference.verdict) {
+    return false;
+  }
+  if (answer.verdict !== 'RESOLVED') {
+    return true;
+  }
+  if (spec.type === 'scalar') {
+    return typeof answer.value === 'number' && typeof reference.value === 'number' &&
+      Math.abs(answer.value - reference.value) <= scalarTolerance(spec, reference.value);
+  }
+  return typeof answer.winningOption === 'number' && answer.winningOption === reference.winningOption;
+}
+
+/**
+ * Lists the possible outcomes for a prompt
+ */
+export function describeOutcomes(spec: MarketSpec): string {
+  switch (spec.type) {
+    case 'binary':
+      return `Option A: ${optionLabel(spec, 0)}\nOption B: ${optionLabel(spec, 1)}`;
+
+    case 'categorical':
+      return 'Options:\n' + (spec.options || [])
+        .map((option, index) => `${index}. ${option}`)
+        .join('\n');
+
+    case 'scalar': {
+      const unit = spec.unit ? ` ${spec.unit}` : '';
+      const min = spec.min !== undefined ? `${spec.min}${unit}` : 'no lower bound';
+      const max = spec.max !== undefined ? `${spec.max}${unit}` : 'no upper bound';
+      return `Answer range: ${min} to ${max}`;
+    }
+  }
+}
+
+/**
+ * JSON answer format the model must follow for a market type
+ */
+export function buildOutcomeInstructions(spec: MarketSpec): string {
+  let answerFields: string;
+
+  switch (spec.type) {
+    case 'binary':
+      answerFields = `  "optionATrue": boolean (true if Option A is more likely),
+  "optionBTrue": boolean (true if Option B is more likely), `;
+      break;
+
+    case 'categorical':
+      answerFields = `  "selectedOption": number (index of the option that is true or most likely, from 0 to ${optionCount(spec) - 1}),`;
+      break;
+
+    case 'scalar':
+      answerFields = `  "value": number (the resolved or most likely value${spec.unit ? ` in ${spec.unit}` : ''}),`;
+      break;
+  }
+
+  return `Respond with a JSON object containing:
+{
+${RESOLUTION_STATUS_FIELDS}
+${answerFields}
+  "confidence": number (0-1, confidence in your assessment),
+  "reasoning": "string (brief explanation of your reasoning)"
+}
+
+${RESOLUTION_STATUS_GUIDANCE}`;
+}
+
+/**
+ * Appends the outcome list and answer format to a free-form prompt.
+ * Binary prompts keep their own answer format and only gain the status fields.
+ */
+export function withOutcomeInstructions(prompt: string, spec: MarketSpec): string {
+  if (spec.type === 'binary') {
+    return `${prompt}\n\nAlso include these fields in your JSON:\n${RESOLUTION_STATUS_FIELDS}\n\n${RESOLUTION_STATUS_GUIDANCE}`;
+  }
+  return `${prompt}\n\n${describeOutcomes(spec)}\n\n${buildOutcomeInstructions(spec)}`;
+}
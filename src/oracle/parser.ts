@@ -0,0 +1,357 @@
+import { TokenUsage } from '../usage/types';
+import { BINARY_MARKET, MarketSpec, optionCount } from './outcomes';
+import { OracleResponse, ParseReport } from './types';
+import { ResolutionStatus, isResolutionStatus, normalizeReasonCode } from './verdicts';
+
+function parseSelectedOption(parsed: any, spec: MarketSpec): number | null {
+  const count = optionCount(spec);
+
+  // Binary markets keep the original optionATrue/optionBTrue answer shape
+  if (spec.type === 'binary' &&
+      typeof parsed.optionATrue === 'boolean' &&
+      typeof parsed.optionBTrue === 'boolean') {
+    if (parsed.optionATrue && !parsed.optionBTrue) {
+      return 0;
+    }
+    if (parsed.optionBTrue && !parsed.optionATrue) {
+      return 1;
+    }
+    return null;
+  }
+
+  if (parsed.selectedOption === null || parsed.selectedOption === undefined) {
+    return null;
+  }
+
+  if (typeof parsed.selectedOption === 'number') {
+    if (!Number.isInteger(parsed.selectedOption) ||
+        parsed.selectedOption < 0 ||
+        parsed.selectedOption >= count) {
+      throw new Error(`selectedOption out of range: ${parsed.selectedOption}`);
+    }
+    return parsed.selectedOption;
+  }
+
+  // Some models answer with the option label instead of its index
+  if (typeof parsed.selectedOption === 'string' && spec.options) {
+    const index = spec.options.findIndex(
+      option => option.toLowerCase() === parsed.selectedOption.trim().toLowerCase()
+    );
+    if (index >= 0) {
+      return index;
+    }
+  }
+
+  throw new Error('Invalid response structure');
+}
+
+function parseValue(parsed: any, spec: MarketSpec): number | null {
+  if (parsed.value === null || parsed.value === undefined) {
+    return null;
+  }
+
+  const value = typeof parsed.value === 'string' ? Number(parsed.value) : parsed.value;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error('Invalid response structure');
+  }
+
+  // Clamp to the market's range
+  let clamped = value;
+  if (spec.min !== undefined) {
+    clamped = Math.max(spec.min, clamped);
+  }
+  if (spec.max !== undefined) {
+    clamped = Math.min(spec.max, clamped);
+  }
+  return clamped;
+}
+
+function parseStatus(parsed: any): ResolutionStatus | undefined {
+  if (parsed.status === undefined || parsed.status === null) {
+    return undefined;
+  }
+
+  const status = typeof parsed.status === 'string' ? parsed.status.trim().toUpperCase() : parsed.status;
+  if (!isResolutionStatus(status)) {
+    throw new Error(`Unknown resolution status: ${parsed.status}`);
+  }
+  return status;
+}
+
+/**
+ * Why a reply could not be used as an oracle answer
+ */
+export type ParseFailureKind =
+  | 'EMPTY_RESPONSE'
+  | 'NO_JSON'
+  | 'TRUNCATED_JSON'
+  | 'INVALID_JSON'
+  | 'SCHEMA_VIOLATION';
+
+export interface ParseFailure {
+  kind: ParseFailureKind;
+  message: string;
+}
+
+export type ParseResult =
+  | { ok: true; response: OracleResponse }
+  | { ok: false; failure: ParseFailure };
+
+/**
+ * Thrown when a provider's reply could not be parsed, even after a repair attempt
+ */
+export class OracleParseError extends Error {
+  constructor(
+    public parse: ParseReport,
+    public rawResponse: string,
+    public usage?: TokenUsage
+  ) {
+    const failure = parse.failures[parse.failures.length - 1];
+    super(`Unparseable response (${failure.kind}): ${failure.message}`);
+    this.name = 'OracleParseError';
+  }
+}
+
+/**
+ * Every balanced {...} in the text, in order. `truncated` is set when an object never closes.
+ */
+function findJsonObjects(text: string): { objects: string[]; truncated: boolean } {
+  const objects: string[] = [];
+  let start = -1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"' && depth > 0) {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) {
+        start = i;
+      }
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        objects.push(text.slice(start, i + 1));
+      }
+    }
+  }
+
+  return { objects, truncated: depth > 0 };
+}
+
+/**
+ * Drops comments and trailing commas outside strings, the usual ways models break JSON
+ */
+function relaxJson(json: string): string {
+  let output = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      output += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && json[i + 1] === '/') {
+      while (i < json.length && json[i] !== '\n') {
+        i++;
+      }
+      output += '\n';
+    } else if (char === '/' && json[i + 1] === '*') {
+      const end = json.indexOf('*/', i + 2);
+      i = end === -1 ? json.length : end + 1;
+    } else if (char === ',' && /^(\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*[}\]]/.test(json.slice(i + 1))) {
+      continue;
+    } else {
+      output += char;
+    }
+  }
+
+  return output;
+}
+
+function parseJsonObject(json: string): Record<string, unknown> | null {
+  for (const candidate of [json, relaxJson(json)]) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Try the relaxed form next
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the answer object in a reply: inside a markdown fence if there is one, preferring
+ * an object that looks like an answer over e.g. an echoed example
+ */
+function extractAnswerObject(text: string): { parsed: any } | { failure: ParseFailure } {
+  if (!text.trim()) {
+    return { failure: { kind: 'EMPTY_RESPONSE', message: 'Empty response' } };
+  }
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const { objects, truncated } = findJsonObjects(fenced ? fenced[1] : text);
+
+  const parsed = objects
+    .map(parseJsonObject)
+    .filter((object): object is Record<string, unknown> => object !== null);
+  const answer = parsed.find(object => 'confidence' in object || 'reasoning' in object) || parsed[0];
+
+  if (answer) {
+    return { parsed: answer };
+  }
+  if (objects.length > 0) {
+    return { failure: { kind: 'INVALID_JSON', message: 'Response JSON could not be parsed' } };
+  }
+  if (truncated) {
+    return { failure: { kind: 'TRUNCATED_JSON', message: 'Response JSON is incomplete' } };
+  }
+  return { failure: { kind: 'NO_JSON', message: 'No JSON found in response' } };
+}
+
+// Models sometimes quote numbers or give confidence as a percentage
+function coerceConfidence(value: unknown): number | undefined {
+  const confidence = typeof value === 'string' ? Number(value.replace(/%$/, '')) : value;
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence)) {
+    return undefined;
+  }
+  return confidence > 1 && confidence <= 100 ? confidence / 100 : confidence;
+}
+
+function coerceBoolean(value: unknown): unknown {
+  if (typeof value === 'string' && ['true', 'false'].includes(value.trim().toLowerCase())) {
+    return value.trim().toLowerCase() === 'true';
+  }
+  return value;
+}
+
+/**
+ * Parses a reply into an oracle answer, classifying why it failed when it can't
+ */
+export function tryParseOracleResponse(text: string, spec: MarketSpec = BINARY_MARKET): ParseResult {
+  const extracted = extractAnswerObject(text);
+  if ('failure' in extracted) {
+    return { ok: false, failure: extracted.failure };
+  }
+
+  try {
+    return { ok: true, response: validateAnswer(extracted.parsed, spec) };
+  } catch (error) {
+    return {
+      ok: false,
+      failure: {
+        kind: 'SCHEMA_VIOLATION',
+        message: error instanceof Error ? error.message : 'Invalid response structure'
+      }
+    };
+  }
+}
+
+export function parseOracleResponse(text: string, spec: MarketSpec = BINARY_MARKET): OracleResponse {
+  const result = tryParseOracleResponse(text, spec);
+  if (!result.ok) {
+    throw new Error(result.failure.message);
+  }
+  return result.response;
+}
+
+function validateAnswer(parsed: any, spec: MarketSpec): OracleResponse {
+  const rawConfidence = coerceConfidence(parsed.confidence);
+
+  // Validate response structure
+  if (rawConfidence === undefined) {
+    throw new Error('confidence must be a number between 0 and 1');
+  }
+  if (typeof parsed.reasoning !== 'string') {
+    throw new Error('reasoning must be a string');
+  }
+  parsed.optionATrue = coerceBoolean(parsed.optionATrue);
+  parsed.optionBTrue = coerceBoolean(parsed.optionBTrue);
+
+  // Ensure confidence is between 0 and 1
+  const confidence = Math.max(0, Math.min(1, rawConfidence));
+  const status = parseStatus(parsed);
+
+  // The model declined to pick an outcome
+  if (status && status !== 'RESOLVED') {
+    return {
+      optionATrue: false,
+      optionBTrue: false,
+      selectedOption: spec.type === 'scalar' ? undefined : null,
+      value: spec.type === 'scalar' ? null : undefined,
+      status,
+      reasonCode: normalizeReasonCode(status, parsed.reasonCode),
+      confidence,
+      reasoning: parsed.reasoning
+    };
+  }
+
+  if (spec.type === 'scalar') {
+    const value = parseValue(parsed, spec);
+    return {
+      optionATrue: false,
+      optionBTrue: false,
+      value,
+      ...(value === null
+        ? { status: 'AMBIGUOUS' as const, reasonCode: 'NO_OPTION_SELECTED' }
+        : { status: 'RESOLVED' as const, reasonCode: null }),
+      confidence,
+      reasoning: parsed.reasoning
+    };
+  }
+
+  if (spec.type === 'binary' && parsed.optionATrue === true && parsed.optionBTrue === true) {
+    return {
+      optionATrue: true,
+      optionBTrue: true,
+      selectedOption: null,
+      status: 'AMBIGUOUS',
+      reasonCode: 'MULTIPLE_OUTCOMES_TRUE',
+      confidence,
+      reasoning: parsed.reasoning
+    };
+  }
+
+  const selectedOption = parseSelectedOption(parsed, spec);
+
+  return {
+    optionATrue: selectedOption === 0,
+    optionBTrue: selectedOption === 1,
+    selectedOption,
+    ...(selectedOption === null
+      ? { status: 'AMBIGUOUS' as const, reasonCode: 'NO_OPTION_SELECTED' }
+      : { status: 'RESOLVED' as const, reasonCode: null }),
+    confidence,
+    reasoning: parsed.reasoning
+  };
+}
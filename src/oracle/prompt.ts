@@ -0,0 +1,160 @@
+import { formatEvidenceBlock, retrieveEvidence } from '../evidence/retrieve';
+import { Citation } from '../evidence/types';
+import { Market } from '../markets/types';
+import { getPromptTemplate, templateForCategory } from '../prompts/library';
+import { renderTemplate } from '../prompts/render';
+import { MarketCategory, ResolutionFields, TemplateRef, TemplateSelector } from '../prompts/types';
+import {
+  sanitizeCitation,
+  sanitizeMarketSpec,
+  sanitizeResolutionFields,
+  sanitizeUntrusted
+} from '../screening/sanitize';
+import { MarketSpec, buildOutcomeInstructions, describeOutcomes, withOutcomeInstructions } from './outcomes';
+
+const TASK_BY_MARKET_TYPE = {
+  binary: "determine which option is more likely to be true",
+  categorical: "determine which option is true or most likely",
+  scalar: "estimate the value the question will resolve to"
+};
+
+const RULE_BY_MARKET_TYPE = {
+  binary: "Only one option can be true unless the question allows for both",
+  categorical: "Select exactly one option by its index",
+  scalar: "Answer with a single number inside the answer range"
+};
+
+const CITATION_RULE = 'Cite the evidence you relied on by reference, e.g. [E1], in your reasoning';
+
+function evidenceSection(citations: Citation[]): string {
+  return `Evidence:\n${formatEvidenceBlock(citations.map(sanitizeCitation))}`;
+}
+
+/**
+ * Appends retrieved evidence to a caller-supplied prompt
+ */
+export function withEvidence(prompt: string, citations: Citation[]): string {
+  if (citations.length === 0) {
+    return prompt;
+  }
+  return `${prompt}\n\n${evidenceSection(citations)}\n\n${CITATION_RULE}.`;
+}
+
+export interface PredictionPromptInput {
+  question: string;
+  market: MarketSpec;
+  resolutionCriteria?: string;
+  resolution?: ResolutionFields;
+  // Picks the template when none is given; defaults to general
+  category?: MarketCategory;
+  template?: TemplateSelector;
+  citations?: Citation[];
+}
+
+export interface RenderedPrompt {
+  prompt: string;
+  template: TemplateRef;
+}
+
+/**
+ * Oracle prompt for a market question, rendered from the pinned template or the latest
+ * one for the market's category. Shared by the EVALUATE_PREDICTION action, markets
+ * resolved through the HTTP API and question-only API requests. Retrieved evidence is
+ * listed with [E1]-style references the models are asked to cite.
+ *
+ * Templates receive: question, outcomes, task, rule, answerFormat, resolutionCriteria,
+ * resolutionSource, deadline, edgeCases, evidence and citationRule. Text from the market's
+ * creator and from evidence is sanitized first, whichever template version is used.
+ */
+export function renderPredictionPrompt(input: PredictionPromptInput): RenderedPrompt {
+  const market = sanitizeMarketSpec(input.market);
+  const resolution = sanitizeResolutionFields(input.resolution);
+  const citations = input.citations || [];
+  const template = input.template
+    ? getPromptTemplate(input.template)
+    : templateForCategory(input.category);
+  if (!template) {
+    throw new Error(`Unknown prompt template: ${input.template!.id}`);
+  }
+
+  const prompt = renderTemplate(template.template, {
+    question: sanitizeUntrusted(input.question),
+    outcomes: describeOutcomes(market),
+    task: TASK_BY_MARKET_TYPE[market.type],
+    rule: RULE_BY_MARKET_TYPE[market.type],
+    answerFormat: buildOutcomeInstructions(market),
+    resolutionCriteria: input.resolutionCriteria && sanitizeUntrusted(input.resolutionCriteria),
+    resolutionSource: resolution?.source,
+    deadline: resolution?.deadline,
+    edgeCases: resolution?.edgeCases?.map(edgeCase => `- ${edgeCase}`).join('\n'),
+    evidence: citations.length > 0 ? evidenceSection(citations) : undefined,
+    citationRule: citations.length > 0 ? CITATION_RULE : undefined
+  });
+
+  return { prompt, template: { id: template.id, version: template.version } };
+}
+
+/**
+ * Prompt for a registered market, from its category or pinned template
+ */
+export function marketPrompt(market: Market, citations: Citation[] = []): RenderedPrompt {
+  return renderPredictionPrompt({
+    question: market.question,
+    market: market.market,
+    resolutionCriteria: market.resolutionCriteria,
+    resolution: market.resolution,
+    category: market.category,
+    template: market.template,
+    citations
+  });
+}
+
+/**
+ * What a consensus request asks: a caller-written prompt, or a question rendered
+ * through a template
+ */
+export interface ConsensusPromptRequest {
+  prompt?: string;
+  market: MarketSpec;
+  evidence?: boolean;
+  question?: string;
+  category?: MarketCategory;
+  template?: TemplateSelector;
+  resolutionCriteria?: string;
+  resolution?: ResolutionFields;
+}
+
+/**
+ * Final prompt for a consensus request, plus evidence when asked for, retrieved by
+ * `question` or else the prompt itself. Caller-written prompts only gain the outcome
+ * format and have no template (null).
+ */
+export async function prepareConsensusPrompt(
+  request: ConsensusPromptRequest
+): Promise<{ prompt: string; citations: Citation[]; template: TemplateRef | null }> {
+  const query = request.question || request.prompt || '';
+  const citations = request.evidence
+    ? await retrieveEvidence({ question: query, market: request.market, resolutionCriteria: request.resolutionCriteria })
+    : [];
+
+  if (request.prompt) {
+    return {
+      prompt: withEvidence(withOutcomeInstructions(sanitizeUntrusted(request.prompt), sanitizeMarketSpec(request.market)), citations),
+      citations,
+      template: null
+    };
+  }
+
+  return {
+    ...renderPredictionPrompt({
+      question: query,
+      market: request.market,
+      resolutionCriteria: request.resolutionCriteria,
+      resolution: request.resolution,
+      category: request.category,
+      template: request.template,
+      citations
+    }),
+    citations
+  };
+}
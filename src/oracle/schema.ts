@@ -0,0 +1,56 @@
+import { JsonSchema, ResponseSchema } from '../llm/types';
+import { MarketSpec, optionCount } from './outcomes';
+import { REASON_CODES, UNRESOLVED_STATUSES } from './verdicts';
+
+const ALL_REASON_CODES = UNRESOLVED_STATUSES.flatMap(status => REASON_CODES[status])
+  .filter(code => code !== 'NO_CONSENSUS');
+
+function answerProperties(spec: MarketSpec): Record<string, JsonSchema> {
+  switch (spec.type) {
+    case 'binary':
+      return {
+        optionATrue: { type: 'boolean', description: 'true if Option A is more likely' },
+        optionBTrue: { type: 'boolean', description: 'true if Option B is more likely' }
+      };
+
+    case 'categorical':
+      return {
+        selectedOption: {
+          type: ['integer', 'null'],
+          description: `Index of the option that is true or most likely, from 0 to ${optionCount(spec) - 1}`
+        }
+      };
+
+    case 'scalar':
+      return {
+        value: {
+          type: ['number', 'null'],
+          description: `The resolved or most likely value${spec.unit ? ` in ${spec.unit}` : ''}`
+        }
+      };
+  }
+}
+
+/**
+ * Schema of an oracle answer for a market type, matching buildOutcomeInstructions
+ */
+export function oracleResponseSchema(spec: MarketSpec): ResponseSchema {
+  const properties: Record<string, JsonSchema> = {
+    status: { type: 'string', enum: ['RESOLVED', ...UNRESOLVED_STATUSES] },
+    reasonCode: { type: ['string', 'null'], enum: [...ALL_REASON_CODES, null] },
+    ...answerProperties(spec),
+    confidence: { type: 'number', description: 'Confidence in the assessment, from 0 to 1' },
+    reasoning: { type: 'string', description: 'Brief explanation of the reasoning' }
+  };
+
+  return {
+    name: `oracle_${spec.type}_response`,
+    schema: {
+      type: 'object',
+      properties,
+      // Strict mode wants every property listed; nullable fields carry "no answer"
+      required: Object.keys(properties),
+      additionalProperties: false
+    }
+  };
+}
@@ -0,0 +1,354 @@
+import {
+  BINARY_MARKET,
+  MarketSpec,
+  optionCount,
+  scalarTolerance,
+  voteKey
+} from './outcomes';
+import { OracleResponse } from './types';
+import { ResolutionStatus, UNRESOLVED_STATUSES, UnresolvedStatus } from './verdicts';
+
+export type ConsensusStrategyName = 'majority' | 'supermajority' | 'confidence-weighted' | 'weighted' | 'reputation';
+
+export interface ConsensusStrategyConfig {
+  name: ConsensusStrategyName;
+  // Share (0-1) of the counted weight an option needs to win
+  threshold?: number;
+  // Supermajority only: absolute number of agreeing votes needed (N of M)
+  required?: number;
+  // Responses below this confidence are not counted
+  minConfidence?: number;
+  // Weighted: weight per provider name or "provider/model". Reputation: overrides for
+  // the weights taken from each provider's track record
+  weights?: Record<string, number>;
+  // Replace each provider's confidence with its calibrated confidence before counting
+  // (see reputation/score.ts); defaults to REPUTATION_CALIBRATION
+  calibrate?: boolean;
+}
+
+/**
+ * The strategy settings actually used, echoed back in consensus results
+ */
+export interface AppliedStrategy {
+  name: ConsensusStrategyName;
+  threshold: number;
+  required?: number;
+  minConfidence: number;
+  weights?: Record<string, number>;
+  calibrated?: boolean;
+}
+
+export interface ConsensusVote {
+  provider: string;
+  model?: string;
+  response: OracleResponse;
+}
+
+export interface ConsensusTally {
+  optionATrue: boolean;
+  optionBTrue: boolean;
+  // Winning option index, or null without consensus (binary and categorical)
+  winningOption: number | null;
+  // Agreed value, or null without consensus (scalar)
+  value: number | null;
+  // RESOLVED when an outcome won; otherwise why the market could not be resolved
+  verdict: ResolutionStatus;
+  reasonCode: string | null;
+  confidence: number;
+  // Binary view of optionVotes / optionWeights
+  votes: {
+    optionA: number;
+    optionB: number;
+  };
+  weightedVotes: {
+    optionA: number;
+    optionB: number;
+  };
+  optionVotes: number[];
+  optionWeights: number[];
+  // Votes for each non-resolution status
+  statusVotes: Record<UnresolvedStatus, number>;
+  totalWeight: number;
+  validVotes: ConsensusVote[];
+  strategy: AppliedStrategy;
+}
+
+interface StrategyDefinition {
+  defaultThreshold: number;
+  weigh(vote: ConsensusVote, config: ConsensusStrategyConfig): number;
+}
+
+export const DEFAULT_MIN_CONFIDENCE = 0.7;
+
+function configuredWeight(vote: ConsensusVote, config: ConsensusStrategyConfig): number {
+  const weights = config.weights || {};
+  const modelKey = vote.model ? `${vote.provider}/${vote.model}` : undefined;
+  return (modelKey && weights[modelKey] !== undefined)
+    ? weights[modelKey]
+    : (weights[vote.provider] ?? 1);
+}
+
+// Guards against 2/3 vs 0.6666... rounding when comparing shares
+const EPSILON = 1e-9;
+
+const CONSENSUS_STRATEGIES: Record<ConsensusStrategyName, StrategyDefinition> = {
+  majority: {
+    defaultThreshold: 0.5,
+    weigh: () => 1
+  },
+  supermajority: {
+    defaultThreshold: 2 / 3,
+    weigh: () => 1
+  },
+  'confidence-weighted': {
+    defaultThreshold: 0.5,
+    weigh: vote => vote.response.confidence
+  },
+  weighted: {
+    defaultThreshold: 0.5,
+    weigh: configuredWeight
+  },
+  // Weights are filled in from provider reputation before tallying (see runConsensus)
+  reputation: {
+    defaultThreshold: 0.5,
+    weigh: configuredWeight
+  }
+};
+
+export function listConsensusStrategies(): ConsensusStrategyName[] {
+  return Object.keys(CONSENSUS_STRATEGIES) as ConsensusStrategyName[];
+}
+
+// A bad weight would turn the weighted totals into NaN and the verdict with them
+function isWeightMap(weights: unknown): weights is Record<string, number> {
+  if (!weights || typeof weights !== 'object' || Array.isArray(weights)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(weights);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return false;
+  }
+  return Object.values(weights).every(weight => typeof weight === 'number' && Number.isFinite(weight) && weight >= 0);
+}
+
+/**
+ * Normalizes a strategy from a request body: either a strategy name or a config object
+ */
+export function parseConsensusStrategy(
+  input: unknown,
+  fallback: ConsensusStrategyConfig
+): ConsensusStrategyConfig {
+  if (input === undefined || input === null) {
+    return fallback;
+  }
+
+  const config: ConsensusStrategyConfig = typeof input === 'string'
+    ? { name: input as ConsensusStrategyName }
+    : input as ConsensusStrategyConfig;
+
+  // Own keys only, so names like "toString" don't pass as strategies
+  if (!config || typeof config !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(CONSENSUS_STRATEGIES, config.name)) {
+    throw new Error(`Unknown consensus strategy. Expected one of: ${listConsensusStrategies().join(', ')}`);
+  }
+
+  if (config.threshold !== undefined &&
+      (typeof config.threshold !== 'number' || config.threshold <= 0 || config.threshold > 1)) {
+    throw new Error('Consensus threshold must be a number between 0 and 1');
+  }
+
+  if (config.minConfidence !== undefined &&
+      (typeof config.minConfidence !== 'number' || config.minConfidence < 0 || config.minConfidence > 1)) {
+    throw new Error('minConfidence must be a number between 0 and 1');
+  }
+
+  if (config.required !== undefined) {
+    // Only supermajority counts votes; elsewhere it would just cut fan-out short
+    if (config.name !== 'supermajority') {
+      throw new Error('required only applies to the supermajority strategy');
+    }
+    if (!Number.isInteger(config.required) || config.required < 1) {
+      throw new Error('required must be a positive integer');
+    }
+  }
+
+  if (config.calibrate !== undefined && typeof config.calibrate !== 'boolean') {
+    throw new Error('calibrate must be a boolean');
+  }
+
+  if (config.weights !== undefined && !isWeightMap(config.weights)) {
+    throw new Error('weights must be an object mapping providers to non-negative numbers');
+  }
+
+  return config;
+}
+
+/**
+ * Weighted median of scalar answers
+ */
+function weightedMedian(points: Array<{ value: number; weight: number }>): number | null {
+  const sorted = points.filter(point => point.weight > 0).sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, point) => sum + point.weight, 0);
+  if (total === 0) {
+    return null;
+  }
+
+  let cumulative = 0;
+  for (const point of sorted) {
+    cumulative += point.weight;
+    if (cumulative >= total / 2) {
+      return point.value;
+    }
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Tallies provider votes under a consensus strategy.
+ * An option wins when it reaches the threshold and strictly beats every other option and status.
+ * Scalar markets agree on the weighted median when enough answers fall within tolerance of it.
+ * Without a winning outcome, a non-resolution status wins under the same rule, else the
+ * verdict is AMBIGUOUS / NO_CONSENSUS.
+ */
+export function applyConsensusStrategy(
+  votes: ConsensusVote[],
+  config: ConsensusStrategyConfig,
+  spec: MarketSpec = BINARY_MARKET
+): ConsensusTally {
+  const definition = CONSENSUS_STRATEGIES[config.name];
+  const strategy: AppliedStrategy = {
+    name: config.name,
+    threshold: config.threshold ?? definition.defaultThreshold,
+    minConfidence: config.minConfidence ?? DEFAULT_MIN_CONFIDENCE
+  };
+  if (config.name === 'supermajority' && config.required !== undefined) {
+    strategy.required = config.required;
+  }
+  if ((config.name === 'weighted' || config.name === 'reputation') && config.weights) {
+    strategy.weights = config.weights;
+  }
+  if (config.calibrate) {
+    strategy.calibrated = true;
+  }
+
+  const validVotes = votes.filter(vote => vote.response.confidence >= strategy.minConfidence);
+  const weights = validVotes.map(vote => Math.max(0, definition.weigh(vote, config)));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const confidence = validVotes.length > 0
+    ? validVotes.reduce((sum, vote) => sum + vote.response.confidence, 0) / validVotes.length
+    : 0;
+
+  const reachesThreshold = (count: number, weight: number) => {
+    if (totalWeight === 0) {
+      return false;
+    }
+    if (strategy.required !== undefined) {
+      return count >= strategy.required;
+    }
+    return weight / totalWeight + EPSILON >= strategy.threshold;
+  };
+
+  // Providers that declined to answer vote for their status instead
+  const statusVotes = { INVALID: 0, AMBIGUOUS: 0, NOT_YET_RESOLVABLE: 0 } as Record<UnresolvedStatus, number>;
+  const statusWeights = { INVALID: 0, AMBIGUOUS: 0, NOT_YET_RESOLVABLE: 0 } as Record<UnresolvedStatus, number>;
+  const reasonWeights: Record<string, number> = {};
+
+  validVotes.forEach((vote, index) => {
+    const status = vote.response.status;
+    if (status && status !== 'RESOLVED') {
+      statusVotes[status]++;
+      statusWeights[status] += weights[index];
+      const reasonKey = `${status}:${vote.response.reasonCode || 'UNSPECIFIED'}`;
+      reasonWeights[reasonKey] = (reasonWeights[reasonKey] || 0) + weights[index];
+    }
+  });
+
+  const topStatusWeight = Math.max(...Object.values(statusWeights));
+
+  const optionVotes = new Array(optionCount(spec)).fill(0);
+  const optionWeights = new Array(optionCount(spec)).fill(0);
+  let winningOption: number | null = null;
+  let value: number | null = null;
+
+  if (spec.type === 'scalar') {
+    const points = validVotes
+      .map((vote, index) => ({ value: vote.response.value, weight: weights[index] }))
+      .filter((point): point is { value: number; weight: number } => typeof point.value === 'number');
+
+    const median = weightedMedian(points);
+    if (median !== null) {
+      const tolerance = scalarTolerance(spec, median);
+      const agreeing = points.filter(point => Math.abs(point.value - median) <= tolerance + EPSILON);
+      const agreeingWeight = agreeing.reduce((sum, point) => sum + point.weight, 0);
+
+      if (agreeingWeight > topStatusWeight && reachesThreshold(agreeing.length, agreeingWeight)) {
+        value = median;
+      }
+    }
+  } else {
+    validVotes.forEach((vote, index) => {
+      const key = voteKey(vote.response);
+      if (key !== null && key < optionVotes.length) {
+        optionVotes[key]++;
+        optionWeights[key] += weights[index];
+      }
+    });
+
+    optionWeights.forEach((weight, index) => {
+      const beatsOthers = weight > topStatusWeight && optionWeights.every((other, otherIndex) =>
+        otherIndex === index || weight > other
+      );
+      if (beatsOthers && reachesThreshold(optionVotes[index], weight)) {
+        winningOption = index;
+      }
+    });
+  }
+
+  let verdict: ResolutionStatus = 'AMBIGUOUS';
+  let reasonCode: string | null = 'NO_CONSENSUS';
+
+  if (winningOption !== null || value !== null) {
+    verdict = 'RESOLVED';
+    reasonCode = null;
+  } else {
+    const topOptionWeight = Math.max(0, ...optionWeights);
+    const winningStatus = UNRESOLVED_STATUSES.find(status =>
+      statusWeights[status] > topOptionWeight &&
+      UNRESOLVED_STATUSES.every(other => other === status || statusWeights[status] > statusWeights[other]) &&
+      reachesThreshold(statusVotes[status], statusWeights[status])
+    );
+
+    if (winningStatus) {
+      verdict = winningStatus;
+      // Most heavily backed reason code for that status
+      reasonCode = Object.entries(reasonWeights)
+        .filter(([key]) => key.startsWith(`${winningStatus}:`))
+        .sort((a, b) => b[1] - a[1])[0][0]
+        .split(':')[1];
+    }
+  }
+
+  return {
+    optionATrue: winningOption === 0,
+    optionBTrue: winningOption === 1,
+    winningOption,
+    value,
+    verdict,
+    reasonCode,
+    confidence,
+    votes: {
+      optionA: optionVotes[0] || 0,
+      optionB: optionVotes[1] || 0
+    },
+    weightedVotes: {
+      optionA: optionWeights[0] || 0,
+      optionB: optionWeights[1] || 0
+    },
+    optionVotes,
+    optionWeights,
+    statusVotes,
+    totalWeight,
+    validVotes,
+    strategy
+  };
+}
@@ -0,0 +1,95 @@
+import { CacheStatus } from '../cache/responseCache';
+import { StructuredOutputMode } from '../llm/types';
+import { TokenUsage } from '../usage/types';
+import { MarketSpec } from './outcomes';
+import { ParseFailure } from './parser';
+import { ResolutionStatus } from './verdicts';
+
+export interface OracleResponse {
+  // Binary view of the answer: option 0 / option 1 selected
+  optionATrue: boolean;
+  optionBTrue: boolean;
+  // Index of the selected option (binary and categorical markets)
+  selectedOption?: number | null;
+  // Answered value (scalar markets)
+  value?: number | null;
+  // Whether the model could resolve the market, with a reason code when not
+  status?: ResolutionStatus;
+  reasonCode?: string | null;
+  confidence: number;
+  reasoning: string;
+}
+
+/**
+ * How a provider's reply was turned into an answer
+ */
+export interface ParseReport {
+  // Output constraint the provider applied, "none" when the reply was free text
+  structuredOutput: StructuredOutputMode | 'none';
+  // Whether the answer came from the repair re-prompt
+  repaired: boolean;
+  // Failures of each unusable reply, oldest first
+  failures: ParseFailure[];
+}
+
+/**
+ * Outcome of asking a single provider/model to evaluate a prompt
+ */
+export interface OracleEvaluation {
+  provider: string;
+  model: string;
+  rawResponse: string;
+  response: OracleResponse;
+  // Absent on cache hits and shared calls, which cost nothing
+  usage?: TokenUsage;
+  parse: ParseReport;
+  cache?: CacheStatus;
+}
+
+export interface EvaluationOptions {
+  // Vault credential to take the key from (defaults to the provider name)
+  credential?: string;
+  // Raw key; only set when the caller supplied one and the server allows it
+  apiKey?: string;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  market?: MarketSpec;
+  // Streams reply text where the provider supports it; attempt 2 is the repair re-prompt
+  onToken?: (text: string, attempt: number) => void;
+  // Skip the response cache and in-flight sharing; the fresh answer still refreshes the cache
+  bypassCache?: boolean;
+}
+
+/**
+ * A provider/model pair to include in a consensus panel
+ */
+export interface ProviderCall {
+  provider: string;
+  model: string;
+  credential?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  // Stand-ins, in order, for when this provider's circuit is open
+  fallbacks?: ProviderCall[];
+}
+
+/**
+ * Result of one provider call within a consensus fan-out
+ */
+export interface ProviderOutcome {
+  provider: string;
+  model: string;
+  response?: OracleResponse;
+  rawResponse?: string;
+  usage?: TokenUsage;
+  parse?: ParseReport;
+  cache?: CacheStatus;
+  error?: string;
+  timedOut?: boolean;
+  // Not called because its circuit was open and no fallback was available
+  skipped?: boolean;
+  // The panel provider this fallback stood in for
+  substituteFor?: string;
+  latencyMs: number;
+}
@@ -0,0 +1,66 @@
+export type ResolutionStatus = 'RESOLVED' | 'INVALID' | 'AMBIGUOUS' | 'NOT_YET_RESOLVABLE';
+
+export type UnresolvedStatus = Exclude<ResolutionStatus, 'RESOLVED'>;
+
+/**
+ * Reason codes a model (or the consensus step) may give for each non-resolution status
+ */
+export const REASON_CODES: Record<UnresolvedStatus, string[]> = {
+  INVALID: [
+    'MALFORMED_QUESTION',
+    'OPTIONS_NOT_EXCLUSIVE',
+    'OPTIONS_NOT_EXHAUSTIVE',
+    'UNVERIFIABLE',
+    // The market text tries to steer the oracle; also set when an answer looks steered
+    'MANIPULATION_ATTEMPT'
+  ],
+  AMBIGUOUS: [
+    'AMBIGUOUS_TERMS',
+    'CONFLICTING_EVIDENCE',
+    'MULTIPLE_OUTCOMES_TRUE',
+    'NO_OPTION_SELECTED',
+    // Set by consensus when providers answered but did not agree
+    'NO_CONSENSUS'
+  ],
+  NOT_YET_RESOLVABLE: [
+    'EVENT_NOT_OCCURRED',
+    'DEADLINE_NOT_REACHED',
+    'AWAITING_DATA'
+  ]
+};
+
+export const UNRESOLVED_STATUSES = Object.keys(REASON_CODES) as UnresolvedStatus[];
+
+const UNSPECIFIED_REASON = 'UNSPECIFIED';
+
+export function isResolutionStatus(value: unknown): value is ResolutionStatus {
+  return value === 'RESOLVED' || UNRESOLVED_STATUSES.includes(value as UnresolvedStatus);
+}
+
+/**
+ * Maps a model-supplied reason code onto the known codes for its status
+ */
+export function normalizeReasonCode(status: ResolutionStatus, reasonCode: unknown): string | null {
+  if (status === 'RESOLVED') {
+    return null;
+  }
+
+  const code = typeof reasonCode === 'string' ? reasonCode.trim().toUpperCase() : '';
+  return REASON_CODES[status].includes(code) ? code : UNSPECIFIED_REASON;
+}
+
+/**
+ * Prompt text explaining when a model should decline to pick an outcome
+ */
+export const RESOLUTION_STATUS_GUIDANCE = `Resolution status:
+- "RESOLVED": the outcome can be determined; answer normally
+- "INVALID": the question cannot be resolved as written (reasonCode: ${REASON_CODES.INVALID.join(', ')})
+- "AMBIGUOUS": the question or evidence supports more than one reading (reasonCode: ${REASON_CODES.AMBIGUOUS.filter(code => code !== 'NO_CONSENSUS').join(', ')})
+- "NOT_YET_RESOLVABLE": the event has not happened or data is not yet available (reasonCode: ${REASON_CODES.NOT_YET_RESOLVABLE.join(', ')})
+When status is not "RESOLVED", leave the answer field null and set "reasonCode".`;
+
+/**
+ * JSON fields every oracle answer carries alongside the outcome
+ */
+export const RESOLUTION_STATUS_FIELDS = `  "status": "RESOLVED" | "INVALID" | "AMBIGUOUS" | "NOT_YET_RESOLVABLE",
+  "reasonCode": string or null (required when status is not RESOLVED),`;
@@ -0,0 +1,37 @@
+export type TemplateValues = Record<string, string | number | boolean | null | undefined>;
+
+const SECTION = /\{\{#if\s+(\w+)\s*\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g;
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+function isSet(value: TemplateValues[string]): boolean {
+  return value !== undefined && value !== null && value !== false && value !== '';
+}
+
+/**
+ * Fills {{name}} placeholders the way character templates (oracle-character.json) are
+ * filled, plus non-nested {{#if name}}...{{else}}...{{/if}} sections. Missing values
+ * render as empty strings, and values are inserted verbatim: placeholders inside them
+ * are never expanded.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template
+    .replace(SECTION, (match, name: string, body: string, otherwise = '') =>
+      isSet(values[name]) ? body : otherwise
+    )
+    .replace(PLACEHOLDER, (match, name: string) =>
+      isSet(values[name]) ? String(values[name]) : ''
+    );
+}
+
+/**
+ * Placeholder names a template uses, in order of first appearance
+ */
+export function templatePlaceholders(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(/\{\{\s*(?:#if\s+)?(\w+)\s*\}\}/g)) {
+    if (match[1] !== 'else') {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
@@ -0,0 +1,44 @@
+/**
+ * Kinds of market with their own prompt template
+ */
+export type MarketCategory = 'general' | 'price' | 'sports' | 'politics' | 'tech-release';
+
+export const MARKET_CATEGORIES: MarketCategory[] = ['general', 'price', 'sports', 'politics', 'tech-release'];
+
+/**
+ * How a market resolves, beyond its free-text resolution criteria
+ */
+export interface ResolutionFields {
+  // Where the answer comes from, e.g. "CoinGecko BTC/USD daily close"
+  source?: string;
+  // ISO timestamp the outcome is judged at
+  deadline?: string;
+  // How to treat cases the question leaves open (postponements, ties, delays, ...)
+  edgeCases?: string[];
+}
+
+/**
+ * Identifies the template, and its version, that produced a prompt
+ */
+export interface TemplateRef {
+  id: string;
+  version: number;
+}
+
+/**
+ * Picks a template by ID, optionally pinned to a version (latest otherwise)
+ */
+export interface TemplateSelector {
+  id: string;
+  version?: number;
+}
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  category: MarketCategory;
+  description: string;
+  // Rendered with renderTemplate; renderPredictionPrompt lists the values provided
+  template: string;
+  createdAt: string;
+}
@@ -0,0 +1,52 @@
+import { ConsensusStrategyConfig } from '../oracle/strategies';
+import { ReputationLedger, getReputationLedger } from './ledger';
+import { calibrateConfidence, reputationSettings, summarizeReputation } from './score';
+
+export interface ReputationAdjustment {
+  // The strategy with reputation weights filled in and calibrate decided
+  strategy: ConsensusStrategyConfig;
+  // Confidence to count for what a provider reported
+  confidence(provider: string, model: string, reported: number): number;
+}
+
+/**
+ * Brings provider track records into a consensus strategy. The reputation strategy weighs
+ * each panel member by its reputation weight unless the config sets one for that provider
+ * or provider/model; calibrate swaps reported confidence for calibrated confidence.
+ * Anything else passes through without reading the ledger.
+ */
+export async function applyReputation(
+  config: ConsensusStrategyConfig,
+  panel: Array<{ provider: string; model: string }>,
+  ledger: ReputationLedger = getReputationLedger()
+): Promise<ReputationAdjustment> {
+  const calibrate = config.calibrate ?? process.env.REPUTATION_CALIBRATION === 'true';
+  const strategy: ConsensusStrategyConfig = { ...config, calibrate: calibrate || undefined };
+  if (config.name !== 'reputation' && !calibrate) {
+    return { strategy, confidence: (_provider, _model, reported) => reported };
+  }
+
+  const settings = reputationSettings();
+  const board = summarizeReputation(await ledger.samples(), settings);
+  const reputations = new Map(board.providers.map(reputation => [`${reputation.provider}/${reputation.model}`, reputation]));
+
+  if (config.name === 'reputation') {
+    const overrides = config.weights || {};
+    const weights: Record<string, number> = { ...overrides };
+    for (const { provider, model } of panel) {
+      const key = `${provider}/${model}`;
+      if (overrides[key] === undefined && overrides[provider] === undefined) {
+        // Providers without history count as an average provider
+        weights[key] = reputations.get(key)?.weight ?? board.pooledAccuracy ?? 1;
+      }
+    }
+    strategy.weights = weights;
+  }
+
+  return {
+    strategy,
+    confidence: (provider, model, reported) => calibrate
+      ? calibrateConfidence(reputations.get(`${provider}/${model}`), reported, settings)
+      : reported
+  };
+}
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import { ReputationFilter, ReputationSample } from './types';
+
+/**
+ * Append-only record of provider answers scored against final market outcomes
+ */
+export interface ReputationLedger {
+  record(samples: ReputationSample[]): Promise<void>;
+  samples(filter?: ReputationFilter): Promise<ReputationSample[]>;
+}
+
+function matches(sample: ReputationSample, filter: ReputationFilter): boolean {
+  const timestamp = new Date(sample.timestamp);
+  return (!filter.provider || sample.provider === filter.provider) &&
+    (!filter.model || sample.model === filter.model) &&
+    (!filter.from || timestamp >= filter.from) &&
+    (!filter.to || timestamp < filter.to);
+}
+
+export class MemoryReputationLedger implements ReputationLedger {
+  protected entries: ReputationSample[] = [];
+
+  async record(samples: ReputationSample[]): Promise<void> {
+    await this.load();
+    await this.write(samples);
+    this.entries.push(...samples);
+  }
+
+  async samples(filter: ReputationFilter = {}): Promise<ReputationSample[]> {
+    await this.load();
+    return this.entries.filter(sample => matches(sample, filter));
+  }
+
+  protected async load(): Promise<void> {}
+
+  protected async write(samples: ReputationSample[]): Promise<void> {}
+}
+
+/**
+ * Keeps the ledger as JSON lines
+ */
+export class FileReputationLedger extends MemoryReputationLedger {
+  private loaded = false;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      const contents = await fs.promises.readFile(this.filePath, 'utf8');
+      this.entries = contents
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  protected async write(samples: ReputationSample[]): Promise<void> {
+    if (samples.length === 0) {
+      return;
+    }
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, samples.map(sample => JSON.stringify(sample)).join('\n') + '\n');
+  }
+}
+
+export function createReputationLedger(): ReputationLedger {
+  const backend = process.env.REPUTATION_LEDGER || 'file';
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryReputationLedger();
+    case 'file':
+      return new FileReputationLedger(process.env.REPUTATION_LEDGER_PATH || path.join('data', 'reputation.jsonl'));
+    default:
+      throw new Error(`Unsupported reputation ledger: ${backend}`);
+  }
+}
+
+let defaultLedger: ReputationLedger | null = null;
+
+export function getReputationLedger(): ReputationLedger {
+  if (!defaultLedger) {
+    defaultLedger = createReputationLedger();
+  }
+  return defaultLedger;
+}
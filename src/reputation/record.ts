@@ -0,0 +1,73 @@
+import { MarketStore } from '../markets/store';
+import { Market } from '../markets/types';
+import { OutcomeAnswer, responseAnswer, sameAnswer } from '../oracle/outcomes';
+import { ReputationLedger, getReputationLedger } from './ledger';
+import { ReputationSample } from './types';
+
+/**
+ * Scores the answers behind a finalized market's standing verdict against it: that
+ * verdict's panel and, when it came from an appeal, the panel it was appealed from.
+ * Markets that finalized without a known outcome (AMBIGUOUS) yield no samples.
+ */
+export function marketOutcomeSamples(market: Market, resolution: number, now = new Date()): ReputationSample[] {
+  const standing = market.resolutions[resolution]?.consensus;
+  if (!standing || (standing.verdict !== 'RESOLVED' && standing.verdict !== 'INVALID')) {
+    return [];
+  }
+
+  const outcome: OutcomeAnswer = {
+    verdict: standing.verdict,
+    winningOption: standing.winningOption,
+    value: standing.value
+  };
+  const scored = [
+    resolution,
+    ...(market.disputes || [])
+      .filter(dispute => dispute.appealResolution === resolution)
+      .map(dispute => dispute.contestedResolution)
+  ];
+
+  return scored.flatMap(index => {
+    const consensus = market.resolutions[index].consensus;
+    return consensus.allResponses
+      .filter(response => !response.error)
+      .map(response => ({
+        timestamp: now.toISOString(),
+        marketId: market.id,
+        evaluationId: consensus.evaluationId,
+        provider: response.provider,
+        model: response.model,
+        confidence: response.reportedConfidence ?? response.response.confidence,
+        correct: sameAnswer(responseAnswer(response.response), outcome, market.market)
+      }));
+  });
+}
+
+/**
+ * Adds a finalized market to provider reputation, once: a market already scored (e.g. one
+ * re-resolved with force) is skipped; one that yielded no samples can be scored later. Failures are logged, never thrown: a market's final
+ * status doesn't depend on its scoring.
+ */
+export async function recordMarketOutcome(
+  store: MarketStore,
+  market: Market,
+  resolution: number,
+  ledger: ReputationLedger = getReputationLedger()
+): Promise<void> {
+  try {
+    const samples = marketOutcomeSamples(market, resolution);
+    if (samples.length === 0) {
+      return;
+    }
+
+    // Marking the market and checking the mark are one store call, so it can't be scored twice
+    const claimed = await store.transition(market.id, market.status, market.status, existing =>
+      existing.scoredAt ? null : { scoredAt: new Date().toISOString() }
+    );
+    if (claimed) {
+      await ledger.record(samples);
+    }
+  } catch (error) {
+    console.error(`Reputation update for market ${market.id} failed:`, error);
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  CalibrationBin,
+  ProviderReputation,
+  ReputationBoard,
+  ReputationSample,
+  ReputationSettings
+} from './types';
+
+const BIN_COUNT = 10;
+
+export function reputationSettings(): ReputationSettings {
+  return {
+    minSamples: Number(process.env.REPUTATION_MIN_SAMPLES) || 20,
+    priorSamples: Number(process.env.REPUTATION_PRIOR_SAMPLES) || 10
+  };
+}
+
+function share(count: number, total: number): number | null {
+  return total === 0 ? null : count / total;
+}
+
+function binIndex(confidence: number): number {
+  return Math.min(BIN_COUNT - 1, Math.max(0, Math.floor(confidence * BIN_COUNT)));
+}
+
+/**
+ * A market finalized again after being reopened is scored on its latest outcome only
+ */
+function latestPerMarket(samples: ReputationSample[]): ReputationSample[] {
+  const latest = new Map<string, string>();
+  for (const sample of samples) {
+    const current = latest.get(sample.marketId);
+    if (!current || sample.timestamp > current) {
+      latest.set(sample.marketId, sample.timestamp);
+    }
+  }
+  return samples.filter(sample => sample.timestamp === latest.get(sample.marketId));
+}
+
+function calibrationBins(samples: ReputationSample[]): CalibrationBin[] {
+  const bins = Array.from({ length: BIN_COUNT }, (_, index) => ({
+    lower: index / BIN_COUNT,
+    upper: (index + 1) / BIN_COUNT,
+    samples: 0,
+    confidenceSum: 0,
+    correct: 0
+  }));
+
+  for (const sample of samples) {
+    const bin = bins[binIndex(sample.confidence)];
+    bin.samples++;
+    bin.confidenceSum += sample.confidence;
+    bin.correct += sample.correct ? 1 : 0;
+  }
+
+  return bins.map(bin => ({
+    lower: bin.lower,
+    upper: bin.upper,
+    samples: bin.samples,
+    meanConfidence: share(bin.confidenceSum, bin.samples),
+    accuracy: share(bin.correct, bin.samples)
+  }));
+}
+
+function scoreProvider(
+  samples: ReputationSample[],
+  pooledAccuracy: number,
+  settings: ReputationSettings
+): ProviderReputation {
+  const correct = samples.filter(sample => sample.correct).length;
+  const bins = calibrationBins(samples);
+  const calibrationError = bins.reduce((sum, bin) => bin.samples === 0
+    ? sum
+    : sum + (bin.samples / samples.length) * Math.abs(bin.meanConfidence! - bin.accuracy!), 0);
+
+  return {
+    provider: samples[0].provider,
+    model: samples[0].model,
+    samples: samples.length,
+    correct,
+    accuracy: share(correct, samples.length),
+    brierScore: share(
+      samples.reduce((sum, sample) => sum + (sample.confidence - (sample.correct ? 1 : 0)) ** 2, 0),
+      samples.length
+    ),
+    calibrationError,
+    weight: (correct + settings.priorSamples * pooledAccuracy) / (samples.length + settings.priorSamples),
+    calibrated: samples.length >= settings.minSamples,
+    bins,
+    lastOutcomeAt: samples.reduce((latest, sample) => sample.timestamp > latest ? sample.timestamp : latest, '')
+  };
+}
+
+/**
+ * Accuracy, Brier score and calibration curve per provider/model, ranked by weight
+ */
+export function summarizeReputation(
+  samples: ReputationSample[],
+  settings: ReputationSettings = reputationSettings()
+): ReputationBoard {
+  const scored = latestPerMarket(samples);
+  const pooledAccuracy = share(scored.filter(sample => sample.correct).length, scored.length);
+
+  const groups = new Map<string, ReputationSample[]>();
+  for (const sample of scored) {
+    const key = `${sample.provider}/${sample.model}`;
+    groups.set(key, [...(groups.get(key) || []), sample]);
+  }
+
+  return {
+    markets: new Set(scored.map(sample => sample.marketId)).size,
+    samples: scored.length,
+    pooledAccuracy,
+    providers: Array.from(groups.values())
+      .map(group => scoreProvider(group, pooledAccuracy ?? 0.5, settings))
+      .sort((a, b) => b.weight - a.weight || b.samples - a.samples)
+  };
+}
+
+/**
+ * Maps a reported confidence to how often the provider was actually right at that
+ * confidence, shrunk towards the reported value while its bin has few samples.
+ * Providers below settings.minSamples keep their reported confidence.
+ */
+export function calibrateConfidence(
+  reputation: ProviderReputation | undefined,
+  confidence: number,
+  settings: ReputationSettings = reputationSettings()
+): number {
+  if (!reputation || !reputation.calibrated) {
+    return confidence;
+  }
+  const bin = reputation.bins[binIndex(confidence)];
+  const hits = bin.samples === 0 ? 0 : bin.accuracy! * bin.samples;
+  return (hits + settings.priorSamples * confidence) / (bin.samples + settings.priorSamples);
+}
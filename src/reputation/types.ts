@@ -0,0 +1,68 @@
+/**
+ * One provider answer scored against the outcome its market finalized with
+ */
+export interface ReputationSample {
+  // When the market's outcome became final
+  timestamp: string;
+  marketId: string;
+  evaluationId: string;
+  provider: string;
+  model: string;
+  // Confidence the provider reported, before any recalibration
+  confidence: number;
+  correct: boolean;
+}
+
+export interface ReputationFilter {
+  provider?: string;
+  model?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Answers whose reported confidence fell in [lower, upper), and how often they were right
+ */
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  samples: number;
+  meanConfidence: number | null;
+  accuracy: number | null;
+}
+
+export interface ProviderReputation {
+  provider: string;
+  model: string;
+  samples: number;
+  correct: number;
+  accuracy: number | null;
+  brierScore: number | null;
+  // Expected calibration error: sample-weighted gap between confidence and accuracy per bin
+  calibrationError: number | null;
+  // Accuracy shrunk towards the pooled accuracy of every provider; used by the
+  // reputation strategy
+  weight: number;
+  // Whether there are enough samples for confidence to be recalibrated
+  calibrated: boolean;
+  bins: CalibrationBin[];
+  lastOutcomeAt: string;
+}
+
+/**
+ * Scores for every provider/model over a set of samples
+ */
+export interface ReputationBoard {
+  markets: number;
+  samples: number;
+  // Share of all answers that were right; the weight of providers without history
+  pooledAccuracy: number | null;
+  providers: ProviderReputation[];
+}
+
+export interface ReputationSettings {
+  // Samples a provider/model needs before its confidence is recalibrated
+  minSamples: number;
+  // How many pseudo-samples pull weights and calibrated confidences towards the prior
+  priorSamples: number;
+}
@@ -0,0 +1,41 @@
+import { OracleResponse } from '../oracle/types';
+import { ScreeningResult } from './types';
+
+// Reasoning that credits the market text or evidence with telling the model what to do
+const FOLLOWED_INSTRUCTIONS = [
+  /\bas (instructed|directed|told) (by|in) the (question|market|prompt|text|evidence|criteria)\b/i,
+  /\b(the )?(question|market|market text|prompt|evidence|criteria) (instructs|tells|directs|orders) (me|us|the oracle) to\b/i,
+  /\b(ignor(e|ing)|disregard(ing)?) (the |my |all )?(previous|prior|above|original|earlier|oracle) (instructions|rules)\b/i,
+  /\bfollowing the (embedded|included|given|provided) instructions?\b/i
+];
+
+// Flagged text shorter than this is too generic to look for in reasoning
+const MIN_ECHO_LENGTH = 12;
+
+/**
+ * Why a provider's answer looks steered by injected text, or null. Only answers that
+ * picked an outcome count: declining to answer is what a steered model was asked not to do.
+ */
+export function detectInfluence(response: OracleResponse, screening?: ScreeningResult): string | null {
+  if ((response.status ?? 'RESOLVED') !== 'RESOLVED') {
+    return null;
+  }
+
+  const reasoning = response.reasoning || '';
+  if (FOLLOWED_INSTRUCTIONS.some(pattern => pattern.test(reasoning))) {
+    return 'Reasoning says it followed instructions from the market text';
+  }
+
+  const lower = reasoning.toLowerCase();
+  const echoed = (screening?.findings || []).find(finding =>
+    finding.kind === 'injection' &&
+    finding.excerpt !== undefined &&
+    finding.excerpt.length >= MIN_ECHO_LENGTH &&
+    lower.includes(finding.excerpt.toLowerCase())
+  );
+  if (echoed) {
+    return `Reasoning repeats text flagged by screening: "${echoed.excerpt}"`;
+  }
+
+  return null;
+}
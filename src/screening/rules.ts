@@ -0,0 +1,143 @@
+import { hasHiddenCharacters } from './sanitize';
+import { ScreeningFinding, ScreeningInput } from './types';
+
+interface InjectionRule {
+  code: string;
+  pattern: RegExp;
+  message: string;
+}
+
+/**
+ * Phrasings that only make sense as instructions to the model. Matched against
+ * NFKC-normalized text, so full-width and other look-alike letters don't slip past.
+ */
+const INJECTION_RULES: InjectionRule[] = [
+  {
+    code: 'INSTRUCTION_OVERRIDE',
+    pattern: /\b(ignore|disregard|forget|override)\s+(\w+\s+){0,2}?(previous|prior|above|earlier|preceding|original|system|your|all)\s+(\w+\s+)?(instructions?|prompts?|guidelines|rules)\b/i,
+    message: 'Tells the oracle to set aside its instructions'
+  },
+  {
+    code: 'ROLE_REASSIGNMENT',
+    pattern: /\b(you are now|from now on,? you|pretend (to be|you are)|act as (an?|the) (ai|oracle|assistant|model))\b/i,
+    message: 'Tries to give the oracle a new role'
+  },
+  {
+    code: 'ANSWER_DICTATION',
+    // Answer fields given values, not just named: questions may mention "confidence"
+    pattern: /"(optionATrue|optionBTrue)"\s*:\s*(true|false)\b|"selectedOption"\s*:\s*\d|"(status|reasonCode)"\s*:\s*"[A-Z_]+"|"confidence"\s*:\s*[\d.]+|\bthe (correct|right) answer is\b/i,
+    message: "Dictates the oracle's answer or its fields"
+  },
+  {
+    code: 'CHAT_MARKUP',
+    pattern: /<\|[a-z_]+\|>|\[\/?INST\]|<<\/?SYS>>|^\s*(system|assistant|developer)\s*:|^#{1,6}\s*(system|instructions?)\b/im,
+    message: 'Contains chat-format markup or a fake system message'
+  },
+  {
+    code: 'BLOCK_MARKER',
+    pattern: /<{3,}|>{3,}/,
+    message: "Imitates the prompt's block markers"
+  }
+];
+
+const MIN_QUESTION_LENGTH = 10;
+const MAX_QUESTION_LENGTH = 1000;
+
+function excerptAround(text: string, match: RegExpMatchArray): string {
+  const start = Math.max(0, match.index! - 20);
+  return text.slice(start, match.index! + match[0].length + 20).trim();
+}
+
+function fieldsOf(input: ScreeningInput): Array<[string, string]> {
+  const fields: Array<[string, string | undefined]> = [
+    ['question', input.question],
+    ...(input.options || []).map((option, index): [string, string] => [`options[${index}]`, option]),
+    ['unit', input.unit],
+    ['resolutionCriteria', input.resolutionCriteria],
+    ['resolution.source', input.resolution?.source],
+    ...(input.resolution?.edgeCases || []).map((edgeCase, index): [string, string] => [`resolution.edgeCases[${index}]`, edgeCase])
+  ];
+  return fields.filter((field): field is [string, string] => typeof field[1] === 'string' && field[1] !== '');
+}
+
+/**
+ * Pattern checks over the market text. Clear injection attempts settle the market as
+ * INVALID; hidden characters and ill-posed questions hold it for review.
+ */
+export function screenWithRules(input: ScreeningInput): ScreeningFinding[] {
+  const findings: ScreeningFinding[] = [];
+
+  for (const [field, raw] of fieldsOf(input)) {
+    const text = raw.normalize('NFKC');
+    for (const rule of INJECTION_RULES) {
+      const match = text.match(rule.pattern);
+      if (match) {
+        findings.push({
+          kind: 'injection',
+          code: rule.code,
+          field,
+          message: rule.message,
+          excerpt: excerptAround(text, match),
+          action: 'invalid',
+          source: 'rules'
+        });
+      }
+    }
+    if (hasHiddenCharacters(raw)) {
+      findings.push({
+        kind: 'injection',
+        code: 'HIDDEN_CHARACTERS',
+        field,
+        message: 'Contains invisible characters that may hide text from reviewers',
+        action: 'review',
+        source: 'rules'
+      });
+    }
+  }
+
+  const question = input.question.trim();
+  if (question.length < MIN_QUESTION_LENGTH || !/\p{L}/u.test(question)) {
+    findings.push({
+      kind: 'ill-posed',
+      code: 'QUESTION_TOO_SHORT',
+      field: 'question',
+      message: 'The question is too short to say what would resolve it',
+      action: 'review',
+      source: 'rules'
+    });
+  }
+  if (question.length > MAX_QUESTION_LENGTH) {
+    findings.push({
+      kind: 'ill-posed',
+      code: 'QUESTION_TOO_LONG',
+      field: 'question',
+      message: `The question is over ${MAX_QUESTION_LENGTH} characters; put resolution details in resolutionCriteria`,
+      action: 'review',
+      source: 'rules'
+    });
+  }
+
+  const labels = (input.options || []).map(option => option.trim().toLowerCase());
+  if (labels.some(label => label === '')) {
+    findings.push({
+      kind: 'ill-posed',
+      code: 'EMPTY_OPTION',
+      field: 'options',
+      message: 'An option has no label',
+      action: 'review',
+      source: 'rules'
+    });
+  }
+  if (new Set(labels).size < labels.length) {
+    findings.push({
+      kind: 'ill-posed',
+      code: 'DUPLICATE_OPTIONS',
+      field: 'options',
+      message: 'Two options have the same label',
+      action: 'review',
+      source: 'rules'
+    });
+  }
+
+  return findings;
+}
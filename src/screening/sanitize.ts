@@ -0,0 +1,55 @@
+import { Citation } from '../evidence/types';
+import { MarketSpec } from '../oracle/outcomes';
+import { ResolutionFields } from '../prompts/types';
+
+// Zero-width, bidirectional-control and Unicode tag characters: invisible to a reviewer,
+// but read by models
+const HIDDEN_CHARACTERS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF\u{E0000}-\u{E007F}]/gu;
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
+
+// Runs that could open or close the <<<MARKET>>> and <<<EVIDENCE>>> blocks of a prompt
+const MARKER_RUNS = /<{3,}|>{3,}/g;
+
+export function hasHiddenCharacters(text: string): boolean {
+  return text.search(HIDDEN_CHARACTERS) !== -1;
+}
+
+/**
+ * Cleans text from market creators or third parties before it goes into a prompt:
+ * drops hidden and control characters, breaks up anything that could fake a block
+ * marker, and collapses runs of blank lines. Ordinary text passes through unchanged.
+ */
+export function sanitizeUntrusted(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(HIDDEN_CHARACTERS, '')
+    .replace(CONTROL_CHARACTERS, '')
+    .replace(MARKER_RUNS, run => run.slice(0, 2))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function sanitizeMarketSpec(spec: MarketSpec): MarketSpec {
+  return {
+    ...spec,
+    options: spec.options?.map(sanitizeUntrusted),
+    unit: spec.unit !== undefined ? sanitizeUntrusted(spec.unit) : undefined
+  };
+}
+
+export function sanitizeResolutionFields(resolution: ResolutionFields | undefined): ResolutionFields | undefined {
+  return resolution && {
+    source: resolution.source !== undefined ? sanitizeUntrusted(resolution.source) : undefined,
+    deadline: resolution.deadline,
+    edgeCases: resolution.edgeCases?.map(sanitizeUntrusted)
+  };
+}
+
+export function sanitizeCitation(citation: Citation): Citation {
+  return {
+    ...citation,
+    title: citation.title !== undefined ? sanitizeUntrusted(citation.title) : undefined,
+    text: sanitizeUntrusted(citation.text)
+  };
+}
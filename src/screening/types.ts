@@ -0,0 +1,58 @@
+import { ResolutionFields } from '../prompts/types';
+
+/**
+ * injection: text aimed at the oracle rather than describing the market.
+ * ill-posed: a question that can't be resolved fairly as written.
+ */
+export type ScreeningFindingKind = 'injection' | 'ill-posed';
+
+/**
+ * allow: resolve as usual. review: hold the market for a human. invalid: settle it as
+ * INVALID without asking any provider.
+ */
+export type ScreeningAction = 'allow' | 'review' | 'invalid';
+
+export interface ScreeningFinding {
+  kind: ScreeningFindingKind;
+  code: string;
+  // Which part of the market text it was found in
+  field: string;
+  message: string;
+  // The offending text, when there is one to point at
+  excerpt?: string;
+  // review or invalid
+  action: Exclude<ScreeningAction, 'allow'>;
+  // rules: pattern checks; model: the screening model
+  source: 'rules' | 'model';
+}
+
+export interface ScreeningReview {
+  decision: 'approve' | 'reject';
+  reviewedBy: string;
+  reviewedAt: string;
+  note?: string;
+}
+
+export interface ScreeningResult {
+  // The most severe finding's action, or allow
+  action: ScreeningAction;
+  findings: ScreeningFinding[];
+  // Screening model as "provider/model", when one ran
+  model?: string;
+  // Why the screening model gave no verdict; the rules still applied
+  modelError?: string;
+  screenedAt: string;
+  // An operator's decision on a held market
+  review?: ScreeningReview;
+}
+
+/**
+ * The text a market creator or API caller controls
+ */
+export interface ScreeningInput {
+  question: string;
+  options?: string[];
+  unit?: string;
+  resolutionCriteria?: string;
+  resolution?: ResolutionFields;
+}
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { addUsage, emptyUsageTotals } from './pricing';
+import { UsageFilter, UsageRecord, UsageReport, UsageTotals } from './types';
+
+/**
+ * Append-only record of priced provider calls
+ */
+export interface UsageLedger {
+  record(records: UsageRecord[]): Promise<void>;
+  report(filter?: UsageFilter): Promise<UsageReport>;
+}
+
+function matches(record: UsageRecord, filter: UsageFilter): boolean {
+  const timestamp = new Date(record.timestamp);
+  return (!filter.tenantId || record.tenantId === filter.tenantId) &&
+    (!filter.marketId || record.marketId === filter.marketId) &&
+    (!filter.provider || record.provider === filter.provider) &&
+    (!filter.from || timestamp >= filter.from) &&
+    (!filter.to || timestamp < filter.to);
+}
+
+/**
+ * Totals overall and grouped by tenant, market and provider
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageReport {
+  const report: UsageReport = {
+    totals: emptyUsageTotals(),
+    byTenant: {},
+    byMarket: {},
+    byProvider: {}
+  };
+
+  const add = (group: Record<string, UsageTotals>, key: string, record: UsageRecord) => {
+    group[key] = addUsage(group[key] || emptyUsageTotals(), record);
+  };
+
+  for (const record of records) {
+    report.totals = addUsage(report.totals, record);
+    add(report.byTenant, record.tenantId, record);
+    add(report.byMarket, record.marketId || 'unregistered', record);
+    add(report.byProvider, `${record.provider}/${record.model}`, record);
+  }
+
+  return report;
+}
+
+export class MemoryUsageLedger implements UsageLedger {
+  protected records: UsageRecord[] = [];
+
+  async record(records: UsageRecord[]): Promise<void> {
+    await this.load();
+    await this.write(records);
+    this.records.push(...records);
+  }
+
+  async report(filter: UsageFilter = {}): Promise<UsageReport> {
+    await this.load();
+    return summarizeUsage(this.records.filter(record => matches(record, filter)));
+  }
+
+  protected async load(): Promise<void> {}
+
+  protected async write(records: UsageRecord[]): Promise<void> {}
+}
+
+/**
+ * Keeps the ledger as JSON lines
+ */
+export class FileUsageLedger extends MemoryUsageLedger {
+  private loaded = false;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      const contents = await fs.promises.readFile(this.filePath, 'utf8');
+      this.records = contents
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  protected async write(records: UsageRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, records.map(record => JSON.stringify(record)).join('\n') + '\n');
+  }
+}
+
+export function createUsageLedger(): UsageLedger {
+  const backend = process.env.USAGE_LEDGER || 'file';
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryUsageLedger();
+    case 'file':
+      return new FileUsageLedger(process.env.USAGE_LEDGER_PATH || path.join('data', 'usage.jsonl'));
+    default:
+      throw new Error(`Unsupported usage ledger: ${backend}`);
+  }
+}
+
+let defaultLedger: UsageLedger | null = null;
+
+export function getUsageLedger(): UsageLedger {
+  if (!defaultLedger) {
+    defaultLedger = createUsageLedger();
+  }
+  return defaultLedger;
+}
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import { LLMUsage } from '../llm/types';
+import { TokenUsage, UsageTotals } from './types';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices at the time of writing; override with ORACLE_PRICE_TABLE(_PATH)
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'openai/gpt-4': { input: 30, output: 60 },
+  'openai/gpt-4-turbo': { input: 10, output: 30 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'deepseek/deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek/deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'gemini/gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini/gemini-1.5-pro': { input: 1.25, output: 5 },
+  'anthropic/claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'anthropic/claude-3-5-sonnet-latest': { input: 3, output: 15 },
+  'ollama/*': { input: 0, output: 0 }
+};
+
+let priceTable: Record<string, ModelPrice> | null = null;
+
+/**
+ * Default prices merged with ORACLE_PRICE_TABLE (JSON) or the file at ORACLE_PRICE_TABLE_PATH.
+ * Keys are "provider/model", "provider/*" or a bare model name.
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (!priceTable) {
+    const overrides = process.env.ORACLE_PRICE_TABLE_PATH
+      ? fs.readFileSync(process.env.ORACLE_PRICE_TABLE_PATH, 'utf8')
+      : process.env.ORACLE_PRICE_TABLE;
+
+    priceTable = { ...DEFAULT_PRICES, ...(overrides ? JSON.parse(overrides) : {}) };
+  }
+  return priceTable!;
+}
+
+export function findModelPrice(provider: string, model: string): ModelPrice | undefined {
+  const table = getPriceTable();
+  return table[`${provider}/${model}`] ?? table[model] ?? table[`${provider}/*`];
+}
+
+/**
+ * Prices the token counts a provider reported; undefined when it reported none
+ */
+export function priceUsage(provider: string, model: string, usage?: LLMUsage): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+
+  const price = findModelPrice(provider, model);
+  const costUsd = price
+    ? (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000
+    : 0;
+
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    totalTokens: usage.promptTokens + usage.completionTokens,
+    costUsd,
+    priced: !!price
+  };
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+export function addUsage(totals: UsageTotals, usage?: TokenUsage): UsageTotals {
+  if (!usage) {
+    return totals;
+  }
+  return {
+    calls: totals.calls + 1,
+    promptTokens: totals.promptTokens + usage.promptTokens,
+    completionTokens: totals.completionTokens + usage.completionTokens,
+    totalTokens: totals.totalTokens + usage.totalTokens,
+    costUsd: totals.costUsd + usage.costUsd
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Tokens and cost of one provider call
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  // False when the model has no entry in the price table (cost is then 0)
+  priced: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * One priced provider call, as kept in the usage ledger
+ */
+export interface UsageRecord extends TokenUsage {
+  timestamp: string;
+  evaluationId: string;
+  // "scheduler" and "agent" for calls not made on behalf of an API client
+  tenantId: string;
+  marketId?: string;
+  provider: string;
+  model: string;
+}
+
+export interface UsageFilter {
+  tenantId?: string;
+  marketId?: string;
+  provider?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  byTenant: Record<string, UsageTotals>;
+  byMarket: Record<string, UsageTotals>;
+  byProvider: Record<string, UsageTotals>;
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { callLLMProvider, getLLMAdapter, listLLMProviders } from '../src/llm/registry';
+import { LLMRequest } from '../src/llm/types';
+
+const REQUEST: LLMRequest = {
+  model: 'gpt-4',
+  apiKey: 'sk-test-0123456789abcdefghij',
+  prompt: 'Will it rain?',
+  systemPrompt: 'You are an oracle.',
+  maxTokens: 300,
+  temperature: 0.1
+};
+
+describe('LLM adapter registry', () => {
+  test('lists the built-in providers, including the mock when enabled', () => {
+    const providers = listLLMProviders();
+    for (const name of ['openai', 'deepseek', 'gemini', 'anthropic', 'ollama', 'mock']) {
+      assert.ok(providers.includes(name), name);
+    }
+    assert.equal(getLLMAdapter('unknown'), undefined);
+  });
+
+  test('maps a request onto each vendor API', () => {
+    const openai = getLLMAdapter('openai')!.buildRequest(REQUEST);
+    assert.equal(openai.endpoint, 'https://api.openai.com/v1/chat/completions');
+    assert.equal(openai.headers.Authorization, `Bearer ${REQUEST.apiKey}`);
+    assert.deepEqual((openai.body as any).messages, [
+      { role: 'system', content: 'You are an oracle.' },
+      { role: 'user', content: 'Will it rain?' }
+    ]);
+
+    const gemini = getLLMAdapter('gemini')!.buildRequest({ ...REQUEST, model: 'gemini-1.5-flash' });
+    assert.ok(!gemini.endpoint.includes(REQUEST.apiKey!));
+    assert.equal(gemini.headers['x-goog-api-key'], REQUEST.apiKey);
+    assert.equal((gemini.body as any).contents[0].parts[0].text, 'You are an oracle.\n\nWill it rain?');
+
+    const anthropic = getLLMAdapter('anthropic')!.buildRequest({ ...REQUEST, model: 'claude-3-haiku' });
+    assert.equal((anthropic.body as any).system, 'You are an oracle.');
+    assert.equal((anthropic.body as any).max_tokens, 300);
+  });
+
+  test('normalizes replies and token counts', () => {
+    assert.deepEqual(
+      getLLMAdapter('openai')!.parseResponse({
+        choices: [{ message: { content: 'yes' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 }
+      }),
+      { text: 'yes', usage: { promptTokens: 12, completionTokens: 3 } }
+    );
+    assert.deepEqual(
+      getLLMAdapter('anthropic')!.parseResponse({
+        content: [{ type: 'text', text: 'no' }],
+        usage: { input_tokens: 20, output_tokens: 1 }
+      }),
+      { text: 'no', usage: { promptTokens: 20, completionTokens: 1 } }
+    );
+    assert.equal(getLLMAdapter('gemini')!.parseResponse({}).text, '');
+  });
+});
+
+describe('callLLMProvider', () => {
+  const realFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('posts the built request and parses the reply', async () => {
+    let sent: { url: string; init: RequestInit } | undefined;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      sent = { url, init };
+      return new Response(JSON.stringify({ choices: [{ message: { content: 'answer' } }] }), { status: 200 });
+    }) as typeof fetch;
+
+    const response = await callLLMProvider('deepseek', { ...REQUEST, model: 'deepseek-chat' });
+    assert.equal(response.text, 'answer');
+    assert.equal(sent?.url, 'https://api.deepseek.com/v1/chat/completions');
+    assert.equal(JSON.parse(String(sent?.init.body)).model, 'deepseek-chat');
+  });
+
+  test('fails clearly on unknown providers, missing keys and HTTP errors', async () => {
+    globalThis.fetch = (async () => new Response('busy', { status: 503, statusText: 'Service Unavailable' })) as typeof fetch;
+
+    await assert.rejects(callLLMProvider('unknown', REQUEST), /Unsupported provider: unknown/);
+    await assert.rejects(callLLMProvider('openai', { ...REQUEST, apiKey: undefined }), /Missing API key for provider: openai/);
+    await assert.rejects(callLLMProvider('openai', REQUEST), /openai API error: 503 Service Unavailable/);
+  });
+});
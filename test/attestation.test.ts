@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  AttestationMessage,
+  AttestationSigner,
+  buildAttestationMessage,
+  verifyAttestation
+} from '../src/attestation/attestation';
+import { keccak256, toHex, typedDataDigest } from '../src/attestation/eip712';
+import { runConsensus } from '../src/oracle/consensus';
+
+// secp256k1 private key 1 and its well-known Ethereum address
+const PRIVATE_KEY = `0x${'0'.repeat(63)}1`;
+const ADDRESS = '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf';
+
+process.env.ORACLE_SIGNER_PRIVATE_KEY = PRIVATE_KEY;
+
+const DOMAIN = {
+  name: 'ElizaOS Oracle',
+  version: '1',
+  chainId: 43114,
+  verifyingContract: '0x0000000000000000000000000000000000000000'
+};
+
+const MESSAGE: AttestationMessage = {
+  marketId: 'market-1',
+  evaluationId: 'eval-1',
+  verdict: 0,
+  outcome: '1',
+  confidenceBps: 9000,
+  providers: ['gemini', 'openai'],
+  evidenceHash: `0x${'ab'.repeat(32)}`,
+  issuedAt: 1700000000
+};
+
+describe('EIP-712 hashing', () => {
+  test('matches keccak-256 and the example from the EIP-712 spec', () => {
+    assert.equal(
+      toHex(keccak256(new Uint8Array())),
+      '0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470'
+    );
+
+    const digest = typedDataDigest(
+      {
+        name: 'Ether Mail',
+        version: '1',
+        chainId: 1,
+        verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC'
+      },
+      'Mail',
+      {
+        Person: [{ name: 'name', type: 'string' }, { name: 'wallet', type: 'address' }],
+        Mail: [
+          { name: 'from', type: 'Person' },
+          { name: 'to', type: 'Person' },
+          { name: 'contents', type: 'string' }
+        ]
+      },
+      {
+        from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+        to: { name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' },
+        contents: 'Hello, Bob!'
+      }
+    );
+    assert.equal(toHex(digest), '0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2');
+  });
+});
+
+describe('attestations', () => {
+  const signer = new AttestationSigner(PRIVATE_KEY, DOMAIN);
+
+  test('are signed by the configured key and verify against its address', () => {
+    assert.equal(signer.address.toLowerCase(), ADDRESS.toLowerCase());
+
+    const attestation = signer.sign(MESSAGE);
+    assert.equal(attestation.signature.length, 2 + 65 * 2);
+
+    const verification = verifyAttestation(attestation, ADDRESS);
+    assert.equal(verification.valid, true);
+    assert.equal(verification.digest, attestation.digest);
+  });
+
+  test('fail verification once the message, domain or signature changes', () => {
+    const attestation = signer.sign(MESSAGE);
+
+    const edited = verifyAttestation({ ...attestation, message: { ...MESSAGE, outcome: '0' } }, ADDRESS);
+    assert.equal(edited.valid, false);
+    assert.equal(edited.reason, 'Recovered signer does not match');
+
+    const otherChain = verifyAttestation({ ...attestation, domain: { ...DOMAIN, chainId: 1 } }, ADDRESS);
+    assert.equal(otherChain.valid, false);
+
+    assert.equal(
+      verifyAttestation({ ...attestation, signature: attestation.signature.slice(0, -2) }, ADDRESS).reason,
+      'Signature must be 65 bytes'
+    );
+  });
+
+  test('rejects keys that are not valid secp256k1 private keys', () => {
+    assert.throws(() => new AttestationSigner(`0x${'0'.repeat(64)}`, DOMAIN), /Invalid secp256k1 private key/);
+  });
+
+  test('encode the verdict and outcome of a consensus result', async () => {
+    const result = await runConsensus({
+      prompt: 'Is the attestation signed?',
+      providers: [{ provider: 'mock', model: 'no' }, { provider: 'mock', model: 'no' }],
+      strategy: { name: 'majority' },
+      marketId: 'market-7'
+    });
+
+    assert.ok(result.attestation);
+    assert.equal(result.attestation.message.marketId, 'market-7');
+    assert.equal(result.attestation.message.verdict, 0);
+    assert.equal(result.attestation.message.outcome, '1');
+    assert.equal(verifyAttestation(result.attestation, ADDRESS).valid, true);
+
+    const declined = buildAttestationMessage({ ...result, verdict: 'INVALID', winningOption: null }, 'ff');
+    assert.equal(declined.verdict, 1);
+    assert.equal(declined.outcome, '-1');
+    assert.equal(declined.marketId, '');
+    assert.equal(declined.evidenceHash, '0xff');
+  });
+});
@@ -0,0 +1,182 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { after, before, describe, test } from 'node:test';
+import express from 'express';
+import { createAuditRoutes } from '../src/api/audit';
+import {
+  FileAuditLog,
+  GENESIS_HASH,
+  MemoryAuditLog,
+  canonicalJson,
+  getAuditLog,
+  verifyAuditChain
+} from '../src/audit/log';
+import { AuditEntry } from '../src/audit/types';
+import { ClientIdentity, ClientScope } from '../src/clients/types';
+import { runConsensus } from '../src/oracle/consensus';
+
+function identity(tenantId: string, scopes: ClientScope[]): ClientIdentity {
+  return {
+    tenant: {
+      id: tenantId,
+      name: tenantId,
+      rateLimit: {},
+      budget: {},
+      createdAt: new Date(0).toISOString(),
+      updatedAt: new Date(0).toISOString()
+    },
+    key: { id: `${tenantId}-key`, name: `${tenantId}-key`, scopes }
+  } as ClientIdentity;
+}
+
+const CALLERS: Record<string, ClientIdentity> = {
+  owner: identity('tenant-a', ['consensus']),
+  other: identity('tenant-b', ['consensus']),
+  operator: identity('tenant-b', ['consensus', 'admin'])
+};
+
+describe('GET /oracle/audit/evaluations/:id', () => {
+  const auditLog = new MemoryAuditLog();
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    // Stands in for authenticateClient: the x-caller header picks the identity
+    app.use((req, res, next) => {
+      res.locals.client = CALLERS[String(req.headers['x-caller'])];
+      next();
+    });
+    app.use('/oracle/audit', createAuditRoutes(auditLog));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oracle/audit`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  async function fetchTrail(evaluationId: string, caller: string) {
+    return fetch(`${baseUrl}/evaluations/${evaluationId}`, { headers: { 'x-caller': caller } });
+  }
+
+  test('shows a trail to the tenant it was recorded for and to operators only', async () => {
+    await auditLog.append('evaluation-1', 'evaluation', {
+      tenantId: 'tenant-a',
+      provider: 'mock',
+      model: 'yes',
+      systemPrompt: 'system',
+      prompt: 'secret prompt',
+      startedAt: new Date().toISOString(),
+      completedAt: new Date().toISOString()
+    });
+
+    const owned = await fetchTrail('evaluation-1', 'owner');
+    assert.equal(owned.status, 200);
+    assert.equal(((await owned.json()) as { entries: unknown[] }).entries.length, 1);
+
+    assert.equal((await fetchTrail('evaluation-1', 'other')).status, 404);
+    assert.equal((await fetchTrail('evaluation-1', 'operator')).status, 200);
+  });
+
+  test('keeps trails recorded without a tenant for operators', async () => {
+    await auditLog.append('evaluation-2', 'evaluation', {
+      provider: 'mock',
+      model: 'yes',
+      systemPrompt: 'system',
+      prompt: 'older prompt',
+      startedAt: new Date().toISOString(),
+      completedAt: new Date().toISOString()
+    });
+
+    assert.equal((await fetchTrail('evaluation-2', 'owner')).status, 404);
+    assert.equal((await fetchTrail('evaluation-2', 'operator')).status, 200);
+  });
+});
+
+describe('runConsensus audit entries', () => {
+  test('record the tenant on every entry', async () => {
+    const { evaluationId } = await runConsensus({
+      prompt: 'Whose trail is this?',
+      providers: [{ provider: 'mock', model: 'yes' }, { provider: 'mock', model: 'no' }],
+      strategy: { name: 'majority' },
+      tenantId: 'tenant-a'
+    });
+
+    const trail = await getAuditLog().getTrail(evaluationId);
+    assert.equal(trail.length, 3);
+    assert.ok(trail.every(entry => entry.data.tenantId === 'tenant-a'));
+  });
+});
+
+describe('audit hash chain', () => {
+  const record = (provider: string) => ({ provider, model: 'yes' }) as unknown as AuditEntry['data'];
+
+  function chainOf(log: MemoryAuditLog, count: number): Promise<AuditEntry[]> {
+    return Promise.all(Array.from({ length: count }, (_, index) =>
+      log.append(`eval-${index}`, 'evaluation', record(`provider-${index}`))
+    ));
+  }
+
+  test('hashes canonical JSON, whatever the key order', () => {
+    assert.equal(canonicalJson({ b: 1, a: [2, undefined], c: undefined }), '{"a":[2,null],"b":1}');
+    assert.equal(canonicalJson({ a: { y: 1, x: 2 } }), canonicalJson({ a: { x: 2, y: 1 } }));
+  });
+
+  test('links concurrent appends into one unbroken chain', async () => {
+    const log = new MemoryAuditLog();
+    const entries = await chainOf(log, 5);
+
+    assert.deepEqual(entries.map(entry => entry.seq), [0, 1, 2, 3, 4]);
+    assert.equal(entries[0].prevHash, GENESIS_HASH);
+    assert.equal(entries[3].prevHash, entries[2].hash);
+    assert.deepEqual(await log.verify(), { valid: true, entries: 5, lastHash: entries[4].hash });
+  });
+
+  test('finds the first tampered, reordered or missing entry', async () => {
+    const entries = await chainOf(new MemoryAuditLog(), 4);
+
+    const edited = entries.map(entry => ({ ...entry }));
+    edited[2].data = record('someone-else');
+    const tampered = verifyAuditChain(edited);
+    assert.equal(tampered.valid, false);
+    assert.equal(tampered.brokenAt, 2);
+    assert.equal(tampered.reason, 'Entry contents do not match its hash');
+    assert.equal(tampered.lastHash, entries[1].hash);
+
+    const removed = verifyAuditChain([entries[0], entries[2], entries[3]]);
+    assert.equal(removed.brokenAt, 1);
+    assert.equal(removed.reason, 'Expected seq 1, found 2');
+
+    const relinked = verifyAuditChain([entries[0], { ...entries[2], seq: 1 }]);
+    assert.equal(relinked.reason, 'prevHash does not match the previous entry');
+  });
+
+  test('keeps verifying after the file log is reloaded', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    const filePath = path.join(dir, 'audit.jsonl');
+    try {
+      const log = new FileAuditLog(filePath);
+      await log.append('eval-a', 'evaluation', record('openai'));
+      await log.append('eval-a', 'consensus', record('consensus'));
+
+      const reloaded = new FileAuditLog(filePath);
+      await reloaded.append('eval-b', 'evaluation', record('gemini'));
+      const verification = await reloaded.verify();
+      assert.equal(verification.valid, true);
+      assert.equal(verification.entries, 3);
+      assert.equal((await reloaded.getTrail('eval-a')).length, 2);
+
+      const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+      lines[1] = lines[1].replace('"provider":"consensus"', '"provider":"rewritten"');
+      fs.writeFileSync(filePath, lines.join('\n') + '\n');
+      assert.equal((await new FileAuditLog(filePath).verify()).brokenAt, 1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseBacktestDataset } from '../src/backtest/dataset';
+import { runBacktest } from '../src/backtest/run';
+
+const BINARY = { type: 'binary', options: ['Yes', 'No'] };
+
+function raw(yes: boolean, confidence: number): string {
+  return JSON.stringify({ optionATrue: yes, optionBTrue: !yes, confidence, reasoning: 'recorded' });
+}
+
+describe('parseBacktestDataset', () => {
+  test('reads expected outcomes given by label, index, value or status', () => {
+    const cases = parseBacktestDataset({
+      cases: [
+        { question: 'Did it launch?', market: BINARY, expected: 'no' },
+        { id: 'winner', question: 'Who won?', market: { type: 'categorical', options: ['Alice', 'Bob'] }, expected: 1 },
+        { question: 'Where did BTC close?', market: { type: 'scalar', min: 0, max: 200000 }, expected: '95000' },
+        { question: 'Was it ever decided?', market: BINARY, expected: 'INVALID' }
+      ]
+    });
+
+    assert.deepEqual(cases.map(testCase => testCase.id), ['case-1', 'winner', 'case-3', 'case-4']);
+    assert.deepEqual(cases.map(testCase => testCase.expected), [
+      { verdict: 'RESOLVED', winningOption: 1 },
+      { verdict: 'RESOLVED', winningOption: 1 },
+      { verdict: 'RESOLVED', value: 95000 },
+      { verdict: 'INVALID' }
+    ]);
+  });
+
+  test('names the case that is invalid', () => {
+    assert.throws(() => parseBacktestDataset([]), /non-empty cases array/);
+    assert.throws(() => parseBacktestDataset([{ id: 'a', market: BINARY, expected: 0 }]), /Case a: question is required/);
+    assert.throws(() => parseBacktestDataset([{ question: 'Q?', market: BINARY, expected: 'maybe' }]), /Case 1: expected.winningOption/);
+    assert.throws(
+      () => parseBacktestDataset([{ id: 'a', question: 'Q?', expected: 0 }, { id: 'a', question: 'Q?', expected: 0 }]),
+      /Case a: duplicate id/
+    );
+    assert.throws(
+      () => parseBacktestDataset([{ question: 'Q?', expected: 0, responses: [{ provider: 'openai', model: 'gpt-4o' }] }]),
+      /needs rawResponse, response or error/
+    );
+  });
+});
+
+describe('runBacktest', () => {
+  test('replays recorded responses and scores accuracy, abstentions and providers', async () => {
+    const cases = parseBacktestDataset([
+      {
+        id: 'right',
+        question: 'Did it launch?',
+        market: BINARY,
+        expected: 'Yes',
+        responses: [
+          { provider: 'openai', model: 'gpt-4o', rawResponse: raw(true, 0.9) },
+          { provider: 'gemini', model: 'gemini-1.5-pro', rawResponse: raw(true, 0.8) },
+          { provider: 'mock', model: 'no', rawResponse: raw(false, 0.9) }
+        ]
+      },
+      {
+        id: 'split',
+        question: 'Did it land?',
+        market: BINARY,
+        expected: 'No',
+        responses: [
+          { provider: 'openai', model: 'gpt-4o', rawResponse: raw(true, 0.9) },
+          { provider: 'gemini', model: 'gemini-1.5-pro', rawResponse: 'not json' },
+          { provider: 'mock', model: 'no', rawResponse: raw(false, 0.9) }
+        ]
+      },
+      { id: 'unrecorded', question: 'Did it crash?', market: BINARY, expected: 'No' }
+    ]);
+
+    const seen: string[] = [];
+    const report = await runBacktest(cases, { mode: 'replay', strategy: { name: 'majority' } }, {
+      onResult: result => seen.push(result.id)
+    });
+
+    assert.deepEqual(seen, ['right', 'split', 'unrecorded']);
+    assert.equal(report.cases, 3);
+    assert.equal(report.scored, 2);
+    assert.equal(report.errors, 1);
+    assert.equal(report.results[2].error, 'No recorded responses to replay');
+    assert.equal(report.accuracy, 0.5);
+    assert.equal(report.resolvedAccuracy, 1);
+    assert.equal(report.abstainRate, 0.5);
+    assert.equal(report.usage.totalTokens, 0);
+
+    const gemini = report.providers.find(stats => stats.provider === 'gemini')!;
+    assert.equal(gemini.calls, 2);
+    assert.equal(gemini.answered, 1);
+    assert.equal(gemini.agreement, 1);
+    const openai = report.providers.find(stats => stats.provider === 'openai')!;
+    assert.equal(openai.accuracy, 0.5);
+  });
+
+  test('replays only the configured panel', async () => {
+    const cases = parseBacktestDataset([{
+      question: 'Did it launch?',
+      market: BINARY,
+      expected: 'No',
+      responses: [
+        { provider: 'openai', model: 'gpt-4o', rawResponse: raw(true, 0.9) },
+        { provider: 'mock', model: 'no', rawResponse: raw(false, 0.9) }
+      ]
+    }]);
+
+    const report = await runBacktest(cases, {
+      mode: 'replay',
+      strategy: { name: 'majority' },
+      providers: [{ provider: 'mock', model: 'no' }]
+    });
+    assert.equal(report.accuracy, 1);
+    assert.deepEqual(report.providers.map(stats => stats.provider), ['mock']);
+  });
+
+  test('runs cases live and records the answers for replay', async () => {
+    const cases = parseBacktestDataset([{ question: 'Will the live run agree?', market: BINARY, expected: 'Yes' }]);
+    const report = await runBacktest(cases, {
+      mode: 'live',
+      strategy: { name: 'majority' },
+      providers: [{ provider: 'mock', model: 'yes' }, { provider: 'mock', model: 'http-500' }]
+    });
+
+    const [result] = report.results;
+    assert.equal(result.correct, true);
+    assert.ok(result.evaluationId);
+    assert.equal(result.template?.id, 'general');
+    assert.deepEqual(result.responses.map(response => Boolean(response.error)), [false, true]);
+    assert.ok(report.usage.totalTokens > 0);
+
+    const replayed = await runBacktest(
+      [{ ...cases[0], responses: result.responses }],
+      { mode: 'replay', strategy: { name: 'majority' } }
+    );
+    assert.equal(replayed.accuracy, 1);
+  });
+});
@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { after, before, describe, test } from 'node:test';
+import express from 'express';
+import { authenticateClient, meterUsage, requireScope, tenantRateLimit } from '../src/api/auth';
+import { FileClientStore, MemoryClientStore } from '../src/clients/store';
+
+describe('client authentication', () => {
+  const store = new MemoryClientStore();
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(authenticateClient(store), tenantRateLimit());
+    app.post('/consensus', requireScope('consensus'), meterUsage(store), (req, res) => {
+      res.locals.usage = { calls: 1, promptTokens: 30, completionTokens: 10, totalTokens: 40, costUsd: 0.5 };
+      res.json({ ok: true });
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  function call(secret?: string) {
+    return fetch(`${baseUrl}/consensus`, {
+      method: 'POST',
+      headers: secret ? { authorization: `Bearer ${secret}` } : {}
+    });
+  }
+
+  test('accepts issued keys and refuses missing, revoked and disabled ones', async () => {
+    const tenant = await store.createTenant({ name: 'acme' });
+    const { key, secret } = await store.issueKey(tenant.id, 'ci', ['consensus']);
+    assert.ok(!JSON.stringify(key).includes(secret));
+
+    assert.equal((await call(secret)).status, 200);
+    assert.equal((await call()).status, 401);
+    assert.equal((await call('eo_not-a-key')).status, 401);
+
+    await store.updateTenant(tenant.id, { disabled: true });
+    assert.equal((await call(secret)).status, 401);
+
+    const other = await store.createTenant({ name: 'other' });
+    const issued = await store.issueKey(other.id, 'ci', ['consensus']);
+    await store.revokeKey(issued.key.id);
+    assert.equal((await call(issued.secret)).status, 401);
+  });
+
+  test('refuses keys without the scope a route needs', async () => {
+    const tenant = await store.createTenant({ name: 'reader' });
+    const { secret } = await store.issueKey(tenant.id, 'ro', ['evaluate']);
+
+    const response = await call(secret);
+    assert.equal(response.status, 403);
+    assert.deepEqual(await response.json(), { error: 'API key lacks the consensus scope' });
+  });
+
+  test('limits each tenant to its own request rate', async () => {
+    const limited = await store.createTenant({ name: 'limited', rateLimit: { windowMs: 60 * 1000, max: 2 } });
+    const { secret } = await store.issueKey(limited.id, 'ci', ['consensus']);
+    const neighbour = await store.createTenant({ name: 'neighbour', rateLimit: { windowMs: 60 * 1000, max: 2 } });
+    const other = await store.issueKey(neighbour.id, 'ci', ['consensus']);
+
+    assert.equal((await call(secret)).headers.get('RateLimit-Remaining'), '1');
+    assert.equal((await call(secret)).status, 200);
+    const refused = await call(secret);
+    assert.equal(refused.status, 429);
+    assert.ok(refused.headers.get('Retry-After'));
+
+    assert.equal((await call(other.secret)).status, 200);
+  });
+
+  test('meters usage and stops tenants over their daily budget', async () => {
+    const tenant = await store.createTenant({ name: 'budgeted', budget: { dailyCostUsd: 1 } });
+    const { secret } = await store.issueKey(tenant.id, 'ci', ['consensus']);
+
+    assert.equal((await call(secret)).status, 200);
+    assert.equal((await call(secret)).status, 200);
+    // Spend is charged once the response has finished
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const refused = await call(secret);
+    assert.equal(refused.status, 429);
+    assert.equal(((await refused.json()) as { error: string }).error, 'Daily cost budget exhausted');
+
+    const usage = await store.getUsage(tenant.id);
+    assert.equal(usage.requests, 2);
+    assert.equal(usage.tokens, 80);
+    assert.equal(usage.costUsd, 1);
+  });
+});
+
+describe('recordUsage', () => {
+  test('counts every concurrent request, token and cent', async () => {
+    const store = new MemoryClientStore();
+    const tenant = await store.createTenant({ name: 'busy' });
+
+    await Promise.all(Array.from({ length: 50 }, () =>
+      store.recordUsage(tenant.id, { requests: 1, tokens: 10, costUsd: 0.25 })
+    ));
+
+    const usage = await store.getUsage(tenant.id);
+    assert.equal(usage.requests, 50);
+    assert.equal(usage.tokens, 500);
+    assert.equal(usage.costUsd, 12.5);
+  });
+
+  describe('with the file store', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clients-'));
+    const filePath = path.join(dir, 'clients.json');
+
+    after(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('saves usage in one batched write', async () => {
+      const store = new FileClientStore(filePath, { usageFlushMs: 20 });
+      const tenant = await store.createTenant({ name: 'metered' });
+
+      const rename = fs.promises.rename;
+      let writes = 0;
+      fs.promises.rename = async (...args: Parameters<typeof rename>) => {
+        writes++;
+        return rename(...args);
+      };
+      try {
+        await Promise.all(Array.from({ length: 20 }, () => store.recordUsage(tenant.id, { requests: 1 })));
+        assert.equal(writes, 0);
+
+        await new Promise(resolve => setTimeout(resolve, 60));
+        await store.flush();
+        assert.equal(writes, 1);
+      } finally {
+        fs.promises.rename = rename;
+      }
+
+      const reloaded = new FileClientStore(filePath);
+      assert.equal((await reloaded.getUsage(tenant.id)).requests, 20);
+    });
+
+    test('writes pending usage on flush', async () => {
+      const store = new FileClientStore(filePath, { usageFlushMs: 60 * 1000 });
+      const tenant = await store.createTenant({ name: 'flushed' });
+      await store.recordUsage(tenant.id, { tokens: 42 });
+
+      await store.flush();
+      const reloaded = new FileClientStore(filePath);
+      assert.equal((await reloaded.getUsage(tenant.id)).tokens, 42);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getAuditLog } from '../src/audit/log';
+import { setMockScript } from '../src/llm/adapters/mock';
+import { runConsensus } from '../src/oracle/consensus';
+import { ConsensusStrategyConfig } from '../src/oracle/strategies';
+import { ProviderCall } from '../src/oracle/types';
+
+const MAJORITY: ConsensusStrategyConfig = { name: 'majority' };
+
+function panel(...models: string[]): ProviderCall[] {
+  return models.map(model => ({ provider: 'mock', model }));
+}
+
+describe('runConsensus with the mock provider', () => {
+  test('resolves when the panel agrees', async () => {
+    const result = await runConsensus({
+      prompt: 'Will the panel agree?',
+      providers: panel('yes', 'yes:0.8', 'yes:0.95'),
+      strategy: MAJORITY
+    });
+
+    assert.equal(result.verdict, 'RESOLVED');
+    assert.equal(result.winningOption, 0);
+    assert.deepEqual(result.votes, { optionA: 3, optionB: 0 });
+    assert.equal(result.providers.length, 3);
+    assert.ok(Math.abs(result.confidence - (0.9 + 0.8 + 0.95) / 3) < 1e-9);
+  });
+
+  test('is AMBIGUOUS / NO_CONSENSUS when the panel splits', async () => {
+    const result = await runConsensus({
+      prompt: 'Will the panel split?',
+      providers: panel('yes', 'no'),
+      strategy: MAJORITY
+    });
+
+    assert.equal(result.verdict, 'AMBIGUOUS');
+    assert.equal(result.reasonCode, 'NO_CONSENSUS');
+    assert.equal(result.winningOption, null);
+    assert.deepEqual(result.votes, { optionA: 1, optionB: 1 });
+  });
+
+  test('lets declined answers outvote a lone answer', async () => {
+    const result = await runConsensus({
+      prompt: 'Will it be declined?',
+      providers: panel('invalid', 'invalid', 'yes'),
+      strategy: MAJORITY
+    });
+
+    assert.equal(result.verdict, 'INVALID');
+    assert.equal(result.reasonCode, 'UNVERIFIABLE');
+  });
+
+  test('stops at an early quorum and leaves the stragglers out of the tally', async () => {
+    const result = await runConsensus({
+      prompt: 'Will the quorum be early?',
+      providers: panel('yes', 'yes', 'no@2000'),
+      strategy: MAJORITY,
+      earlyQuorum: true
+    });
+
+    assert.equal(result.verdict, 'RESOLVED');
+    assert.equal(result.winningOption, 0);
+    assert.deepEqual(result.providers, ['mock', 'mock']);
+    const straggler = result.allResponses[2];
+    assert.match(straggler.error || '', /early quorum/);
+  });
+
+  test('ignores required when sizing the quorum of a strategy that does not use it', async () => {
+    const result = await runConsensus({
+      prompt: 'Will one vote be enough?',
+      providers: panel('yes', 'yes@50', 'yes@2000'),
+      strategy: { name: 'majority', required: 1 },
+      earlyQuorum: true
+    });
+
+    assert.deepEqual(result.providers, ['mock', 'mock']);
+    assert.match(result.allResponses[2].error || '', /early quorum/);
+  });
+
+  test('counts only parseable answers and records every call in the audit log', async () => {
+    setMockScript('garbled', [{ text: 'The first option, probably.' }]);
+    const result = await runConsensus({
+      prompt: 'Will the parser cope?',
+      providers: panel('yes', 'yes', 'script-garbled'),
+      strategy: MAJORITY
+    });
+
+    assert.equal(result.verdict, 'RESOLVED');
+    assert.equal(result.providers.length, 2);
+    assert.ok(result.allResponses[2].error);
+
+    const trail = await getAuditLog().getTrail(result.evaluationId);
+    assert.equal(trail.filter(entry => entry.type === 'evaluation').length, 3);
+    assert.equal(trail.filter(entry => entry.type === 'consensus').length, 1);
+  });
+
+  test('survives a provider that fails outright', async () => {
+    const result = await runConsensus({
+      prompt: 'Will one provider fail?',
+      providers: panel('yes', 'yes', 'http-500'),
+      strategy: MAJORITY
+    });
+
+    assert.equal(result.verdict, 'RESOLVED');
+    assert.match(result.allResponses[2].error || '', /500/);
+  });
+});
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseConsensusBody, parseEarlyQuorum, parseGenerationOptions } from '../src/api/consensusBody';
+
+const BODY = { prompt: 'Will the settings be checked?', providers: [{ provider: 'mock', model: 'yes' }] };
+
+describe('parseGenerationOptions', () => {
+  test('passes valid settings and leaves missing ones unset', () => {
+    assert.deepEqual(parseGenerationOptions({ maxTokens: 800, temperature: 0, timeoutMs: 15000 }), {
+      maxTokens: 800,
+      temperature: 0,
+      timeoutMs: 15000
+    });
+    assert.deepEqual(parseGenerationOptions({}), { maxTokens: undefined, temperature: undefined, timeoutMs: undefined });
+  });
+
+  test('refuses settings providers cannot use', () => {
+    for (const [body, message] of [
+      [{ maxTokens: 0 }, /maxTokens/],
+      [{ maxTokens: 12.5 }, /maxTokens/],
+      [{ maxTokens: '500' }, /maxTokens/],
+      [{ maxTokens: 1e9 }, /maxTokens/],
+      [{ temperature: -0.1 }, /temperature/],
+      [{ temperature: 2.5 }, /temperature/],
+      [{ temperature: Number.NaN }, /temperature/],
+      [{ timeoutMs: -1 }, /timeoutMs/],
+      [{ timeoutMs: 'soon' }, /timeoutMs/],
+      [{ timeoutMs: 24 * 60 * 60 * 1000 }, /timeoutMs/]
+    ] as Array<[Record<string, unknown>, RegExp]>) {
+      assert.throws(() => parseGenerationOptions(body), message, JSON.stringify(body));
+    }
+  });
+});
+
+describe('parseConsensusBody', () => {
+  test('carries validated settings onto the request', () => {
+    const request = parseConsensusBody({ ...BODY, maxTokens: 600, temperature: 0.2, timeoutMs: 20000 });
+    assert.equal(request.maxTokens, 600);
+    assert.equal(request.temperature, 0.2);
+    assert.equal(request.timeoutMs, 20000);
+  });
+
+  test('rejects a timeout that would abort every provider at once', () => {
+    assert.throws(() => parseConsensusBody({ ...BODY, timeoutMs: -5 }), /timeoutMs must be an integer/);
+  });
+});
+
+describe('provider entries', () => {
+  test('refuse a per-provider timeout that would fire at once or never', () => {
+    for (const timeoutMs of ['5000', Number.NaN, 0, -100, 1.5, 24 * 60 * 60 * 1000]) {
+      assert.throws(
+        () => parseConsensusBody({ ...BODY, providers: [{ provider: 'mock', model: 'yes', timeoutMs }] }),
+        /timeoutMs must be an integer/,
+        String(timeoutMs)
+      );
+    }
+  });
+
+  test('check fallbacks the same way', () => {
+    assert.throws(
+      () => parseConsensusBody({
+        ...BODY,
+        providers: [{ provider: 'mock', model: 'yes', fallbacks: [{ provider: 'mock', model: 'no', timeoutMs: -1 }] }]
+      }),
+      /timeoutMs must be an integer/
+    );
+    const request = parseConsensusBody({ ...BODY, providers: [{ provider: 'mock', model: 'yes', timeoutMs: 2500 }] });
+    assert.equal(request.providers[0].timeoutMs, 2500);
+  });
+});
+
+describe('parseEarlyQuorum', () => {
+  test('accepts true, false or a vote count up to the panel size', () => {
+    assert.equal(parseEarlyQuorum(undefined, 3), undefined);
+    assert.equal(parseEarlyQuorum(true, 3), true);
+    assert.equal(parseEarlyQuorum(false, 3), false);
+    assert.equal(parseEarlyQuorum(1, 3), 1);
+    assert.equal(parseEarlyQuorum(3, 3), 3);
+  });
+
+  test('refuses counts that would stop a run early or never', () => {
+    for (const value of [0, -1, 0.5, 4, '2', 'yes', null]) {
+      assert.throws(() => parseEarlyQuorum(value, 3), /earlyQuorum must be an integer between 1 and 3/, String(value));
+    }
+    assert.throws(
+      () => parseConsensusBody({ ...BODY, earlyQuorum: 0 }),
+      /earlyQuorum must be an integer between 1 and 1/
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { disputeMarket, finalizeDueMarkets } from '../src/disputes/appeal';
+import { appealPanel, appealStrategy, disputeCitations, disputeRejection, parseDisputeEvidence } from '../src/disputes/policy';
+import { Citation } from '../src/evidence/types';
+import { MarketConflictError, resolveMarket } from '../src/markets/resolve';
+import { MemoryMarketStore } from '../src/markets/store';
+import { Market, MarketFilter } from '../src/markets/types';
+import { ProviderCall } from '../src/oracle/types';
+
+const QUESTION = { question: 'Will the verdict be disputed?', market: { type: 'binary' as const, options: ['Yes', 'No'] } };
+
+function panel(...models: string[]): ProviderCall[] {
+  return models.map(model => ({ provider: 'mock', model }));
+}
+
+/**
+ * A market with a YES verdict waiting out its dispute window
+ */
+async function proposedMarket(store: MemoryMarketStore, disputeWindowMs = 60 * 1000): Promise<Market> {
+  const { id } = await store.create({ ...QUESTION, disputeWindowMs });
+  const outcome = await resolveMarket(store, id, {
+    providers: panel('yes', 'yes', 'yes'),
+    strategy: { name: 'majority' },
+    skipEvidence: true
+  });
+  assert.equal(outcome?.market.status, 'proposed');
+  return outcome!.market;
+}
+
+describe('dispute policy', () => {
+  test('appeals under a stricter supermajority sized to the panel', () => {
+    assert.deepEqual(appealStrategy({ name: 'majority', threshold: 0.5, minConfidence: 0.7 }, 5), {
+      name: 'supermajority',
+      threshold: 2 / 3,
+      required: 4,
+      minConfidence: 0.8
+    });
+    const strict = appealStrategy({ name: 'supermajority', threshold: 0.9, minConfidence: 0.9 }, 3);
+    assert.equal(strict.threshold, 1);
+    assert.equal(strict.required, 3);
+    assert.equal(strict.minConfidence, 0.95);
+  });
+
+  test('validates and trims dispute evidence', () => {
+    assert.deepEqual(parseDisputeEvidence(undefined), []);
+    assert.deepEqual(parseDisputeEvidence(['  The launch slipped.  ', { text: 'Notice', url: 'https://example.com' }]), [
+      { text: 'The launch slipped.', title: undefined, url: undefined },
+      { text: 'Notice', title: undefined, url: 'https://example.com' }
+    ]);
+
+    assert.throws(() => parseDisputeEvidence('text'), /must be an array/);
+    assert.throws(() => parseDisputeEvidence(Array(11).fill('text')), /At most 10/);
+    assert.throws(() => parseDisputeEvidence(['  ']), /needs text/);
+    assert.throws(() => parseDisputeEvidence(['x'.repeat(4001)]), /limited to 4000/);
+    assert.throws(() => parseDisputeEvidence([{ text: 'Notice', url: 42 }]), /must be strings/);
+  });
+
+  test('numbers dispute evidence after the retrieved citations', () => {
+    const retrieved: Citation[] = [{ ref: 'E1', sourceName: 'fixture', sourceType: 'document', text: 'Retrieved' }];
+    const citations = disputeCitations([{ text: 'Submitted' }, { text: 'Titled', title: 'Press release' }], retrieved);
+
+    assert.deepEqual(citations.map(citation => citation.ref), ['E2', 'E3']);
+    assert.equal(citations[0].sourceType, 'dispute');
+    assert.equal(citations[0].title, 'Submitted with the dispute');
+    assert.equal(citations[1].title, 'Press release');
+  });
+
+  test('never appeals to the same panel twice', async () => {
+    const market = await proposedMarket(new MemoryMarketStore());
+    const original = market.resolutions[0].consensus;
+
+    assert.throws(() => appealPanel(original, undefined, []), /must be larger than or differ/);
+    assert.throws(() => appealPanel(original, panel('yes'), []), /must be larger than or differ/);
+    assert.deepEqual(appealPanel(original, undefined, panel('yes', 'no')), panel('yes', 'no'));
+    assert.deepEqual(appealPanel(original, panel('no'), []), panel('no'));
+  });
+
+  test('only accepts disputes on proposed markets inside their window', async () => {
+    const store = new MemoryMarketStore();
+    const market = await proposedMarket(store);
+    assert.equal(disputeRejection(market), null);
+
+    const closesAt = new Date(market.provisional!.disputeWindowEndsAt);
+    assert.match(disputeRejection(market, closesAt) || '', /dispute window closed/);
+    assert.match(disputeRejection({ ...market, status: 'appealing' }) || '', /already running/);
+    assert.match(disputeRejection({ ...market, status: 'resolved' }) || '', /market is resolved/);
+  });
+});
+
+describe('disputeMarket', () => {
+  test('runs one appeal when two disputes are filed together', async () => {
+    const store = new MemoryMarketStore();
+    const market = await proposedMarket(store);
+    const appeal = { providers: panel('no@50', 'no@50', 'no@50'), skipEvidence: true };
+
+    const results = await Promise.allSettled([
+      disputeMarket(store, market, { tenantId: 'tenant-a', reason: 'It did not happen' }, appeal),
+      disputeMarket(store, market, { tenantId: 'tenant-b', reason: 'Wrong outcome' }, appeal)
+    ]);
+
+    const refused = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    assert.equal(refused.length, 1);
+    assert.ok(refused[0].reason instanceof MarketConflictError);
+
+    const stored = await store.get(market.id);
+    assert.equal(stored?.disputes?.length, 1);
+    assert.equal(stored?.disputes?.[0].status, 'overturned');
+    assert.equal(stored?.resolutions.length, 2);
+  });
+
+  test('refuses a dispute once the appeals are used up, whatever the caller saw', async () => {
+    const store = new MemoryMarketStore();
+    const market = await proposedMarket(store);
+    const appeal = { providers: panel('yes', 'yes', 'yes'), skipEvidence: true };
+
+    await disputeMarket(store, market, { tenantId: 'tenant-a', reason: 'First' }, appeal);
+    await assert.rejects(
+      disputeMarket(store, market, { tenantId: 'tenant-b', reason: 'Second' }, appeal),
+      (error: Error) => error instanceof MarketConflictError && /already been appealed/.test(error.message)
+    );
+  });
+});
+
+describe('finalizeDueMarkets', () => {
+  const AFTER_WINDOW = new Date(Date.now() + 2 * 60 * 1000);
+
+  test('leaves a market that an appeal claimed after it was listed', async () => {
+    // Claims the market for an appeal between the list and the finalizing write
+    class RacingStore extends MemoryMarketStore {
+      async list(filter?: MarketFilter): Promise<Market[]> {
+        const markets = await super.list(filter);
+        await Promise.all(markets.map(market => this.transition(market.id, 'proposed', 'appealing')));
+        return markets;
+      }
+    }
+
+    const store = new RacingStore();
+    const market = await proposedMarket(store);
+
+    assert.deepEqual(await finalizeDueMarkets(store, AFTER_WINDOW), []);
+    const stored = await store.get(market.id);
+    assert.equal(stored?.status, 'appealing');
+    assert.equal(stored?.finalizedAt, undefined);
+  });
+
+  test('finalizes markets whose window has closed', async () => {
+    const store = new MemoryMarketStore();
+    const market = await proposedMarket(store);
+
+    const [finalized] = await finalizeDueMarkets(store, AFTER_WINDOW);
+    assert.equal(finalized.id, market.id);
+    assert.equal(finalized.status, 'resolved');
+    assert.equal(finalized.provisional, undefined);
+  });
+});
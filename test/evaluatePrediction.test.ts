@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import type { PredictionEvaluationContent } from '../plugins/prediction-market/actions/evaluatePrediction';
+import { loadElizaCore } from './helpers/elizaCore';
+
+type Action = typeof import('../plugins/prediction-market/actions/evaluatePrediction').evaluatePredictionAction;
+
+const AGENT_ID = '00000000-0000-4000-8000-000000000001';
+const ROOM_ID = '00000000-0000-4000-8000-000000000002';
+const ENTITY_ID = '00000000-0000-4000-8000-000000000003';
+
+/**
+ * Just enough of an agent runtime for the action: settings, a character and a memory store
+ */
+function fakeRuntime(settings: Record<string, string>) {
+  const memories: Memory[] = [];
+  const runtime = {
+    agentId: AGENT_ID,
+    character: { name: 'oracle', templates: {} },
+    getSetting: (name: string) => settings[name] ?? null,
+    createMemory: async (memory: Memory) => {
+      memories.push(memory);
+      return memory.id;
+    },
+    getMemories: async () => memories
+  };
+  return { runtime: runtime as unknown as IAgentRuntime, memories };
+}
+
+function message(content: Partial<PredictionEvaluationContent>): Memory {
+  return {
+    id: '00000000-0000-4000-8000-000000000004',
+    entityId: ENTITY_ID,
+    agentId: AGENT_ID,
+    roomId: ROOM_ID,
+    content: { text: content.question || '', ...content } as Content
+  } as Memory;
+}
+
+describe('EVALUATE_PREDICTION with the mock provider', () => {
+  let action: Action;
+
+  before(async () => {
+    await loadElizaCore();
+    action = require('../plugins/prediction-market/actions/evaluatePrediction').evaluatePredictionAction;
+  });
+
+  test('answers an ad-hoc question and stores the result', async () => {
+    const { runtime, memories } = fakeRuntime({ ORACLE_PANEL: 'mock:yes,mock:yes,mock:no' });
+    const replies: Content[] = [];
+
+    const ok = await action.handler(runtime, message({
+      question: 'Will the mock panel favour option A?',
+      optionA: 'Option A happens',
+      optionB: 'Option B happens'
+    }), undefined, undefined, async reply => {
+      replies.push(reply);
+      return [];
+    });
+
+    assert.equal(ok, true);
+    assert.equal(replies.length, 1);
+    assert.match(replies[0].text || '', /Result: Option A more likely/);
+    assert.match(replies[0].text || '', /Votes: A=2, B=1/);
+    assert.equal(memories.length, 1);
+    assert.equal((memories[0].content.consensus as { verdict: string }).verdict, 'RESOLVED');
+  });
+
+  test('waits for a majority of the whole panel before stopping early', async () => {
+    const { runtime } = fakeRuntime({ ORACLE_PANEL: 'mock:yes,mock:yes,mock:yes@200,mock:no@1000,mock:no@1000' });
+    const replies: Content[] = [];
+
+    const ok = await action.handler(runtime, message({
+      question: 'Will three of five providers agree?',
+      optionA: 'Yes',
+      optionB: 'No',
+      strategy: 'majority',
+      earlyQuorum: true
+    }), undefined, undefined, async reply => {
+      replies.push(reply);
+      return [];
+    });
+
+    assert.equal(ok, true);
+    assert.match(replies[0].text || '', /Votes: A=3, B=0/);
+  });
+
+  test('reports an error when no provider gives a usable answer', async () => {
+    const { runtime } = fakeRuntime({ ORACLE_PANEL: 'mock:http-500,mock:malformed' });
+    const replies: Content[] = [];
+
+    const ok = await action.handler(runtime, message({
+      question: 'Will any provider answer?',
+      optionA: 'Yes',
+      optionB: 'No'
+    }), undefined, undefined, async reply => {
+      replies.push(reply);
+      return [];
+    });
+
+    assert.equal(ok, false);
+    assert.match(replies[0].text || '', /No valid responses received/);
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, test } from 'node:test';
+import { rankEvidence, tokenize } from '../src/evidence/rank';
+import { retrieveEvidence } from '../src/evidence/retrieve';
+import { createDocumentSource } from '../src/evidence/sources/documents';
+import { createPriceSource, createStaticPriceFeed, detectAssets } from '../src/evidence/sources/price';
+import { EvidenceSnippet, EvidenceSource } from '../src/evidence/types';
+
+const NOW = new Date('2026-03-01T00:00:00.000Z');
+const QUERY = { question: 'Will the Artemis launch happen in March?' };
+
+function snippet(text: string, extra: Partial<EvidenceSnippet> = {}): EvidenceSnippet {
+  return { sourceName: 'fixture', sourceType: 'document', text, ...extra };
+}
+
+describe('rankEvidence', () => {
+  test('tokenizes without stopwords or trailing dots', () => {
+    assert.deepEqual(tokenize('Will BTC close above $100k by the end of 2026.'), ['btc', 'close', 'above', '$100k', '2026']);
+  });
+
+  test('drops unrelated snippets and ranks rare matching terms higher', () => {
+    const ranked = rankEvidence(QUERY, [
+      snippet('Launch delayed again.'),
+      snippet('Artemis crew named.'),
+      snippet('Launch pad repaired.'),
+      snippet('Local bakery wins award.')
+    ], NOW);
+
+    assert.equal(ranked.length, 3);
+    assert.equal(ranked[0].text, 'Artemis crew named.');
+    assert.ok(ranked.every(result => (result.score || 0) > 0));
+  });
+
+  test('boosts recent snippets over older ones that match equally', () => {
+    const ranked = rankEvidence(QUERY, [
+      snippet('Artemis launch delayed.', { title: 'old', publishedAt: '2025-01-01T00:00:00.000Z' }),
+      snippet('Artemis launch delayed.', { title: 'new', publishedAt: '2026-02-28T00:00:00.000Z' })
+    ], NOW);
+
+    assert.deepEqual(ranked.map(result => result.title), ['new', 'old']);
+  });
+
+  test('always keeps price snippets', () => {
+    const ranked = rankEvidence(QUERY, [snippet('bitcoin traded at 1 USD.', { sourceType: 'price' })], NOW);
+    assert.equal(ranked.length, 1);
+    assert.equal(ranked[0].score, 2);
+  });
+});
+
+describe('retrieveEvidence', () => {
+  test('cites the best snippets from every source that answers', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'evidence-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'artemis.md'), 'Artemis launch moved to March.\n\nCrew named.');
+      fs.writeFileSync(path.join(dir, 'notes.bin'), 'Artemis launch binary notes.');
+      const failing: EvidenceSource = {
+        name: 'broken-feed',
+        type: 'rss',
+        fetch: async () => {
+          throw new Error('feed unavailable');
+        }
+      };
+
+      const citations = await retrieveEvidence(
+        { question: 'Will the Artemis launch happen before Bitcoin hits 1 USD?' },
+        [createDocumentSource(dir), failing, createPriceSource(createStaticPriceFeed({ bitcoin: 1 }))],
+        2
+      );
+
+      assert.deepEqual(citations.map(citation => citation.ref), ['E1', 'E2']);
+      assert.deepEqual(citations.map(citation => citation.sourceType).sort(), ['document', 'price']);
+      const document = citations.find(citation => citation.sourceType === 'document')!;
+      assert.equal(document.title, 'artemis.md');
+      assert.equal(document.text, 'Artemis launch moved to March.\n\nCrew named.');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('looks up prices only for assets the question names', async () => {
+    assert.deepEqual(detectAssets('Will ETH or ether outpace SOL?'), ['ethereum', 'solana']);
+    const source = createPriceSource(createStaticPriceFeed({ ethereum: 3000 }));
+    assert.deepEqual(await source.fetch({ question: 'Will it rain?' }), []);
+    assert.equal((await source.fetch({ question: 'Will ETH pass 4000?' }))[0].title, 'ethereum spot price');
+  });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getProviderHealth } from '../src/health/tracker';
+import { fanOutEvaluations } from '../src/oracle/fanout';
+
+describe('fanOutEvaluations', () => {
+  test('calls the panel in parallel and returns outcomes in call order', async () => {
+    const started = Date.now();
+    const outcomes = await fanOutEvaluations(
+      [
+        { provider: 'mock', model: 'no@150' },
+        { provider: 'mock', model: 'yes@100' },
+        { provider: 'mock', model: 'yes:0.7@50' }
+      ],
+      'Will the calls overlap?'
+    );
+
+    assert.ok(Date.now() - started < 280, 'calls ran one after another');
+    assert.deepEqual(outcomes.map(outcome => outcome.model), ['no@150', 'yes@100', 'yes:0.7@50']);
+    assert.deepEqual(outcomes.map(outcome => outcome.response?.optionATrue), [false, true, true]);
+    assert.equal(outcomes[2].response?.confidence, 0.7);
+  });
+
+  test('times out each provider on its own deadline', async () => {
+    const outcomes = await fanOutEvaluations(
+      [
+        { provider: 'mock', model: 'timeout', timeoutMs: 30 },
+        { provider: 'mock', model: 'yes@80' }
+      ],
+      'Will the slow one be cut off?',
+      { timeoutMs: 1000 }
+    );
+
+    assert.equal(outcomes[0].timedOut, true);
+    assert.equal(outcomes[0].error, 'Timed out after 30ms');
+    assert.equal(outcomes[1].error, undefined);
+    assert.equal(outcomes[1].response?.optionATrue, true);
+  });
+
+  test('stops at an early quorum and reports each outcome as it lands', async () => {
+    const landed: number[] = [];
+    const outcomes = await fanOutEvaluations(
+      [
+        { provider: 'mock', model: 'yes' },
+        { provider: 'mock', model: 'yes:0.8@30' },
+        { provider: 'mock', model: 'no@2000' }
+      ],
+      'Will two answers be enough?',
+      { earlyQuorum: 2, onOutcome: (_outcome, index) => landed.push(index) }
+    );
+
+    assert.deepEqual(landed.sort(), [0, 1]);
+    assert.equal(outcomes[2].timedOut, true);
+    assert.match(outcomes[2].error || '', /early quorum/);
+  });
+
+  test('seats a fallback for a provider whose circuit is open, or skips it', async () => {
+    const health = getProviderHealth();
+    for (let i = 0; i < 5; i++) {
+      health.record('flaky', 'error', 10, 'down');
+    }
+
+    const outcomes = await fanOutEvaluations(
+      [
+        { provider: 'flaky', model: 'v1', fallbacks: [{ provider: 'mock', model: 'no' }] },
+        { provider: 'flaky', model: 'v2' }
+      ],
+      'Will the fallback answer?'
+    );
+
+    assert.equal(outcomes[0].provider, 'mock');
+    assert.equal(outcomes[0].substituteFor, 'flaky');
+    assert.equal(outcomes[0].response?.optionBTrue, true);
+    assert.equal(outcomes[1].skipped, true);
+    assert.match(outcomes[1].error || '', /circuit open for flaky/);
+  });
+});
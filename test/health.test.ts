@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { DEFAULT_CIRCUIT_BREAKER_OPTIONS, ProviderHealthTracker, classifyCallResult } from '../src/health/tracker';
+import { OracleParseError } from '../src/oracle/parser';
+
+const OPTIONS = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, minRequests: 4, consecutiveFailures: 3, cooldownMs: 1000 };
+const T0 = 1_000_000;
+
+describe('ProviderHealthTracker', () => {
+  test('reports rates and latency percentiles over the window', () => {
+    const tracker = new ProviderHealthTracker(OPTIONS);
+    [100, 200, 300].forEach((latency, index) => tracker.record('openai', 'success', latency, undefined, T0 + index));
+    tracker.record('openai', 'timeout', 30000, 'Timed out', T0 + 3);
+
+    const health = tracker.health('openai', T0 + 4);
+    assert.equal(health.state, 'closed');
+    assert.equal(health.requests, 4);
+    assert.equal(health.timeoutRate, 0.25);
+    assert.equal(health.failureRate, 0.25);
+    assert.deepEqual(health.latencyMs, { p50: 200, p90: 300, p99: 300 });
+    assert.equal(health.lastError, 'Timed out');
+
+    // Samples older than the window no longer count
+    assert.equal(tracker.health('openai', T0 + OPTIONS.windowMs + 10).requests, 0);
+  });
+
+  test('opens after consecutive failures and skips the provider during the cooldown', () => {
+    const tracker = new ProviderHealthTracker(OPTIONS);
+    for (let i = 0; i < 3; i++) {
+      tracker.record('gemini', 'error', 10, 'HTTP 503', T0);
+    }
+
+    assert.equal(tracker.health('gemini', T0).state, 'open');
+    assert.equal(tracker.allowRequest('gemini', T0 + 999), false);
+    assert.equal(tracker.allowRequest('openai', T0 + 999), true);
+  });
+
+  test('opens when the failure rate crosses the threshold', () => {
+    const tracker = new ProviderHealthTracker(OPTIONS);
+    tracker.record('deepseek', 'success', 10, undefined, T0);
+    tracker.record('deepseek', 'parse_failure', 10, undefined, T0);
+    tracker.record('deepseek', 'success', 10, undefined, T0);
+    assert.equal(tracker.health('deepseek', T0).state, 'closed');
+
+    tracker.record('deepseek', 'error', 10, undefined, T0);
+    assert.equal(tracker.health('deepseek', T0).state, 'open');
+  });
+
+  test('lets one probe through after the cooldown and closes when it succeeds', () => {
+    const tracker = new ProviderHealthTracker(OPTIONS);
+    for (let i = 0; i < 3; i++) {
+      tracker.record('anthropic', 'error', 10, undefined, T0);
+    }
+
+    assert.equal(tracker.health('anthropic', T0 + 1000).state, 'half_open');
+    assert.equal(tracker.allowRequest('anthropic', T0 + 1000), true);
+    assert.equal(tracker.allowRequest('anthropic', T0 + 1001), false);
+
+    tracker.record('anthropic', 'success', 10, undefined, T0 + 1100);
+    const health = tracker.health('anthropic', T0 + 1100);
+    assert.equal(health.state, 'closed');
+    assert.equal(health.requests, 1);
+    assert.equal(tracker.allowRequest('anthropic', T0 + 1101), true);
+  });
+
+  test('reopens when the probe fails', () => {
+    const tracker = new ProviderHealthTracker(OPTIONS);
+    for (let i = 0; i < 3; i++) {
+      tracker.record('ollama', 'error', 10, undefined, T0);
+    }
+
+    assert.equal(tracker.allowRequest('ollama', T0 + 1000), true);
+    tracker.record('ollama', 'timeout', 10, undefined, T0 + 1500);
+    assert.equal(tracker.health('ollama', T0 + 1500).state, 'open');
+    assert.equal(tracker.allowRequest('ollama', T0 + 2000), false);
+    assert.equal(tracker.allowRequest('ollama', T0 + 2500), true);
+  });
+
+  test('never blocks calls when disabled', () => {
+    const tracker = new ProviderHealthTracker({ ...OPTIONS, enabled: false });
+    for (let i = 0; i < 10; i++) {
+      tracker.record('openai', 'error', 10, undefined, T0);
+    }
+    assert.equal(tracker.allowRequest('openai', T0), true);
+  });
+
+  test('classifies timeouts, parse failures and other errors', () => {
+    const parseError = new OracleParseError(
+      { structuredOutput: 'none', repaired: false, failures: [{ kind: 'NO_JSON', message: 'No JSON found in response' }] },
+      'not json'
+    );
+
+    assert.equal(classifyCallResult(undefined), 'success');
+    assert.equal(classifyCallResult(new Error('aborted'), true), 'timeout');
+    assert.equal(classifyCallResult(parseError), 'parse_failure');
+    assert.equal(classifyCallResult(new Error('HTTP 500')), 'error');
+  });
+});
@@ -0,0 +1,32 @@
+import Module from 'module';
+
+const CORE = '@elizaos/core';
+
+// Kept out of reach of the CommonJS transform, which would turn import() into require()
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<unknown>;
+
+/**
+ * @elizaos/core is published as an ES module only, so the plugin's compiled require() of it
+ * fails under ts-node. This loads the real package with import() and answers those
+ * require() calls with it. Call it before requiring anything from plugins/.
+ */
+export async function loadElizaCore(): Promise<void> {
+  if (require.cache[CORE]) {
+    return;
+  }
+
+  const core = await importModule(CORE);
+  const loader = Module as unknown as {
+    _resolveFilename(request: string, ...rest: unknown[]): string;
+  };
+  const resolve = loader._resolveFilename;
+  loader._resolveFilename = function (request: string, ...rest: unknown[]) {
+    return request === CORE ? CORE : resolve.call(this, request, ...rest);
+  };
+
+  const cached = new Module(CORE);
+  cached.filename = CORE;
+  cached.loaded = true;
+  cached.exports = core;
+  require.cache[CORE] = cached;
+}
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { InFlightRequests } from '../src/cache/inflight';
+import { evaluateWithProvider } from '../src/oracle/evaluate';
+
+/**
+ * An upstream call that settles when the test says so, and reports whether it was aborted
+ */
+function upstream() {
+  let resolve!: (value: string) => void;
+  let reject!: (error: Error) => void;
+  const state = { starts: 0, aborted: false, emit: (text: string) => {} };
+  const start = (signal: AbortSignal, onToken?: (text: string, attempt: number) => void) => {
+    state.starts++;
+    signal.addEventListener('abort', () => {
+      state.aborted = true;
+    });
+    state.emit = text => onToken?.(text, 0);
+    return new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+  };
+  return { start, state, resolve: (value: string) => resolve(value), reject: (error: Error) => reject(error) };
+}
+
+describe('InFlightRequests', () => {
+  test('shares one upstream call, and its tokens, between identical requests', async () => {
+    const requests = new InFlightRequests<string>();
+    const call = upstream();
+    const tokens: string[] = [];
+
+    const first = requests.run('key', call.start, { onToken: text => tokens.push(`first:${text}`) });
+    const second = requests.run('key', call.start, { onToken: text => tokens.push(`second:${text}`) });
+    assert.equal(call.state.starts, 1);
+
+    call.state.emit('Yes');
+    call.resolve('answer');
+    assert.deepEqual(await Promise.all([first, second]), ['answer', 'answer']);
+    assert.deepEqual(tokens, ['first:Yes', 'second:Yes']);
+
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(requests.has('key'), false);
+  });
+
+  test('keeps the upstream call going until every caller has given up', async () => {
+    const requests = new InFlightRequests<string>();
+    const call = upstream();
+    const leaving = new AbortController();
+    const staying = new AbortController();
+
+    const left = requests.run('key', call.start, { signal: leaving.signal });
+    const stayed = requests.run('key', call.start, { signal: staying.signal });
+
+    leaving.abort();
+    await assert.rejects(left, { name: 'AbortError' });
+    assert.equal(call.state.aborted, false);
+
+    staying.abort();
+    await assert.rejects(stayed, { name: 'AbortError' });
+    assert.equal(call.state.aborted, true);
+    assert.equal(requests.has('key'), false);
+
+    // A caller after everyone left starts a new call
+    const retry = upstream();
+    const fresh = requests.run('key', retry.start);
+    retry.resolve('again');
+    assert.equal(await fresh, 'again');
+  });
+
+  test('passes an upstream failure to every caller', async () => {
+    const requests = new InFlightRequests<string>();
+    const call = upstream();
+
+    const calls = [requests.run('key', call.start), requests.run('key', call.start)];
+    call.reject(new Error('provider down'));
+
+    for (const pending of calls) {
+      await assert.rejects(pending, /provider down/);
+    }
+  });
+});
+
+describe('evaluateWithProvider in-flight sharing', () => {
+  test('bills the caller whose request reached the provider, not the one sharing it', async () => {
+    const [first, second] = await Promise.all([
+      evaluateWithProvider('mock', 'yes@50', 'Will one call be made?'),
+      evaluateWithProvider('mock', 'yes@50', 'Will one call be made?')
+    ]);
+
+    assert.equal(first.cache?.status, 'miss');
+    assert.equal(second.cache?.status, 'shared');
+    assert.ok(first.usage);
+    assert.equal(second.usage, undefined);
+    assert.deepEqual(second.response, first.response);
+  });
+});
@@ -0,0 +1,250 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { after, before, describe, test } from 'node:test';
+import express from 'express';
+import { createJobRoutes } from '../src/api/jobs';
+import { MemoryClientStore } from '../src/clients/store';
+import { CLIENT_SCOPES, ClientIdentity } from '../src/clients/types';
+import { JobRunner, JobRunnerOptions, jobRunnerOptionsFromEnv } from '../src/jobs/runner';
+import { MemoryJobStore } from '../src/jobs/store';
+import { ConsensusJob } from '../src/jobs/types';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  buildSignatureHeader,
+  sendWebhook,
+  verifyWebhookSignature
+} from '../src/jobs/webhook';
+
+// Read on each request: lets the body carry apiKey so the job route's own check is reached
+process.env.ORACLE_ALLOW_REQUEST_API_KEYS = 'true';
+
+const CALLER = {
+  tenant: { id: 'tenant-a', name: 'tenant-a', rateLimit: {}, budget: {}, createdAt: '', updatedAt: '' },
+  key: { id: 'key', name: 'key', scopes: CLIENT_SCOPES }
+} as ClientIdentity;
+
+describe('POST /oracle/jobs', () => {
+  const store = new MemoryJobStore();
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      res.locals.client = CALLER;
+      next();
+    });
+    app.use('/oracle/jobs', createJobRoutes(new JobRunner(store, new MemoryClientStore(), jobRunnerOptionsFromEnv()), store, (req, res, next) => next()));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oracle/jobs`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  async function submit(providers: unknown[], webhook?: unknown) {
+    return fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: 'Will the job run?', providers, webhook })
+    });
+  }
+
+  test('refuses per-request keys, including on fallbacks', async () => {
+    for (const providers of [
+      [{ provider: 'mock', model: 'yes', apiKey: 'sk-request' }],
+      [{ provider: 'mock', model: 'yes', fallbacks: [{ provider: 'mock', model: 'no', apiKey: 'sk-request' }] }]
+    ]) {
+      const response = await submit(providers);
+      assert.equal(response.status, 400);
+      assert.match(((await response.json()) as { error: string }).error, /Jobs cannot use per-request apiKey/);
+    }
+    assert.equal((await store.list({})).length, 0);
+  });
+
+  test('refuses webhooks to loopback, private and link-local addresses', async () => {
+    for (const url of [
+      'http://127.0.0.1:8080/hook',
+      'http://localhost/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'https://10.1.2.3/hook',
+      'http://[::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook'
+    ]) {
+      const response = await submit([{ provider: 'mock', model: 'yes' }], { url });
+      assert.equal(response.status, 400, url);
+      assert.match(((await response.json()) as { error: string }).error, /private or reserved address/);
+    }
+    assert.equal((await store.list({})).length, 0);
+  });
+
+  test('only sends webhooks to WEBHOOK_ALLOWED_HOSTS when it is set', async () => {
+    process.env.WEBHOOK_ALLOWED_HOSTS = 'hooks.internal, localhost';
+    try {
+      assert.equal((await submit([{ provider: 'mock', model: 'yes' }], { url: 'http://93.184.216.34/hook' })).status, 400);
+      assert.equal((await submit([{ provider: 'mock', model: 'yes' }], { url: 'http://localhost:9000/hook' })).status, 202);
+    } finally {
+      delete process.env.WEBHOOK_ALLOWED_HOSTS;
+    }
+  });
+
+  test('leaves jobs queued while the runner is stopped', async () => {
+    const response = await submit([{ provider: 'mock', model: 'yes' }], { url: 'http://93.184.216.34/hook' });
+    assert.equal(response.status, 202);
+    const { id } = (await response.json()) as { id: string };
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal((await store.get(id))?.status, 'queued');
+  });
+});
+
+describe('sendWebhook', () => {
+  test('re-checks the target before delivering', async () => {
+    const attempt = await sendWebhook('http://127.0.0.1:1/hook', 'secret', 'job.completed', {}, 1000);
+    assert.equal(attempt.ok, false);
+    assert.match(attempt.error!, /private or reserved address/);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const body = JSON.stringify({ event: 'job.completed' });
+  const sentAt = new Date('2026-01-01T00:00:00.000Z');
+  const header = buildSignatureHeader('whsec_test', body, sentAt);
+
+  test('accepts the signed body within the tolerance', () => {
+    assert.match(header, /^t=1767225600,v1=[0-9a-f]{64}$/);
+    assert.equal(verifyWebhookSignature('whsec_test', header, body, 300, new Date(sentAt.getTime() + 60 * 1000)), true);
+  });
+
+  test('rejects another body or secret, stale timestamps and malformed headers', () => {
+    assert.equal(verifyWebhookSignature('whsec_test', header, `${body} `, 300, sentAt), false);
+    assert.equal(verifyWebhookSignature('whsec_other', header, body, 300, sentAt), false);
+    assert.equal(verifyWebhookSignature('whsec_test', header, body, 300, new Date(sentAt.getTime() + 301 * 1000)), false);
+    assert.equal(verifyWebhookSignature('whsec_test', 'v1=abc', body, 300, sentAt), false);
+  });
+});
+
+describe('JobRunner', () => {
+  const OPTIONS: JobRunnerOptions = {
+    pollIntervalMs: 60 * 1000,
+    concurrency: 2,
+    webhookMaxAttempts: 2,
+    webhookBackoffMs: 60 * 1000,
+    webhookBackoffMaxMs: 60 * 1000,
+    webhookTimeoutMs: 1000
+  };
+
+  const deliveries: { status: number; verified: boolean; event: string }[] = [];
+  let receiverStatus = 200;
+  let hookSecret = '';
+  let receiver: ReturnType<express.Express['listen']>;
+  let hookUrl: string;
+
+  before(async () => {
+    // The receiver listens on loopback, which only an allowlisted host may reach
+    process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
+    const app = express();
+    app.use(express.text({ type: '*/*' }));
+    app.post('/hook', (req, res) => {
+      deliveries.push({
+        status: receiverStatus,
+        verified: verifyWebhookSignature(hookSecret, String(req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]), req.body),
+        event: String(req.headers['x-oracle-event'])
+      });
+      res.status(receiverStatus).end();
+    });
+    receiver = app.listen(0);
+    await new Promise(resolve => receiver.once('listening', resolve));
+    hookUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+
+  after(() => {
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+    receiver.close();
+  });
+
+  async function waitFor(store: MemoryJobStore, id: string, done: (job: ConsensusJob) => boolean): Promise<ConsensusJob> {
+    for (let i = 0; i < 100; i++) {
+      const job = await store.get(id);
+      if (job && done(job)) {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`Job ${id} did not get there in time`);
+  }
+
+  function jobInput(secret: string) {
+    hookSecret = secret;
+    return {
+      tenantId: 'tenant-a',
+      request: {
+        prompt: 'Will the job complete?',
+        providers: [{ provider: 'mock', model: 'yes' }, { provider: 'mock', model: 'yes:0.9' }],
+        strategy: { name: 'majority' as const },
+        market: { type: 'binary' as const }
+      },
+      webhook: { url: hookUrl, secret }
+    };
+  }
+
+  test('runs a queued job, charges its tokens and delivers a signed webhook', async () => {
+    const store = new MemoryJobStore();
+    const clients = new MemoryClientStore();
+    const runner = new JobRunner(store, clients, OPTIONS);
+    receiverStatus = 200;
+    deliveries.length = 0;
+
+    const job = await runner.submit(jobInput('whsec_complete'));
+    assert.equal(job.status, 'queued');
+
+    await runner.tick();
+    const completed = await waitFor(store, job.id, current => current.status === 'completed');
+    assert.equal(completed.result?.verdict, 'RESOLVED');
+    assert.equal(completed.responses.length, 2);
+    assert.equal(completed.attempts, 1);
+    assert.ok((await clients.getUsage('tenant-a')).tokens > 0);
+
+    await runner.tick();
+    const delivered = await waitFor(store, job.id, current => !!current.webhook?.delivery.deliveredAt);
+    assert.equal(delivered.webhook?.delivery.lastStatus, 200);
+    assert.deepEqual(deliveries, [{ status: 200, verified: true, event: 'job.completed' }]);
+  });
+
+  test('backs off failed deliveries and gives up after the last attempt', async () => {
+    const store = new MemoryJobStore();
+    const runner = new JobRunner(store, new MemoryClientStore(), OPTIONS);
+    receiverStatus = 503;
+    deliveries.length = 0;
+
+    const job = await runner.submit(jobInput('whsec_retry'));
+    await runner.tick();
+    await waitFor(store, job.id, current => current.status === 'completed');
+
+    await runner.tick();
+    let failed = await waitFor(store, job.id, current => current.webhook?.delivery.attempts === 1);
+    assert.equal(failed.webhook?.delivery.lastError, 'Webhook returned 503');
+    const retryAt = new Date(failed.webhook!.delivery.nextAttemptAt!);
+    assert.ok(retryAt.getTime() > Date.now() + 50 * 1000);
+
+    // Not due until the backoff has passed
+    await runner.tick();
+    await runner.tick(new Date(retryAt.getTime() + 1));
+    failed = await waitFor(store, job.id, current => current.webhook?.delivery.attempts === 2);
+    assert.equal(failed.webhook?.delivery.exhausted, true);
+    assert.equal(deliveries.length, 2);
+  });
+
+  test('re-queues a job a restart left running', async () => {
+    const store = new MemoryJobStore();
+    const job = await store.create({ ...jobInput('whsec_restart'), webhook: undefined });
+    await store.update(job.id, { status: 'running', attempts: 1 });
+
+    await new JobRunner(store, new MemoryClientStore(), OPTIONS).tick();
+    const rerun = await waitFor(store, job.id, current => current.status === 'completed');
+    assert.equal(rerun.attempts, 2);
+  });
+});
@@ -0,0 +1,199 @@
+import assert from 'node:assert/strict';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, test } from 'node:test';
+import express from 'express';
+import { createMarketRoutes } from '../src/api/markets';
+import { CLIENT_SCOPES, ClientIdentity } from '../src/clients/types';
+import { MarketConflictError, resolveMarket } from '../src/markets/resolve';
+import { MarketStore, MemoryMarketStore } from '../src/markets/store';
+import { Market, MarketStatus } from '../src/markets/types';
+import { getReputationLedger } from '../src/reputation/ledger';
+
+const QUESTION = { question: 'Will the market be resolved once?', market: { type: 'binary' as const, options: ['Yes', 'No'] } };
+
+describe('MemoryMarketStore.transition', () => {
+  test('moves a market only from the expected status', async () => {
+    const store = new MemoryMarketStore();
+    const market = await store.create(QUESTION);
+
+    const [first, second] = await Promise.all([
+      store.transition(market.id, 'open', 'resolving'),
+      store.transition(market.id, 'open', 'resolving')
+    ]);
+
+    assert.equal(first?.status, 'resolving');
+    assert.equal(second, null);
+    assert.equal(await store.transition('missing', 'open', 'resolving'), null);
+  });
+});
+
+describe('resolveMarket', () => {
+  test('runs consensus once when two resolutions start together', async () => {
+    const store = new MemoryMarketStore();
+    const market = await store.create(QUESTION);
+    const options = {
+      providers: [{ provider: 'mock', model: 'yes@50' }, { provider: 'mock', model: 'yes@50' }],
+      strategy: { name: 'majority' as const },
+      skipEvidence: true
+    };
+
+    const results = await Promise.allSettled([
+      resolveMarket(store, market.id, options),
+      resolveMarket(store, market.id, options)
+    ]);
+
+    const resolved = results.filter(result => result.status === 'fulfilled');
+    const refused = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    assert.equal(resolved.length, 1);
+    assert.equal(refused.length, 1);
+    assert.ok(refused[0].reason instanceof MarketConflictError);
+
+    const stored = await store.get(market.id);
+    assert.equal(stored?.resolutions.length, 1);
+    assert.equal(stored?.status, 'proposed');
+  });
+});
+
+/**
+ * Serves the market routes for a tenant holding every scope; resolves to their base URL
+ */
+async function serveMarkets(store: MarketStore): Promise<{ server: Server; baseUrl: string }> {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    res.locals.client = {
+      tenant: { id: 'tenant-a', name: 'tenant-a', rateLimit: {}, budget: {}, createdAt: '', updatedAt: '' },
+      key: { id: 'key', name: 'key', scopes: CLIENT_SCOPES }
+    } as ClientIdentity;
+    next();
+  });
+  app.use('/oracle/markets', createMarketRoutes(store, (req, res, next) => next()));
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/oracle/markets` };
+}
+
+function send(url: string, method: string, body: unknown): Promise<Response> {
+  return fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+}
+
+describe('market CRUD routes', () => {
+  const store = new MemoryMarketStore();
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    ({ server, baseUrl } = await serveMarkets(store));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  test('creates a market from the legacy option pair and reads it back', async () => {
+    const created = await send(baseUrl, 'POST', {
+      question: 'Will the bridge open in May?',
+      optionA: 'Opens',
+      optionB: 'Stays closed',
+      closeTime: '2030-05-31T00:00:00Z'
+    });
+    assert.equal(created.status, 201);
+    const market = (await created.json()) as Market;
+    assert.equal(market.status, 'open');
+    assert.deepEqual(market.market, { type: 'binary', options: ['Opens', 'Stays closed'] });
+    assert.equal(market.closeTime, '2030-05-31T00:00:00.000Z');
+
+    const loaded = await fetch(`${baseUrl}/${market.id}`);
+    assert.equal(((await loaded.json()) as Market).question, 'Will the bridge open in May?');
+    assert.equal((await fetch(`${baseUrl}/missing`)).status, 404);
+  });
+
+  test('rejects invalid markets and edits', async () => {
+    assert.equal((await send(baseUrl, 'POST', { market: { type: 'binary' } })).status, 400);
+    const badOdds = await send(baseUrl, 'POST', { question: 'Odd odds?', odds: [1.5] });
+    assert.equal(badOdds.status, 400);
+    assert.match(((await badOdds.json()) as { error: string }).error, /odds must be an array/);
+
+    const market = await store.create(QUESTION);
+    assert.equal((await send(`${baseUrl}/${market.id}`, 'PATCH', { closeTime: 'tomorrow' })).status, 400);
+  });
+
+  test('edits open markets only', async () => {
+    const market = await store.create(QUESTION);
+    const edited = await send(`${baseUrl}/${market.id}`, 'PATCH', { question: 'Will the market be edited?', totalVolume: 100 });
+    assert.equal(edited.status, 200);
+    assert.equal(((await edited.json()) as Market).totalVolume, 100);
+
+    await store.update(market.id, { status: 'resolved' });
+    assert.equal((await send(`${baseUrl}/${market.id}`, 'PATCH', { question: 'Too late?' })).status, 409);
+  });
+
+  test('lists markets by status', async () => {
+    const pending = await store.create(QUESTION);
+    await store.update(pending.id, { status: 'pending' });
+
+    const listed = (await (await fetch(`${baseUrl}?status=pending`)).json()) as { markets: Market[] };
+    assert.deepEqual(listed.markets.map(market => market.id), [pending.id]);
+    assert.equal((await fetch(`${baseUrl}?status=closed`)).status, 400);
+  });
+});
+
+describe('POST /oracle/markets/:id/resolve', () => {
+  const store = new MemoryMarketStore();
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    ({ server, baseUrl } = await serveMarkets(store));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  async function resolveWith(status: MarketStatus, force?: boolean) {
+    const market = await store.create({ ...QUESTION, disputeWindowMs: 0 });
+    await store.update(market.id, { status });
+    return send(`${baseUrl}/${market.id}/resolve`, 'POST', {
+      providers: [{ provider: 'mock', model: 'yes' }],
+      evidence: false,
+      force
+    });
+  }
+
+  test('resolves markets still waiting on a verdict', async () => {
+    assert.equal((await resolveWith('open')).status, 200);
+    assert.equal((await resolveWith('pending')).status, 200);
+  });
+
+  test('refuses markets that already have a final verdict unless forced', async () => {
+    for (const status of ['resolved', 'invalid', 'disputed'] as MarketStatus[]) {
+      const response = await resolveWith(status);
+      assert.equal(response.status, 409, status);
+      assert.match(((await response.json()) as { error: string }).error, /pass force: true/);
+      assert.equal((await resolveWith(status, true)).status, 200, status);
+    }
+  });
+});
+
+describe('reputation from resolved markets', () => {
+  test('counts a market once, even when it is re-resolved', async () => {
+    const store = new MemoryMarketStore();
+    const market = await store.create({ ...QUESTION, disputeWindowMs: 0 });
+    const options = {
+      providers: [{ provider: 'mock', model: 'yes' }, { provider: 'mock', model: 'yes' }],
+      strategy: { name: 'majority' as const },
+      skipEvidence: true
+    };
+    const samples = async () =>
+      (await getReputationLedger().samples()).filter(sample => sample.marketId === market.id);
+
+    const first = await resolveMarket(store, market.id, options);
+    assert.equal(first?.market.status, 'resolved');
+    assert.equal((await samples()).length, 2);
+
+    await resolveMarket(store, market.id, options);
+    assert.equal((await samples()).length, 2);
+  });
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { runConsensus } from '../src/oracle/consensus';
+import { MarketSpec, parseMarketSpec, sameAnswer, scalarTolerance } from '../src/oracle/outcomes';
+import { ProviderCall } from '../src/oracle/types';
+
+const ELECTION: MarketSpec = { type: 'categorical', options: ['Alice', 'Bob', 'Carol'] };
+const RAINFALL: MarketSpec = { type: 'scalar', min: 0, max: 200, unit: 'mm' };
+
+function panel(...models: string[]): ProviderCall[] {
+  return models.map(model => ({ provider: 'mock', model }));
+}
+
+describe('parseMarketSpec', () => {
+  test('defaults to a binary market and accepts categorical and scalar specs', () => {
+    assert.deepEqual(parseMarketSpec(undefined), { type: 'binary' });
+    assert.equal(parseMarketSpec(ELECTION), ELECTION);
+    assert.equal(parseMarketSpec(RAINFALL), RAINFALL);
+  });
+
+  test('rejects specs that cannot be answered', () => {
+    assert.throws(() => parseMarketSpec({ type: 'range' }), /Market type must be one of/);
+    assert.throws(() => parseMarketSpec({ type: 'binary', options: ['a', 'b', 'c'] }), /exactly 2 options/);
+    assert.throws(() => parseMarketSpec({ type: 'categorical', options: ['a'] }), /at least 2 options/);
+    assert.throws(() => parseMarketSpec({ type: 'categorical', options: ['a', 2] }), /array of strings/);
+    assert.throws(() => parseMarketSpec({ type: 'scalar', min: '0' }), /min must be a number/);
+    assert.throws(() => parseMarketSpec({ type: 'scalar', min: 10, max: 10 }), /min must be less than max/);
+  });
+});
+
+describe('scalar agreement', () => {
+  test('uses the explicit tolerance, else 5% of the range or of the median', () => {
+    assert.equal(scalarTolerance({ type: 'scalar', tolerance: 3 }, 100), 3);
+    assert.equal(scalarTolerance(RAINFALL, 50), 10);
+    assert.equal(scalarTolerance({ type: 'scalar' }, -40), 2);
+  });
+
+  test('treats values within tolerance of the reference as the same answer', () => {
+    const reference = { verdict: 'RESOLVED' as const, value: 50 };
+    assert.equal(sameAnswer({ verdict: 'RESOLVED', value: 58 }, reference, RAINFALL), true);
+    assert.equal(sameAnswer({ verdict: 'RESOLVED', value: 61 }, reference, RAINFALL), false);
+    assert.equal(sameAnswer({ verdict: 'INVALID' }, reference, RAINFALL), false);
+  });
+});
+
+describe('runConsensus on non-binary markets', () => {
+  test('picks the categorical option most of the panel chose', async () => {
+    const result = await runConsensus({
+      prompt: 'Who wins the election?',
+      providers: panel('option-2', 'option-2', 'option-0'),
+      market: ELECTION,
+      strategy: { name: 'majority' }
+    });
+
+    assert.equal(result.verdict, 'RESOLVED');
+    assert.equal(result.winningOption, 2);
+    assert.equal(result.optionATrue, false);
+  });
+
+  test('agrees on the median value when enough answers fall near it', async () => {
+    const result = await runConsensus({
+      prompt: 'How much rain falls in March?',
+      providers: panel('value-48', 'value-52', 'value-55', 'value-120'),
+      market: RAINFALL,
+      strategy: { name: 'majority' }
+    });
+
+    assert.equal(result.verdict, 'RESOLVED');
+    assert.equal(result.value, 52);
+  });
+
+  test('has no consensus when scalar answers are spread out', async () => {
+    const result = await runConsensus({
+      prompt: 'How much rain falls in April?',
+      providers: panel('value-10', 'value-90', 'value-180'),
+      market: RAINFALL,
+      strategy: { name: 'majority' }
+    });
+
+    assert.equal(result.verdict, 'AMBIGUOUS');
+    assert.equal(result.reasonCode, 'NO_CONSENSUS');
+    assert.equal(result.value, null);
+  });
+});
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { evaluateWithProvider } from '../src/oracle/evaluate';
+import { OracleParseError, tryParseOracleResponse } from '../src/oracle/parser';
+
+describe('tryParseOracleResponse', () => {
+  test('reads an answer wrapped in prose and a markdown fence', () => {
+    const result = tryParseOracleResponse(
+      'Here you go:\n```json\n{"optionATrue": true, "optionBTrue": false, "confidence": "85%", "reasoning": "ok",}\n```'
+    );
+
+    assert.ok(result.ok);
+    assert.equal(result.response.optionATrue, true);
+    assert.equal(result.response.confidence, 0.85);
+  });
+
+  test('classifies replies it cannot use', () => {
+    const kinds = [
+      '',
+      'The first option seems more likely.',
+      '{"optionATrue": true, "confidence": 0.9',
+      '{optionATrue: yes}',
+      '{"optionATrue": true, "optionBTrue": false, "confidence": 0.9, "reasoning": 42}'
+    ].map(text => {
+      const result = tryParseOracleResponse(text);
+      return result.ok ? 'ok' : result.failure.kind;
+    });
+
+    assert.deepEqual(kinds, ['EMPTY_RESPONSE', 'NO_JSON', 'TRUNCATED_JSON', 'INVALID_JSON', 'SCHEMA_VIOLATION']);
+  });
+});
+
+describe('tryParseOracleResponse repairs', () => {
+  const ELECTION = { type: 'categorical' as const, options: ['Alice', 'Bob', 'Carol'] };
+
+  test('drops comments and skips an echoed example for the real answer', () => {
+    const result = tryParseOracleResponse(
+      'The format is {"example": true}. My answer:\n' +
+      '{\n  // first option\n  "optionATrue": "TRUE", /* quoted */ "optionBTrue": "false",\n  "confidence": 0.7, "reasoning": "a // b",\n}'
+    );
+
+    assert.ok(result.ok);
+    assert.equal(result.response.optionATrue, true);
+    assert.equal(result.response.optionBTrue, false);
+    assert.equal(result.response.reasoning, 'a // b');
+  });
+
+  test('maps an option label to its index and rejects options out of range', () => {
+    const byLabel = tryParseOracleResponse('{"selectedOption": " carol ", "confidence": 0.9, "reasoning": ""}', ELECTION);
+    assert.ok(byLabel.ok);
+    assert.equal(byLabel.response.selectedOption, 2);
+
+    const outOfRange = tryParseOracleResponse('{"selectedOption": 3, "confidence": 0.9, "reasoning": ""}', ELECTION);
+    assert.ok(!outOfRange.ok);
+    assert.equal(outOfRange.failure.kind, 'SCHEMA_VIOLATION');
+    assert.equal(outOfRange.failure.message, 'selectedOption out of range: 3');
+  });
+
+  test('clamps scalar values to the market range', () => {
+    const result = tryParseOracleResponse(
+      '{"value": "250", "confidence": 0.8, "reasoning": ""}',
+      { type: 'scalar', min: 0, max: 200 }
+    );
+
+    assert.ok(result.ok);
+    assert.equal(result.response.value, 200);
+    assert.equal(result.response.status, 'RESOLVED');
+  });
+});
+
+describe('evaluateWithProvider with malformed mock replies', () => {
+  for (const [model, kind] of [['malformed', 'NO_JSON'], ['truncated', 'TRUNCATED_JSON'], ['empty', 'EMPTY_RESPONSE']]) {
+    test(`gives up on a ${model} reply after one repair attempt`, async () => {
+      await assert.rejects(
+        evaluateWithProvider('mock', model, 'Will it parse?'),
+        (error: unknown) => {
+          assert.ok(error instanceof OracleParseError);
+          assert.equal(error.parse.failures.length, 2);
+          assert.equal(error.parse.failures[0].kind, kind);
+          return true;
+        }
+      );
+    });
+  }
+
+  test('accepts an answer from the repair re-prompt', async () => {
+    const evaluation = await evaluateWithProvider('mock', 'repairable', 'Will it be repaired?');
+
+    assert.equal(evaluation.parse.repaired, true);
+    assert.equal(evaluation.parse.failures[0].kind, 'NO_JSON');
+    assert.equal(evaluation.response.optionATrue, true);
+  });
+});
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+import type { Evaluator, IAgentRuntime, Memory, Provider, State } from '@elizaos/core';
+import { loadElizaCore } from './helpers/elizaCore';
+
+const AGENT_ID = '00000000-0000-4000-8000-000000000001';
+const ROOM_ID = '00000000-0000-4000-8000-000000000002';
+const ENTITY_ID = '00000000-0000-4000-8000-000000000003';
+
+/**
+ * An agent runtime with a memory store and a small model that replies with `modelReply`
+ */
+function fakeRuntime(modelReply = '{}') {
+  const memories: Memory[] = [];
+  const runtime = {
+    agentId: AGENT_ID,
+    getSetting: () => null,
+    useModel: async () => modelReply,
+    createMemory: async (memory: Memory) => {
+      memories.push(memory);
+      return memory.id;
+    },
+    getMemories: async () => memories
+  };
+  return { runtime: runtime as unknown as IAgentRuntime, memories };
+}
+
+function message(text: string, extra: Record<string, unknown> = {}): Memory {
+  return {
+    id: '00000000-0000-4000-8000-000000000004',
+    entityId: ENTITY_ID,
+    agentId: AGENT_ID,
+    roomId: ROOM_ID,
+    content: { text, ...extra }
+  } as Memory;
+}
+
+describe('PREDICTION_MARKET_DETECTOR', () => {
+  let evaluator: Evaluator;
+
+  before(async () => {
+    await loadElizaCore();
+    evaluator = require('../plugins/prediction-market/evaluators/predictionMarket').predictionMarketEvaluator;
+  });
+
+  test('runs on questions about future outcomes, not on structured requests', async () => {
+    const { runtime } = fakeRuntime();
+    assert.equal(await evaluator.validate(runtime, message('Will it rain in Paris tomorrow?')), true);
+    assert.equal(await evaluator.validate(runtime, message('Thanks, that helps.')), false);
+    assert.equal(await evaluator.validate(runtime, message('Will it rain?', {
+      question: 'Will it rain?',
+      optionA: 'Rain',
+      optionB: 'No rain'
+    })), false);
+  });
+
+  test('records explicitly labelled options without asking the model', async () => {
+    const { runtime, memories } = fakeRuntime('not json');
+    const market = await evaluator.handler(
+      runtime,
+      message('Who wins the final?\nOption A: Brazil wins\nOption B: Brazil does not win')
+    );
+
+    assert.deepEqual(market, {
+      question: 'Who wins the final?',
+      optionA: 'Brazil wins',
+      optionB: 'Brazil does not win'
+    });
+    assert.equal(memories.length, 1);
+    assert.equal(memories[0].content.action, 'prediction_market_detected');
+  });
+
+  test('falls back to a yes/no market when the model finds none', async () => {
+    const { runtime } = fakeRuntime('{}');
+    const market = await evaluator.handler(runtime, message('Will the launch slip to next year?'));
+
+    assert.deepEqual(market, {
+      question: 'Will the launch slip to next year?',
+      optionA: 'Yes: Will the launch slip to next year?',
+      optionB: 'No: Will the launch slip to next year?'
+    });
+  });
+});
+
+describe('MULTI_LLM_CONSENSUS provider', () => {
+  let provider: Provider;
+
+  before(async () => {
+    await loadElizaCore();
+    provider = require('../plugins/prediction-market/providers/multiLLMConsensus').multiLLMConsensusProvider;
+  });
+
+  test('shows the open market until it has a consensus result', async () => {
+    const { runtime, memories } = fakeRuntime();
+    memories.push({
+      ...message('Prediction market detected'),
+      createdAt: 1,
+      content: {
+        text: 'Prediction market detected',
+        question: 'Will it snow?',
+        optionA: 'Snow',
+        optionB: 'No snow',
+        action: 'prediction_market_detected'
+      }
+    });
+
+    const open = await provider.get(runtime, message('What do you think?'), {} as State);
+    assert.equal(open.values?.openMarketQuestion, 'Will it snow?');
+    assert.match(open.text || '', /# Open Prediction Market/);
+
+    memories.push({
+      ...message('Result'),
+      createdAt: 2,
+      content: {
+        text: 'Result',
+        question: 'Will it snow?',
+        action: 'prediction_evaluated',
+        consensus: {
+          verdict: 'RESOLVED',
+          optionATrue: true,
+          optionBTrue: false,
+          confidence: 0.85,
+          providers: ['openai', 'gemini'],
+          votes: { optionA: 2, optionB: 0 }
+        }
+      }
+    });
+
+    const evaluated = await provider.get(runtime, message('And now?'), {} as State);
+    assert.equal(evaluated.values?.openMarketQuestion, '');
+    assert.match(String(evaluated.values?.lastConsensusResult), /Result: Option A \(votes A=2, B=0\)/);
+    assert.match(String(evaluated.values?.lastConsensusResult), /Confidence: 85%/);
+  });
+});
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { retrieveEvidence } from '../src/evidence/retrieve';
+import { EvidenceSource } from '../src/evidence/types';
+import { BINARY_MARKET } from '../src/oracle/outcomes';
+import { renderPredictionPrompt, withEvidence } from '../src/oracle/prompt';
+
+const SOURCE: EvidenceSource = {
+  name: 'fixture',
+  type: 'document',
+  async fetch() {
+    return [{
+      sourceName: 'fixture',
+      sourceType: 'document',
+      title: 'Launch report',
+      text: 'The launch happened on schedule.',
+      publishedAt: '2026-01-02T00:00:00.000Z'
+    }];
+  }
+};
+
+describe('prompts with evidence', () => {
+  test('are identical for the same evidence, whenever it was retrieved', async () => {
+    const first = await retrieveEvidence({ question: 'Did the launch happen?' }, [SOURCE]);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await retrieveEvidence({ question: 'Did the launch happen?' }, [SOURCE]);
+    assert.notEqual(first[0].retrievedAt, second[0].retrievedAt);
+
+    const render = (citations: typeof first) => renderPredictionPrompt({
+      question: 'Did the launch happen?',
+      market: BINARY_MARKET,
+      citations
+    }).prompt;
+    assert.equal(render(first), render(second));
+    assert.equal(withEvidence('Did it launch?', first), withEvidence('Did it launch?', second));
+    assert.ok(!render(first).includes(first[0].retrievedAt!));
+  });
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, test } from 'node:test';
+import { callLLMProvider } from '../src/llm/registry';
+import { LLMRecorder } from '../src/llm/recorder';
+import { runConsensus } from '../src/oracle/consensus';
+
+// Read by getLLMRecorder on first use, so every provider call in this file is played back
+process.env.LLM_RECORD_MODE = 'playback';
+process.env.LLM_RECORDINGS_PATH = path.join(__dirname, 'fixtures', 'llm-recordings.json');
+
+const RECORDED_PROMPT = 'Will the recorded market resolve YES?';
+
+describe('playback of recorded provider replies', () => {
+  test('runs consensus from the fixture without calling any provider', async () => {
+    const result = await runConsensus({
+      prompt: RECORDED_PROMPT,
+      providers: [
+        { provider: 'openai', model: 'gpt-4', apiKey: 'not-used' },
+        { provider: 'deepseek', model: 'deepseek-chat', apiKey: 'not-used' },
+        { provider: 'gemini', model: 'gemini-1.5-flash', apiKey: 'not-used' }
+      ],
+      strategy: { name: 'majority' }
+    });
+
+    assert.equal(result.verdict, 'RESOLVED');
+    assert.equal(result.winningOption, 0);
+    assert.deepEqual(result.providers, ['openai', 'deepseek']);
+    assert.match(result.allResponses[2].error || '', /503/);
+    assert.equal(result.usage.promptTokens, 238);
+  });
+
+  test('fails calls that were never recorded', async () => {
+    await assert.rejects(
+      callLLMProvider('openai', { model: 'gpt-4', apiKey: 'not-used', prompt: 'Not in the fixture', maxTokens: 500, temperature: 0.1 }),
+      /No recorded reply for openai\/gpt-4/
+    );
+  });
+});
+
+describe('LLMRecorder', () => {
+  test('replays what it recorded', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-recorder-'));
+    const filePath = path.join(dir, 'recordings.json');
+    const request = { model: 'yes', prompt: 'Will it replay?', maxTokens: 500, temperature: 0.1 };
+    try {
+      let liveCalls = 0;
+      const live = async () => {
+        liveCalls++;
+        return { text: `live reply ${liveCalls}` };
+      };
+
+      const recorded = await new LLMRecorder('record', filePath).call('mock', request, live);
+      const replayed = await new LLMRecorder('playback', filePath).call('mock', request, live);
+
+      assert.equal(liveCalls, 1);
+      assert.deepEqual(replayed, recorded);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { resolveMarket } from '../src/markets/resolve';
+import { MemoryMarketStore } from '../src/markets/store';
+import { BINARY_MARKET } from '../src/oracle/outcomes';
+import { applyReputation } from '../src/reputation/consensus';
+import { MemoryReputationLedger } from '../src/reputation/ledger';
+import { marketOutcomeSamples, recordMarketOutcome } from '../src/reputation/record';
+import { calibrateConfidence, summarizeReputation } from '../src/reputation/score';
+import { ReputationSample } from '../src/reputation/types';
+
+const SETTINGS = { minSamples: 4, priorSamples: 2 };
+
+function sample(provider: string, marketId: string, correct: boolean, extra: Partial<ReputationSample> = {}): ReputationSample {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    marketId,
+    evaluationId: `eval-${marketId}`,
+    provider,
+    model: 'model',
+    confidence: 0.9,
+    correct,
+    ...extra
+  };
+}
+
+/**
+ * Four markets: "good" answered all of them right, "bad" half of them
+ */
+function history(): ReputationSample[] {
+  return ['m1', 'm2', 'm3', 'm4'].flatMap((marketId, index) => [
+    sample('good', marketId, true),
+    sample('bad', marketId, index % 2 === 0)
+  ]);
+}
+
+describe('summarizeReputation', () => {
+  test('ranks providers by accuracy shrunk towards the pooled accuracy', () => {
+    const board = summarizeReputation(history(), SETTINGS);
+
+    assert.equal(board.markets, 4);
+    assert.equal(board.samples, 8);
+    assert.equal(board.pooledAccuracy, 0.75);
+    assert.deepEqual(board.providers.map(reputation => reputation.provider), ['good', 'bad']);
+
+    const [good, bad] = board.providers;
+    assert.equal(good.accuracy, 1);
+    assert.equal(good.weight, (4 + 2 * 0.75) / 6);
+    assert.equal(bad.weight, (2 + 2 * 0.75) / 6);
+    assert.ok(Math.abs(bad.brierScore! - (0.01 + 0.81) / 2) < 1e-9);
+    assert.ok(Math.abs(bad.calibrationError! - 0.4) < 1e-9);
+    assert.equal(bad.bins[9].samples, 4);
+    assert.equal(good.calibrated, true);
+  });
+
+  test('scores a market finalized twice on its latest outcome only', () => {
+    const board = summarizeReputation([
+      sample('good', 'm1', false, { timestamp: '2026-01-01T00:00:00.000Z' }),
+      sample('good', 'm1', true, { timestamp: '2026-02-01T00:00:00.000Z' })
+    ], SETTINGS);
+
+    assert.equal(board.samples, 1);
+    assert.equal(board.providers[0].accuracy, 1);
+    assert.equal(board.providers[0].lastOutcomeAt, '2026-02-01T00:00:00.000Z');
+    assert.equal(board.providers[0].calibrated, false);
+  });
+
+  test('calibrates confidence towards how often the provider was right', () => {
+    const [, bad] = summarizeReputation(history(), SETTINGS).providers;
+
+    assert.ok(Math.abs(calibrateConfidence(bad, 0.9, SETTINGS) - (2 + 2 * 0.9) / 6) < 1e-9);
+    // Empty bins and uncalibrated providers keep the reported confidence
+    assert.equal(calibrateConfidence(bad, 0.3, SETTINGS), 0.3);
+    assert.equal(calibrateConfidence({ ...bad, calibrated: false }, 0.9, SETTINGS), 0.9);
+    assert.equal(calibrateConfidence(undefined, 0.9, SETTINGS), 0.9);
+  });
+});
+
+describe('applyReputation', () => {
+  test('fills in weights for the panel, keeping configured ones', async () => {
+    const ledger = new MemoryReputationLedger();
+    await ledger.record(history());
+    const panel = [
+      { provider: 'good', model: 'model' },
+      { provider: 'bad', model: 'model' },
+      { provider: 'new', model: 'model' }
+    ];
+
+    const { strategy } = await applyReputation({ name: 'reputation', weights: { bad: 5 } }, panel, ledger);
+    assert.deepEqual(Object.keys(strategy.weights!).sort(), ['bad', 'good/model', 'new/model']);
+    assert.equal(strategy.weights!.bad, 5);
+    assert.ok(strategy.weights!['good/model'] > 0.75);
+    assert.equal(strategy.weights!['new/model'], 0.75);
+  });
+
+  test('swaps reported confidence for calibrated confidence only when asked to', async () => {
+    const ledger = new MemoryReputationLedger();
+    await ledger.record(Array.from({ length: 20 }, (_, index) => sample('bad', `m${index}`, index % 2 === 0)));
+    const panel = [{ provider: 'bad', model: 'model' }];
+
+    const plain = await applyReputation({ name: 'majority' }, panel, ledger);
+    assert.equal(plain.confidence('bad', 'model', 0.9), 0.9);
+    assert.equal(plain.strategy.calibrate, undefined);
+
+    const calibrated = await applyReputation({ name: 'majority', calibrate: true }, panel, ledger);
+    assert.ok(calibrated.confidence('bad', 'model', 0.9) < 0.7);
+    assert.equal(calibrated.confidence('new', 'model', 0.9), 0.9);
+  });
+});
+
+describe('recordMarketOutcome', () => {
+  test('scores every answer against the verdict, once per market', async () => {
+    const store = new MemoryMarketStore();
+    const { id } = await store.create({ question: 'Will it be scored?', market: BINARY_MARKET });
+    const outcome = await resolveMarket(store, id, {
+      providers: [{ provider: 'mock', model: 'yes' }, { provider: 'mock', model: 'no' }, { provider: 'mock', model: 'yes:0.8' }],
+      strategy: { name: 'majority' },
+      skipEvidence: true
+    });
+    const market = outcome!.market;
+
+    const samples = marketOutcomeSamples(market, 0);
+    assert.deepEqual(samples.map(entry => [entry.model, entry.correct]), [['yes', true], ['no', false], ['yes:0.8', true]]);
+
+    const ledger = new MemoryReputationLedger();
+    await recordMarketOutcome(store, market, 0, ledger);
+    await recordMarketOutcome(store, market, 0, ledger);
+    assert.equal((await ledger.samples()).length, 3);
+    assert.ok((await store.get(id))?.scoredAt);
+    assert.equal((await ledger.samples({ model: 'no' })).length, 1);
+  });
+});
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { CachedEvaluation, RedisResponseCache, connectRedis } from '../src/cache/responseCache';
+
+// Nothing listens on port 1, so every connection attempt is refused
+const UNREACHABLE_REDIS_URL = 'redis://127.0.0.1:1';
+
+const CACHED: CachedEvaluation = {
+  evaluation: {
+    provider: 'mock',
+    model: 'yes',
+    rawResponse: '{}',
+    response: { optionATrue: true, optionBTrue: false, confidence: 0.9, reasoning: 'cached' },
+    parse: { structuredOutput: 'none', repaired: false, failures: [] }
+  },
+  cachedAt: new Date().toISOString()
+};
+
+describe('RedisResponseCache with Redis down', () => {
+  test('misses and skips writes straight away instead of waiting for a connection', { timeout: 5000 }, async () => {
+    const client = connectRedis(UNREACHABLE_REDIS_URL);
+    const cache = new RedisResponseCache(client);
+    try {
+      const startedAt = Date.now();
+      assert.equal(await cache.get('key'), null);
+      await cache.set('key', CACHED, 60000);
+      assert.equal(await cache.get('key'), null);
+      assert.ok(Date.now() - startedAt < 500, 'cache calls waited on Redis');
+    } finally {
+      await client.disconnect();
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { MarketScheduler, SchedulerOptions, parseProviderPanel } from '../src/markets/scheduler';
+import { MemoryMarketStore } from '../src/markets/store';
+import { BINARY_MARKET } from '../src/oracle/outcomes';
+
+const CLOSED = '2020-01-01T00:00:00.000Z';
+
+function schedulerOptions(models: string[], overrides: Partial<SchedulerOptions> = {}): SchedulerOptions {
+  return {
+    pollIntervalMs: 60 * 1000,
+    resolveDelayMs: 0,
+    maxAttempts: 2,
+    backoffMs: 60 * 1000,
+    backoffMaxMs: 10 * 60 * 1000,
+    stuckAfterMs: 10 * 60 * 1000,
+    providers: models.map(model => ({ provider: 'mock', model })),
+    strategy: { name: 'majority' },
+    ...overrides
+  };
+}
+
+describe('parseProviderPanel', () => {
+  test('reads provider:model pairs and rejects unknown providers', () => {
+    assert.deepEqual(parseProviderPanel(' mock:yes, mock:no:0.8 ,'), [
+      { provider: 'mock', model: 'yes' },
+      { provider: 'mock', model: 'no:0.8' }
+    ]);
+    assert.throws(() => parseProviderPanel('mock'), /expected provider:model/);
+    assert.throws(() => parseProviderPanel('acme:v1'), /Unsupported provider: acme/);
+  });
+});
+
+describe('MarketScheduler', () => {
+  test('closes a market past its close time and proposes a verdict', async () => {
+    const store = new MemoryMarketStore();
+    const market = await store.create({ question: 'Did it close?', market: BINARY_MARKET, closeTime: CLOSED });
+    const scheduler = new MarketScheduler(store, schedulerOptions(['yes', 'yes']));
+
+    await scheduler.tick();
+
+    const resolved = await store.get(market.id);
+    assert.equal(resolved?.status, 'proposed');
+    assert.equal(resolved?.resolutions.length, 1);
+    assert.equal(resolved?.job?.attempts, 1);
+  });
+
+  test('leaves markets open until they close', async () => {
+    const store = new MemoryMarketStore();
+    const market = await store.create({
+      question: 'Still trading?',
+      market: BINARY_MARKET,
+      closeTime: '2100-01-01T00:00:00.000Z'
+    });
+    const scheduler = new MarketScheduler(store, schedulerOptions(['yes']));
+
+    await scheduler.tick();
+
+    assert.equal((await store.get(market.id))?.status, 'open');
+    const [job] = await scheduler.listJobs();
+    assert.equal(job.state, 'upcoming');
+    assert.equal(job.dueAt, '2100-01-01T00:00:00.000Z');
+  });
+
+  test('backs off after NOT_YET_RESOLVABLE and reports the job stuck after the last attempt', async () => {
+    const store = new MemoryMarketStore();
+    const market = await store.create({ question: 'Has it happened yet?', market: BINARY_MARKET, closeTime: CLOSED });
+    const scheduler = new MarketScheduler(store, schedulerOptions(['not-yet', 'not-yet']));
+
+    const before = Date.now();
+    await scheduler.tick();
+
+    let job = (await store.get(market.id))?.job;
+    assert.equal(job?.attempts, 1);
+    assert.equal(job?.lastError, 'NOT_YET_RESOLVABLE (EVENT_NOT_OCCURRED)');
+    assert.ok(new Date(job!.nextAttemptAt!).getTime() >= before + 60 * 1000);
+    assert.equal((await scheduler.listJobs())[0].state, 'retrying');
+
+    // Not due again until the backoff has passed
+    await scheduler.tick();
+    assert.equal((await store.get(market.id))?.job?.attempts, 1);
+
+    await scheduler.tick(new Date(Date.now() + 2 * 60 * 1000));
+    job = (await store.get(market.id))?.job;
+    assert.equal(job?.attempts, 2);
+    assert.equal(job?.exhausted, true);
+    assert.equal((await scheduler.listJobs())[0].state, 'stuck');
+
+    await scheduler.retry(market.id);
+    assert.equal((await scheduler.listJobs())[0].state, 'due');
+  });
+
+  test('counts a market left resolving as an interrupted attempt', async () => {
+    const store = new MemoryMarketStore();
+    const market = await store.create({ question: 'Did the resolver crash?', market: BINARY_MARKET, closeTime: CLOSED });
+    await store.update(market.id, { status: 'resolving' });
+    const scheduler = new MarketScheduler(store, schedulerOptions([]));
+
+    assert.equal((await scheduler.listJobs())[0].state, 'resolving');
+
+    const later = new Date(Date.now() + 11 * 60 * 1000);
+    assert.equal((await scheduler.listJobs(later))[0].state, 'stuck');
+
+    const withPanel = new MarketScheduler(store, schedulerOptions(['yes']));
+    await withPanel.tick(later);
+    const recovered = await store.get(market.id);
+    assert.equal(recovered?.status, 'pending');
+    assert.equal(recovered?.job?.lastError, 'Resolution interrupted');
+  });
+});
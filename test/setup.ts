@@ -0,0 +1,20 @@
+/**
+ * Loaded before every test file (see the "test" script): in-memory stores, no response
+ * cache and the mock provider, so tests run offline and leave nothing on disk.
+ * A test file can still set its own values before first use.
+ */
+const TEST_ENV: Record<string, string> = {
+  RESPONSE_CACHE: 'off',
+  CLIENT_STORE: 'memory',
+  MARKET_STORE: 'memory',
+  AUDIT_LOG: 'memory',
+  USAGE_LEDGER: 'memory',
+  JOB_STORE: 'memory',
+  REPUTATION_LEDGER: 'memory',
+  ORACLE_MOCK_PROVIDER: 'true',
+  LLM_RECORD_MODE: 'off'
+};
+
+for (const [name, value] of Object.entries(TEST_ENV)) {
+  process.env[name] = value;
+}
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseConsensusBody } from '../src/api/consensusBody';
+import { applyConsensusStrategy, parseConsensusStrategy } from '../src/oracle/strategies';
+
+const FALLBACK = { name: 'majority' as const };
+
+describe('parseConsensusStrategy names', () => {
+  test('accepts every listed strategy, by name or config', () => {
+    assert.deepEqual(parseConsensusStrategy('supermajority', FALLBACK), { name: 'supermajority' });
+    assert.equal(parseConsensusStrategy({ name: 'confidence-weighted' }, FALLBACK).name, 'confidence-weighted');
+    assert.equal(parseConsensusStrategy(undefined, FALLBACK), FALLBACK);
+  });
+
+  test('rejects names inherited from Object.prototype', () => {
+    for (const name of ['toString', 'constructor', '__proto__', 'hasOwnProperty', 'unanimous']) {
+      assert.throws(() => parseConsensusStrategy(name, FALLBACK), /Unknown consensus strategy/, name);
+      assert.throws(() => parseConsensusStrategy({ name }, FALLBACK), /Unknown consensus strategy/, name);
+    }
+  });
+});
+
+describe('parseConsensusStrategy required', () => {
+  test('accepts a positive vote count for supermajority', () => {
+    assert.equal(parseConsensusStrategy({ name: 'supermajority', required: 2 }, FALLBACK).required, 2);
+  });
+
+  test('rejects it for strategies that do not count votes against it', () => {
+    for (const name of ['majority', 'confidence-weighted', 'weighted', 'reputation']) {
+      assert.throws(
+        () => parseConsensusStrategy({ name, required: 1 }, FALLBACK),
+        /required only applies to the supermajority strategy/,
+        name
+      );
+    }
+  });
+
+  test('rejects counts that are not positive integers', () => {
+    for (const required of [0, -1, 1.5, '2', Number.NaN]) {
+      assert.throws(
+        () => parseConsensusStrategy({ name: 'supermajority', required }, FALLBACK),
+        /required must be a positive integer/,
+        String(required)
+      );
+    }
+  });
+});
+
+describe('parseConsensusStrategy weights', () => {
+  test('accepts non-negative weights by provider or provider/model', () => {
+    const config = parseConsensusStrategy({ name: 'weighted', weights: { openai: 2, 'gemini/gemini-1.5-flash': 0 } }, FALLBACK);
+    assert.deepEqual(config.weights, { openai: 2, 'gemini/gemini-1.5-flash': 0 });
+  });
+
+  test('rejects weights that would make the tally meaningless', () => {
+    for (const weights of [
+      { openai: '2' },
+      { openai: Number.NaN },
+      { openai: Number.POSITIVE_INFINITY },
+      { openai: -1 },
+      [1, 2],
+      'openai',
+      null
+    ]) {
+      assert.throws(
+        () => parseConsensusStrategy({ name: 'weighted', weights }, FALLBACK),
+        /weights must be an object/,
+        JSON.stringify(weights)
+      );
+    }
+  });
+
+  test('surfaces as a validation error on consensus requests', () => {
+    assert.throws(
+      () => parseConsensusBody({
+        prompt: 'Will it rain?',
+        providers: [{ provider: 'mock', model: 'yes' }],
+        strategy: { name: 'weighted', weights: { mock: 'heavy' } }
+      }),
+      /weights must be an object/
+    );
+  });
+});
+
+describe('applyConsensusStrategy', () => {
+  const vote = (provider: string, model: string, optionATrue: boolean, confidence = 0.9) => ({
+    provider,
+    model,
+    response: { optionATrue, optionBTrue: !optionATrue, confidence, reasoning: '' }
+  });
+
+  test('holds a supermajority to its threshold, or to a required vote count', () => {
+    const votes = [vote('openai', 'gpt-4', true), vote('gemini', 'pro', true), vote('anthropic', 'haiku', false)];
+
+    assert.equal(applyConsensusStrategy(votes, { name: 'majority' }).winningOption, 0);
+
+    const strict = applyConsensusStrategy(votes, { name: 'supermajority', threshold: 0.75 });
+    assert.equal(strict.verdict, 'AMBIGUOUS');
+    assert.equal(strict.reasonCode, 'NO_CONSENSUS');
+    assert.equal(strict.winningOption, null);
+
+    const twoOfThree = applyConsensusStrategy(votes, { name: 'supermajority', required: 2 });
+    assert.equal(twoOfThree.verdict, 'RESOLVED');
+    assert.equal(twoOfThree.strategy.required, 2);
+  });
+
+  test('weighs votes by confidence and drops those below the minimum', () => {
+    const tally = applyConsensusStrategy(
+      [vote('openai', 'gpt-4', true, 0.95), vote('gemini', 'pro', false, 0.75), vote('deepseek', 'chat', false, 0.5)],
+      { name: 'confidence-weighted' }
+    );
+
+    assert.equal(tally.validVotes.length, 2);
+    assert.deepEqual(tally.votes, { optionA: 1, optionB: 1 });
+    assert.equal(tally.winningOption, 0);
+    assert.ok(Math.abs(tally.weightedVotes.optionA - 0.95) < 1e-9);
+    assert.ok(Math.abs(tally.confidence - 0.85) < 1e-9);
+  });
+
+  test('weighs votes by provider, preferring a provider/model weight', () => {
+    const tally = applyConsensusStrategy(
+      [vote('openai', 'gpt-4', true), vote('gemini', 'pro', false), vote('gemini', 'flash', false)],
+      { name: 'weighted', weights: { openai: 3, 'gemini/flash': 0.5 } }
+    );
+
+    assert.equal(tally.verdict, 'RESOLVED');
+    assert.equal(tally.winningOption, 0);
+    assert.deepEqual(tally.weightedVotes, { optionA: 3, optionB: 1.5 });
+  });
+});
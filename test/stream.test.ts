@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { after, before, describe, test } from 'node:test';
+import express from 'express';
+import { createConsensusStreamRoutes } from '../src/api/stream';
+import { CLIENT_SCOPES, ClientIdentity } from '../src/clients/types';
+
+interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+function parseEvents(text: string): StreamEvent[] {
+  return text
+    .split('\n\n')
+    .filter(block => block.startsWith('event: '))
+    .map(block => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+    });
+}
+
+describe('POST /oracle/consensus/stream', () => {
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      res.locals.client = {
+        tenant: { id: 'tenant-a', name: 'tenant-a', rateLimit: {}, budget: {}, createdAt: '', updatedAt: '' },
+        key: { id: 'key', name: 'key', scopes: CLIENT_SCOPES }
+      } as ClientIdentity;
+      next();
+    });
+    app.use('/oracle/consensus/stream', createConsensusStreamRoutes((req, res, next) => next()));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oracle/consensus/stream`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  function stream(body: unknown) {
+    return fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  }
+
+  test('streams each provider as it finishes, then the consensus', async () => {
+    const response = await stream({
+      prompt: 'Will the stream finish?',
+      providers: [
+        { provider: 'mock', model: 'yes' },
+        { provider: 'mock', model: 'yes:0.9@20' },
+        { provider: 'mock', model: 'no:0.5' },
+        { provider: 'mock', model: 'http-500' }
+      ]
+    });
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type') || '', /text\/event-stream/);
+
+    const events = parseEvents(await response.text());
+    assert.equal(events[0].event, 'start');
+    assert.equal(events[0].data.providers.length, 4);
+    assert.equal(events.filter(event => event.event === 'provider.started').length, 4);
+
+    const results = Object.fromEntries(events
+      .filter(event => /^provider\.(completed|filtered|error|skipped)$/.test(event.event))
+      .map(event => [event.data.index, event.event]));
+    assert.deepEqual(results, {
+      0: 'provider.completed',
+      1: 'provider.completed',
+      2: 'provider.filtered',
+      3: 'provider.error'
+    });
+
+    const last = events[events.length - 1];
+    assert.equal(last.event, 'consensus');
+    assert.equal(last.data.verdict, 'RESOLVED');
+    assert.equal(last.data.winningOption, 0);
+  });
+
+  test('ends with an error event when no provider answers', async () => {
+    const events = parseEvents(await (await stream({
+      prompt: 'Will anyone answer?',
+      providers: [{ provider: 'mock', model: 'http-500' }]
+    })).text());
+
+    const last = events[events.length - 1];
+    assert.equal(last.event, 'error');
+    assert.equal(last.data.error, 'No valid responses from providers');
+  });
+
+  test('rejects invalid bodies before opening the stream', async () => {
+    const missing = await stream({ prompt: 'Who answers?' });
+    assert.equal(missing.status, 400);
+    assert.match(((await missing.json()) as { error: string }).error, /Missing required fields/);
+
+    const response = await stream({
+      prompt: 'Which strategy?',
+      providers: [{ provider: 'mock', model: 'yes' }],
+      strategy: 'unanimous'
+    });
+    assert.equal(response.status, 400);
+    assert.match(((await response.json()) as { error: string }).error, /Unknown consensus strategy/);
+  });
+});
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { runConsensus } from '../src/oracle/consensus';
+import { BINARY_MARKET } from '../src/oracle/outcomes';
+import { renderPredictionPrompt } from '../src/oracle/prompt';
+import {
+  getPromptTemplate,
+  parseMarketCategory,
+  parseResolutionFields,
+  parseTemplateSelector,
+  registerPromptTemplate,
+  templateForCategory
+} from '../src/prompts/library';
+import { renderTemplate, templatePlaceholders } from '../src/prompts/render';
+
+describe('renderTemplate', () => {
+  test('fills placeholders and picks sections by whether a value is set', () => {
+    const template = 'Q: {{question}}{{#if deadline}} by {{deadline}}{{else}} (no deadline){{/if}}';
+
+    assert.equal(renderTemplate(template, { question: 'Will it ship?', deadline: '2026-01-01' }), 'Q: Will it ship? by 2026-01-01');
+    assert.equal(renderTemplate(template, { question: 'Will it ship?', deadline: '' }), 'Q: Will it ship? (no deadline)');
+    assert.equal(renderTemplate('{{missing}}|{{zero}}', { zero: 0 }), '|0');
+  });
+
+  test('never expands placeholders inside values', () => {
+    assert.equal(renderTemplate('Q: {{question}}', { question: 'Say {{answer}}', answer: 'YES' }), 'Q: Say {{answer}}');
+  });
+
+  test('lists the placeholders a template uses', () => {
+    assert.deepEqual(templatePlaceholders('{{a}} {{#if b}}{{c}}{{else}}{{a}}{{/if}}'), ['a', 'b', 'c']);
+  });
+});
+
+describe('prompt template library', () => {
+  test('finds the latest or a pinned version, and falls back to the general template', () => {
+    assert.equal(getPromptTemplate({ id: 'price', version: 1 })?.version, 1);
+    assert.equal(getPromptTemplate({ id: 'price' })?.version, 2);
+    assert.equal(getPromptTemplate({ id: 'price', version: 99 }), undefined);
+    assert.equal(templateForCategory('sports').id, 'sports');
+    assert.equal(templateForCategory().id, 'general');
+  });
+
+  test('keeps registered versions immutable', () => {
+    const template = {
+      id: 'test-weather',
+      version: 1,
+      category: 'general' as const,
+      description: 'Weather markets',
+      template: 'Weather: {{question}}',
+      createdAt: '2026-01-01T00:00:00.000Z'
+    };
+    registerPromptTemplate(template);
+
+    assert.throws(() => registerPromptTemplate(template), /already registered/);
+    assert.throws(() => registerPromptTemplate({ ...template, version: 0 }), /positive integer/);
+    assert.equal(getPromptTemplate({ id: 'test-weather' })?.template, 'Weather: {{question}}');
+  });
+
+  test('parses template selectors, categories and resolution fields from request bodies', () => {
+    assert.deepEqual(parseTemplateSelector('price@1'), { id: 'price', version: 1 });
+    assert.deepEqual(parseTemplateSelector({ id: 'sports' }), { id: 'sports', version: undefined });
+    assert.throws(() => parseTemplateSelector('price@99'), /Unknown prompt template: price v99/);
+    assert.throws(() => parseTemplateSelector(42), /template must be/);
+
+    assert.equal(parseMarketCategory('politics'), 'politics');
+    assert.throws(() => parseMarketCategory('weather'), /category must be one of/);
+
+    assert.deepEqual(parseResolutionFields({ source: 'CoinGecko', deadline: '2026-12-31', edgeCases: [] }), {
+      source: 'CoinGecko',
+      deadline: '2026-12-31T00:00:00.000Z',
+      edgeCases: undefined
+    });
+    assert.throws(() => parseResolutionFields({ deadline: 'soon' }), /ISO 8601/);
+    assert.throws(() => parseResolutionFields({ edgeCases: [1] }), /array of strings/);
+    assert.throws(() => parseResolutionFields([]), /must be an object/);
+  });
+});
+
+describe('renderPredictionPrompt', () => {
+  test('renders the category template with the structured resolution fields', () => {
+    const { prompt, template } = renderPredictionPrompt({
+      question: 'Will BTC close above 100k?',
+      market: BINARY_MARKET,
+      category: 'price',
+      resolution: {
+        source: 'CoinGecko BTC/USD daily close',
+        deadline: '2026-12-31T00:00:00.000Z',
+        edgeCases: ['An exchange outage does not count']
+      }
+    });
+
+    assert.deepEqual(template, { id: 'price', version: 2 });
+    assert.match(prompt, /resolving a price market/);
+    assert.match(prompt, /Resolution source: CoinGecko BTC\/USD daily close/);
+    assert.match(prompt, /Deadline: 2026-12-31T00:00:00.000Z/);
+    assert.match(prompt, /Edge cases:\n- An exchange outage does not count/);
+    assert.doesNotMatch(prompt, /\{\{/);
+  });
+
+  test('uses a pinned template version over the category', () => {
+    const { prompt, template } = renderPredictionPrompt({
+      question: 'Will the match be played?',
+      market: BINARY_MARKET,
+      category: 'sports',
+      template: { id: 'general', version: 1 }
+    });
+
+    assert.deepEqual(template, { id: 'general', version: 1 });
+    assert.doesNotMatch(prompt, /<<<MARKET>>>/);
+    assert.doesNotMatch(prompt, /Deadline:/);
+  });
+
+  test('records the template on the consensus result', async () => {
+    const result = await runConsensus({
+      prompt: 'Will the template be recorded?',
+      template: { id: 'general', version: 2 },
+      providers: [{ provider: 'mock', model: 'yes' }],
+      strategy: { name: 'majority' }
+    });
+    assert.deepEqual(result.template, { id: 'general', version: 2 });
+
+    const untemplated = await runConsensus({
+      prompt: 'Was a template used?',
+      providers: [{ provider: 'mock', model: 'yes' }],
+      strategy: { name: 'majority' }
+    });
+    assert.equal(untemplated.template, null);
+  });
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { runConsensus } from '../src/oracle/consensus';
+import { MemoryUsageLedger, getUsageLedger } from '../src/usage/ledger';
+import { findModelPrice, priceUsage } from '../src/usage/pricing';
+import { UsageRecord } from '../src/usage/types';
+
+// Read when the price table is first used
+process.env.ORACLE_PRICE_TABLE = JSON.stringify({
+  'mock/*': { input: 1, output: 2 },
+  'mock/yes': { input: 10, output: 20 },
+  'shared-model': { input: 5, output: 5 }
+});
+
+function usageRecord(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    timestamp: '2024-03-01T12:00:00.000Z',
+    evaluationId: 'eval',
+    tenantId: 'tenant-a',
+    provider: 'openai',
+    model: 'gpt-4o',
+    promptTokens: 100,
+    completionTokens: 50,
+    totalTokens: 150,
+    costUsd: 0.01,
+    priced: true,
+    ...overrides
+  };
+}
+
+describe('pricing', () => {
+  test('prefers provider/model, then a bare model, then provider/*', () => {
+    assert.deepEqual(findModelPrice('mock', 'yes'), { input: 10, output: 20 });
+    assert.deepEqual(findModelPrice('mock', 'shared-model'), { input: 5, output: 5 });
+    assert.deepEqual(findModelPrice('mock', 'no'), { input: 1, output: 2 });
+    assert.deepEqual(findModelPrice('openai', 'gpt-4o'), { input: 2.5, output: 10 });
+    assert.equal(findModelPrice('openai', 'unlisted'), undefined);
+  });
+
+  test('prices reported tokens per million, and unlisted models at zero', () => {
+    assert.deepEqual(priceUsage('openai', 'gpt-4', { promptTokens: 1000, completionTokens: 500 }), {
+      promptTokens: 1000,
+      completionTokens: 500,
+      totalTokens: 1500,
+      costUsd: 0.06,
+      priced: true
+    });
+    assert.equal(priceUsage('openai', 'unlisted', { promptTokens: 10, completionTokens: 10 })?.priced, false);
+    assert.equal(priceUsage('openai', 'gpt-4', undefined), undefined);
+  });
+});
+
+describe('usage ledger', () => {
+  test('reports totals by tenant, market and provider within a filter', async () => {
+    const ledger = new MemoryUsageLedger();
+    await ledger.record([
+      usageRecord({ marketId: 'market-1' }),
+      usageRecord({ tenantId: 'tenant-b', provider: 'gemini', model: 'gemini-1.5-pro', costUsd: 0.02 }),
+      usageRecord({ timestamp: '2024-04-01T00:00:00.000Z', marketId: 'market-1' })
+    ]);
+
+    const march = await ledger.report({ from: new Date('2024-03-01'), to: new Date('2024-04-01') });
+    assert.equal(march.totals.calls, 2);
+    assert.equal(march.totals.totalTokens, 300);
+    assert.ok(Math.abs(march.totals.costUsd - 0.03) < 1e-9);
+    assert.deepEqual(Object.keys(march.byTenant).sort(), ['tenant-a', 'tenant-b']);
+    assert.deepEqual(Object.keys(march.byMarket).sort(), ['market-1', 'unregistered']);
+    assert.equal(march.byProvider['gemini/gemini-1.5-pro'].calls, 1);
+
+    const tenant = await ledger.report({ tenantId: 'tenant-a' });
+    assert.equal(tenant.totals.calls, 2);
+    assert.equal(tenant.byMarket['market-1'].calls, 2);
+  });
+
+  test('records every priced call of a consensus request', async () => {
+    const result = await runConsensus({
+      prompt: 'Who pays for this?',
+      providers: [{ provider: 'mock', model: 'yes' }, { provider: 'mock', model: 'no' }],
+      strategy: { name: 'majority' },
+      tenantId: 'tenant-billing',
+      marketId: 'market-billing'
+    });
+
+    const report = await getUsageLedger().report({ tenantId: 'tenant-billing' });
+    assert.equal(report.totals.calls, 2);
+    assert.equal(report.totals.totalTokens, result.usage.totalTokens);
+    assert.ok(Math.abs(report.totals.costUsd - result.usage.costUsd) < 1e-12);
+    assert.ok(report.byProvider['mock/yes'].costUsd > report.byProvider['mock/no'].costUsd);
+    assert.equal(report.byMarket['market-billing'].calls, 2);
+  });
+});
@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { after, before, describe, test } from 'node:test';
+import express from 'express';
+import { CredentialVault, openCredentials, sealCredentials } from '../src/credentials/vault';
+import { registerLLMAdapter } from '../src/llm/registry';
+
+const LEAKED_KEY = 'leaky-vault-key-0123456789';
+const BOOTSTRAP_KEY = 'test-bootstrap-key';
+
+// Read by the vault when it is first used, so set before any request
+process.env.LEAKY_API_KEY = LEAKED_KEY;
+process.env.ELIZAOS_API_KEY = BOOTSTRAP_KEY;
+
+// A provider whose errors echo the key it was called with, as some gateways do
+registerLLMAdapter({
+  name: 'leaky',
+  requiresApiKey: true,
+  buildRequest: () => ({ endpoint: 'leaky://', headers: {}, body: {} }),
+  parseResponse: () => ({ text: '' }),
+  async complete(request) {
+    throw new Error(`leaky API error: 401 key ${request.apiKey} was rejected`);
+  }
+});
+
+describe('CredentialVault', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-'));
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('hands out env keys round-robin', () => {
+    const vault = new CredentialVault({
+      env: {
+        OPENAI_API_KEY: 'sk-first-key-0000000000',
+        OPENAI_API_KEYS: 'sk-second-key-000000000, sk-first-key-0000000000'
+      }
+    });
+
+    assert.deepEqual(
+      [1, 2, 3].map(() => vault.resolveKey('openai', 'openai')),
+      ['sk-first-key-0000000000', 'sk-second-key-000000000', 'sk-first-key-0000000000']
+    );
+    assert.deepEqual(vault.list(), [
+      { name: 'openai', provider: 'openai', source: 'env', keys: ['sk-…0000', 'sk-…0000'] }
+    ]);
+    assert.throws(() => vault.resolveKey('openai', 'gemini'), /is for provider openai, not gemini/);
+    assert.throws(() => vault.resolveKey('missing', 'openai'), /Unknown credential: missing/);
+  });
+
+  test('redacts known keys and anything shaped like one', () => {
+    const vault = new CredentialVault({ env: { OLLAMA_API_KEY: 'plain-secret' } });
+
+    assert.equal(
+      vault.redact('plain-secret failed; also sk-abcdefghijklmnopqrst and https://x.test/?key=abc123&q=1'),
+      '[REDACTED] failed; also [REDACTED] and https://x.test/?key=[REDACTED]&q=1'
+    );
+    assert.equal(vault.redact('Authorization: Bearer abcdefgh12345'), 'Authorization: Bearer [REDACTED]');
+  });
+
+  test('seals the credential file so only the passphrase opens it', () => {
+    const contents = { credentials: [{ name: 'team', provider: 'openai', keys: ['k1'] }] };
+    const sealed = sealCredentials(contents, 'correct horse');
+
+    assert.ok(!JSON.stringify(sealed).includes('k1'));
+    assert.deepEqual(openCredentials(sealed, 'correct horse'), contents);
+    assert.throws(() => openCredentials(sealed, 'wrong'), /Could not decrypt credential file/);
+  });
+
+  test('rotates keys into the file and keeps redacting the old ones', async () => {
+    const filePath = path.join(dir, 'credentials.json');
+    const vault = new CredentialVault({ filePath, passphrase: 'rotate-me', env: {} });
+
+    await vault.rotate('team', 'anthropic', ['old-team-key']);
+    assert.equal(vault.resolveKey('team', 'anthropic'), 'old-team-key');
+
+    const summary = await vault.rotate('team', 'anthropic', ['new-team-key-1', 'new-team-key-2']);
+    assert.equal(summary.source, 'file');
+    assert.equal(vault.resolveKey('team', 'anthropic'), 'new-team-key-1');
+    assert.equal(vault.redact('old-team-key'), '[REDACTED]');
+
+    const reopened = new CredentialVault({ filePath, passphrase: 'rotate-me', env: {} });
+    assert.equal(reopened.resolveKey('team', 'anthropic'), 'new-team-key-1');
+    await assert.rejects(vault.rotate('team', 'anthropic', []), /keys must be a non-empty array/);
+    await assert.rejects(new CredentialVault({ env: {} }).rotate('team', 'anthropic', ['k']), /Key rotation needs/);
+  });
+});
+
+describe('audit entries for failed calls', () => {
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    const { createOracleAPI } = await import('../src/api/oracle');
+    const app = express();
+    app.use(createOracleAPI());
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oracle`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  async function post(path: string, body: unknown) {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { authorization: `Bearer ${BOOTSTRAP_KEY}`, 'content-type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  }
+
+  async function trailErrors(evaluationId: string): Promise<string[]> {
+    const response = await fetch(`${baseUrl}/audit/evaluations/${evaluationId}`, {
+      headers: { authorization: `Bearer ${BOOTSTRAP_KEY}` }
+    });
+    assert.equal(response.status, 200);
+    const { entries } = (await response.json()) as { entries: { data: { error?: string } }[] };
+    return entries.map(entry => entry.data.error).filter((error): error is string => !!error);
+  }
+
+  test('redact vault keys on consensus entries', async () => {
+    const response = await post('/consensus', {
+      prompt: 'Will the key stay secret?',
+      providers: [{ provider: 'leaky', model: 'any' }, { provider: 'mock', model: 'yes' }]
+    });
+    const { evaluationId } = (await response.json()) as { evaluationId: string };
+
+    const errors = await trailErrors(evaluationId);
+    assert.equal(errors.length, 1);
+    assert.ok(errors[0].includes('[REDACTED]'));
+    assert.ok(!errors[0].includes(LEAKED_KEY));
+  });
+
+  test('redact vault keys on /oracle/evaluate entries', async () => {
+    // A failed evaluation doesn't return its id, so note the one the route appends under
+    const { getAuditLog } = await import('../src/audit/log');
+    const auditLog = getAuditLog();
+    const append = auditLog.append.bind(auditLog);
+    let evaluationId = '';
+    auditLog.append = (id, type, data) => {
+      evaluationId = id;
+      return append(id, type, data);
+    };
+
+    const response = await post('/evaluate', {
+      prompt: 'Will the key stay secret?',
+      provider: 'leaky',
+      model: 'any'
+    });
+    assert.equal(response.status, 500);
+
+    const errors = await trailErrors(evaluationId);
+    assert.equal(errors.length, 1);
+    assert.ok(errors[0].includes('[REDACTED]'));
+    assert.ok(!errors[0].includes(LEAKED_KEY));
+  });
+});
+
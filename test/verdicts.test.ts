@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { runConsensus } from '../src/oracle/consensus';
+import { parseOracleResponse } from '../src/oracle/parser';
+import { ProviderCall } from '../src/oracle/types';
+import { isResolutionStatus, normalizeReasonCode } from '../src/oracle/verdicts';
+
+function panel(...models: string[]): ProviderCall[] {
+  return models.map(model => ({ provider: 'mock', model }));
+}
+
+describe('reason codes', () => {
+  test('keeps known codes for the status and marks the rest UNSPECIFIED', () => {
+    assert.equal(normalizeReasonCode('INVALID', ' unverifiable '), 'UNVERIFIABLE');
+    assert.equal(normalizeReasonCode('INVALID', 'DEADLINE_NOT_REACHED'), 'UNSPECIFIED');
+    assert.equal(normalizeReasonCode('AMBIGUOUS', undefined), 'UNSPECIFIED');
+    assert.equal(normalizeReasonCode('RESOLVED', 'UNVERIFIABLE'), null);
+  });
+
+  test('recognizes only the four resolution statuses', () => {
+    assert.equal(isResolutionStatus('NOT_YET_RESOLVABLE'), true);
+    assert.equal(isResolutionStatus('resolved'), false);
+    assert.equal(isResolutionStatus('UNKNOWN'), false);
+  });
+});
+
+describe('parseOracleResponse statuses', () => {
+  test('reads a declined answer with its reason code', () => {
+    const response = parseOracleResponse(
+      '{"status": "not_yet_resolvable", "reasonCode": "deadline_not_reached", "optionATrue": true, "optionBTrue": false, "confidence": 0.9, "reasoning": "Too early"}'
+    );
+
+    assert.equal(response.status, 'NOT_YET_RESOLVABLE');
+    assert.equal(response.reasonCode, 'DEADLINE_NOT_REACHED');
+    assert.equal(response.optionATrue, false);
+  });
+
+  test('is AMBIGUOUS when both or neither option is picked', () => {
+    const both = parseOracleResponse('{"optionATrue": true, "optionBTrue": true, "confidence": 0.8, "reasoning": ""}');
+    assert.equal(both.status, 'AMBIGUOUS');
+    assert.equal(both.reasonCode, 'MULTIPLE_OUTCOMES_TRUE');
+
+    const neither = parseOracleResponse('{"optionATrue": false, "optionBTrue": false, "confidence": 0.8, "reasoning": ""}');
+    assert.equal(neither.status, 'AMBIGUOUS');
+    assert.equal(neither.reasonCode, 'NO_OPTION_SELECTED');
+  });
+
+  test('rejects statuses it does not know', () => {
+    assert.throws(
+      () => parseOracleResponse('{"status": "MAYBE", "optionATrue": true, "optionBTrue": false, "confidence": 0.8, "reasoning": ""}'),
+      /Unknown resolution status: MAYBE/
+    );
+  });
+});
+
+describe('runConsensus verdicts', () => {
+  test('returns the status and reason code most of the panel declined with', async () => {
+    const result = await runConsensus({
+      prompt: 'Has the launch happened?',
+      providers: panel('not-yet', 'not-yet', 'yes'),
+      strategy: { name: 'majority' }
+    });
+
+    assert.equal(result.verdict, 'NOT_YET_RESOLVABLE');
+    assert.equal(result.reasonCode, 'EVENT_NOT_OCCURRED');
+    assert.equal(result.winningOption, null);
+  });
+
+  test('has no reason code once an outcome wins', async () => {
+    const result = await runConsensus({
+      prompt: 'Is the question answerable?',
+      providers: panel('yes', 'yes', 'invalid'),
+      strategy: { name: 'majority' }
+    });
+
+    assert.equal(result.verdict, 'RESOLVED');
+    assert.equal(result.reasonCode, null);
+  });
+});